@@ -0,0 +1,2 @@
+ALTER TABLE "columns" ADD COLUMN "sort_order" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "tables" ADD COLUMN "sort_order" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
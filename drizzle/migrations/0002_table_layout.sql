@@ -0,0 +1,2 @@
+ALTER TABLE "tables" ADD COLUMN "width" real;--> statement-breakpoint
+ALTER TABLE "tables" ADD COLUMN "collapsed" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "enums" (
+	"id" text PRIMARY KEY NOT NULL,
+	"schema_id" text NOT NULL,
+	"name" text NOT NULL,
+	"values" text DEFAULT '[]' NOT NULL,
+	"note" text,
+	"sort_order" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "columns" ADD COLUMN "enum_id" text;--> statement-breakpoint
+ALTER TABLE "enums" ADD CONSTRAINT "enums_schema_id_schemas_id_fk" FOREIGN KEY ("schema_id") REFERENCES "public"."schemas"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
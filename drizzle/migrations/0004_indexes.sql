@@ -0,0 +1 @@
+ALTER TABLE "tables" ADD COLUMN "indexes" text DEFAULT '[]' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "relationships" ADD COLUMN "source_column_ids" text;--> statement-breakpoint
+ALTER TABLE "relationships" ADD COLUMN "target_column_ids" text;
\ No newline at end of file
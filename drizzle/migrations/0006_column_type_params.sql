@@ -0,0 +1,5 @@
+ALTER TABLE "columns" ADD COLUMN "length" integer;--> statement-breakpoint
+ALTER TABLE "columns" ADD COLUMN "precision" integer;--> statement-breakpoint
+ALTER TABLE "columns" ADD COLUMN "scale" integer;--> statement-breakpoint
+ALTER TABLE "columns" ADD COLUMN "array_element_type" text;--> statement-breakpoint
+ALTER TABLE "columns" ADD COLUMN "with_timezone" boolean;
\ No newline at end of file
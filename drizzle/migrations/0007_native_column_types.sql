@@ -0,0 +1,2 @@
+ALTER TABLE "columns" ADD COLUMN "native_type" text;--> statement-breakpoint
+ALTER TABLE "columns" ADD COLUMN "native_type_dialect" text;
\ No newline at end of file
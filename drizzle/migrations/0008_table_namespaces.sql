@@ -0,0 +1 @@
+ALTER TABLE "tables" ADD COLUMN "namespace" text;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "table_groups" (
+	"id" text PRIMARY KEY NOT NULL,
+	"schema_id" text NOT NULL,
+	"name" text NOT NULL,
+	"table_ids" text DEFAULT '[]' NOT NULL,
+	"note" text,
+	"color" text,
+	"position_x" real DEFAULT 0 NOT NULL,
+	"position_y" real DEFAULT 0 NOT NULL,
+	"width" real DEFAULT 0 NOT NULL,
+	"height" real DEFAULT 0 NOT NULL,
+	"collapsed" boolean DEFAULT false NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "table_groups" ADD CONSTRAINT "table_groups_schema_id_schemas_id_fk" FOREIGN KEY ("schema_id") REFERENCES "public"."schemas"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "sticky_notes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"schema_id" text NOT NULL,
+	"name" text NOT NULL,
+	"content" text DEFAULT '' NOT NULL,
+	"color" text,
+	"table_id" text,
+	"position_x" real DEFAULT 0 NOT NULL,
+	"position_y" real DEFAULT 0 NOT NULL,
+	"width" real DEFAULT 0 NOT NULL,
+	"height" real DEFAULT 0 NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sticky_notes" ADD CONSTRAINT "sticky_notes_schema_id_schemas_id_fk" FOREIGN KEY ("schema_id") REFERENCES "public"."schemas"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "schemas" ADD COLUMN "database_type" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "columns" ADD COLUMN "field_name" text;--> statement-breakpoint
+ALTER TABLE "tables" ADD COLUMN "model_name" text;
\ No newline at end of file
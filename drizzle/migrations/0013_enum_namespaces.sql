@@ -0,0 +1 @@
+ALTER TABLE "enums" ADD COLUMN "namespace" text;
\ No newline at end of file
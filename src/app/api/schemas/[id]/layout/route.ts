@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth-session";
+import { updateTableLayouts } from "@/db/repositories/schema-repository";
+
+/**
+ * Position-only save: writes the positions, sizes and collapsed state of
+ * tables, table groups and sticky notes without touching the schema content
+ * or its version.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await requireSession();
+    const { id } = await params;
+    const body = await request.json();
+    const { tables, groups = [], notes = [] } = body;
+
+    if (!Array.isArray(tables) || !Array.isArray(groups) || !Array.isArray(notes)) {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+    }
+
+    await updateTableLayouts(id, session.user.id, tables, groups, notes);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "Schema not found or access denied"
+    ) {
+      return NextResponse.json({ error: "Schema not found" }, { status: 404 });
+    }
+    console.error("Server error saving layout:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to save layout",
+      },
+      { status: 500 },
+    );
+  }
+}
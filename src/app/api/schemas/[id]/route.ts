@@ -6,7 +6,10 @@ import {
   updateSchemaMetadata,
   duplicateSchema,
   saveSchema,
+  applySchemaPatch,
 } from "@/db/repositories/schema-repository";
+import type { SchemaPatch } from "@/features/schema/utils/schema-patch.utils";
+import { SQL_DIALECTS } from "@/constants/schema";
 
 export async function GET(
   _request: NextRequest,
@@ -33,6 +36,18 @@ export async function GET(
   }
 }
 
+/**
+ * 409 response for a save based on a stale version, carrying the server copy
+ * so the client can resolve the conflict
+ */
+async function conflictResponse(id: string, userId: string) {
+  const schema = await getSchemaById(id, userId);
+  return NextResponse.json(
+    { error: "Version conflict", schema },
+    { status: 409 },
+  );
+}
+
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
@@ -41,25 +56,58 @@ export async function PUT(
     const session = await requireSession();
     const { id } = await params;
     const body = await request.json();
-    const { name, description, tables, relationships, action } = body;
+    const {
+      name,
+      description,
+      databaseType,
+      tables,
+      relationships,
+      enums,
+      groups,
+      notes,
+      action,
+      baseVersion,
+    } = body;
 
-    if (action === "metadata") {
-      await updateSchemaMetadata(id, session.user.id, { name, description });
-      return NextResponse.json({ success: true });
+    if (databaseType != null && !SQL_DIALECTS.includes(databaseType)) {
+      return NextResponse.json(
+        { error: `Unsupported database type: ${databaseType}` },
+        { status: 400 },
+      );
     }
 
-    if (tables && relationships) {
-      await saveSchema({
-        id,
-        userId: session.user.id,
+    if (action === "metadata") {
+      await updateSchemaMetadata(id, session.user.id, {
         name,
         description,
-        tables,
-        relationships,
+        databaseType,
       });
       return NextResponse.json({ success: true });
     }
 
+    if (tables && relationships) {
+      try {
+        const version = await saveSchema({
+          id,
+          userId: session.user.id,
+          name,
+          description,
+          databaseType,
+          tables,
+          relationships,
+          enums,
+          groups,
+          notes,
+          baseVersion,
+        });
+        return NextResponse.json({ success: true, version });
+      } catch (error) {
+        if (error instanceof Error && error.message === "Version conflict")
+          return conflictResponse(id, session.user.id);
+        throw error;
+      }
+    }
+
     return NextResponse.json(
       { error: "Invalid request body" },
       { status: 400 },
@@ -79,6 +127,78 @@ export async function PUT(
   }
 }
 
+const PATCH_LISTS: (keyof SchemaPatch)[] = [
+  "upsertTables",
+  "deleteTableIds",
+  "upsertColumns",
+  "deleteColumnIds",
+  "upsertRelationships",
+  "deleteRelationshipIds",
+  "upsertEnums",
+  "deleteEnumIds",
+  "upsertGroups",
+  "deleteGroupIds",
+  "upsertNotes",
+  "deleteNoteIds",
+];
+
+/**
+ * Incremental save: applies the row upserts and deletes in a single
+ * transaction. The full PUT stays available as a fallback.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await requireSession();
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!PATCH_LISTS.every((key) => Array.isArray(body?.[key]))) {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+    }
+
+    try {
+      const version = await applySchemaPatch(
+        id,
+        session.user.id,
+        body as SchemaPatch,
+        body.baseVersion,
+      );
+      return NextResponse.json({ success: true, version });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Version conflict")
+        return conflictResponse(id, session.user.id);
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (
+      error instanceof Error &&
+      error.message === "Schema not found or access denied"
+    ) {
+      return NextResponse.json({ error: "Schema not found" }, { status: 404 });
+    }
+    if (error instanceof Error && error.message.startsWith("Invalid patch")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Server error patching schema:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to update schema",
+      },
+      { status: 500 },
+    );
+  }
+}
+
 export async function DELETE(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> },
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/auth-session";
+import {
+  getVersionById,
+  getSchemaById,
+} from "@/db/repositories/schema-repository";
+import { SQL_DIALECTS, type SQLDialect } from "@/constants/schema";
+import { exportMigrationSQL } from "@/lib/export/migration-exporter";
+import {
+  diffSchemas,
+  type SchemaSnapshot,
+} from "@/features/schema/utils/schema-diff.utils";
+
+/**
+ * Migration SQL from this version to `to`: another version ID, or "current"
+ * (the default) for the live schema.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> },
+) {
+  try {
+    const session = await requireSession();
+    const { id, versionId } = await params;
+    const userId = session.user.id;
+    const searchParams = request.nextUrl.searchParams;
+    const to = searchParams.get("to") || "current";
+    const dialect = (searchParams.get("dialect") || "postgresql") as SQLDialect;
+
+    if (!SQL_DIALECTS.includes(dialect)) {
+      return NextResponse.json(
+        { error: `Unsupported dialect: ${dialect}` },
+        { status: 400 },
+      );
+    }
+
+    const fromVersion = await getVersionById(versionId, userId);
+    if (!fromVersion || fromVersion.schemaId !== id)
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 },
+      );
+
+    const fromSnapshot: SchemaSnapshot = JSON.parse(fromVersion.snapshot);
+    const fromLabel =
+      fromVersion.label || `Version ${fromVersion.versionNumber}`;
+
+    let toSnapshot: SchemaSnapshot;
+    let toLabel: string;
+
+    if (to === "current") {
+      const schema = await getSchemaById(id, userId);
+      if (!schema)
+        return NextResponse.json(
+          { error: "Schema not found" },
+          { status: 404 },
+        );
+      toSnapshot = schema;
+      toLabel = "current schema";
+    } else {
+      const toVersion = await getVersionById(to, userId);
+      if (!toVersion || toVersion.schemaId !== id)
+        return NextResponse.json(
+          { error: "Target version not found" },
+          { status: 404 },
+        );
+      toSnapshot = JSON.parse(toVersion.snapshot);
+      toLabel = toVersion.label || `Version ${toVersion.versionNumber}`;
+    }
+
+    const sql = exportMigrationSQL(fromSnapshot, toSnapshot, dialect, {
+      fromLabel,
+      toLabel,
+    });
+
+    return NextResponse.json({
+      sql,
+      hasChanges: diffSchemas(fromSnapshot, toSnapshot).hasChanges,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    console.error("Server error generating migration:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to generate migration",
+      },
+      { status: 500 },
+    );
+  }
+}
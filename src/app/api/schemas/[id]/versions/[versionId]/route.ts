@@ -7,6 +7,42 @@ import {
   createVersion,
 } from "@/db/repositories/schema-repository";
 
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> },
+) {
+  try {
+    const session = await requireSession();
+    const { id, versionId } = await params;
+    const version = await getVersionById(versionId, session.user.id);
+    if (!version || version.schemaId !== id)
+      return NextResponse.json(
+        { error: "Version not found" },
+        { status: 404 },
+      );
+
+    const parsedSnapshot = JSON.parse(version.snapshot);
+    return NextResponse.json({
+      id: versionId,
+      versionNumber: version.versionNumber,
+      label: version.label,
+      tables: parsedSnapshot.tables,
+      relationships: parsedSnapshot.relationships,
+      enums: parsedSnapshot.enums ?? [],
+      groups: parsedSnapshot.groups ?? [],
+      notes: parsedSnapshot.notes ?? [],
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Unauthorized") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch version" },
+      { status: 500 },
+    );
+  }
+}
+
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; versionId: string }> },
@@ -34,13 +70,23 @@ export async function POST(
           { status: 404 },
         );
 
-      await saveSchema({
+      // Versions saved before the database type was part of the snapshot keep the current one
+      const databaseType =
+        parsedSnapshot.databaseType === undefined
+          ? schema.databaseType
+          : parsedSnapshot.databaseType ?? undefined;
+
+      const schemaVersion = await saveSchema({
         id,
         userId,
         name: schema.name,
         description: schema.description,
+        databaseType,
         tables: parsedSnapshot.tables,
         relationships: parsedSnapshot.relationships,
+        enums: parsedSnapshot.enums,
+        groups: parsedSnapshot.groups,
+        notes: parsedSnapshot.notes,
       });
 
       const newVersionId = await createVersion(
@@ -52,8 +98,13 @@ export async function POST(
       return NextResponse.json({
         success: true,
         newVersionId,
+        version: schemaVersion,
+        databaseType: databaseType ?? null,
         tables: parsedSnapshot.tables,
         relationships: parsedSnapshot.relationships,
+        enums: parsedSnapshot.enums ?? [],
+        groups: parsedSnapshot.groups ?? [],
+        notes: parsedSnapshot.notes ?? [],
       });
     }
 
@@ -17,15 +17,23 @@ interface ExportDialogProps {
 
 export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose }) => {
   const [selectedFormat, setSelectedFormat] = useState<ExportOptions['format']>('json');
-  const [sqlDialect, setSqlDialect] = useState<SQLDialect>('postgresql');
+  // The schema's database type is the default; a dialect picked here lasts until the dialog closes
+  const [pickedDialect, setPickedDialect] = useState<SQLDialect | null>(null);
   const [includePositions, setIncludePositions] = useState(true);
   const [includeDescriptions, setIncludeDescriptions] = useState(true);
   const [schemaName, setSchemaName] = useState('my-schema');
 
   const exportSchema = useSchema((state) => state.exportSchema);
+  const databaseType = useSchema((state) => state.databaseType);
+  const sqlDialect = pickedDialect ?? databaseType ?? 'postgresql';
 
   if (!isOpen) return null;
 
+  const handleClose = () => {
+    setPickedDialect(null);
+    onClose();
+  };
+
   const handleExport = () => {
     try {
       const schema = exportSchema();
@@ -70,7 +78,7 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose }) =
       }
 
       ExportManager.downloadFile(content, filename, mimeType);
-      onClose();
+      handleClose();
     } catch (error) {
       console.error('Export failed:', error);
       toast.error('Export failed. Please check the console for details.');
@@ -134,7 +142,7 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose }) =
                 Choose export format and options for your database schema
               </CardDescription>
             </div>
-            <Button variant="ghost" size="icon" onClick={onClose}>
+            <Button variant="ghost" size="icon" onClick={handleClose}>
               <X className="h-4 w-4" />
             </Button>
           </div>
@@ -186,7 +194,7 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose }) =
               <label className="text-sm font-medium mb-2 block">SQL Dialect</label>
               <select
                 value={sqlDialect}
-                onChange={(e) => setSqlDialect(e.target.value as SQLDialect)}
+                onChange={(e) => setPickedDialect(e.target.value as SQLDialect)}
                 className="w-full p-2 border rounded-md"
               >
                 {sqlDialects.map((dialect) => (
@@ -226,7 +234,7 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose }) =
 
           {/* Action Buttons */}
           <div className="flex gap-3 pt-4">
-            <Button variant="outline" onClick={onClose} className="flex-1">
+            <Button variant="outline" onClick={handleClose} className="flex-1">
               Cancel
             </Button>
             <Button onClick={handleExport} className="flex-1">
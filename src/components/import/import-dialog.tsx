@@ -6,6 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { toast } from "sonner"
 import { useSchema } from '@/hooks/use-schema';
 import { parseDjangoModels, validateDjangoModels } from '@/lib/import/django-importer';
+import { parseSqlDdl, validateSqlDdl, type SqlImportDialect } from '@/lib/import/sql-importer';
+import { parsePrismaSchema, validatePrismaSchema } from '@/lib/import/prisma-importer';
 import type { LayoutOptions } from '@/lib/layout/types';
 import { Upload, X, FileText, AlertCircle, CheckCircle, Settings, ChevronDown } from 'lucide-react';
 
@@ -15,10 +17,11 @@ interface ImportDialogProps {
 }
 
 export const ImportDialog: React.FC<ImportDialogProps> = ({ isOpen, onClose }) => {
-  const [selectedFormat, setSelectedFormat] = useState<'django' | 'json'>('django');
+  const [selectedFormat, setSelectedFormat] = useState<'django' | 'sql' | 'prisma' | 'json'>('django');
+  const [sqlDialect, setSqlDialect] = useState<SqlImportDialect>('postgresql');
   const [fileContent, setFileContent] = useState('');
   const [isDragging, setIsDragging] = useState(false);
-  const [validation, setValidation] = useState<{ valid: boolean; errors: string[] } | null>(null);
+  const [validation, setValidation] = useState<{ valid: boolean; errors: string[]; warnings?: string[] } | null>(null);
   const [isImporting, setIsImporting] = useState(false);
   const [showLayoutOptions, setShowLayoutOptions] = useState(false);
   const [layoutAlgorithm, setLayoutAlgorithm] = useState<LayoutOptions['algorithm']>('force-directed');
@@ -67,10 +70,14 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({ isOpen, onClose }) =
     }
   };
 
-  const validateContent = (content: string) => {
+  const validateContent = (content: string, dialect: SqlImportDialect = sqlDialect) => {
     if (selectedFormat === 'django') {
       const result = validateDjangoModels(content);
       setValidation(result);
+    } else if (selectedFormat === 'sql') {
+      setValidation(validateSqlDdl(content, dialect));
+    } else if (selectedFormat === 'prisma') {
+      setValidation(validatePrismaSchema(content));
     } else {
       // JSON validation
       try {
@@ -91,6 +98,13 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({ isOpen, onClose }) =
     }
   };
 
+  const handleDialectChange = (dialect: SqlImportDialect) => {
+    setSqlDialect(dialect);
+    if (fileContent.trim()) {
+      validateContent(fileContent, dialect);
+    }
+  };
+
   const handleImport = async () => {
     if (!fileContent.trim()) return;
 
@@ -101,6 +115,14 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({ isOpen, onClose }) =
 
       if (selectedFormat === 'django') {
         schema = parseDjangoModels(fileContent, { algorithm: layoutAlgorithm });
+      } else if (selectedFormat === 'sql' || selectedFormat === 'prisma') {
+        const result = selectedFormat === 'sql'
+          ? parseSqlDdl(fileContent, sqlDialect, { algorithm: layoutAlgorithm })
+          : parsePrismaSchema(fileContent, { algorithm: layoutAlgorithm });
+        schema = result.schema;
+        if (result.warnings.length > 0) {
+          toast.warning(`Imported with ${result.warnings.length} warning${result.warnings.length === 1 ? '' : 's'}. Some definitions were skipped.`);
+        }
       } else {
         // JSON import
         const data = JSON.parse(fileContent);
@@ -170,6 +192,62 @@ class PostWithM2M(models.Model):
     class Meta:
         db_table = 'posts_with_m2m'`;
 
+  const exampleSqlCode = `CREATE TABLE users (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE posts (
+  id SERIAL PRIMARY KEY,
+  author_id INTEGER NOT NULL,
+  title VARCHAR(200) NOT NULL,
+  body TEXT,
+  published BOOLEAN DEFAULT FALSE
+);
+
+ALTER TABLE posts
+  ADD CONSTRAINT fk_posts_author FOREIGN KEY (author_id) REFERENCES users (id) ON DELETE CASCADE;
+
+CREATE INDEX idx_posts_author ON posts (author_id);`;
+
+  const examplePrismaCode = `model User {
+  id        Int      @id @default(autoincrement())
+  email     String   @unique
+  name      String?
+  createdAt DateTime @default(now()) @map("created_at")
+  posts     Post[]
+
+  @@map("users")
+}
+
+model Post {
+  id       Int     @id @default(autoincrement())
+  title    String
+  content  String? @db.Text
+  authorId Int     @map("author_id")
+  author   User    @relation(fields: [authorId], references: [id], onDelete: Cascade)
+  tags     Tag[]
+
+  @@map("posts")
+}
+
+model Tag {
+  id    Int    @id @default(autoincrement())
+  name  String @unique
+  posts Post[]
+
+  @@map("tags")
+}`;
+
+  const exampleCode: Record<typeof selectedFormat, string> = {
+    django: exampleDjangoCode,
+    sql: exampleSqlCode,
+    prisma: examplePrismaCode,
+    json: '',
+  };
+
   const importFormats = [
     {
       value: 'django' as const,
@@ -177,6 +255,18 @@ class PostWithM2M(models.Model):
       description: 'Import from Django models.py file',
       icon: FileText,
     },
+    {
+      value: 'sql' as const,
+      label: 'SQL DDL',
+      description: 'Import from a PostgreSQL, MySQL or SQLite dump',
+      icon: FileText,
+    },
+    {
+      value: 'prisma' as const,
+      label: 'Prisma Schema',
+      description: 'Import from a schema.prisma file',
+      icon: FileText,
+    },
     {
       value: 'json' as const,
       label: 'JSON Schema',
@@ -217,7 +307,10 @@ class PostWithM2M(models.Model):
                         ? 'border-primary bg-primary/5'
                         : 'border-border hover:border-foreground/20'
                     }`}
-                    onClick={() => setSelectedFormat(format.value)}
+                    onClick={() => {
+                      setSelectedFormat(format.value);
+                      setValidation(null);
+                    }}
                   >
                     <div className="flex items-center gap-3">
                       <Icon className="h-5 w-5 text-primary" />
@@ -232,8 +325,24 @@ class PostWithM2M(models.Model):
             </div>
           </div>
 
-          {/* Layout Options for Django Import */}
-          {selectedFormat === 'django' && (
+          {/* SQL Dialect */}
+          {selectedFormat === 'sql' && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">SQL Dialect</label>
+              <select
+                value={sqlDialect}
+                onChange={(e) => handleDialectChange(e.target.value as SqlImportDialect)}
+                className="w-full p-2 border rounded-md bg-background text-sm"
+              >
+                <option value="postgresql">PostgreSQL</option>
+                <option value="mysql">MySQL</option>
+                <option value="sqlite">SQLite</option>
+              </select>
+            </div>
+          )}
+
+          {/* Layout Options for Django, SQL and Prisma Import */}
+          {selectedFormat !== 'json' && (
             <div>
               <div className="flex items-center justify-between mb-3">
                 <label className="text-sm font-medium">Layout Options</label>
@@ -295,7 +404,7 @@ class PostWithM2M(models.Model):
               </p>
               <input
                 type="file"
-                accept={selectedFormat === 'django' ? '.py' : '.json'}
+                accept={{ django: '.py', sql: '.sql', prisma: '.prisma', json: '.json' }[selectedFormat]}
                 onChange={handleFileUpload}
                 className="hidden"
                 id="file-upload"
@@ -313,11 +422,11 @@ class PostWithM2M(models.Model):
           <div>
             <div className="flex items-center justify-between mb-2">
               <label className="text-sm font-medium">Or paste your code directly:</label>
-              {selectedFormat === 'django' && (
+              {selectedFormat !== 'json' && (
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => handleContentChange(exampleDjangoCode)}
+                  onClick={() => handleContentChange(exampleCode[selectedFormat])}
                 >
                   Load Example
                 </Button>
@@ -328,7 +437,11 @@ class PostWithM2M(models.Model):
               onChange={(e) => handleContentChange(e.target.value)}
               placeholder={selectedFormat === 'django'
                 ? "Paste your Django models.py code here..."
-                : "Paste your JSON schema here..."
+                : selectedFormat === 'sql'
+                  ? "Paste your CREATE TABLE statements here..."
+                  : selectedFormat === 'prisma'
+                    ? "Paste your schema.prisma models here..."
+                    : "Paste your JSON schema here..."
               }
               className="w-full h-64 p-3 border rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
             />
@@ -361,6 +474,19 @@ class PostWithM2M(models.Model):
                   ))}
                 </ul>
               )}
+
+              {validation.valid && validation.warnings && validation.warnings.length > 0 && (
+                <div className="mt-2">
+                  <p className="text-sm text-muted-foreground">
+                    {validation.warnings.length} statement{validation.warnings.length === 1 ? '' : 's'} will be skipped or imported partially:
+                  </p>
+                  <ul className="mt-1 max-h-32 overflow-y-auto text-xs text-muted-foreground list-disc list-inside font-mono">
+                    {validation.warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           )}
 
@@ -16,6 +16,7 @@ import {
   Edit,
 } from 'lucide-react';
 import { Table as TableType, Relationship, Column } from '@/types/schema';
+import { getRelationshipColumnIds } from '@/features/schema/utils/schema.utils';
 
 interface ConnectionPanelProps {
   table: TableType;
@@ -44,10 +45,12 @@ export const ConnectionPanel: React.FC<ConnectionPanelProps> = ({
     return foundTable?.name || 'Unknown Table';
   };
 
-  const getColumnName = (tableId: string, columnId: string): string => {
+  // Composite keys list their columns comma-separated
+  const getColumnNames = (tableId: string, columnIds: string[]): string => {
     const foundTable = allTables.find(t => t.id === tableId);
-    const foundColumn = foundTable?.columns.find(c => c.id === columnId);
-    return foundColumn?.name || 'Unknown Column';
+    return columnIds
+      .map(columnId => foundTable?.columns.find(c => c.id === columnId)?.name || 'Unknown Column')
+      .join(', ');
   };
 
   const handleHighlight = (relId: string) => {
@@ -62,8 +65,9 @@ export const ConnectionPanel: React.FC<ConnectionPanelProps> = ({
   }> = ({ relationship, isIncoming }) => {
     const sourceTable = getTableName(relationship.sourceTableId);
     const targetTable = getTableName(relationship.targetTableId);
-    const sourceColumn = getColumnName(relationship.sourceTableId, relationship.sourceColumnId);
-    const targetColumn = getColumnName(relationship.targetTableId, relationship.targetColumnId);
+    const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(relationship);
+    const sourceColumn = getColumnNames(relationship.sourceTableId, sourceColumnIds);
+    const targetColumn = getColumnNames(relationship.targetTableId, targetColumnIds);
 
     return (
       <div
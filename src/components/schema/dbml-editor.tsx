@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useEffect, useRef, useState, useCallback } from "react";
-import { EditorState, Extension } from "@codemirror/state";
+import { EditorState, EditorSelection, Extension, ChangeSet, Text, Transaction } from "@codemirror/state";
 import { EditorView, lineNumbers, keymap, ViewUpdate } from "@codemirror/view";
 import {
   defaultKeymap,
@@ -14,7 +14,7 @@ import {
   dbmlFoldService,
   findFoldRanges,
 } from "@/lib/codemirror/dbml-language";
-import { lintGutter, setDiagnostics } from "@codemirror/lint";
+import { lintGutter, setDiagnostics, type Diagnostic } from "@codemirror/lint";
 import { closeBrackets, closeBracketsKeymap } from "@codemirror/autocomplete";
 import {
   bracketMatching,
@@ -36,8 +36,15 @@ import {
   replaceAll,
 } from "@codemirror/search";
 import { darkTheme, lightTheme } from "@/lib/codemirror/themes";
-import { dbmlAutocomplete } from "@/lib/codemirror/dbml-autocomplete";
-import type { ParseError } from "@/lib/dbml/dbml-parser";
+import { dbmlAutocomplete, type DbmlCompletionSchema } from "@/lib/codemirror/dbml-autocomplete";
+import { sourceHighlight, showSourceHighlight } from "@/lib/codemirror/source-highlight";
+import { dbmlNavigation, symbolAt } from "@/lib/codemirror/dbml-navigation";
+import { dbmlHover, type DbmlHoverSchema } from "@/lib/codemirror/dbml-hover";
+import { referencesTo, renameChanges, type DbmlOccurrence } from "@/lib/dbml/dbml-symbols";
+import type { DbmlDiagnostic } from "@/lib/dbml/dbml-lint";
+import { formatDbmlChanges, type DbmlFormatOptions } from "@/lib/dbml/dbml-formatter";
+import type { SourceRange } from "@/lib/dbml/dbml-source-map";
+import { SQL_DIALECT_LABELS, type SQLDialect } from "@/constants/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -49,29 +56,72 @@ import {
   Code2,
   CheckCircle2,
   AlertCircle,
+  TriangleAlert,
   Settings2,
   ChevronUp,
   ChevronDown,
   X,
+  Link2,
+  PenLine,
+  AlignLeft,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+interface ReferenceItem {
+  from: number;
+  to: number;
+  line: number;
+  text: string;
+}
+
+const referenceItem = (doc: Text, from: number, to: number): ReferenceItem => {
+  const line = doc.lineAt(from);
+  return { from, to, line: line.number, text: line.text.trim() };
+};
+
 interface DbmlEditorProps {
   value: string;
-  onChange: (val: string) => void;
-  errors: ParseError[];
+  /** `changes` maps positions in the previous text to the new one */
+  onChange: (val: string, changes: ChangeSet) => void;
+  /** Parse errors and lint warnings, with their quick fixes */
+  diagnostics: DbmlDiagnostic[];
   theme: "light" | "dark";
+  /** The project's database_type, which decides the suggested data types */
+  dialect?: SQLDialect;
+  /** Tables and enums suggested by autocomplete */
+  completionSchema?: DbmlCompletionSchema;
+  /** Tables, relationships and enums described when hovering a table or column */
+  hoverSchema?: DbmlHoverSchema;
+  /** Block to highlight; scrolled into view whenever `key` changes */
+  highlight?: { key: string; range: SourceRange } | null;
+  /** Called when the user moves the cursor, with its new offset */
+  onCursorChange?: (pos: number) => void;
+  /** Style used by Format Document (Shift+Alt+F) */
+  formatOptions?: DbmlFormatOptions;
 }
 
 export const DbmlEditor: React.FC<DbmlEditorProps> = ({
   value,
   onChange,
-  errors,
+  diagnostics,
   theme,
+  dialect,
+  completionSchema,
+  hoverSchema,
+  highlight,
+  onCursorChange,
+  formatOptions,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const viewRef = useRef<EditorView | null>(null);
   const onChangeRef = useRef(onChange);
+  const dialectRef = useRef(dialect);
+  const completionSchemaRef = useRef(completionSchema);
+  const hoverSchemaRef = useRef(hoverSchema);
+  const formatOptionsRef = useRef(formatOptions);
+  const onCursorChangeRef = useRef(onCursorChange);
+  const highlightRef = useRef(highlight);
+  const highlightKey = useRef<string | null>(null);
   const [wordWrap, setWordWrap] = useState(false);
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [isAdvancedSearch, setIsAdvancedSearch] = useState(false);
@@ -85,6 +135,11 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
   const searchInputRef = useRef<HTMLInputElement>(null);
   const isSearchOpenRef = useRef(isSearchOpen);
 
+  // Find references (Shift+F12) and rename (F2)
+  const [references, setReferences] = useState<{ occurrence: DbmlOccurrence; items: ReferenceItem[] } | null>(null);
+  const [rename, setRename] = useState<{ occurrence: DbmlOccurrence; value: string; error?: string } | null>(null);
+  const renameInputRef = useRef<HTMLInputElement>(null);
+
   // Sync ref
   useEffect(() => {
     isSearchOpenRef.current = isSearchOpen;
@@ -95,6 +150,26 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
     onChangeRef.current = onChange;
   }, [onChange]);
 
+  useEffect(() => {
+    dialectRef.current = dialect;
+  }, [dialect]);
+
+  useEffect(() => {
+    completionSchemaRef.current = completionSchema;
+  }, [completionSchema]);
+
+  useEffect(() => {
+    hoverSchemaRef.current = hoverSchema;
+  }, [hoverSchema]);
+
+  useEffect(() => {
+    formatOptionsRef.current = formatOptions;
+  }, [formatOptions]);
+
+  useEffect(() => {
+    onCursorChangeRef.current = onCursorChange;
+  }, [onCursorChange]);
+
   // Toggle word wrap
   const toggleWordWrap = useCallback(() => {
     setWordWrap((prev) => !prev);
@@ -160,6 +235,47 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
     if (viewRef.current) replaceAll(viewRef.current);
   };
 
+  const jumpTo = (item: ReferenceItem) => {
+    const view = viewRef.current;
+    if (!view) return;
+    view.dispatch({
+      selection: EditorSelection.single(item.from, item.to),
+      effects: EditorView.scrollIntoView(item.from, { y: "center" }),
+      userEvent: "select",
+    });
+    view.focus();
+  };
+
+  // Renames in one transaction, so a single undo restores every reference
+  const applyRename = () => {
+    const view = viewRef.current;
+    if (!view || !rename) return;
+    const found = symbolAt(view, rename.occurrence.from);
+    if (!found || found.occurrence.symbol !== rename.occurrence.symbol) {
+      setRename({ ...rename, error: "Fix the DBML errors first" });
+      return;
+    }
+    const result = renameChanges(found.index, found.occurrence, rename.value);
+    if ("error" in result) {
+      setRename({ ...rename, error: result.error });
+      return;
+    }
+    view.dispatch({ changes: result.changes, userEvent: "input.rename" });
+    setRename(null);
+    view.focus();
+  };
+
+  // Formats in one transaction of small edits, so the cursor stays on its text
+  // and a single undo restores the previous layout
+  const formatDocument = useCallback(() => {
+    const view = viewRef.current;
+    if (!view) return false;
+    const changes = formatDbmlChanges(view.state.doc.toString(), formatOptionsRef.current);
+    if (changes.length > 0) view.dispatch({ changes, userEvent: "input.format" });
+    view.focus();
+    return true;
+  }, []);
+
   // Fold all blocks
   const foldAllBlocks = useCallback(() => {
     const view = viewRef.current;
@@ -213,7 +329,15 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
       bracketMatching(),
       closeBrackets(),
       dbml(),
-      dbmlAutocomplete(),
+      dbmlAutocomplete(
+        () => dialectRef.current,
+        () => completionSchemaRef.current,
+      ),
+      dbmlHover(
+        () => hoverSchemaRef.current,
+        () => dialectRef.current,
+      ),
+      sourceHighlight(),
       search({
         createPanel: () => {
           const dom = document.createElement("div");
@@ -221,6 +345,24 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
           return { top: true, dom };
         },
       }),
+      dbmlNavigation({
+        onFindReferences: (view) => {
+          const found = symbolAt(view, view.state.selection.main.head);
+          if (!found) return false;
+          setReferences({
+            occurrence: found.occurrence,
+            items: referencesTo(found.index, found.occurrence).map((o) => referenceItem(view.state.doc, o.from, o.to)),
+          });
+          return true;
+        },
+        onRename: (view) => {
+          const found = symbolAt(view, view.state.selection.main.head);
+          if (!found) return false;
+          setRename({ occurrence: found.occurrence, value: found.occurrence.name });
+          setTimeout(() => renameInputRef.current?.select(), 50);
+          return true;
+        },
+      }),
       keymap.of([
         ...defaultKeymap,
         ...historyKeymap,
@@ -233,6 +375,10 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
             return true;
           },
         },
+        {
+          key: "Shift-Alt-f",
+          run: formatDocument,
+        },
         {
           key: "Escape",
           run: () => {
@@ -248,7 +394,23 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
       wordWrap ? EditorView.lineWrapping : [],
       EditorView.updateListener.of((update: ViewUpdate) => {
         if (update.docChanged) {
-          onChangeRef.current(update.state.doc.toString());
+          onChangeRef.current(update.state.doc.toString(), update.changes);
+          // Keep the listed references on their text while it is edited; text
+          // replaced from the canvas has no user event and closes the list
+          const isExternal = update.transactions.every((tr) => !tr.annotation(Transaction.userEvent));
+          setReferences((prev) =>
+            prev && !isExternal
+              ? {
+                  ...prev,
+                  items: prev.items.map((item) =>
+                    referenceItem(update.state.doc, update.changes.mapPos(item.from, 1), update.changes.mapPos(item.to, -1)),
+                  ),
+                }
+              : null,
+          );
+        }
+        if (update.selectionSet && update.transactions.some((tr) => tr.isUserEvent("select"))) {
+          onCursorChangeRef.current?.(update.state.selection.main.head);
         }
         // Explicitly force scroll autofocus to active cursor when the user inputs text or moves the cursor
         if (
@@ -274,6 +436,7 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
     const state = EditorState.create({ doc: value, extensions });
     const view = new EditorView({ state, parent: containerRef.current });
     viewRef.current = view;
+    showSourceHighlight(view, highlightRef.current?.range ?? null);
 
     return () => {
       view.destroy();
@@ -295,35 +458,47 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
     }
   }, [value]);
 
-  // Sync external errors into editor diagnostics
+  // Highlight the block of the selected node, scrolling to it when the selection changes.
+  // Runs after the value sync, so the range always refers to the current text
+  useEffect(() => {
+    highlightRef.current = highlight;
+    const view = viewRef.current;
+    if (!view) return;
+    const key = highlight?.key ?? null;
+    const isNewTarget = key !== highlightKey.current;
+    highlightKey.current = key;
+    showSourceHighlight(view, highlight?.range ?? null, isNewTarget);
+  }, [highlight]);
+
+  // Sync external diagnostics into the editor. CodeMirror keeps each one on its
+  // text through later edits, so fixes are applied relative to where it is now
   useEffect(() => {
     const view = viewRef.current;
     if (!view) return;
 
-    const diagnostics = errors.map((err) => {
-      let from = 0;
-      let to = 0;
-      if (err.line != null) {
-        // CodeMirror lines are 1-based
-        const lineNo = Math.max(1, Math.min(err.line, view.state.doc.lines));
-        const line = view.state.doc.line(lineNo);
-        from = line.from;
-        to = line.to;
-      } else {
-        from = 0;
-        to = view.state.doc.length;
-      }
-      return {
-        from,
-        to,
-        severity: "error" as const,
-        message: err.message,
-      };
-    });
+    const length = view.state.doc.length;
+    const cmDiagnostics: Diagnostic[] = diagnostics.map((diagnostic) => ({
+      from: Math.min(diagnostic.from, length),
+      to: Math.min(diagnostic.to, length),
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+      actions: diagnostic.fixes.map((fix) => ({
+        name: fix.label,
+        apply: (v: EditorView, from: number) => {
+          const shift = from - diagnostic.from;
+          v.dispatch({
+            changes: fix.changes.map((c) => ({ from: c.from + shift, to: c.to + shift, insert: c.insert })),
+            userEvent: "input.quickfix",
+          });
+        },
+      })),
+    }));
 
-    view.dispatch(setDiagnostics(view.state, diagnostics));
-  }, [errors]);
+    view.dispatch(setDiagnostics(view.state, cmDiagnostics));
+  }, [diagnostics]);
 
+  const errors = diagnostics.filter((d) => d.severity === "error");
+  const warningCount = diagnostics.length - errors.length;
   const firstError = errors[0];
 
   return (
@@ -335,14 +510,29 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
           <span className="text-xs font-semibold tracking-wide text-foreground uppercase">
             DBML Source
           </span>
+          {dialect && (
+            <span
+              className="rounded bg-muted px-1.5 py-0.5 text-[10px] font-medium text-muted-foreground"
+              title="Project database_type"
+            >
+              {SQL_DIALECT_LABELS[dialect]}
+            </span>
+          )}
 
           <div className="mx-2 h-4 w-px bg-border" />
 
-          {errors.length === 0 ? (
+          {errors.length === 0 && warningCount === 0 ? (
             <div className="flex items-center gap-1.5 text-xs text-emerald-600 dark:text-emerald-400">
               <CheckCircle2 className="h-3 w-3" />
               <span>Valid</span>
             </div>
+          ) : errors.length === 0 ? (
+            <div className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+              <TriangleAlert className="h-3 w-3" />
+              <span>
+                {warningCount} Warning{warningCount > 1 ? "s" : ""}
+              </span>
+            </div>
           ) : (
             <div className="flex items-center gap-1.5 text-xs text-destructive">
               <AlertCircle className="h-3 w-3" />
@@ -372,6 +562,15 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
           >
             <Search className="h-3.5 w-3.5" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={formatDocument}
+            className="h-7 w-7 hover:bg-muted"
+            title="Format Document (Shift+Alt+F)"
+          >
+            <AlignLeft className="h-3.5 w-3.5 text-muted-foreground" />
+          </Button>
           <div className="w-px h-4 bg-border/60 mx-1" />
           <Button
             variant="ghost"
@@ -529,6 +728,30 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
           </div>
         )}
 
+        {/* Rename prompt (F2) */}
+        {rename && (
+          <div className="absolute top-2 right-4 z-50 bg-popover/95 backdrop-blur-sm border border-border shadow-md rounded-md flex flex-col gap-1.5 p-2.5 min-w-[280px] text-sm animate-in fade-in slide-in-from-top-2">
+            <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+              <PenLine className="h-3 w-3" />
+              Rename {rename.occurrence.kind} <span className="font-mono text-foreground">{rename.occurrence.symbol}</span>
+            </div>
+            <Input
+              ref={renameInputRef}
+              value={rename.value}
+              onChange={(e) => setRename({ ...rename, value: e.target.value, error: undefined })}
+              className="h-7 text-xs font-mono"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") applyRename();
+                if (e.key === "Escape") {
+                  setRename(null);
+                  viewRef.current?.focus();
+                }
+              }}
+            />
+            {rename.error && <span className="text-[11px] text-destructive">{rename.error}</span>}
+          </div>
+        )}
+
         <div
           ref={containerRef}
           className={cn(
@@ -539,9 +762,45 @@ export const DbmlEditor: React.FC<DbmlEditorProps> = ({
           )}
         />
       </div>
+      {/* References panel (Shift+F12) */}
+      {references && (
+        <div className="border-t border-border shrink-0 max-h-48 flex flex-col text-xs">
+          <div className="flex items-center gap-1.5 px-3 py-1.5 bg-muted/20 border-b border-border/60">
+            <Link2 className="h-3 w-3 text-muted-foreground" />
+            <span className="font-medium">References to</span>
+            <span className="font-mono">{references.occurrence.symbol}</span>
+            <span className="text-muted-foreground">({references.items.length})</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5 ml-auto text-muted-foreground hover:text-foreground"
+              onClick={() => setReferences(null)}
+              title="Close"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <div className="overflow-y-auto">
+            {references.items.length === 0 ? (
+              <div className="px-3 py-2 text-muted-foreground italic">No refs use this {references.occurrence.kind}</div>
+            ) : (
+              references.items.map((item, i) => (
+                <button
+                  key={i}
+                  className="w-full flex items-center gap-3 px-3 py-1 text-left hover:bg-muted/50 transition-colors"
+                  onClick={() => jumpTo(item)}
+                >
+                  <span className="w-10 shrink-0 text-right text-muted-foreground tabular-nums">{item.line}</span>
+                  <span className="font-mono truncate">{item.text}</span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
       {firstError && (
         <div className="bg-destructive/10 text-destructive text-xs px-3 py-1.5 border-t border-destructive/20 shrink-0">
-          {firstError.line != null ? `Line ${firstError.line}: ` : ""}
+          {`Line ${firstError.line}: `}
           {firstError.message}
         </div>
       )}
@@ -23,6 +23,7 @@ import {
   Settings,
 } from 'lucide-react';
 import { Relationship } from '@/types/schema';
+import { getRelationshipColumnIds } from '@/features/schema/utils/schema.utils';
 import { RELATIONSHIP_TYPES, RelationshipType } from './relationship-edge';
 
 interface EdgeContextMenuProps {
@@ -53,21 +54,24 @@ export const EdgeContextMenu: React.FC<EdgeContextMenuProps> = ({
   const [isTypeSelectorOpen, setIsTypeSelectorOpen] = useState(false);
 
   // Get table and column names
+  const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(relationship);
   const getSourceInfo = () => {
     const sourceTable = allTables.find(t => t.id === relationship.sourceTableId);
-    const sourceColumn = sourceTable?.columns.find(c => c.id === relationship.sourceColumnId);
     return {
       table: sourceTable?.name || 'Unknown Table',
-      column: sourceColumn?.name || 'Unknown Column',
+      column: sourceColumnIds
+        .map(columnId => sourceTable?.columns.find(c => c.id === columnId)?.name || 'Unknown Column')
+        .join(', '),
     };
   };
 
   const getTargetInfo = () => {
     const targetTable = allTables.find(t => t.id === relationship.targetTableId);
-    const targetColumn = targetTable?.columns.find(c => c.id === relationship.targetColumnId);
     return {
       table: targetTable?.name || 'Unknown Table',
-      column: targetColumn?.name || 'Unknown Column',
+      column: targetColumnIds
+        .map(columnId => targetTable?.columns.find(c => c.id === columnId)?.name || 'Unknown Column')
+        .join(', '),
     };
   };
 
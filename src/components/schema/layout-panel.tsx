@@ -15,20 +15,24 @@ import {
   KeyRound,
   Layers,
   ChevronUp,
+  Boxes,
+  Group,
 } from "lucide-react";
 import { AutoLayout } from "@/lib/layout/auto-layout";
+import { fitGroupBounds, layoutWithinGroups } from "@/lib/layout/groups";
 import { useCanvasState, type DetailLevel } from "@/features/schema/hooks/use-canvas-state";
-import type { Table, Relationship } from "@/types/schema";
+import type { Table, Relationship, TableGroup } from "@/types/schema";
 import { cn } from "@/lib/utils";
 
 interface LayoutPanelProps {
   tables: Table[];
   relationships: Relationship[];
-  onLayout: (tables: Table[]) => void;
+  groups: TableGroup[];
+  onLayout: (tables: Table[], groups: TableGroup[]) => void;
   onFitView?: () => void;
 }
 
-type LayoutAlgorithm = "grid" | "hierarchical" | "force-directed" | "circular" | "warehouse";
+type LayoutAlgorithm = "grid" | "hierarchical" | "force-directed" | "circular" | "warehouse" | "namespace";
 
 const DETAIL_LEVELS: { value: DetailLevel; label: string; icon: React.ElementType; description: string }[] = [
   { value: "compact",   label: "Compact",  icon: Table2,     description: "Table names only" },
@@ -43,6 +47,7 @@ const LAYOUT_ALGORITHMS: { key: LayoutAlgorithm; label: string; icon: React.Elem
   { key: "force-directed", label: "Force",     icon: Wind,       description: "Physics spacing" },
   { key: "circular",       label: "Radial",    icon: Circle,     description: "Circular arrangement" },
   { key: "warehouse",      label: "Warehouse", icon: Warehouse,  description: "Compact warehouse" },
+  { key: "namespace",      label: "Schemas",   icon: Boxes,      description: "Grouped by schema" },
 ];
 
 function useClickOutside<T extends HTMLElement>(ref: React.RefObject<T | null>, onClose: () => void) {
@@ -55,7 +60,15 @@ function useClickOutside<T extends HTMLElement>(ref: React.RefObject<T | null>,
   }, [ref, onClose]);
 }
 
-const LayoutPanel: React.FC<LayoutPanelProps> = ({ tables, relationships, onLayout, onFitView }) => {
+// After a full layout, each group is refitted around wherever its tables ended up
+function refitGroups(tables: Table[], groups: TableGroup[]): TableGroup[] {
+  return groups.map((group) => {
+    const bounds = fitGroupBounds(tables.filter((t) => group.tableIds.includes(t.id)));
+    return bounds ? { ...group, ...bounds } : group;
+  });
+}
+
+const LayoutPanel: React.FC<LayoutPanelProps> = ({ tables, relationships, groups, onLayout, onFitView }) => {
   const detailLevel = useCanvasState((s) => s.detailLevel);
   const setDetailLevel = useCanvasState((s) => s.setDetailLevel);
   const [busy, setBusy] = useState<string | null>(null);
@@ -71,7 +84,8 @@ const LayoutPanel: React.FC<LayoutPanelProps> = ({ tables, relationships, onLayo
 
   const runLayout = (algorithm: LayoutAlgorithm) => {
     setBusy(algorithm);
-    onLayout(AutoLayout.layoutTables(tables, relationships, { algorithm }));
+    const laidOut = AutoLayout.layoutTables(tables, relationships, { algorithm });
+    onLayout(laidOut, refitGroups(laidOut, groups));
     setTimeout(() => setBusy(null), 500);
     setOpenMenu(null);
   };
@@ -79,7 +93,17 @@ const LayoutPanel: React.FC<LayoutPanelProps> = ({ tables, relationships, onLayo
   const runAuto = () => {
     setBusy("auto");
     const algorithm = AutoLayout.recommendLayout(tables, relationships);
-    onLayout(AutoLayout.layoutTables(tables, relationships, { algorithm }));
+    const laidOut = AutoLayout.layoutTables(tables, relationships, { algorithm });
+    onLayout(laidOut, refitGroups(laidOut, groups));
+    setTimeout(() => setBusy(null), 500);
+    setOpenMenu(null);
+  };
+
+  // Tidies the tables inside each group without moving the groups or other tables
+  const runWithinGroups = () => {
+    setBusy("groups");
+    const result = layoutWithinGroups(tables, groups);
+    onLayout(result.tables, result.groups);
     setTimeout(() => setBusy(null), 500);
     setOpenMenu(null);
   };
@@ -165,6 +189,21 @@ const LayoutPanel: React.FC<LayoutPanelProps> = ({ tables, relationships, onLayo
               <span className="text-[10px] text-muted-foreground">{description}</span>
             </button>
           ))}
+          {groups.length > 0 && (
+            <button
+              onClick={runWithinGroups}
+              className={cn(
+                "w-full flex items-center gap-2.5 px-3 py-1.5 text-xs transition-colors",
+                busy === "groups"
+                  ? "bg-primary/10 text-primary font-semibold"
+                  : "text-foreground hover:bg-accent"
+              )}
+            >
+              <Group className="h-3.5 w-3.5 shrink-0" />
+              <span className="flex-1 text-left font-medium">Within groups</span>
+              <span className="text-[10px] text-muted-foreground">Tidy each group</span>
+            </button>
+          )}
           <div className="my-1 mx-3 border-t border-border/60" />
           <button
             onClick={runAuto}
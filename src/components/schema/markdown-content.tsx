@@ -0,0 +1,116 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+
+// A small markdown subset for notes: headings, lists, paragraphs, **bold**,
+// *italic*, `code` and [links](url). Rendered as elements, never as raw HTML.
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+function renderInline(text: string): React.ReactNode[] {
+  return text.split(INLINE_PATTERN).map((part, i) => {
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={i}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith("*") && part.endsWith("*") && part.length > 2) {
+      return <em key={i}>{part.slice(1, -1)}</em>;
+    }
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+      return (
+        <code key={i} className="font-mono text-[0.9em] bg-black/5 dark:bg-white/10 rounded px-1">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link && /^https?:\/\//.test(link[2])) {
+      return (
+        <a key={i} href={link[2]} target="_blank" rel="noreferrer" className="underline">
+          {link[1]}
+        </a>
+      );
+    }
+    return part;
+  });
+}
+
+type Block =
+  | { kind: "heading"; level: number; text: string }
+  | { kind: "list"; ordered: boolean; items: string[] }
+  | { kind: "paragraph"; lines: string[] };
+
+function parseBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+
+  for (const line of content.split("\n")) {
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    const last = blocks[blocks.length - 1];
+
+    if (heading) {
+      blocks.push({ kind: "heading", level: heading[1].length, text: heading[2] });
+    } else if (bullet || numbered) {
+      const ordered = !bullet;
+      const item = (bullet ?? numbered)![1];
+      if (last?.kind === "list" && last.ordered === ordered) last.items.push(item);
+      else blocks.push({ kind: "list", ordered, items: [item] });
+    } else if (!line.trim()) {
+      blocks.push({ kind: "paragraph", lines: [] });
+    } else if (last?.kind === "paragraph") {
+      last.lines.push(line);
+    } else {
+      blocks.push({ kind: "paragraph", lines: [line] });
+    }
+  }
+
+  return blocks.filter((block) => block.kind !== "paragraph" || block.lines.length > 0);
+}
+
+const HEADING_STYLES = ["text-base font-bold", "text-sm font-bold", "text-sm font-semibold"];
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, className }) => {
+  const blocks = React.useMemo(() => parseBlocks(content), [content]);
+
+  return (
+    <div className={cn("space-y-1.5 text-xs leading-relaxed break-words", className)}>
+      {blocks.map((block, i) => {
+        if (block.kind === "heading") {
+          return (
+            <div key={i} className={HEADING_STYLES[block.level - 1]}>
+              {renderInline(block.text)}
+            </div>
+          );
+        }
+        if (block.kind === "list") {
+          const List = block.ordered ? "ol" : "ul";
+          return (
+            <List key={i} className={cn("pl-4 space-y-0.5", block.ordered ? "list-decimal" : "list-disc")}>
+              {block.items.map((item, j) => (
+                <li key={j}>{renderInline(item)}</li>
+              ))}
+            </List>
+          );
+        }
+        return (
+          <p key={i}>
+            {block.lines.map((line, j) => (
+              <React.Fragment key={j}>
+                {j > 0 && <br />}
+                {renderInline(line)}
+              </React.Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MarkdownContent;
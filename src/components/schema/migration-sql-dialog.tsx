@@ -0,0 +1,166 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Copy, Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { apiGetMigrationSql, type SchemaVersionSummary } from '@/lib/schema-api';
+import { ExportManager } from '@/lib/export/export-manager';
+import type { SQLDialect } from '@/constants/schema';
+
+interface MigrationSqlDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  schemaId: string;
+  version: SchemaVersionSummary;
+  versions: SchemaVersionSummary[];
+  hasUnsavedChanges?: boolean;
+}
+
+const sqlDialects: { value: SQLDialect; label: string }[] = [
+  { value: 'postgresql', label: 'PostgreSQL' },
+  { value: 'mysql', label: 'MySQL' },
+  { value: 'sqlite', label: 'SQLite' },
+  { value: 'sqlserver', label: 'SQL Server' },
+];
+
+export const MigrationSqlDialog: React.FC<MigrationSqlDialogProps> = ({
+  isOpen,
+  onClose,
+  schemaId,
+  version,
+  versions,
+  hasUnsavedChanges,
+}) => {
+  const [dialect, setDialect] = useState<SQLDialect>('postgresql');
+  const [target, setTarget] = useState('current');
+  const [result, setResult] = useState<{ key: string; sql?: string; error?: string } | null>(null);
+
+  // Results are keyed by request so a stale response never shows for the current selection
+  const requestKey = `${version.id}|${target}|${dialect}`;
+  const isLoading = result?.key !== requestKey;
+  const sql = isLoading ? '' : result?.sql || '';
+  const error = isLoading ? null : result?.error || null;
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+
+    apiGetMigrationSql(schemaId, version.id, { to: target, dialect })
+      .then((response) => {
+        if (!cancelled) setResult({ key: requestKey, sql: response.sql });
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setResult({ key: requestKey, error: err instanceof Error ? err.message : 'Failed to generate migration SQL' });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, schemaId, version.id, target, dialect, requestKey]);
+
+  const versionLabel = (ver: SchemaVersionSummary) => ver.label || `Version ${ver.versionNumber}`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(sql);
+      toast.success('Migration SQL copied to clipboard');
+    } catch {
+      toast.error('Failed to copy migration SQL');
+    }
+  };
+
+  const handleDownload = () => {
+    const targetVersion = versions.find(v => v.id === target);
+    const filename = `migration_v${version.versionNumber}_to_${targetVersion ? `v${targetVersion.versionNumber}` : 'current'}_${dialect}.sql`;
+    ExportManager.downloadFile(sql, filename, 'text/sql');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Migration SQL</DialogTitle>
+          <DialogDescription>
+            SQL that migrates a database from {versionLabel(version)} to the selected target.
+            Renamed tables and columns are renamed in place rather than dropped and re-created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Target</label>
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="w-full p-2 border rounded-md text-sm bg-background"
+            >
+              <option value="current">Current schema</option>
+              {versions
+                .filter((ver) => ver.id !== version.id)
+                .map((ver) => (
+                  <option key={ver.id} value={ver.id}>
+                    {versionLabel(ver)} (v{ver.versionNumber})
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">SQL Dialect</label>
+            <select
+              value={dialect}
+              onChange={(e) => setDialect(e.target.value as SQLDialect)}
+              className="w-full p-2 border rounded-md text-sm bg-background"
+            >
+              {sqlDialects.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {target === 'current' && hasUnsavedChanges && (
+          <div className="text-xs text-muted-foreground">
+            The current schema is compared as last saved; unsaved changes are not included.
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-auto rounded-md border bg-muted/30">
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 p-8 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Generating migration...
+            </div>
+          ) : error ? (
+            <div className="p-4 text-sm text-destructive">{error}</div>
+          ) : (
+            <pre className="p-4 text-xs font-mono whitespace-pre">{sql}</pre>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={handleCopy} disabled={isLoading || !!error || !sql}>
+            <Copy className="h-3.5 w-3.5 mr-1.5" />
+            Copy
+          </Button>
+          <Button size="sm" onClick={handleDownload} disabled={isLoading || !!error || !sql}>
+            <Download className="h-3.5 w-3.5 mr-1.5" />
+            Download .sql
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -205,7 +205,7 @@ export const NodeContextMenu: React.FC<NodeContextMenuProps> = ({
           <AlertDialogHeader>
             <AlertDialogTitle className="text-destructive">Delete Table</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete the table "{table.name}"? This action cannot be undone.
+              Are you sure you want to delete the table "{table.name}"? Its relationships will be removed too. You can undo this with Ctrl+Z.
               {connections.length > 0 && (
                 <span className="block mt-2 text-destructive">
                   This will also remove {connections.length} relationship{connections.length > 1 ? 's' : ''}.
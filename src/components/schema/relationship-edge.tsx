@@ -10,12 +10,16 @@ import {
 } from '@xyflow/react';
 import { Badge } from '@/components/ui/badge';
 import { useCanvasState } from '@/features/schema/hooks/use-canvas-state';
+import { useSchema } from '@/hooks/use-schema';
 import { Relationship } from '@/features/schema/types/schema.types';
+import { describeRelationshipChanges } from '@/features/schema/utils/schema-diff.utils';
+import { getRelationshipColumnIds } from '@/features/schema/utils/schema.utils';
 
 interface RelationshipEdgeProps extends EdgeProps {
   data: {
     relationship: Relationship;
     isHighlighted?: boolean;
+    isGhost?: boolean;
     onRelationshipUpdate?: (relationship: Relationship) => void;
     onRelationshipDelete?: (relationshipId: string) => void;
   };
@@ -71,6 +75,13 @@ export const RELATIONSHIP_TYPES = {
 
 export type RelationshipType = keyof typeof RELATIONSHIP_TYPES;
 
+// Compare mode colors, matching the table node overlay
+const CHANGE_COLORS = {
+  added: '#10b981', // emerald-500
+  removed: '#ef4444', // red-500
+  modified: '#f59e0b', // amber-500
+} as const;
+
 const RelationshipEdge: React.FC<RelationshipEdgeProps> = React.memo(({
   id,
   sourceX,
@@ -96,7 +107,36 @@ const RelationshipEdge: React.FC<RelationshipEdgeProps> = React.memo(({
     state.selectedNodeId === targetTableId
   );
 
-  const typeConfig = RELATIONSHIP_TYPES[relationship?.type as RelationshipType] || RELATIONSHIP_TYPES['one-to-many'];
+  // Composite keys are drawn from their first column pair; the label lists all of them
+  const compositeTitle = useSchema((state) => {
+    if (!relationship?.sourceColumnIds && !relationship?.targetColumnIds) return undefined;
+    const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(relationship);
+    const describe = (tableId: string, columnIds: string[]) => {
+      const table = state.tables.find((t) => t.id === tableId);
+      const names = columnIds.map((columnId) => table?.columns.find((c) => c.id === columnId)?.name ?? '?');
+      return `${table?.name ?? '?'}(${names.join(', ')})`;
+    };
+    return `Composite key: ${describe(relationship.sourceTableId, sourceColumnIds)} → ${describe(relationship.targetTableId, targetColumnIds)}`;
+  });
+  const compositeSize = relationship?.sourceColumnIds?.length ?? 1;
+
+  const relationshipDiff = useCanvasState((state) => state.comparisonDiff?.relationships.get(id));
+  const changeKind = data?.isGhost ? 'removed' : relationshipDiff?.kind;
+
+  const baseConfig = RELATIONSHIP_TYPES[relationship?.type as RelationshipType] || RELATIONSHIP_TYPES['one-to-many'];
+  const typeConfig = changeKind
+    ? {
+        ...baseConfig,
+        color: CHANGE_COLORS[changeKind],
+        strokeWidth: baseConfig.strokeWidth + 1,
+        strokeDasharray: changeKind === 'removed' ? '6,4' : baseConfig.strokeDasharray,
+      }
+    : baseConfig;
+  const changeTitle = relationshipDiff?.kind === 'modified'
+    ? describeRelationshipChanges(relationshipDiff).join('\n')
+    : changeKind
+      ? `Relationship ${changeKind}`
+      : undefined;
 
   // Calculate bezier path for smooth curves - memoized to prevent recalculation on every render
   const [edgePath, labelX, labelY] = React.useMemo(() => getBezierPath({
@@ -142,7 +182,7 @@ const RelationshipEdge: React.FC<RelationshipEdgeProps> = React.memo(({
           stroke: typeConfig.color,
           strokeWidth: typeConfig.strokeWidth,
           strokeDasharray: typeConfig.strokeDasharray,
-          opacity: isHighlighted || selected ? 1 : 0.25, // Pop when active, dim when background
+          opacity: isHighlighted || selected || changeKind ? 1 : 0.25, // Pop when active or changed, dim when background
           transition: 'opacity 0.3s ease', 
         }}
       />
@@ -183,8 +223,12 @@ const RelationshipEdge: React.FC<RelationshipEdgeProps> = React.memo(({
               borderColor: typeConfig.color,
               color: typeConfig.color,
             }}
+            title={[changeTitle, compositeTitle].filter(Boolean).join('\n') || undefined}
           >
-            {typeConfig.label}
+            {changeKind === 'modified' && relationshipDiff?.before && relationshipDiff.changes.includes('type')
+              ? `${RELATIONSHIP_TYPES[relationshipDiff.before.type as RelationshipType]?.label ?? relationshipDiff.before.type} → ${typeConfig.label}`
+              : typeConfig.label}
+            {compositeSize > 1 && <span className="ml-1 opacity-70">×{compositeSize}</span>}
           </Badge>
         </div>
       </EdgeLabelRenderer>
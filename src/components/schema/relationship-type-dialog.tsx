@@ -11,6 +11,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Relationship } from '@/types/schema';
+import { getRelationshipColumnIds } from '@/features/schema/utils/schema.utils';
 import { RELATIONSHIP_TYPES, RelationshipType } from './relationship-edge';
 
 interface RelationshipTypeDialogProps {
@@ -29,21 +30,24 @@ export const RelationshipTypeDialog: React.FC<RelationshipTypeDialogProps> = ({
   allTables,
 }) => {
   // Get table and column names for display
+  const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(relationship);
   const getSourceInfo = () => {
     const sourceTable = allTables.find(t => t.id === relationship.sourceTableId);
-    const sourceColumn = sourceTable?.columns.find(c => c.id === relationship.sourceColumnId);
     return {
       table: sourceTable?.name || 'Unknown Table',
-      column: sourceColumn?.name || 'Unknown Column',
+      column: sourceColumnIds
+        .map(columnId => sourceTable?.columns.find(c => c.id === columnId)?.name || 'Unknown Column')
+        .join(', '),
     };
   };
 
   const getTargetInfo = () => {
     const targetTable = allTables.find(t => t.id === relationship.targetTableId);
-    const targetColumn = targetTable?.columns.find(c => c.id === relationship.targetColumnId);
     return {
       table: targetTable?.name || 'Unknown Table',
-      column: targetColumn?.name || 'Unknown Column',
+      column: targetColumnIds
+        .map(columnId => targetTable?.columns.find(c => c.id === columnId)?.name || 'Unknown Column')
+        .join(', '),
     };
   };
 
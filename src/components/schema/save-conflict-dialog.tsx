@@ -0,0 +1,99 @@
+"use client";
+
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle } from 'lucide-react';
+import { useSchema } from '@/hooks/use-schema';
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+/**
+ * Shown when autosave was rejected because the schema was saved elsewhere in
+ * the meantime. Autosave stays paused until one of the options is picked.
+ */
+export default function SaveConflictDialog() {
+  const saveConflict = useSchema((s) => s.saveConflict);
+  const resolveSaveConflict = useSchema((s) => s.resolveSaveConflict);
+
+  if (!saveConflict) return null;
+
+  const { merge } = saveConflict;
+
+  return (
+    <Dialog open onOpenChange={() => {}}>
+      <DialogContent className="max-w-lg" showCloseButton={false}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Schema changed elsewhere
+          </DialogTitle>
+          <DialogDescription>
+            Someone saved this schema from another tab or device after you loaded it.
+            Your latest changes have not been saved yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="rounded-md border p-3">
+              <div className="text-xs text-muted-foreground">Your changes</div>
+              <div className="font-semibold">{plural(merge.myChanges, 'change')}</div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-xs text-muted-foreground">Their changes</div>
+              <div className="font-semibold">{plural(merge.theirChanges, 'change')}</div>
+            </div>
+          </div>
+
+          {merge.conflicts.length > 0 ? (
+            <div>
+              <div className="font-medium mb-1">
+                Changed on both sides ({merge.conflicts.length})
+              </div>
+              <ul className="max-h-40 overflow-y-auto rounded-md border bg-muted/30 p-2 text-xs font-mono space-y-0.5">
+                {merge.conflicts.map((conflict, index) => (
+                  <li key={index}>{conflict}</li>
+                ))}
+              </ul>
+              <p className="mt-1 text-xs text-muted-foreground">
+                Merging keeps your version of these.
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              No entity was changed on both sides, so both sets of changes can be merged cleanly.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => resolveSaveConflict('theirs')}
+            title="Discard your unsaved changes and load the saved schema"
+          >
+            Take theirs
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => resolveSaveConflict('mine')}
+            title="Overwrite the saved schema with your version"
+          >
+            Keep mine
+          </Button>
+          <Button onClick={() => resolveSaveConflict('merge')}>
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,29 @@
 "use client";
 
-import React, { useState, useRef, useEffect, useCallback } from "react";
+import React, { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { useTheme } from "next-themes";
-import { parseDbml, type ParseError } from "@/lib/dbml/dbml-parser";
+import type { ChangeSet } from "@codemirror/state";
+import { parseDbml } from "@/lib/dbml/dbml-parser";
+import { lintDbml, type DbmlDiagnostic } from "@/lib/dbml/dbml-lint";
 import { serializeToDbml } from "@/lib/dbml/dbml-serializer";
-import type { Table, Relationship } from "@/features/schema/types/schema.types";
+import { emptySourceMap, findRangeAt, mapSourceMap } from "@/lib/dbml/dbml-source-map";
+import { useCanvasState } from "@/features/schema/hooks/use-canvas-state";
+import type {
+  Table,
+  Relationship,
+  Enum,
+  TableGroup,
+  StickyNote,
+  SchemaProject,
+} from "@/features/schema/types/schema.types";
 import type { Node } from "@xyflow/react";
 import DbmlEditor from "./dbml-editor";
 
+/** What the editor cursor is in: a column or table definition, or a standalone ref */
+export type SourceTarget =
+  | { tableId: string; columnId: string | null }
+  | { relationshipId: string };
+
 interface SchemaEditorPaneProps {
   isOpen: boolean;
   isCollapsed: boolean;
@@ -15,9 +31,25 @@ interface SchemaEditorPaneProps {
   children: React.ReactNode;
   tables: Table[];
   relationships: Relationship[];
+  enums: Enum[];
+  groups: TableGroup[];
+  notes: StickyNote[];
+  project: SchemaProject;
   getNodes: () => Node[];
-  onSchemaChange: (tables: Table[], relationships: Relationship[]) => void;
+  onSchemaChange: (
+    tables: Table[],
+    relationships: Relationship[],
+    enums: Enum[],
+    groups: TableGroup[],
+    notes: StickyNote[],
+  ) => void;
+  /** Called when the `Project` block is edited, added or removed */
+  onProjectChange: (project: SchemaProject) => void;
   getCenterPosition?: () => { x: number; y: number };
+  /** Table selected on the canvas, whose block is highlighted in the editor */
+  selectedTableId?: string | null;
+  /** Called when the user moves the editor cursor into another table, column or ref */
+  onLocate?: (target: SourceTarget) => void;
 }
 
 export const SchemaEditorPane: React.FC<SchemaEditorPaneProps> = ({
@@ -27,14 +59,22 @@ export const SchemaEditorPane: React.FC<SchemaEditorPaneProps> = ({
   children,
   tables,
   relationships,
+  enums,
+  groups,
+  notes,
+  project,
   getNodes,
   onSchemaChange,
+  onProjectChange,
   getCenterPosition,
+  selectedTableId,
+  onLocate,
 }) => {
   const { resolvedTheme } = useTheme();
+  const dbmlFormatOptions = useCanvasState((s) => s.dbmlFormatOptions);
   const [splitRatio, setSplitRatio] = useState(25);
   const [editorText, setEditorText] = useState("");
-  const [errors, setErrors] = useState<ParseError[]>([]);
+  const [diagnostics, setDiagnostics] = useState<DbmlDiagnostic[]>([]);
   const isSyncingFromCanvas = useRef(false);
   // Counts pending editor-initiated store updates so we skip the echo-back sync
   const editorInitiated = useRef(0);
@@ -43,20 +83,42 @@ export const SchemaEditorPane: React.FC<SchemaEditorPaneProps> = ({
   const containerRef = useRef<HTMLDivElement>(null);
 
   const prevSchemaFingerprint = useRef("");
+  // Where each table and column is written in the editor text, kept up to date
+  // through edits so that renamed tables and columns keep their identity
+  const sourceMap = useRef(emptySourceMap());
+  // Set before applying an edited Project block, so the update is not echoed back
+  const prevProjectFingerprint = useRef("");
+  // Last target reported to onLocate, so moving within it does not pan the canvas again
+  const locatedTarget = useRef<SourceTarget | null>(null);
 
-  // Canvas -> Text: serialize when tables/relationships change
+  // Canvas -> Text: serialize when tables/relationships/enums/groups/notes/project change
   useEffect(() => {
+    const projectFingerprint = JSON.stringify(project);
+    const projectChanged = projectFingerprint !== prevProjectFingerprint.current;
+    prevProjectFingerprint.current = projectFingerprint;
+
     // Fingerprint schema to skip position-only changes
     const fingerprint = JSON.stringify({
       tables: tables.map((t) => ({
         id: t.id,
         name: t.name,
+        namespace: t.namespace,
         alias: t.alias,
         note: t.note,
         headerColor: t.headerColor,
         columns: t.columns,
+        indexes: t.indexes,
       })),
       relationships,
+      enums,
+      groups: groups.map((g) => ({
+        id: g.id,
+        name: g.name,
+        tableIds: g.tableIds,
+        note: g.note,
+        color: g.color,
+      })),
+      notes: notes.map((n) => ({ id: n.id, name: n.name, content: n.content })),
     });
 
     // Skip the sync that echoes back our own editor-initiated update
@@ -66,12 +128,15 @@ export const SchemaEditorPane: React.FC<SchemaEditorPaneProps> = ({
       return;
     }
 
-    if (fingerprint === prevSchemaFingerprint.current) {
+    if (fingerprint === prevSchemaFingerprint.current && !projectChanged) {
       return;
     }
     prevSchemaFingerprint.current = fingerprint;
 
-    const newText = serializeToDbml(tables, relationships);
+    const newText = serializeToDbml(tables, relationships, enums, groups, notes, project);
+    const parsed = parseDbml(newText, tables, [], undefined, enums, groups, notes, relationships);
+    sourceMap.current = parsed.sourceMap;
+    setDiagnostics(lintDbml(newText, parsed));
     if (newText === editorText) return;
     isSyncingFromCanvas.current = true;
     setEditorText(newText);
@@ -80,26 +145,96 @@ export const SchemaEditorPane: React.FC<SchemaEditorPaneProps> = ({
     }, 0);
     // editorText excluded intentionally to avoid loop
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [tables, relationships]);
+  }, [tables, relationships, enums, groups, notes, project]);
 
   // Text -> Canvas: debounced parse on editor change
   const handleEditorChange = useCallback(
-    (val: string) => {
+    (val: string, changes: ChangeSet) => {
       setEditorText(val);
       if (isSyncingFromCanvas.current) return;
+      sourceMap.current = mapSourceMap(sourceMap.current, changes);
       if (debounceTimer.current) clearTimeout(debounceTimer.current);
       debounceTimer.current = setTimeout(() => {
         const nodes = getNodes();
         const center = getCenterPosition?.();
-        const result = parseDbml(val, tables, nodes, center);
-        setErrors(result.errors);
+        const result = parseDbml(
+          val,
+          tables,
+          nodes,
+          center,
+          enums,
+          groups,
+          notes,
+          relationships,
+          sourceMap.current,
+        );
+        setDiagnostics(lintDbml(val, result, { knownTables: tables }));
         if (result.errors.length === 0 && result.tables.length > 0) {
+          sourceMap.current = result.sourceMap;
           editorInitiated.current += 1;
-          onSchemaChange(result.tables, result.relationships);
+          onSchemaChange(result.tables, result.relationships, result.enums, result.groups, result.notes);
+
+          // Without a Project block the schema keeps its name but loses its settings
+          const nextProject = result.project ?? { name: project.name };
+          if (JSON.stringify(nextProject) !== JSON.stringify(project)) {
+            prevProjectFingerprint.current = JSON.stringify(nextProject);
+            onProjectChange(nextProject);
+          }
         }
       }, 600);
     },
-    [getNodes, tables, onSchemaChange, getCenterPosition],
+    [
+      getNodes,
+      tables,
+      relationships,
+      enums,
+      groups,
+      notes,
+      project,
+      onSchemaChange,
+      onProjectChange,
+      getCenterPosition,
+    ],
+  );
+
+  // Canvas -> Text: highlight the selected table's block. Recomputed with the
+  // text, since the source map is kept in step with every edit
+  const highlight = useMemo(() => {
+    const range = selectedTableId ? sourceMap.current.tables.get(selectedTableId) : undefined;
+    return selectedTableId && range ? { key: selectedTableId, range } : null;
+    // editorText is a dependency because the source map changes with it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedTableId, editorText]);
+
+  // Autocomplete and hover cards draw on the schema as last parsed, which the
+  // store holds once an edit has been applied
+  const editorSchema = useMemo(() => ({ tables, relationships, enums }), [tables, relationships, enums]);
+
+  // Once something else is selected on the canvas, the cursor's block can be located again
+  useEffect(() => {
+    const located = locatedTarget.current;
+    if (located && "tableId" in located && located.tableId !== selectedTableId) {
+      locatedTarget.current = null;
+    }
+  }, [selectedTableId]);
+
+  // Text -> Canvas: select whatever the cursor was moved into
+  const handleCursorChange = useCallback(
+    (pos: number) => {
+      const map = sourceMap.current;
+      const tableId = findRangeAt(map.tables, pos);
+      const relationshipId = tableId ? null : findRangeAt(map.refs, pos);
+      const target: SourceTarget | null = tableId
+        ? { tableId, columnId: findRangeAt(map.columns, pos) }
+        : relationshipId
+          ? { relationshipId }
+          : null;
+
+      if (JSON.stringify(target) === JSON.stringify(locatedTarget.current)) return;
+      locatedTarget.current = target;
+      if (target) onLocate?.(target);
+    },
+    [onLocate],
   );
 
   // Divider drag
@@ -140,8 +275,14 @@ export const SchemaEditorPane: React.FC<SchemaEditorPaneProps> = ({
             <DbmlEditor
               value={editorText}
               onChange={handleEditorChange}
-              errors={errors}
+              diagnostics={diagnostics}
               theme={resolvedTheme === "dark" ? "dark" : "light"}
+              dialect={project.databaseType}
+              completionSchema={editorSchema}
+              hoverSchema={editorSchema}
+              highlight={highlight}
+              onCursorChange={handleCursorChange}
+              formatOptions={dbmlFormatOptions}
             />
           </div>
 
@@ -0,0 +1,183 @@
+"use client";
+
+import React, { useState } from "react";
+import { NodeResizer, type NodeProps } from "@xyflow/react";
+import { useSchema } from "@/hooks/use-schema";
+import type { StickyNoteNode as StickyNoteNodeType } from "@/features/schema/types/schema.types";
+import { getQualifiedTableName } from "@/features/schema/utils/schema.utils";
+import { STICKY_NOTE_COLORS } from "@/constants/schema";
+import MarkdownContent from "@/components/schema/markdown-content";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Check, Edit2, Pin, PinOff, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+/**
+ * A DBML sticky note on the canvas. Double-click to edit the markdown; a note
+ * pinned to a table moves along with it.
+ */
+const StickyNoteNode: React.FC<NodeProps<StickyNoteNodeType>> = React.memo(({ data, selected }) => {
+  const { note, tableName } = data;
+  const tables = useSchema((s) => s.tables);
+  const updateNote = useSchema((s) => s.updateNote);
+  const deleteNote = useSchema((s) => s.deleteNote);
+
+  const [draft, setDraft] = useState<{ name: string; content: string } | null>(null);
+
+  const color = note.color ?? STICKY_NOTE_COLORS[0];
+
+  const startEditing = () => setDraft({ name: note.name, content: note.content });
+
+  const saveDraft = () => {
+    if (!draft) return;
+    // DBML note names are identifiers, so an emptied name keeps the old one
+    updateNote(note.id, { name: draft.name.trim() || note.name, content: draft.content });
+    setDraft(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") setDraft(null);
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) saveDraft();
+  };
+
+  return (
+    <>
+      <NodeResizer
+        isVisible={selected}
+        minWidth={160}
+        minHeight={100}
+        onResizeEnd={(_, params) =>
+          updateNote(note.id, {
+            position: { x: Math.round(params.x), y: Math.round(params.y) },
+            width: Math.round(params.width),
+            height: Math.round(params.height),
+          })
+        }
+      />
+      <div
+        className={cn(
+          "w-full h-full flex flex-col rounded-md shadow-md text-neutral-800 border border-black/10",
+          selected && "ring-2 ring-primary/40"
+        )}
+        style={{ backgroundColor: color }}
+        onDoubleClick={draft ? undefined : startEditing}
+      >
+        <div className="flex items-center gap-1 px-2 pt-1.5 pb-1 border-b border-black/10">
+          {draft ? (
+            <Input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              onKeyDown={handleKeyDown}
+              className="nodrag h-6 text-xs font-semibold bg-white/60 border-black/10"
+            />
+          ) : (
+            <span className="text-xs font-semibold truncate">{note.name}</span>
+          )}
+
+          {!draft && tableName && (
+            <span className="flex items-center gap-0.5 text-[10px] text-neutral-600 truncate" title={`Pinned to ${tableName}`}>
+              <Pin className="h-3 w-3 shrink-0" />
+              {tableName}
+            </span>
+          )}
+
+          <div className="ml-auto flex items-center shrink-0">
+            {draft ? (
+              <Button variant="ghost" size="icon" className="h-6 w-6 hover:bg-black/10" onClick={saveDraft} title="Save (Ctrl+Enter)">
+                <Check className="h-3.5 w-3.5" />
+              </Button>
+            ) : (
+              <>
+                <Button variant="ghost" size="icon" className="h-6 w-6 hover:bg-black/10" onClick={startEditing} title="Edit note">
+                  <Edit2 className="h-3 w-3" />
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 hover:bg-black/10" title="Pin to a table">
+                      <Pin className="h-3 w-3" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-48 max-h-64 overflow-y-auto">
+                    {note.tableId && (
+                      <>
+                        <DropdownMenuItem className="text-xs" onClick={() => updateNote(note.id, { tableId: undefined })}>
+                          <PinOff className="mr-2 h-3.5 w-3.5" /> Unpin
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                      </>
+                    )}
+                    {tables.map((table) => (
+                      <DropdownMenuItem
+                        key={table.id}
+                        className="text-xs font-mono"
+                        onClick={() => updateNote(note.id, { tableId: table.id })}
+                      >
+                        {getQualifiedTableName(table)}
+                        {table.id === note.tableId && <Check className="ml-auto h-3.5 w-3.5" />}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 hover:bg-black/10 hover:text-destructive"
+                  onClick={() => deleteNote(note.id)}
+                  title="Delete note"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {draft ? (
+          <div className="flex-1 flex flex-col gap-1.5 p-2 min-h-0">
+            <textarea
+              autoFocus
+              value={draft.content}
+              onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+              onKeyDown={handleKeyDown}
+              placeholder="Markdown…"
+              className="nodrag nowheel flex-1 resize-none rounded bg-white/60 border border-black/10 p-1.5 text-xs font-mono outline-none"
+            />
+            <div className="flex items-center gap-1">
+              {STICKY_NOTE_COLORS.map((swatch) => (
+                <button
+                  key={swatch}
+                  className={cn(
+                    "h-4 w-4 rounded-full border border-black/20",
+                    swatch === color && "ring-2 ring-offset-1 ring-neutral-500"
+                  )}
+                  style={{ backgroundColor: swatch }}
+                  onClick={() => updateNote(note.id, { color: swatch })}
+                  title={swatch}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="nowheel flex-1 overflow-y-auto px-2.5 py-2">
+            {note.content ? (
+              <MarkdownContent content={note.content} />
+            ) : (
+              <span className="text-xs italic text-neutral-500">Double-click to write a note</span>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+});
+
+StickyNoteNode.displayName = "StickyNoteNode";
+
+export default StickyNoteNode;
@@ -0,0 +1,93 @@
+"use client";
+
+import React from "react";
+import { NodeResizer, type NodeProps } from "@xyflow/react";
+import { useSchema } from "@/hooks/use-schema";
+import type { TableGroupNode as TableGroupNodeType } from "@/features/schema/types/schema.types";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const DEFAULT_GROUP_COLOR = "#64748b";
+
+/**
+ * A labelled region drawn behind the tables of a DBML TableGroup.
+ * Collapsed, it stands in for its tables as a single node listing their names.
+ */
+const TableGroupNode: React.FC<NodeProps<TableGroupNodeType>> = React.memo(({ data, selected }) => {
+  const { group, tableNames } = data;
+  const updateGroup = useSchema((s) => s.updateGroup);
+  const deleteGroup = useSchema((s) => s.deleteGroup);
+
+  const color = group.color ?? DEFAULT_GROUP_COLOR;
+  const isCollapsed = !!group.collapsed;
+
+  const toggleCollapsed = () => updateGroup(group.id, { collapsed: !isCollapsed });
+
+  return (
+    <>
+      {!isCollapsed && (
+        <NodeResizer
+          isVisible={selected}
+          minWidth={200}
+          minHeight={120}
+          color={color}
+          onResizeEnd={(_, params) =>
+            updateGroup(group.id, {
+              position: { x: Math.round(params.x), y: Math.round(params.y) },
+              width: Math.round(params.width),
+              height: Math.round(params.height),
+            })
+          }
+        />
+      )}
+      <div
+        className={cn(
+          "rounded-xl border-2 border-dashed",
+          isCollapsed ? "min-w-[220px] max-w-[320px] shadow-lg bg-card/95 backdrop-blur-sm" : "w-full h-full"
+        )}
+        style={{
+          borderColor: color,
+          backgroundColor: isCollapsed ? undefined : `${color}14`,
+        }}
+        title={group.note}
+      >
+        <div className="flex items-center gap-1.5 px-3 py-2">
+          <button
+            className="text-muted-foreground hover:text-foreground"
+            onClick={toggleCollapsed}
+            title={isCollapsed ? "Expand group" : "Collapse group"}
+          >
+            {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </button>
+          <span className="font-semibold text-sm truncate" style={{ color }}>
+            {group.name}
+          </span>
+          <span className="text-[10px] text-muted-foreground shrink-0">
+            {tableNames.length} table{tableNames.length !== 1 ? "s" : ""}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 ml-auto text-muted-foreground hover:text-destructive"
+            onClick={() => deleteGroup(group.id)}
+            title="Remove group (keeps its tables)"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+        {isCollapsed && tableNames.length > 0 && (
+          <ul className="px-3 pb-2 space-y-0.5 text-xs font-mono text-muted-foreground">
+            {tableNames.map((name) => (
+              <li key={name} className="truncate">{name}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+});
+
+TableGroupNode.displayName = "TableGroupNode";
+
+export default TableGroupNode;
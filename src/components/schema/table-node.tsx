@@ -1,18 +1,27 @@
 "use client";
 
 import React, { useState, useCallback } from "react";
-import { Handle, Position, NodeProps, type Node } from '@xyflow/react';
-import { Table, Column } from "@/types/schema";
+import { Handle, Position, NodeProps, NodeResizeControl, type Node } from '@xyflow/react';
+import { Table, Column, Enum, EnumValue, TableIndex } from "@/types/schema";
 import { useSchema } from "@/hooks/use-schema";
-import type { ColumnType } from "@/constants/schema";
+import { INDEX_TYPES, SQL_DIALECTS, TIMEZONE_COLUMN_TYPES, type ColumnType, type IndexType, type SQLDialect } from "@/constants/schema";
 
 type SchemaState = {
   updateTable: (id: string, updates: Partial<Table>) => void;
   addColumn: (tableId: string, column: Omit<Column, 'id'>) => void;
   updateColumn: (tableId: string, columnId: string, updates: Partial<Column>) => void;
   deleteColumn: (tableId: string, columnId: string) => void;
+  enums: Enum[];
+  addEnum: (enumData: Omit<Enum, 'id'>) => string;
+  updateEnum: (id: string, updates: Partial<Enum>) => void;
+  batch: (label: string, fn: () => void) => void;
+  addIndex: (tableId: string, index: Omit<TableIndex, 'id'>) => void;
+  updateIndex: (tableId: string, indexId: string, updates: Partial<TableIndex>) => void;
+  deleteIndex: (tableId: string, indexId: string) => void;
 };
 import { useCanvasState } from "@/features/schema/hooks/use-canvas-state";
+import { describeColumnChanges, type ColumnDiff } from "@/features/schema/utils/schema-diff.utils";
+import { formatColumnTypeLabel, getNamespaceColor, getQualifiedTableName, pickTypeParams } from "@/features/schema/utils/schema.utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -34,11 +43,12 @@ import {
 import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
-import { Plus, Edit2, Trash2, GripVertical } from "lucide-react";
+import { Plus, Edit2, Trash2, GripVertical, ChevronDown, ChevronRight } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface TableNodeData extends Node {
   table: Table;
+  isGhost?: boolean;
   data: {
     table: Table;
   }
@@ -55,7 +65,7 @@ const TYPE_GROUPS = [
   },
   {
     label: "Date / Time",
-    types: ["date", "datetime", "timestamp"],
+    types: ["date", "datetime", "timestamp", "time"],
   },
   {
     label: "Other",
@@ -63,10 +73,51 @@ const TYPE_GROUPS = [
   },
 ];
 
+const NEW_ENUM = "__new__";
+
+// Array elements are plain scalar types
+const ARRAY_ELEMENT_TYPES = TYPE_GROUPS.flatMap((group) => group.types).filter((t) => t !== "enum" && t !== "array");
+
+// Empty or invalid input clears the parameter
+const parseTypeParam = (value: string): number | undefined => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+};
+
+/** Enum being edited alongside a column; `values` holds one value per line */
+interface EnumDraft {
+  id: string | null;
+  name: string;
+  values: string;
+  note?: string;
+}
+
+const toEnumDraft = (enumDef: Enum): EnumDraft => ({
+  id: enumDef.id,
+  name: enumDef.name,
+  values: enumDef.values.map((v) => v.name).join("\n"),
+  note: enumDef.note,
+});
+
+// Value notes are kept for values whose name did not change
+function parseEnumValues(text: string, previous: EnumValue[] = []): EnumValue[] {
+  const notes = new Map(previous.map((v) => [v.name, v.note]));
+  const names = text.split("\n").map((line) => line.trim()).filter(Boolean);
+  return [...new Set(names)].map((name) => ({ name, note: notes.get(name) }));
+}
+
+const DEFAULT_INDEX_TYPE = "__default__";
+
+/** Index being edited; `id` is null for a new index */
+type IndexDraft = Omit<TableIndex, 'id'> & { id: string | null };
+
+const NEW_INDEX_DRAFT: IndexDraft = { id: null, columnIds: [], unique: false };
+
 const TableNode: React.FC<NodeProps<TableNodeData>> = React.memo((props) => {
   const { selected } = props;
   const data = props.data as unknown as TableNodeData;
   const table = data?.table;
+  const isGhost = !!data?.isGhost;
 
   const [isEditingName, setIsEditingName] = useState(false);
   const [tempName, setTempName] = useState(table?.name ?? '');
@@ -87,11 +138,20 @@ const TableNode: React.FC<NodeProps<TableNodeData>> = React.memo((props) => {
   });
   const [isEditingColumn, setIsEditingColumn] = useState(false);
   const [editingColumn, setEditingColumn] = useState<Column | null>(null);
+  const [enumDraft, setEnumDraft] = useState<EnumDraft | null>(null);
+  const [indexDraft, setIndexDraft] = useState<IndexDraft | null>(null);
 
   const updateTable = useSchema((state: SchemaState) => state.updateTable);
   const addColumn = useSchema((state: SchemaState) => state.addColumn);
   const updateColumn = useSchema((state: SchemaState) => state.updateColumn);
   const deleteColumn = useSchema((state: SchemaState) => state.deleteColumn);
+  const enums = useSchema((state: SchemaState) => state.enums);
+  const addEnum = useSchema((state: SchemaState) => state.addEnum);
+  const updateEnum = useSchema((state: SchemaState) => state.updateEnum);
+  const batch = useSchema((state: SchemaState) => state.batch);
+  const addIndex = useSchema((state: SchemaState) => state.addIndex);
+  const updateIndex = useSchema((state: SchemaState) => state.updateIndex);
+  const deleteIndex = useSchema((state: SchemaState) => state.deleteIndex);
 
   const handleNameUpdate = () => {
     if (tempName.trim() && tempName !== table.name) {
@@ -111,31 +171,99 @@ const TableNode: React.FC<NodeProps<TableNodeData>> = React.memo((props) => {
   const handleDeleteColumn = (columnId: string) => deleteColumn(table.id, columnId);
 
   const handleEditColumn = (column: Column) => {
+    const columnEnum = enums.find((e) => e.id === column.enumId);
     setEditingColumn({ ...column });
+    setEnumDraft(columnEnum ? toEnumDraft(columnEnum) : null);
     setIsEditingColumn(true);
   };
 
+  const handleColumnTypeChange = (type: ColumnType) => {
+    if (!editingColumn) return;
+    setEditingColumn({ ...editingColumn, type });
+    if (type === "enum" && !enumDraft) {
+      setEnumDraft(enums.length > 0 ? toEnumDraft(enums[0]) : { id: null, name: "", values: "" });
+    }
+  };
+
+  const handleSelectEnum = (value: string) => {
+    const selected = enums.find((e) => e.id === value);
+    setEnumDraft(selected ? toEnumDraft(selected) : { id: null, name: "", values: "" });
+  };
+
   const handleSaveEditColumn = useCallback(() => {
     if (editingColumn && editingColumn.name.trim()) {
-      updateColumn(table.id, editingColumn.id, {
-        name: editingColumn.name.trim(),
-        type: editingColumn.type,
-        nullable: editingColumn.nullable,
-        primaryKey: editingColumn.primaryKey,
-        unique: editingColumn.unique,
-        defaultValue: editingColumn.defaultValue,
-        description: editingColumn.description,
+      // The column and its enum are saved as one undo step
+      batch("Update column", () => {
+        let enumId: string | undefined;
+        if (editingColumn.type === "enum" && enumDraft && enumDraft.name.trim()) {
+          const previous = enums.find((e) => e.id === enumDraft.id);
+          const enumData = {
+            name: enumDraft.name.trim(),
+            values: parseEnumValues(enumDraft.values, previous?.values),
+            note: enumDraft.note || undefined,
+          };
+          if (!previous) {
+            enumId = addEnum(enumData);
+          } else {
+            enumId = previous.id;
+            if (JSON.stringify({ ...previous, ...enumData }) !== JSON.stringify(previous)) {
+              updateEnum(previous.id, enumData);
+            }
+          }
+        }
+
+        updateColumn(table.id, editingColumn.id, {
+          name: editingColumn.name.trim(),
+          type: editingColumn.type,
+          ...pickTypeParams(editingColumn.type, editingColumn),
+          nativeType: editingColumn.nativeType,
+          nativeTypeDialect: editingColumn.nativeType ? editingColumn.nativeTypeDialect ?? "postgresql" : undefined,
+          enumId,
+          nullable: editingColumn.nullable,
+          primaryKey: editingColumn.primaryKey,
+          unique: editingColumn.unique,
+          defaultValue: editingColumn.defaultValue,
+          description: editingColumn.description,
+        });
       });
       setIsEditingColumn(false);
       setEditingColumn(null);
+      setEnumDraft(null);
     }
-  }, [editingColumn, updateColumn, table]);
+  }, [editingColumn, enumDraft, enums, addEnum, updateEnum, updateColumn, batch, table]);
 
   const handleCancelEditColumn = useCallback(() => {
     setIsEditingColumn(false);
     setEditingColumn(null);
+    setEnumDraft(null);
   }, []);
 
+  // Columns are kept in the order they were ticked, which is the index order
+  const handleToggleIndexColumn = (columnId: string, checked: boolean) => {
+    if (!indexDraft) return;
+    const columnIds = checked
+      ? [...indexDraft.columnIds, columnId]
+      : indexDraft.columnIds.filter((id) => id !== columnId);
+    setIndexDraft({ ...indexDraft, columnIds });
+  };
+
+  const handleSaveIndex = () => {
+    if (!indexDraft || indexDraft.columnIds.length === 0) return;
+    const { id, ...indexData } = indexDraft;
+    const cleaned = {
+      ...indexData,
+      name: indexData.name?.trim() || undefined,
+      where: indexData.where?.trim() || undefined,
+      note: indexData.note?.trim() || undefined,
+    };
+    if (id) {
+      updateIndex(table.id, id, cleaned);
+    } else {
+      addIndex(table.id, cleaned);
+    }
+    setIndexDraft(null);
+  };
+
 
 
   const isHighlighted = useCanvasState((state) => {
@@ -145,17 +273,42 @@ const TableNode: React.FC<NodeProps<TableNodeData>> = React.memo((props) => {
 
   const isSelected = useCanvasState((state) => state.selectedNodeIds.has(table.id));
 
+  // Only the table holding the highlighted column re-renders when it changes
+  const highlightedColumnId = useCanvasState((state) =>
+    table.columns.some((c) => c.id === state.highlightedColumnId) ? state.highlightedColumnId : null
+  );
+
   const detailLevel = useCanvasState((state) => state.detailLevel);
 
+  // Compare mode: how this table differs from the compared version
+  const tableDiff = useCanvasState((state) => state.comparisonDiff?.tables.get(table.id));
+  const changeKind = isGhost ? 'removed' : tableDiff?.kind;
+  const isReadOnly = isGhost;
+
+  const columnDiffs = React.useMemo(() => {
+    return new Map<string, ColumnDiff>((tableDiff?.columns ?? []).map(c => [c.columnId, c]));
+  }, [tableDiff]);
+
+  // Columns that only exist in the compared version are drawn as ghost rows
+  const allColumns = React.useMemo(() => {
+    const removed = (tableDiff?.columns ?? [])
+      .filter(c => c.kind === 'removed' && c.before)
+      .map(c => c.before!);
+    return removed.length > 0 ? [...table.columns, ...removed] : table.columns;
+  }, [table.columns, tableDiff]);
+
+  const isCollapsed = !!table.collapsed;
+  const tableIndexes = table.indexes ?? [];
+
   const visibleColumns = React.useMemo(() => {
-    if (detailLevel === 'compact') return [];
-    if (detailLevel === 'keys-only') return table.columns.filter(c => c.primaryKey || c.foreignKey || c.unique);
-    return table.columns;
-  }, [table.columns, detailLevel]);
+    if (detailLevel === 'compact' || isCollapsed) return [];
+    if (detailLevel === 'keys-only') return allColumns.filter(c => c.primaryKey || c.foreignKey || c.unique);
+    return allColumns;
+  }, [allColumns, detailLevel, isCollapsed]);
 
   const hiddenColumns = React.useMemo(() => {
-    return table.columns.filter(c => !visibleColumns.includes(c));
-  }, [table.columns, visibleColumns]);
+    return allColumns.filter(c => !visibleColumns.includes(c));
+  }, [allColumns, visibleColumns]);
 
   if (!table) return null;
 
@@ -163,11 +316,27 @@ const TableNode: React.FC<NodeProps<TableNodeData>> = React.memo((props) => {
     <>
       <Card
         className={cn(
-          "min-w-[240px] max-w-[340px] border rounded-xl shadow-lg bg-card/95 backdrop-blur-sm overflow-visible py-0 gap-0 transition-[opacity,transform,box-shadow,filter] duration-300",
+          table.width ? "w-full" : "min-w-[240px] max-w-[340px]",
+          "border rounded-xl shadow-lg bg-card/95 backdrop-blur-sm overflow-visible py-0 gap-0 transition-[opacity,transform,box-shadow,filter] duration-300",
           isSelected ? "border-primary/60 shadow-primary/10 ring-2 ring-primary/20" : "border-border/60 shadow-black/5 dark:shadow-black/40",
-          isHighlighted ? "opacity-100 scale-[1.01] shadow-xl z-20" : "opacity-60 grayscale-[0.2] blur-[0.2px] z-10"
+          isHighlighted ? "opacity-100 scale-[1.01] shadow-xl z-20" : "opacity-60 grayscale-[0.2] blur-[0.2px] z-10",
+          changeKind === 'added' && "border-emerald-500 ring-2 ring-emerald-500/40",
+          changeKind === 'removed' && "border-dashed border-red-500 ring-2 ring-red-500/30 opacity-50",
+          changeKind === 'modified' && "border-amber-500/70",
+          table.namespace && "border-l-4"
         )}
+        style={table.namespace ? { borderLeftColor: getNamespaceColor(table.namespace) } : undefined}
       >
+        {/* Drag the right edge to set the table width */}
+        {!isReadOnly && (
+          <NodeResizeControl
+            position="right"
+            minWidth={200}
+            className="border-transparent! hover:border-primary/40! border-2!"
+            onResizeEnd={(_, params) => updateTable(table.id, { width: Math.round(params.width) })}
+          />
+        )}
+
         {/* Fallback invisible handles for hidden columns so relationships remain connected */}
         {hiddenColumns.map(column => (
           <React.Fragment key={`hidden-${column.id}`}>
@@ -179,7 +348,16 @@ const TableNode: React.FC<NodeProps<TableNodeData>> = React.memo((props) => {
         {/* Header */}
         <div className="bg-gradient-to-r from-primary/95 to-primary px-3 py-2 flex items-center gap-2 group rounded-t-[calc(var(--radius)-2px)] border-b border-primary/20 relative">
           <GripVertical className="h-3.5 w-3.5 text-primary-foreground/40 shrink-0 cursor-grab hover:text-primary-foreground/70 transition-colors" />
-          {isEditingName ? (
+          {!isReadOnly && (
+            <button
+              className="shrink-0 text-primary-foreground/60 hover:text-primary-foreground transition-colors"
+              onClick={() => updateTable(table.id, { collapsed: !isCollapsed })}
+              title={isCollapsed ? "Expand table" : "Collapse table"}
+            >
+              {isCollapsed ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+            </button>
+          )}
+          {isEditingName && !isReadOnly ? (
             <Input
               value={tempName}
               onChange={(e) => setTempName(e.target.value)}
@@ -194,11 +372,29 @@ const TableNode: React.FC<NodeProps<TableNodeData>> = React.memo((props) => {
           ) : (
             <div
               className="flex items-center gap-1.5 flex-1 cursor-pointer min-w-0"
-              onClick={() => setIsEditingName(true)}
+              onClick={() => !isReadOnly && setIsEditingName(true)}
+              title={tableDiff?.renamed ? `Renamed from ${getQualifiedTableName(tableDiff.before!)}` : undefined}
             >
-              <span className="text-sm font-semibold tracking-tight text-primary-foreground truncate">
+              {table.namespace && (
+                <span
+                  className="text-[10px] font-medium text-white px-1.5 py-0.5 rounded shrink-0 leading-none"
+                  style={{ backgroundColor: getNamespaceColor(table.namespace) }}
+                  title={`Schema ${table.namespace}`}
+                >
+                  {table.namespace}
+                </span>
+              )}
+              <span className={cn(
+                "text-sm font-semibold tracking-tight text-primary-foreground truncate",
+                isGhost && "line-through"
+              )}>
                 {table.name}
               </span>
+              {tableDiff?.renamed && (
+                <span className="text-[10px] text-primary-foreground/70 truncate line-through">
+                  {getQualifiedTableName(tableDiff.before!)}
+                </span>
+              )}
               <Edit2 className="h-3 w-3 text-primary-foreground/50 opacity-0 group-hover:opacity-100 shrink-0" />
             </div>
           )}
@@ -218,121 +414,187 @@ const TableNode: React.FC<NodeProps<TableNodeData>> = React.memo((props) => {
 
         {/* Columns */}
         <CardContent className="p-0 flex flex-col">
-          {visibleColumns.map((column: Column) => (
-            <div
-              key={column.id}
-              className={cn(
-                "flex flex-col py-2.5 px-3 text-xs group/row relative border-b border-border/40 last:border-b-0 hover:bg-muted/40 transition-colors",
-                column.primaryKey && "bg-amber-50/30 dark:bg-amber-950/20",
-                column.foreignKey && !column.primaryKey && "bg-blue-50/30 dark:bg-blue-950/10",
-              )}
-            >
-              {/* Left handle - always present */}
-              <Handle
-                type="source"
-                position={Position.Left}
-                id={`${column.id}-left`}
+          {visibleColumns.map((column: Column) => {
+            const columnDiff = columnDiffs.get(column.id);
+            const columnChange = isGhost ? 'removed' : columnDiff?.kind;
+            const isGhostRow = columnChange === 'removed';
+            return (
+              <div
+                key={column.id}
                 className={cn(
-                  "w-2! h-2! border-[1.5px]! border-background! -left-1! z-10! ring-1 ring-transparent hover:ring-primary/50 hover:scale-125 transition-all top-[15px]! translate-y-0 opacity-0 group-hover/row:opacity-100",
-                  column.primaryKey ? "bg-amber-500!" : column.foreignKey ? "bg-blue-500!" : "bg-muted-foreground/40!"
+                  "flex flex-col py-2.5 px-3 text-xs group/row relative border-b border-border/40 last:border-b-0 hover:bg-muted/40 transition-colors",
+                  column.primaryKey && "bg-amber-50/30 dark:bg-amber-950/20",
+                  column.foreignKey && !column.primaryKey && "bg-blue-50/30 dark:bg-blue-950/10",
+                  columnChange === 'added' && "bg-emerald-100/60 dark:bg-emerald-950/40",
+                  columnChange === 'removed' && "bg-red-100/60 dark:bg-red-950/40 line-through opacity-70",
+                  columnChange === 'modified' && "bg-amber-100/70 dark:bg-amber-900/30",
+                  column.id === highlightedColumnId && "bg-primary/10 ring-1 ring-inset ring-primary/40",
                 )}
-              />
-
-              {/* Right handle - always present */}
-              <Handle
-                type="source"
-                position={Position.Right}
-                id={`${column.id}-right`}
-                className={cn(
-                  "w-2! h-2! border-[1.5px]! border-background! -right-1! z-10! ring-1 ring-transparent hover:ring-primary/50 hover:scale-125 transition-all top-[15px]! translate-y-0 opacity-0 group-hover/row:opacity-100",
-                  column.primaryKey ? "bg-amber-500!" : column.foreignKey ? "bg-blue-500!" : "bg-muted-foreground/40!"
-                )}
-              />
-
-              <div className="flex items-center gap-1.5 flex-1 min-w-0 ml-1">
-                {/* Badges */}
-                <div className="flex items-center gap-0.5 shrink-0">
-                  {column.primaryKey && (
-                    <span className="inline-flex items-center justify-center px-1.5 py-0.5 rounded-[4px] text-[9px] font-bold bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-400 leading-none shadow-sm shadow-amber-900/5" title="Primary Key">
-                      PK
-                    </span>
+                title={columnDiff?.kind === 'modified' ? describeColumnChanges(columnDiff).join('\n') : undefined}
+              >
+                {/* Left handle - always present */}
+                <Handle
+                  type="source"
+                  position={Position.Left}
+                  id={`${column.id}-left`}
+                  className={cn(
+                    "w-2! h-2! border-[1.5px]! border-background! -left-1! z-10! ring-1 ring-transparent hover:ring-primary/50 hover:scale-125 transition-all top-[15px]! translate-y-0 opacity-0 group-hover/row:opacity-100",
+                    column.primaryKey ? "bg-amber-500!" : column.foreignKey ? "bg-blue-500!" : "bg-muted-foreground/40!"
                   )}
-                  {column.foreignKey && !column.primaryKey && (
-                    <span className="inline-flex items-center justify-center px-1.5 py-0.5 rounded-[4px] text-[9px] font-bold bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-400 leading-none shadow-sm shadow-blue-900/5" title="Foreign Key">
-                      FK
-                    </span>
+                />
+
+                {/* Right handle - always present */}
+                <Handle
+                  type="source"
+                  position={Position.Right}
+                  id={`${column.id}-right`}
+                  className={cn(
+                    "w-2! h-2! border-[1.5px]! border-background! -right-1! z-10! ring-1 ring-transparent hover:ring-primary/50 hover:scale-125 transition-all top-[15px]! translate-y-0 opacity-0 group-hover/row:opacity-100",
+                    column.primaryKey ? "bg-amber-500!" : column.foreignKey ? "bg-blue-500!" : "bg-muted-foreground/40!"
                   )}
-                </div>
+                />
 
-                <span className={cn(
-                  "font-medium truncate tracking-tight text-[11px]",
-                  column.primaryKey ? "text-foreground font-semibold" : "text-foreground/80"
-                )}>
-                  {column.name}
-                </span>
+                <div className="flex items-center gap-1.5 flex-1 min-w-0 ml-1">
+                  {/* Badges */}
+                  <div className="flex items-center gap-0.5 shrink-0">
+                    {column.primaryKey && (
+                      <span className="inline-flex items-center justify-center px-1.5 py-0.5 rounded-[4px] text-[9px] font-bold bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-400 leading-none shadow-sm shadow-amber-900/5" title="Primary Key">
+                        PK
+                      </span>
+                    )}
+                    {column.foreignKey && !column.primaryKey && (
+                      <span className="inline-flex items-center justify-center px-1.5 py-0.5 rounded-[4px] text-[9px] font-bold bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-400 leading-none shadow-sm shadow-blue-900/5" title="Foreign Key">
+                        FK
+                      </span>
+                    )}
+                  </div>
 
-                {/* Constraint badges */}
-                <div className="flex items-center gap-0.5 shrink-0">
-                  {!column.nullable && !column.primaryKey && (
-                    <span className="inline-flex items-center justify-center px-1 py-0.5 rounded-[3px] text-[8px] font-semibold text-orange-600 dark:text-orange-400 leading-none bg-orange-100 dark:bg-orange-950/30" title="NOT NULL">
-                      NN
-                    </span>
-                  )}
-                  {column.unique && !column.primaryKey && (
-                    <span className="inline-flex items-center justify-center px-1 py-0.5 rounded-[3px] text-[8px] font-semibold text-purple-600 dark:text-purple-400 leading-none bg-purple-100 dark:bg-purple-950/30" title="Unique">
-                      UQ
-                    </span>
-                  )}
+                  <span className={cn(
+                    "font-medium truncate tracking-tight text-[11px]",
+                    column.primaryKey ? "text-foreground font-semibold" : "text-foreground/80"
+                  )}>
+                    {column.name}
+                  </span>
+
+                  {/* Constraint badges */}
+                  <div className="flex items-center gap-0.5 shrink-0">
+                    {!column.nullable && !column.primaryKey && (
+                      <span className="inline-flex items-center justify-center px-1 py-0.5 rounded-[3px] text-[8px] font-semibold text-orange-600 dark:text-orange-400 leading-none bg-orange-100 dark:bg-orange-950/30" title="NOT NULL">
+                        NN
+                      </span>
+                    )}
+                    {column.unique && !column.primaryKey && (
+                      <span className="inline-flex items-center justify-center px-1 py-0.5 rounded-[3px] text-[8px] font-semibold text-purple-600 dark:text-purple-400 leading-none bg-purple-100 dark:bg-purple-950/30" title="Unique">
+                        UQ
+                      </span>
+                    )}
+                  </div>
+
+                  <span className="font-mono text-[10px] text-muted-foreground/70 ml-auto shrink-0 pl-3">
+                    {(column.type === 'enum' && enums.find((e) => e.id === column.enumId)?.name) || formatColumnTypeLabel(column)}
+                    {column.defaultValue && (
+                      <span className="text-primary/50 ml-0.5 font-medium">={column.defaultValue}</span>
+                    )}
+                  </span>
                 </div>
 
-                <span className="font-mono text-[10px] text-muted-foreground/70 ml-auto shrink-0 pl-3">
-                  {column.type}
-                  {column.defaultValue && (
-                    <span className="text-primary/50 ml-0.5 font-medium">={column.defaultValue}</span>
-                  )}
-                </span>
-              </div>
+                {!isGhostRow && (
+                  <div className="flex items-center gap-0.5 ml-1 absolute right-2 opacity-0 group-hover/row:opacity-100 transition-opacity bg-background/80 backdrop-blur rounded shadow-sm">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-5 w-5 hover:bg-accent hover:text-foreground text-muted-foreground/50"
+                      onClick={() => handleEditColumn(column)}
+                    >
+                      <Edit2 className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-5 w-5 hover:bg-destructive/10 hover:text-destructive text-muted-foreground/50"
+                      onClick={() => handleDeleteColumn(column.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
 
-              <div className="flex items-center gap-0.5 ml-1 absolute right-2 opacity-0 group-hover/row:opacity-100 transition-opacity bg-background/80 backdrop-blur rounded shadow-sm">
-                <Button
-                  size="icon"
-                  variant="ghost"
-                  className="h-5 w-5 hover:bg-accent hover:text-foreground text-muted-foreground/50"
-                  onClick={() => handleEditColumn(column)}
-                >
-                  <Edit2 className="h-3 w-3" />
-                </Button>
-                <Button
-                  size="icon"
-                  variant="ghost"
-                  className="h-5 w-5 hover:bg-destructive/10 hover:text-destructive text-muted-foreground/50"
-                  onClick={() => handleDeleteColumn(column.id)}
-                >
-                  <Trash2 className="h-3 w-3" />
-                </Button>
+                {/* Detailed view extra info */}
+                {detailLevel === 'detailed' && (
+                  <div className="mt-1 ml-1 text-muted-foreground space-y-0.5">
+                    {(column.increment || (column.foreignKey && column.foreignKey.tableId)) && (
+                      <div className="text-[10px] pl-1 font-mono text-primary/70">
+                        {column.increment && "auto_increment"}
+                        {column.increment && column.foreignKey && ", "}
+                        {column.foreignKey && `-> ${column.foreignKey.tableId}${column.foreignKey.columnId ? '.' + column.foreignKey.columnId.split('-')[0] : ''}`}
+                      </div>
+                    )}
+                    {column.description && (
+                      <div className="text-[10px] pl-1 italic">
+                        &quot;{column.description}&quot;
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
-
-              {/* Detailed view extra info */}
-              {detailLevel === 'detailed' && (
-                <div className="mt-1 ml-1 text-muted-foreground space-y-0.5">
-                  {(column.increment || (column.foreignKey && column.foreignKey.tableId)) && (
-                    <div className="text-[10px] pl-1 font-mono text-primary/70">
-                      {column.increment && "auto_increment"}
-                      {column.increment && column.foreignKey && ", "}
-                      {column.foreignKey && `-> ${column.foreignKey.tableId}${column.foreignKey.columnId ? '.' + column.foreignKey.columnId.split('-')[0] : ''}`}
-                    </div>
-                  )}
-                  {column.description && (
-                    <div className="text-[10px] pl-1 italic">
-                      &quot;{column.description}&quot;
+            );
+          })}
+
+          {/* Indexes (Detailed level only) */}
+          {detailLevel === 'detailed' && !isCollapsed && (tableIndexes.length > 0 || !isReadOnly) && (
+            <div className="border-t border-border/40 bg-muted/20 px-3 py-1.5 text-[10px]">
+              <div className="flex items-center justify-between text-muted-foreground">
+                <span className="font-semibold uppercase tracking-wider">Indexes</span>
+                {!isReadOnly && (
+                  <button
+                    className="hover:text-foreground transition-colors"
+                    onClick={() => setIndexDraft(NEW_INDEX_DRAFT)}
+                    title="Add index"
+                  >
+                    <Plus className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+              {tableIndexes.map((index) => (
+                <div key={index.id} className="flex items-center gap-1.5 py-0.5 group/index" title={index.note}>
+                  <span className={cn(
+                    "inline-flex items-center justify-center px-1 py-0.5 rounded-[3px] text-[8px] font-semibold leading-none shrink-0",
+                    index.unique
+                      ? "text-purple-600 dark:text-purple-400 bg-purple-100 dark:bg-purple-950/30"
+                      : "text-muted-foreground bg-muted"
+                  )}>
+                    {index.unique ? "UQ" : "IX"}
+                  </span>
+                  <span className="font-mono text-foreground/80 truncate">
+                    ({index.columnIds.map((id) => table.columns.find((c) => c.id === id)?.name ?? '?').join(', ')})
+                  </span>
+                  {index.type && <span className="font-mono text-muted-foreground/70 shrink-0">{index.type}</span>}
+                  {index.where && <span className="font-mono text-muted-foreground/70 truncate">where {index.where}</span>}
+                  {index.name && <span className="text-muted-foreground/60 truncate ml-auto">{index.name}</span>}
+                  {!isReadOnly && (
+                    <div className={cn("flex items-center gap-0.5 shrink-0 opacity-0 group-hover/index:opacity-100 transition-opacity", !index.name && "ml-auto")}>
+                      <button
+                        className="text-muted-foreground/60 hover:text-foreground"
+                        onClick={() => setIndexDraft({ ...index })}
+                        title="Edit index"
+                      >
+                        <Edit2 className="h-3 w-3" />
+                      </button>
+                      <button
+                        className="text-muted-foreground/60 hover:text-destructive"
+                        onClick={() => deleteIndex(table.id, index.id)}
+                        title="Delete index"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
                     </div>
                   )}
                 </div>
-              )}
+              ))}
             </div>
-          ))}
+          )}
 
-          {detailLevel !== 'compact' && (isAddingColumn ? (
+          {detailLevel !== 'compact' && !isCollapsed && !isReadOnly && (isAddingColumn ? (
             <div className="p-2 border-t border-border/40 bg-muted/20 space-y-2 rounded-b-[calc(var(--radius)-2px)]">
               <div className="flex gap-1.5">
                 <Input
@@ -414,7 +676,7 @@ const TableNode: React.FC<NodeProps<TableNodeData>> = React.memo((props) => {
                   </div>
                   <div className="space-y-1.5 w-[140px]">
                     <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Data Type</Label>
-                    <Select value={editingColumn.type} onValueChange={(v) => setEditingColumn({ ...editingColumn, type: v as ColumnType })}>
+                    <Select value={editingColumn.type} onValueChange={(v) => handleColumnTypeChange(v as ColumnType)}>
                       <SelectTrigger className="h-8 font-mono text-sm"><SelectValue /></SelectTrigger>
                       <SelectContent className="bg-card">
                         {TYPE_GROUPS.map((group) => (
@@ -428,6 +690,103 @@ const TableNode: React.FC<NodeProps<TableNodeData>> = React.memo((props) => {
                   </div>
                 </div>
 
+                {editingColumn.type === "enum" && enumDraft && (
+                  <div className="space-y-3 rounded-md border border-border/50 bg-muted/10 p-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1.5">
+                        <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Enum</Label>
+                        <Select value={enumDraft.id ?? NEW_ENUM} onValueChange={handleSelectEnum}>
+                          <SelectTrigger className="h-8 font-mono text-sm"><SelectValue /></SelectTrigger>
+                          <SelectContent className="bg-card">
+                            {enums.map((e) => <SelectItem key={e.id} value={e.id} className="font-mono text-xs">{e.name}</SelectItem>)}
+                            <SelectItem value={NEW_ENUM} className="text-xs">New enum…</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Enum Name</Label>
+                        <Input value={enumDraft.name} onChange={(e) => setEnumDraft({ ...enumDraft, name: e.target.value })} className="h-8 font-mono text-sm" placeholder="e.g. order_status" />
+                      </div>
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Values (one per line)</Label>
+                      <textarea
+                        value={enumDraft.values}
+                        onChange={(e) => setEnumDraft({ ...enumDraft, values: e.target.value })}
+                        className="w-full text-sm p-3 border border-input rounded-md bg-transparent resize-none h-24 focus:outline-none focus:ring-1 focus:ring-primary placeholder:text-muted-foreground/50 transition-colors font-mono"
+                        placeholder={"pending\nshipped\ndelivered"}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') e.stopPropagation();
+                        }}
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Enum Note</Label>
+                      <Input value={enumDraft.note || ''} onChange={(e) => setEnumDraft({ ...enumDraft, note: e.target.value || undefined })} className="h-8 text-sm" placeholder="What the values mean" />
+                    </div>
+                    {enumDraft.id && enums.some((e) => e.id === enumDraft.id) && (
+                      <p className="text-[11px] text-muted-foreground">
+                        Changes apply to every column using this enum.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {editingColumn.type === "string" && (
+                  <div className="space-y-1.5 w-[140px]">
+                    <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Length</Label>
+                    <Input type="number" min={1} value={editingColumn.length ?? ''} onChange={(e) => setEditingColumn({ ...editingColumn, length: parseTypeParam(e.target.value) })} className="h-8 font-mono text-sm" placeholder="255" />
+                  </div>
+                )}
+
+                {editingColumn.type === "decimal" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-1.5">
+                      <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Precision</Label>
+                      <Input type="number" min={1} value={editingColumn.precision ?? ''} onChange={(e) => setEditingColumn({ ...editingColumn, precision: parseTypeParam(e.target.value) })} className="h-8 font-mono text-sm" placeholder="10" />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Scale</Label>
+                      <Input type="number" min={0} value={editingColumn.scale ?? ''} onChange={(e) => setEditingColumn({ ...editingColumn, scale: parseTypeParam(e.target.value) })} className="h-8 font-mono text-sm" placeholder="2" disabled={editingColumn.precision == null} />
+                    </div>
+                  </div>
+                )}
+
+                {editingColumn.type === "array" && (
+                  <div className="space-y-1.5 w-[140px]">
+                    <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Element Type</Label>
+                    <Select value={editingColumn.arrayElementType ?? ''} onValueChange={(v) => setEditingColumn({ ...editingColumn, arrayElementType: v as ColumnType })}>
+                      <SelectTrigger className="h-8 font-mono text-sm"><SelectValue placeholder="any" /></SelectTrigger>
+                      <SelectContent className="bg-card">
+                        {ARRAY_ELEMENT_TYPES.map((t) => <SelectItem key={t} value={t} className="font-mono text-xs">{t}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {(TIMEZONE_COLUMN_TYPES as readonly string[]).includes(editingColumn.type) && (
+                  <div className="flex items-center gap-2 px-1">
+                    <Checkbox id="column-with-timezone" checked={!!editingColumn.withTimezone} onCheckedChange={(c) => setEditingColumn({ ...editingColumn, withTimezone: c === true || undefined })} className="h-4 w-4 rounded-sm" />
+                    <Label htmlFor="column-with-timezone" className="text-xs font-medium cursor-pointer">WITH TIME ZONE</Label>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-[1fr_min-content] gap-4">
+                  <div className="space-y-1.5">
+                    <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Native Type</Label>
+                    <Input value={editingColumn.nativeType || ''} onChange={(e) => setEditingColumn({ ...editingColumn, nativeType: e.target.value.trim() ? e.target.value : undefined })} className="h-8 font-mono text-sm" placeholder="e.g. inet, tsvector" />
+                  </div>
+                  <div className="space-y-1.5 w-[140px]">
+                    <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Dialect</Label>
+                    <Select value={editingColumn.nativeTypeDialect ?? "postgresql"} onValueChange={(v) => setEditingColumn({ ...editingColumn, nativeTypeDialect: v as SQLDialect })} disabled={!editingColumn.nativeType}>
+                      <SelectTrigger className="h-8 font-mono text-sm"><SelectValue /></SelectTrigger>
+                      <SelectContent className="bg-card">
+                        {SQL_DIALECTS.map((d) => <SelectItem key={d} value={d} className="font-mono text-xs">{d}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
                 <div className="space-y-1.5">
                   <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Default Value</Label>
                   <Input value={editingColumn.defaultValue || ''} onChange={(e) => setEditingColumn({ ...editingColumn, defaultValue: e.target.value || undefined })} className="h-8 font-mono text-sm" placeholder="e.g. now(), 0, 'active'" />
@@ -471,6 +830,85 @@ const TableNode: React.FC<NodeProps<TableNodeData>> = React.memo((props) => {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Edit Index Dialog */}
+      <Dialog open={!!indexDraft} onOpenChange={(open) => { if (!open) setIndexDraft(null); }}>
+        <DialogContent className="sm:max-w-md p-0 gap-0 overflow-hidden shadow-xl border-border" showCloseButton={true}>
+          {indexDraft && (
+            <form onSubmit={(e) => { e.preventDefault(); handleSaveIndex(); }}>
+              <DialogHeader className="px-5 py-4 border-b border-border/50 bg-muted/20">
+                <DialogTitle className="text-base font-semibold">{indexDraft.id ? "Edit Index" : "Add Index"}</DialogTitle>
+              </DialogHeader>
+              <div className="p-5 space-y-5">
+                <div className="space-y-1.5">
+                  <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Columns (in index order)</Label>
+                  <div className="max-h-40 overflow-y-auto rounded-md border border-border/50 p-2 space-y-1">
+                    {table.columns.map((column) => {
+                      const position = indexDraft.columnIds.indexOf(column.id);
+                      return (
+                        <Label key={column.id} className="flex items-center gap-2 text-xs font-medium cursor-pointer">
+                          <Checkbox
+                            checked={position !== -1}
+                            onCheckedChange={(c) => handleToggleIndexColumn(column.id, c === true)}
+                            className="h-4 w-4 rounded-sm"
+                          />
+                          <span className="font-mono">{column.name}</span>
+                          {position !== -1 && (
+                            <span className="ml-auto text-[10px] text-muted-foreground">{position + 1}</span>
+                          )}
+                        </Label>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-[1fr_min-content] gap-4">
+                  <div className="space-y-1.5">
+                    <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Index Name</Label>
+                    <Input value={indexDraft.name || ''} onChange={(e) => setIndexDraft({ ...indexDraft, name: e.target.value })} className="h-8 font-mono text-sm" placeholder="Generated from the columns" />
+                  </div>
+                  <div className="space-y-1.5 w-[140px]">
+                    <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Type</Label>
+                    <Select
+                      value={indexDraft.type ?? DEFAULT_INDEX_TYPE}
+                      onValueChange={(v) => setIndexDraft({ ...indexDraft, type: v === DEFAULT_INDEX_TYPE ? undefined : v as IndexType })}
+                    >
+                      <SelectTrigger className="h-8 font-mono text-sm"><SelectValue /></SelectTrigger>
+                      <SelectContent className="bg-card">
+                        <SelectItem value={DEFAULT_INDEX_TYPE} className="text-xs">Default</SelectItem>
+                        {INDEX_TYPES.map((t) => <SelectItem key={t} value={t} className="font-mono text-xs">{t}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <Label className="flex items-center gap-1.5 text-xs font-medium cursor-pointer text-foreground">
+                  <Checkbox checked={indexDraft.unique} onCheckedChange={(c) => setIndexDraft({ ...indexDraft, unique: c === true })} className="h-4 w-4 rounded-sm" />
+                  UNIQUE
+                </Label>
+
+                <div className="space-y-1.5">
+                  <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Where (partial index)</Label>
+                  <Input value={indexDraft.where || ''} onChange={(e) => setIndexDraft({ ...indexDraft, where: e.target.value })} className="h-8 font-mono text-sm" placeholder="e.g. deleted_at IS NULL" />
+                </div>
+
+                <div className="space-y-1.5">
+                  <Label className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Note</Label>
+                  <Input value={indexDraft.note || ''} onChange={(e) => setIndexDraft({ ...indexDraft, note: e.target.value })} className="h-8 text-sm" placeholder="What the index is for" />
+                </div>
+              </div>
+              <DialogFooter className="px-5 py-4 border-t border-border/50 bg-muted/20 sm:justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIndexDraft(null)} className="h-8 text-xs font-semibold px-4">
+                  Cancel
+                </Button>
+                <Button type="submit" className="h-8 text-xs font-semibold px-6" disabled={indexDraft.columnIds.length === 0}>
+                  Save Index
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
     </>
   );
 });
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useSchema } from '@/hooks/use-schema';
 import { useCanvasState } from '@/features/schema/hooks/use-canvas-state';
 import { Search } from 'lucide-react';
@@ -11,9 +11,16 @@ import {
   CommandList,
 } from '@/components/ui/command';
 import { useReactFlow } from '@xyflow/react';
+import { cn } from '@/lib/utils';
+import { getNamespaceColor, getQualifiedTableName } from '@/features/schema/utils/schema.utils';
+import type { Table } from '@/features/schema/types/schema.types';
+
+// Tables without a namespace live in the default schema
+const DEFAULT_NAMESPACE = '';
 
 export default function TableSearch() {
   const [open, setOpen] = useState(false);
+  const [namespace, setNamespace] = useState<string | null>(null);
   const tables = useSchema((s) => s.tables);
   const selectNode = useCanvasState((s) => s.selectNode);
   const { fitView } = useReactFlow();
@@ -30,6 +37,19 @@ export default function TableSearch() {
     return () => document.removeEventListener('keydown', down);
   }, []);
 
+  // Tables grouped by namespace, the default schema first
+  const groups = useMemo(() => {
+    const byNamespace = new Map<string, Table[]>();
+    for (const table of tables) {
+      const key = table.namespace ?? DEFAULT_NAMESPACE;
+      byNamespace.set(key, [...(byNamespace.get(key) ?? []), table]);
+    }
+    return [...byNamespace.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [tables]);
+
+  const hasNamespaces = groups.some(([key]) => key !== DEFAULT_NAMESPACE);
+  const visibleGroups = namespace === null ? groups : groups.filter(([key]) => key === namespace);
+
   const handleSelect = (tableId: string) => {
     setOpen(false);
     selectNode(tableId);
@@ -42,16 +62,36 @@ export default function TableSearch() {
   return (
     <CommandDialog open={open} onOpenChange={setOpen}>
       <CommandInput placeholder="Search tables..." />
+      {hasNamespaces && (
+        <div className="flex flex-wrap gap-1.5 border-b px-3 py-2">
+          {[null, ...groups.map(([key]) => key)].map((key) => (
+            <button
+              key={key ?? 'all'}
+              type="button"
+              className={cn(
+                'flex items-center gap-1.5 rounded-full border px-2 py-0.5 text-xs transition-colors',
+                namespace === key ? 'bg-accent text-accent-foreground' : 'text-muted-foreground hover:bg-accent/50'
+              )}
+              onClick={() => setNamespace(key)}
+            >
+              {key && <span className="h-2 w-2 rounded-full" style={{ backgroundColor: getNamespaceColor(key) }} />}
+              {key === null ? 'All' : key || 'default'}
+            </button>
+          ))}
+        </div>
+      )}
       <CommandList>
         <CommandEmpty>No results found.</CommandEmpty>
-        <CommandGroup heading="Tables">
-          {tables.map((table) => (
-            <CommandItem key={table.id} value={table.name} onSelect={() => handleSelect(table.id)}>
-              <Search className="mr-2 h-4 w-4 text-muted-foreground" />
-              {table.name}
-            </CommandItem>
-          ))}
-        </CommandGroup>
+        {visibleGroups.map(([key, groupTables]) => (
+          <CommandGroup key={key} heading={hasNamespaces ? key || 'default' : 'Tables'}>
+            {groupTables.map((table) => (
+              <CommandItem key={table.id} value={getQualifiedTableName(table)} onSelect={() => handleSelect(table.id)}>
+                <Search className="mr-2 h-4 w-4 text-muted-foreground" />
+                {getQualifiedTableName(table)}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
       </CommandList>
     </CommandDialog>
   );
@@ -0,0 +1,227 @@
+import React from 'react';
+import { useCanvasState } from '@/features/schema/hooks/use-canvas-state';
+import { useSchema } from '@/hooks/use-schema';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { X, GitCompare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  describeColumnChanges,
+  describeEnumChanges,
+  describeRelationshipChanges,
+  type ChangeKind,
+} from '@/features/schema/utils/schema-diff.utils';
+import { getQualifiedTableName, getRelationshipColumnIds } from '@/features/schema/utils/schema.utils';
+import type { Relationship, Table, TableIndex } from '@/features/schema/types/schema.types';
+
+interface VersionComparePanelProps {
+  onFocusTable: (tableId: string) => void;
+}
+
+const CHANGE_STYLES: Record<ChangeKind, { symbol: string; className: string }> = {
+  added: { symbol: '+', className: 'text-emerald-600 dark:text-emerald-400' },
+  removed: { symbol: '−', className: 'text-red-600 dark:text-red-400' },
+  modified: { symbol: '~', className: 'text-amber-600 dark:text-amber-400' },
+};
+
+// Strip React Flow handle suffixes from column IDs
+function stripHandleSuffix(id: string): string {
+  if (!id) return id;
+  return id
+    .replace(/-left-target$/, '')
+    .replace(/-right-target$/, '')
+    .replace(/-left$/, '')
+    .replace(/-right$/, '');
+}
+
+export default function VersionComparePanel({ onFocusTable }: VersionComparePanelProps) {
+  const comparison = useCanvasState((s) => s.comparison);
+  const comparisonDiff = useCanvasState((s) => s.comparisonDiff);
+  const stopComparison = useCanvasState((s) => s.stopComparison);
+  const tables = useSchema((s) => s.tables);
+
+  const currentTables = React.useMemo(() => new Map(tables.map((t) => [t.id, t])), [tables]);
+  const comparedTables = React.useMemo(
+    () => new Map<string, Table>((comparison?.snapshot.tables ?? []).map((t) => [t.id, t])),
+    [comparison],
+  );
+
+  if (!comparison) return null;
+
+  const diff = comparisonDiff?.diff;
+  const tableChanges = diff?.tables ?? [];
+  const relationshipChanges = diff?.relationships ?? [];
+  const enumChanges = diff?.enums ?? [];
+  const columnCount = tableChanges.reduce((acc, t) => acc + t.columns.length, 0);
+
+  // Names come from the current state first, then from the compared version
+  const describeEndpoint = (tableId: string, columnId: string) => {
+    const id = stripHandleSuffix(columnId);
+    const table = currentTables.get(tableId) ?? comparedTables.get(tableId);
+    const column =
+      currentTables.get(tableId)?.columns.find((c) => c.id === id) ??
+      comparedTables.get(tableId)?.columns.find((c) => c.id === id);
+    return `${table?.name ?? '?'}.${column?.name ?? '?'}`;
+  };
+
+  const describeIndex = (tableId: string, index: TableIndex) =>
+    index.name ?? `(${index.columnIds.map((id) => describeEndpoint(tableId, id).split('.')[1]).join(', ')})`;
+
+  // Composite keys are written as table.(a, b)
+  const describeEndpoints = (tableId: string, columnIds: string[]) => {
+    if (columnIds.length === 1) return describeEndpoint(tableId, columnIds[0]);
+    const [tableName] = describeEndpoint(tableId, columnIds[0]).split('.');
+    return `${tableName}.(${columnIds.map((id) => describeEndpoint(tableId, id).split('.')[1]).join(', ')})`;
+  };
+
+  const describeRelationship = (rel: Relationship) => {
+    const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(rel);
+    return `${describeEndpoints(rel.sourceTableId, sourceColumnIds)} → ${describeEndpoints(rel.targetTableId, targetColumnIds)}`;
+  };
+
+  return (
+    <Card className="absolute top-16 right-4 w-80 shadow-xl z-50 animate-in slide-in-from-right-4 border-border/60 backdrop-blur-sm bg-card/95">
+      <CardHeader className="p-4 py-3 border-b border-border/40 flex flex-row items-center justify-between">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2 min-w-0">
+          <GitCompare className="h-4 w-4 text-primary shrink-0" />
+          <span className="truncate">Comparing with {comparison.label}</span>
+        </CardTitle>
+        <Button variant="ghost" size="icon" className="h-6 w-6 -mr-1" onClick={stopComparison} title="Exit compare mode">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0 max-h-[400px] overflow-y-auto">
+        <div className="px-4 py-2 border-b border-border/40 flex items-center gap-3 text-[11px] text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-emerald-500" />added</span>
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-red-500" />removed</span>
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-amber-500" />modified</span>
+        </div>
+
+        {!diff || !diff.hasChanges ? (
+          <div className="p-4 text-center text-sm text-muted-foreground">
+            No differences from the current schema.
+          </div>
+        ) : (
+          <div className="flex flex-col text-xs">
+            <div className="px-4 py-2 text-muted-foreground border-b border-border/40">
+              {tableChanges.length} table{tableChanges.length !== 1 ? 's' : ''}, {columnCount} column{columnCount !== 1 ? 's' : ''}, {relationshipChanges.length} relationship{relationshipChanges.length !== 1 ? 's' : ''} changed
+            </div>
+
+            {tableChanges.map((tableDiff) => {
+              const table = tableDiff.after ?? tableDiff.before!;
+              const style = CHANGE_STYLES[tableDiff.kind];
+              return (
+                <div key={tableDiff.tableId} className="px-4 py-2 border-b border-border/40">
+                  <button
+                    className="w-full flex items-center gap-2 text-left font-semibold hover:text-primary transition-colors"
+                    onClick={() => onFocusTable(tableDiff.tableId)}
+                  >
+                    <span className={cn('font-mono w-3 shrink-0', style.className)}>{style.symbol}</span>
+                    <span className="truncate">{getQualifiedTableName(table)}</span>
+                    {tableDiff.renamed && (
+                      <span className="text-muted-foreground font-normal truncate">
+                        (was {getQualifiedTableName(tableDiff.before!)})
+                      </span>
+                    )}
+                  </button>
+                  {tableDiff.columns.length > 0 && (
+                    <ul className="mt-1 ml-5 space-y-0.5">
+                      {tableDiff.columns.map((columnDiff) => {
+                        const column = columnDiff.after ?? columnDiff.before!;
+                        const columnStyle = CHANGE_STYLES[columnDiff.kind];
+                        return (
+                          <li key={columnDiff.columnId} className="flex gap-2">
+                            <span className={cn('font-mono w-3 shrink-0', columnStyle.className)}>{columnStyle.symbol}</span>
+                            <div className="min-w-0">
+                              <span className="font-mono">{column.name}</span>
+                              {columnDiff.kind === 'modified' && (
+                                <div className="text-muted-foreground">
+                                  {describeColumnChanges(columnDiff).join(', ')}
+                                </div>
+                              )}
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                  {tableDiff.indexes.length > 0 && (
+                    <ul className="mt-1 ml-5 space-y-0.5">
+                      {tableDiff.indexes.map((indexDiff) => {
+                        const index = indexDiff.after ?? indexDiff.before!;
+                        const indexStyle = CHANGE_STYLES[indexDiff.kind];
+                        return (
+                          <li key={indexDiff.indexId} className="flex gap-2">
+                            <span className={cn('font-mono w-3 shrink-0', indexStyle.className)}>{indexStyle.symbol}</span>
+                            <span className="min-w-0 truncate">
+                              {index.unique ? 'unique index' : 'index'} <span className="font-mono">{describeIndex(tableDiff.tableId, index)}</span>
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+
+            {enumChanges.length > 0 && (
+              <div className="px-4 py-2 border-b border-border/40">
+                <div className="font-semibold mb-1">Enums</div>
+                <ul className="space-y-1">
+                  {enumChanges.map((enumDiff) => {
+                    const enumDef = enumDiff.after ?? enumDiff.before!;
+                    const style = CHANGE_STYLES[enumDiff.kind];
+                    return (
+                      <li key={enumDiff.enumId} className="flex gap-2">
+                        <span className={cn('font-mono w-3 shrink-0', style.className)}>{style.symbol}</span>
+                        <div className="min-w-0">
+                          <span className="font-mono">{enumDef.name}</span>
+                          {enumDiff.kind === 'modified' && (
+                            <div className="text-muted-foreground">
+                              {describeEnumChanges(enumDiff).join(', ')}
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {relationshipChanges.length > 0 && (
+              <div className="px-4 py-2">
+                <div className="font-semibold mb-1">Relationships</div>
+                <ul className="space-y-1">
+                  {relationshipChanges.map((relDiff) => {
+                    const rel = relDiff.after ?? relDiff.before!;
+                    const style = CHANGE_STYLES[relDiff.kind];
+                    return (
+                      <li key={relDiff.relationshipId} className="flex gap-2">
+                        <span className={cn('font-mono w-3 shrink-0', style.className)}>{style.symbol}</span>
+                        <div className="min-w-0">
+                          <button
+                            className="font-mono text-left break-all hover:text-primary transition-colors"
+                            onClick={() => onFocusTable(rel.sourceTableId)}
+                          >
+                            {describeRelationship(rel)}
+                          </button>
+                          {relDiff.kind === 'modified' && (
+                            <div className="text-muted-foreground">
+                              {describeRelationshipChanges(relDiff).join(', ')}
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
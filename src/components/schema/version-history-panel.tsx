@@ -1,8 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useSchema } from '@/hooks/use-schema';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
-import { X, History, RotateCcw } from 'lucide-react';
+import { X, History, RotateCcw, FileCode, GitCompare } from 'lucide-react';
+import { toast } from 'sonner';
+import { MigrationSqlDialog } from '@/components/schema/migration-sql-dialog';
+import { useCanvasState } from '@/features/schema/hooks/use-canvas-state';
+import { apiGetVersion, type SchemaVersionSummary } from '@/lib/schema-api';
 
 interface VersionHistoryPanelProps {
   onClose: () => void;
@@ -11,6 +15,10 @@ interface VersionHistoryPanelProps {
 export default function VersionHistoryPanel({ onClose }: VersionHistoryPanelProps) {
   const versions = useSchema((s) => s.versions);
   const restoreVersion = useSchema((s) => s.restoreVersion);
+  const activeSchemaId = useSchema((s) => s.activeSchemaId);
+  const isDirty = useSchema((s) => s.isDirty);
+  const [migrationVersion, setMigrationVersion] = useState<SchemaVersionSummary | null>(null);
+  const startComparison = useCanvasState((s) => s.startComparison);
 
   const handleRestore = async (versionId: string) => {
     if (confirm('Are you sure you want to restore this version? This will discard your current unsaved changes and create a new version.')) {
@@ -19,6 +27,21 @@ export default function VersionHistoryPanel({ onClose }: VersionHistoryPanelProp
     }
   };
 
+  const handleCompare = async (ver: SchemaVersionSummary) => {
+    if (!activeSchemaId) return;
+    try {
+      const version = await apiGetVersion(activeSchemaId, ver.id);
+      startComparison({
+        schemaId: activeSchemaId,
+        versionId: ver.id,
+        label: ver.label || `Version ${ver.versionNumber}`,
+        snapshot: { tables: version.tables, relationships: version.relationships, enums: version.enums },
+      });
+    } catch {
+      toast.error('Failed to load version for comparison');
+    }
+  };
+
   return (
     <Card className="absolute top-16 right-4 w-80 shadow-xl z-50 animate-in slide-in-from-right-4 border-border/60 backdrop-blur-sm bg-card/95">
       <CardHeader className="p-4 py-3 border-b border-border/40 flex flex-row items-center justify-between">
@@ -50,20 +73,52 @@ export default function VersionHistoryPanel({ onClose }: VersionHistoryPanelProp
                 <div className="text-xs text-muted-foreground">
                   {new Date(ver.createdAt).toLocaleString()}
                 </div>
-                <Button 
-                  onClick={() => handleRestore(ver.id)}
-                  size="sm" 
-                  variant="outline" 
-                  className="mt-2 h-7 w-full text-xs opacity-0 group-hover:opacity-100 transition-opacity"
-                >
-                  <RotateCcw className="h-3 w-3 mr-1.5" />
-                  Restore
-                </Button>
+                <div className="mt-2 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button 
+                    onClick={() => handleRestore(ver.id)}
+                    size="sm" 
+                    variant="outline" 
+                    className="h-7 flex-1 text-xs"
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1.5" />
+                    Restore
+                  </Button>
+                  <Button
+                    onClick={() => handleCompare(ver)}
+                    size="sm"
+                    variant="outline"
+                    className="h-7 flex-1 text-xs"
+                    title="Compare with the current schema on the canvas"
+                  >
+                    <GitCompare className="h-3 w-3 mr-1.5" />
+                    Compare
+                  </Button>
+                  <Button
+                    onClick={() => setMigrationVersion(ver)}
+                    size="sm"
+                    variant="outline"
+                    className="h-7 flex-1 text-xs"
+                    title="Migration SQL"
+                  >
+                    <FileCode className="h-3 w-3 mr-1.5" />
+                    SQL
+                  </Button>
+                </div>
               </div>
             ))}
           </div>
         )}
       </CardContent>
+      {migrationVersion && activeSchemaId && (
+        <MigrationSqlDialog
+          isOpen={!!migrationVersion}
+          onClose={() => setMigrationVersion(null)}
+          schemaId={activeSchemaId}
+          version={migrationVersion}
+          versions={versions}
+          hasUnsavedChanges={isDirty}
+        />
+      )}
     </Card>
   );
 }
@@ -3,9 +3,18 @@
 import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Settings, Sun, Moon, Monitor } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useTheme } from 'next-themes';
+import { useCanvasState } from '@/features/schema/hooks/use-canvas-state';
+import type { DbmlFormatOptions } from '@/lib/dbml/dbml-formatter';
+
+const INDENT_OPTIONS: { value: DbmlFormatOptions['indent']; label: string }[] = [
+  { value: 2, label: '2 spaces' },
+  { value: 4, label: '4 spaces' },
+  { value: 'tab', label: 'Tab' },
+];
 
 interface SettingsDialogProps {
   isOpen: boolean;
@@ -14,6 +23,8 @@ interface SettingsDialogProps {
 
 const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
   const { theme, setTheme } = useTheme();
+  const dbmlFormatOptions = useCanvasState((s) => s.dbmlFormatOptions);
+  const setDbmlFormatOptions = useCanvasState((s) => s.setDbmlFormatOptions);
   const [mounted, setMounted] = useState(false);
 
   // Avoid hydration mismatch
@@ -84,7 +95,7 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
 
       {/* Dialog */}
       <div className="relative z-10 w-full max-w-md mx-4">
-        <Card className="bg-card border border-border shadow-lg">
+        <Card className="bg-card border border-border shadow-lg max-h-[90vh] overflow-y-auto">
           <CardHeader className="pb-4">
             <div className="flex items-center justify-between">
               <CardTitle className="flex items-center gap-2 text-lg font-semibold">
@@ -157,6 +168,38 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
               </p>
             </div>
 
+            {/* DBML Formatting */}
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-foreground">DBML Formatting</h3>
+              <div className="grid grid-cols-3 gap-3">
+                {INDENT_OPTIONS.map(({ value, label }) => (
+                  <Button
+                    key={value}
+                    variant={dbmlFormatOptions.indent === value ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setDbmlFormatOptions({ indent: value })}
+                    className="text-xs"
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+                <Checkbox
+                  checked={dbmlFormatOptions.alignColumns}
+                  onCheckedChange={(c) => setDbmlFormatOptions({ alignColumns: !!c })}
+                />
+                Align column types, settings and comments
+              </label>
+              <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+                <Checkbox
+                  checked={dbmlFormatOptions.sortSettings}
+                  onCheckedChange={(c) => setDbmlFormatOptions({ sortSettings: !!c })}
+                />
+                Sort settings (pk, increment, not null, unique, default, note, ref)
+              </label>
+            </div>
+
             {/* Future Settings Section */}
             <div className="space-y-3">
               <h3 className="text-sm font-medium text-foreground">Advanced</h3>
@@ -193,6 +236,12 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
                     Ctrl + E
                   </kbd>
                 </div>
+                <div className="flex justify-between items-center py-1.5 hover:bg-muted/50 px-2 rounded transition-colors">
+                  <span className="text-muted-foreground">Format DBML</span>
+                  <kbd className="px-2 py-1 bg-muted border border-border rounded text-foreground font-mono shadow-sm">
+                    Shift + Alt + F
+                  </kbd>
+                </div>
               </div>
             </div>
           </CardContent>
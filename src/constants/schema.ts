@@ -22,6 +22,33 @@ export const COLUMN_TYPES = [
   'array'
 ] as const;
 
+/** Column types that take a time zone flag */
+export const TIMEZONE_COLUMN_TYPES = ['timestamp', 'datetime', 'time'] as const;
+
+/** Accent colours for tables, picked per namespace */
+export const NAMESPACE_COLORS = [
+  '#0ea5e9',
+  '#8b5cf6',
+  '#f59e0b',
+  '#10b981',
+  '#ef4444',
+  '#ec4899',
+  '#14b8a6',
+  '#6366f1'
+] as const;
+
+/** Background colours offered for sticky notes; the first is the default */
+export const STICKY_NOTE_COLORS = [
+  '#fef08a',
+  '#fed7aa',
+  '#fecaca',
+  '#bbf7d0',
+  '#bfdbfe',
+  '#e9d5ff'
+] as const;
+
+export const DEFAULT_STICKY_NOTE_SIZE = { width: 240, height: 160 };
+
 export const RELATIONSHIP_TYPES = [
   'one-to-one',
   'one-to-many',
@@ -38,6 +65,14 @@ export const FOREIGN_KEY_ACTIONS = [
   'NO ACTION'
 ] as const;
 
+export const INDEX_TYPES = [
+  'btree',
+  'hash',
+  'gin',
+  'gist',
+  'brin'
+] as const;
+
 export const SQL_DIALECTS = [
   'postgresql',
   'mysql',
@@ -45,6 +80,14 @@ export const SQL_DIALECTS = [
   'sqlserver'
 ] as const;
 
+/** Database names as written in a DBML `Project` block's `database_type` */
+export const SQL_DIALECT_LABELS: Record<SQLDialect, string> = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  sqlite: 'SQLite',
+  sqlserver: 'SQL Server'
+};
+
 export const EXPORT_FORMATS = [
   'json',
   'sql',
@@ -72,6 +115,8 @@ export const ID_GENERATORS = {
   TABLE: () => `table_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
   COLUMN: () => `col_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
   RELATIONSHIP: () => `rel_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  INDEX: () => `idx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  ENUM: () => `enum_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
   SCHEMA: () => `schema_${Date.now()}`
 } as const;
 
@@ -79,6 +124,7 @@ export const ID_GENERATORS = {
 export type ColumnType = typeof COLUMN_TYPES[number];
 export type RelationshipType = typeof RELATIONSHIP_TYPES[number];
 export type ForeignKeyAction = typeof FOREIGN_KEY_ACTIONS[number];
+export type IndexType = typeof INDEX_TYPES[number];
 export type SQLDialect = typeof SQL_DIALECTS[number];
 export type ExportFormat = typeof EXPORT_FORMATS[number];
 
@@ -1,7 +1,9 @@
 import { apiSaveSchema } from '@/lib/schema-api';
+import type { Table } from '@/features/schema/types/schema.types';
 
 const LOCAL_STORAGE_KEY = 'schema-canvas-storage';
 const MIGRATION_FLAG = 'schema-canvas-migrated';
+const POSITION_CACHE_PREFIX = 'schema-positions-';
 
 export interface MigrationResult {
   migrated: boolean;
@@ -76,3 +78,34 @@ export function clearMigrationFlag(): void {
     localStorage.removeItem(MIGRATION_FLAG);
   }
 }
+
+/**
+ * One-time migration of the per-schema position cache that used to override
+ * server positions on load. Returns the tables with the cached positions
+ * applied, or null when nothing changed. The cache entry is removed either way;
+ * the caller is expected to save the returned layout.
+ */
+export function takeCachedPositions(schemaId: string, tables: Table[]): Table[] | null {
+  if (typeof window === 'undefined') return null;
+
+  const key = `${POSITION_CACHE_PREFIX}${schemaId}`;
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  localStorage.removeItem(key);
+
+  try {
+    const positions: Record<string, { x: number; y: number }> = JSON.parse(raw);
+    let changed = false;
+    const migrated = tables.map((table) => {
+      const position = positions[table.id];
+      if (!position || (position.x === table.position.x && position.y === table.position.y)) {
+        return table;
+      }
+      changed = true;
+      return { ...table, position };
+    });
+    return changed ? migrated : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,17 +1,32 @@
-import { eq, and, desc, inArray } from "drizzle-orm";
+import { eq, and, desc, inArray, sql } from "drizzle-orm";
 import {
   db,
   schemas,
   tables,
   columns,
   relationships,
+  enums,
+  tableGroups,
+  stickyNotes,
   schemaVersions,
 } from "@/db";
 import type {
   Table,
+  Column,
   Relationship,
+  Enum,
+  TableIndex,
+  TableGroup,
+  StickyNote,
   Schema,
 } from "@/features/schema/types/schema.types";
+import type {
+  SchemaPatch,
+  TableLayout,
+  GroupLayout,
+  NoteLayout,
+} from "@/features/schema/utils/schema-patch.utils";
+import type { SQLDialect } from "@/constants/schema";
 
 export interface SchemaSummary {
   id: string;
@@ -77,26 +92,50 @@ export async function getSchemaById(
   const tableRecords = await db
     .select()
     .from(tables)
-    .where(eq(tables.schemaId, id));
+    .where(eq(tables.schemaId, id))
+    .orderBy(tables.sortOrder);
 
   const columnRecords = await db
     .select()
     .from(columns)
     .innerJoin(tables, eq(columns.tableId, tables.id))
-    .where(eq(tables.schemaId, id));
+    .where(eq(tables.schemaId, id))
+    .orderBy(columns.sortOrder);
 
   const relationshipRecords = await db
     .select()
     .from(relationships)
     .where(eq(relationships.schemaId, id));
 
+  const enumRecords = await db
+    .select()
+    .from(enums)
+    .where(eq(enums.schemaId, id))
+    .orderBy(enums.sortOrder);
+
+  const groupRecords = await db
+    .select()
+    .from(tableGroups)
+    .where(eq(tableGroups.schemaId, id))
+    .orderBy(tableGroups.sortOrder);
+
+  const noteRecords = await db
+    .select()
+    .from(stickyNotes)
+    .where(eq(stickyNotes.schemaId, id))
+    .orderBy(stickyNotes.sortOrder);
+
   const tablesWithColumns: Table[] = tableRecords.map((table) => ({
     id: table.id,
     name: table.name,
+    namespace: table.namespace || undefined,
     alias: table.alias || undefined,
     note: table.note || undefined,
     headerColor: table.headerColor || undefined,
     position: { x: table.positionX, y: table.positionY },
+    width: table.width ?? undefined,
+    collapsed: table.collapsed || undefined,
+    indexes: parseIndexes(table.indexes),
     columns: columnRecords
       .filter((c) => c.tables.id === table.id)
       .map((c) => ({
@@ -110,6 +149,15 @@ export async function getSchemaById(
         note: c.columns.note || undefined,
         increment: c.columns.increment || undefined,
         description: c.columns.description || undefined,
+        enumId: c.columns.enumId || undefined,
+        length: c.columns.length ?? undefined,
+        precision: c.columns.precision ?? undefined,
+        scale: c.columns.scale ?? undefined,
+        arrayElementType: (c.columns.arrayElementType as Column["arrayElementType"]) || undefined,
+        withTimezone: c.columns.withTimezone || undefined,
+        nativeType: c.columns.nativeType || undefined,
+        nativeTypeDialect: (c.columns.nativeTypeDialect as Column["nativeTypeDialect"]) || undefined,
+        fieldName: c.columns.fieldName || undefined,
         foreignKey: c.columns.foreignKeyTableId
           ? {
               tableId: c.columns.foreignKeyTableId,
@@ -121,6 +169,7 @@ export async function getSchemaById(
       })),
     description: table.description || undefined,
     color: table.color || undefined,
+    modelName: table.modelName || undefined,
   }));
 
   const dbRelationships: Relationship[] = relationshipRecords.map((rel) => ({
@@ -129,6 +178,8 @@ export async function getSchemaById(
     sourceColumnId: rel.sourceColumnId,
     targetTableId: rel.targetTableId,
     targetColumnId: rel.targetColumnId,
+    sourceColumnIds: parseColumnIds(rel.sourceColumnIds),
+    targetColumnIds: parseColumnIds(rel.targetColumnIds),
     type: rel.type as any,
     isInline: rel.isInline || undefined,
     name: rel.name || undefined,
@@ -136,12 +187,47 @@ export async function getSchemaById(
     onUpdate: rel.onUpdate as any,
   }));
 
+  const dbEnums: Enum[] = enumRecords.map((e) => ({
+    id: e.id,
+    name: e.name,
+    namespace: e.namespace || undefined,
+    values: JSON.parse(e.values),
+    note: e.note || undefined,
+  }));
+
+  const dbGroups: TableGroup[] = groupRecords.map((g) => ({
+    id: g.id,
+    name: g.name,
+    tableIds: JSON.parse(g.tableIds),
+    note: g.note || undefined,
+    color: g.color || undefined,
+    position: { x: g.positionX, y: g.positionY },
+    width: g.width,
+    height: g.height,
+    collapsed: g.collapsed || undefined,
+  }));
+
+  const dbNotes: StickyNote[] = noteRecords.map((n) => ({
+    id: n.id,
+    name: n.name,
+    content: n.content,
+    color: n.color || undefined,
+    position: { x: n.positionX, y: n.positionY },
+    width: n.width,
+    height: n.height,
+    tableId: n.tableId || undefined,
+  }));
+
   return {
     id: schemaRecord.id,
     name: schemaRecord.name,
     description: schemaRecord.description || undefined,
+    databaseType: (schemaRecord.databaseType as SQLDialect | null) || undefined,
     tables: tablesWithColumns,
     relationships: dbRelationships,
+    enums: dbEnums,
+    groups: dbGroups,
+    notes: dbNotes,
     createdAt: new Date(schemaRecord.createdAt),
     updatedAt: new Date(schemaRecord.updatedAt),
     version: schemaRecord.version,
@@ -168,7 +254,11 @@ export async function createSchema(
 export async function updateSchemaMetadata(
   id: string,
   userId: string,
-  updates: { name?: string; description?: string },
+  updates: {
+    name?: string;
+    description?: string | null;
+    databaseType?: SQLDialect | null;
+  },
 ): Promise<void> {
   const result = await db
     .update(schemas)
@@ -208,30 +298,175 @@ export async function duplicateSchema(
     id: newId,
     userId,
     name: source.name,
+    description: source.description,
+    databaseType: source.databaseType,
     tables: source.tables,
     relationships: source.relationships,
+    enums: source.enums,
+    groups: source.groups,
+    notes: source.notes,
   });
 
   return newId;
 }
 
+// Tables without indexes load without the property, like the other optional fields
+function parseIndexes(value: string): TableIndex[] | undefined {
+  const indexes: TableIndex[] = JSON.parse(value);
+  return indexes.length > 0 ? indexes : undefined;
+}
+
+// Only composite relationships store their column lists
+function parseColumnIds(value: string | null): string[] | undefined {
+  return value ? JSON.parse(value) : undefined;
+}
+
+function tableValues(
+  schemaId: string,
+  table: Omit<Table, "columns">,
+  sortOrder: number,
+) {
+  return {
+    id: table.id,
+    schemaId,
+    name: table.name,
+    namespace: table.namespace || null,
+    alias: table.alias || null,
+    note: table.note || null,
+    headerColor: table.headerColor || null,
+    positionX: table.position.x,
+    positionY: table.position.y,
+    width: table.width ?? null,
+    collapsed: table.collapsed ?? false,
+    description: table.description || null,
+    color: table.color || null,
+    modelName: table.modelName || null,
+    indexes: JSON.stringify(table.indexes ?? []),
+    sortOrder,
+  };
+}
+
+function columnValues(tableId: string, column: Column, sortOrder: number) {
+  return {
+    id: column.id,
+    tableId,
+    name: column.name,
+    type: column.type,
+    nullable: column.nullable,
+    primaryKey: column.primaryKey,
+    unique: column.unique,
+    defaultValue: column.defaultValue || null,
+    note: column.note || null,
+    increment: column.increment || null,
+    description: column.description || null,
+    foreignKeyTableId: column.foreignKey?.tableId || null,
+    foreignKeyColumnId: column.foreignKey?.columnId || null,
+    foreignKeyOnDelete: column.foreignKey?.onDelete || null,
+    foreignKeyOnUpdate: column.foreignKey?.onUpdate || null,
+    enumId: column.enumId || null,
+    length: column.length ?? null,
+    precision: column.precision ?? null,
+    scale: column.scale ?? null,
+    arrayElementType: column.arrayElementType || null,
+    withTimezone: column.withTimezone || null,
+    nativeType: column.nativeType || null,
+    nativeTypeDialect: column.nativeTypeDialect || null,
+    fieldName: column.fieldName || null,
+    sortOrder,
+  };
+}
+
+function relationshipValues(schemaId: string, rel: Relationship) {
+  return {
+    id: rel.id,
+    schemaId,
+    sourceTableId: rel.sourceTableId,
+    sourceColumnId: rel.sourceColumnId,
+    targetTableId: rel.targetTableId,
+    targetColumnId: rel.targetColumnId,
+    sourceColumnIds: rel.sourceColumnIds ? JSON.stringify(rel.sourceColumnIds) : null,
+    targetColumnIds: rel.targetColumnIds ? JSON.stringify(rel.targetColumnIds) : null,
+    type: rel.type,
+    isInline: rel.isInline || null,
+    name: rel.name || null,
+    onDelete: rel.onDelete || null,
+    onUpdate: rel.onUpdate || null,
+  };
+}
+
+function enumValues(schemaId: string, enumDef: Enum, sortOrder: number) {
+  return {
+    id: enumDef.id,
+    schemaId,
+    name: enumDef.name,
+    namespace: enumDef.namespace || null,
+    values: JSON.stringify(enumDef.values),
+    note: enumDef.note || null,
+    sortOrder,
+  };
+}
+
+function groupValues(schemaId: string, group: TableGroup, sortOrder: number) {
+  return {
+    id: group.id,
+    schemaId,
+    name: group.name,
+    tableIds: JSON.stringify(group.tableIds),
+    note: group.note || null,
+    color: group.color || null,
+    positionX: group.position.x,
+    positionY: group.position.y,
+    width: group.width,
+    height: group.height,
+    collapsed: group.collapsed ?? false,
+    sortOrder,
+  };
+}
+
+function noteValues(schemaId: string, note: StickyNote, sortOrder: number) {
+  return {
+    id: note.id,
+    schemaId,
+    name: note.name,
+    content: note.content,
+    color: note.color || null,
+    tableId: note.tableId || null,
+    positionX: note.position.x,
+    positionY: note.position.y,
+    width: note.width,
+    height: note.height,
+    sortOrder,
+  };
+}
+
+/**
+ * Replaces the full content of a schema and returns its new version. When
+ * `baseVersion` is given and the stored version has moved on, nothing is
+ * written and "Version conflict" is thrown.
+ */
 export async function saveSchema(schema: {
   id: string;
   userId: string;
   name: string;
   description?: string;
+  databaseType?: SQLDialect;
   tables: Table[];
   relationships: Relationship[];
-}): Promise<void> {
-  await db.transaction(async (tx) => {
+  enums?: Enum[];
+  groups?: TableGroup[];
+  notes?: StickyNote[];
+  baseVersion?: number;
+}): Promise<number> {
+  return db.transaction(async (tx) => {
     // Insert with userId, or update if exists
-    await tx
+    const saved = await tx
       .insert(schemas)
       .values({
         id: schema.id,
         userId: schema.userId,
         name: schema.name,
         description: schema.description || null,
+        databaseType: schema.databaseType || null,
         updatedAt: new Date(),
       })
       .onConflictDoUpdate({
@@ -239,66 +474,330 @@ export async function saveSchema(schema: {
         set: {
           name: schema.name,
           description: schema.description || null,
+          databaseType: schema.databaseType || null,
           updatedAt: new Date(),
+          version: sql`${schemas.version} + 1`,
         },
-      });
+        setWhere:
+          schema.baseVersion !== undefined
+            ? eq(schemas.version, schema.baseVersion)
+            : undefined,
+      })
+      .returning({ version: schemas.version });
+
+    if (saved.length === 0) throw new Error("Version conflict");
 
     // Delete existing tables and relationships for this schema
     await tx.delete(relationships).where(eq(relationships.schemaId, schema.id));
     await tx.delete(tables).where(eq(tables.schemaId, schema.id));
+    await tx.delete(enums).where(eq(enums.schemaId, schema.id));
+    await tx.delete(tableGroups).where(eq(tableGroups.schemaId, schema.id));
+    await tx.delete(stickyNotes).where(eq(stickyNotes.schemaId, schema.id));
+
+    // Insert enums
+    for (const [enumIndex, enumDef] of (schema.enums ?? []).entries()) {
+      await tx.insert(enums).values(enumValues(schema.id, enumDef, enumIndex));
+    }
 
     // Insert tables
-    for (const table of schema.tables) {
-      await tx.insert(tables).values({
-        id: table.id,
-        schemaId: schema.id,
-        name: table.name,
-        alias: table.alias || null,
-        note: table.note || null,
-        headerColor: table.headerColor || null,
-        positionX: table.position.x,
-        positionY: table.position.y,
-        description: table.description || null,
-        color: table.color || null,
-      });
+    for (const [tableIndex, table] of schema.tables.entries()) {
+      await tx.insert(tables).values(tableValues(schema.id, table, tableIndex));
 
       // Insert columns
-      for (const column of table.columns) {
-        await tx.insert(columns).values({
-          id: column.id,
-          tableId: table.id,
-          name: column.name,
-          type: column.type,
-          nullable: column.nullable,
-          primaryKey: column.primaryKey,
-          unique: column.unique,
-          defaultValue: column.defaultValue || null,
-          note: column.note || null,
-          increment: column.increment || null,
-          description: column.description || null,
-          foreignKeyTableId: column.foreignKey?.tableId || null,
-          foreignKeyColumnId: column.foreignKey?.columnId || null,
-          foreignKeyOnDelete: column.foreignKey?.onDelete || null,
-          foreignKeyOnUpdate: column.foreignKey?.onUpdate || null,
-        });
+      for (const [columnIndex, column] of table.columns.entries()) {
+        await tx
+          .insert(columns)
+          .values(columnValues(table.id, column, columnIndex));
       }
     }
 
     // Insert relationships
     for (const rel of schema.relationships) {
-      await tx.insert(relationships).values({
-        id: rel.id,
-        schemaId: schema.id,
-        sourceTableId: rel.sourceTableId,
-        sourceColumnId: rel.sourceColumnId,
-        targetTableId: rel.targetTableId,
-        targetColumnId: rel.targetColumnId,
-        type: rel.type,
-        isInline: rel.isInline || null,
-        name: rel.name || null,
-        onDelete: rel.onDelete || null,
-        onUpdate: rel.onUpdate || null,
-      });
+      await tx.insert(relationships).values(relationshipValues(schema.id, rel));
+    }
+
+    // Insert table groups
+    for (const [groupIndex, group] of (schema.groups ?? []).entries()) {
+      await tx.insert(tableGroups).values(groupValues(schema.id, group, groupIndex));
+    }
+
+    // Insert sticky notes
+    for (const [noteIndex, note] of (schema.notes ?? []).entries()) {
+      await tx.insert(stickyNotes).values(noteValues(schema.id, note, noteIndex));
+    }
+
+    return saved[0].version;
+  });
+}
+
+/**
+ * Applies row-level upserts and deletes computed on the client and returns the
+ * new schema version. Everything runs in one transaction; rows that belong to
+ * another schema are never touched. Throws "Version conflict" when
+ * `baseVersion` is stale.
+ */
+export async function applySchemaPatch(
+  schemaId: string,
+  userId: string,
+  patch: SchemaPatch,
+  baseVersion?: number,
+): Promise<number> {
+  return db.transaction(async (tx) => {
+    const ownership = and(eq(schemas.id, schemaId), eq(schemas.userId, userId));
+    const updated = await tx
+      .update(schemas)
+      .set({ updatedAt: new Date(), version: sql`${schemas.version} + 1` })
+      .where(
+        baseVersion !== undefined
+          ? and(ownership, eq(schemas.version, baseVersion))
+          : ownership,
+      )
+      .returning({ version: schemas.version });
+
+    if (updated.length === 0) {
+      const existing = await tx
+        .select({ id: schemas.id })
+        .from(schemas)
+        .where(ownership)
+        .limit(1);
+      throw new Error(
+        existing.length > 0
+          ? "Version conflict"
+          : "Schema not found or access denied",
+      );
+    }
+
+    // Deletes first, so a row can be removed and re-added under the same ID
+    if (patch.deleteRelationshipIds.length > 0) {
+      await tx
+        .delete(relationships)
+        .where(
+          and(
+            eq(relationships.schemaId, schemaId),
+            inArray(relationships.id, patch.deleteRelationshipIds),
+          ),
+        );
+    }
+
+    if (patch.deleteEnumIds.length > 0) {
+      await tx
+        .delete(enums)
+        .where(
+          and(
+            eq(enums.schemaId, schemaId),
+            inArray(enums.id, patch.deleteEnumIds),
+          ),
+        );
+    }
+
+    if (patch.deleteGroupIds.length > 0) {
+      await tx
+        .delete(tableGroups)
+        .where(
+          and(
+            eq(tableGroups.schemaId, schemaId),
+            inArray(tableGroups.id, patch.deleteGroupIds),
+          ),
+        );
+    }
+
+    if (patch.deleteNoteIds.length > 0) {
+      await tx
+        .delete(stickyNotes)
+        .where(
+          and(
+            eq(stickyNotes.schemaId, schemaId),
+            inArray(stickyNotes.id, patch.deleteNoteIds),
+          ),
+        );
+    }
+
+    const schemaTableIds = tx
+      .select({ id: tables.id })
+      .from(tables)
+      .where(eq(tables.schemaId, schemaId));
+
+    if (patch.deleteColumnIds.length > 0) {
+      await tx
+        .delete(columns)
+        .where(
+          and(
+            inArray(columns.tableId, schemaTableIds),
+            inArray(columns.id, patch.deleteColumnIds),
+          ),
+        );
+    }
+
+    // Columns of deleted tables go with them (ON DELETE CASCADE)
+    if (patch.deleteTableIds.length > 0) {
+      await tx
+        .delete(tables)
+        .where(
+          and(
+            eq(tables.schemaId, schemaId),
+            inArray(tables.id, patch.deleteTableIds),
+          ),
+        );
+    }
+
+    for (const enumDef of patch.upsertEnums) {
+      const { id, ...values } = enumValues(
+        schemaId,
+        enumDef,
+        enumDef.sortOrder,
+      );
+      await tx
+        .insert(enums)
+        .values({ id, ...values })
+        .onConflictDoUpdate({
+          target: enums.id,
+          set: values,
+          setWhere: eq(enums.schemaId, schemaId),
+        });
+    }
+
+    for (const table of patch.upsertTables) {
+      const { id, ...values } = tableValues(schemaId, table, table.sortOrder);
+      await tx
+        .insert(tables)
+        .values({ id, ...values })
+        .onConflictDoUpdate({
+          target: tables.id,
+          set: values,
+          setWhere: eq(tables.schemaId, schemaId),
+        });
+    }
+
+    if (patch.upsertColumns.length > 0) {
+      const ownedTableIds = new Set(
+        (await schemaTableIds).map((table) => table.id),
+      );
+      const foreignColumn = patch.upsertColumns.find(
+        (column) => !ownedTableIds.has(column.tableId),
+      );
+      if (foreignColumn)
+        throw new Error(
+          `Invalid patch: table ${foreignColumn.tableId} does not belong to this schema`,
+        );
+
+      for (const column of patch.upsertColumns) {
+        const { id, ...values } = columnValues(
+          column.tableId,
+          column,
+          column.sortOrder,
+        );
+        await tx
+          .insert(columns)
+          .values({ id, ...values })
+          .onConflictDoUpdate({
+            target: columns.id,
+            set: values,
+            setWhere: inArray(columns.tableId, [...ownedTableIds]),
+          });
+      }
+    }
+
+    for (const rel of patch.upsertRelationships) {
+      const { id, ...values } = relationshipValues(schemaId, rel);
+      await tx
+        .insert(relationships)
+        .values({ id, ...values })
+        .onConflictDoUpdate({
+          target: relationships.id,
+          set: values,
+          setWhere: eq(relationships.schemaId, schemaId),
+        });
+    }
+
+    for (const group of patch.upsertGroups) {
+      const { id, ...values } = groupValues(schemaId, group, group.sortOrder);
+      await tx
+        .insert(tableGroups)
+        .values({ id, ...values })
+        .onConflictDoUpdate({
+          target: tableGroups.id,
+          set: values,
+          setWhere: eq(tableGroups.schemaId, schemaId),
+        });
+    }
+
+    for (const note of patch.upsertNotes) {
+      const { id, ...values } = noteValues(schemaId, note, note.sortOrder);
+      await tx
+        .insert(stickyNotes)
+        .values({ id, ...values })
+        .onConflictDoUpdate({
+          target: stickyNotes.id,
+          set: values,
+          setWhere: eq(stickyNotes.schemaId, schemaId),
+        });
+    }
+
+    return updated[0].version;
+  });
+}
+
+/**
+ * Writes the positions, sizes and collapsed state of tables, table groups and
+ * sticky notes. Layout is not part of the schema content, so this neither bumps the schema version nor
+ * checks it; the last layout written wins.
+ */
+export async function updateTableLayouts(
+  schemaId: string,
+  userId: string,
+  layouts: TableLayout[],
+  groupLayouts: GroupLayout[] = [],
+  noteLayouts: NoteLayout[] = [],
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    const schemaCheck = await tx
+      .select({ id: schemas.id })
+      .from(schemas)
+      .where(and(eq(schemas.id, schemaId), eq(schemas.userId, userId)))
+      .limit(1);
+
+    if (schemaCheck.length === 0)
+      throw new Error("Schema not found or access denied");
+
+    for (const layout of layouts) {
+      await tx
+        .update(tables)
+        .set({
+          positionX: layout.position.x,
+          positionY: layout.position.y,
+          width: layout.width ?? null,
+          collapsed: layout.collapsed ?? false,
+        })
+        .where(and(eq(tables.id, layout.id), eq(tables.schemaId, schemaId)));
+    }
+
+    for (const layout of groupLayouts) {
+      await tx
+        .update(tableGroups)
+        .set({
+          positionX: layout.position.x,
+          positionY: layout.position.y,
+          width: layout.width,
+          height: layout.height,
+          collapsed: layout.collapsed ?? false,
+        })
+        .where(
+          and(eq(tableGroups.id, layout.id), eq(tableGroups.schemaId, schemaId)),
+        );
+    }
+
+    for (const layout of noteLayouts) {
+      await tx
+        .update(stickyNotes)
+        .set({
+          positionX: layout.position.x,
+          positionY: layout.position.y,
+          width: layout.width,
+          height: layout.height,
+        })
+        .where(
+          and(eq(stickyNotes.id, layout.id), eq(stickyNotes.schemaId, schemaId)),
+        );
     }
   });
 }
@@ -347,12 +846,19 @@ export async function getVersions(
 export async function getVersionById(
   versionId: string,
   userId: string,
-): Promise<{ snapshot: string } | null> {
+): Promise<{
+  snapshot: string;
+  schemaId: string;
+  versionNumber: number;
+  label: string | null;
+} | null> {
   // Verify ownership through schema
   const result = await db
     .select({
       snapshot: schemaVersions.snapshot,
       schemaId: schemaVersions.schemaId,
+      versionNumber: schemaVersions.versionNumber,
+      label: schemaVersions.label,
     })
     .from(schemaVersions)
     .innerJoin(schemas, eq(schemaVersions.schemaId, schemas.id))
@@ -371,9 +877,14 @@ export async function createVersion(
   const schema = await getSchemaById(schemaId, userId);
   if (!schema) throw new Error("Schema not found or access denied");
 
+  // A database type that is not set is stored as null, so restoring clears it
   const snapshot = JSON.stringify({
+    databaseType: schema.databaseType ?? null,
     tables: schema.tables,
     relationships: schema.relationships,
+    enums: schema.enums,
+    groups: schema.groups,
+    notes: schema.notes,
   });
 
   const latestVersion = await db
@@ -79,6 +79,7 @@ export const schemas = pgTable("schemas", {
   userId: text("user_id").references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull().default("Untitled Schema"),
   description: text("description"),
+  databaseType: text("database_type"),
   createdAt: timestamp("created_at")
     .notNull()
     .default(sql`CURRENT_TIMESTAMP`),
@@ -107,13 +108,19 @@ export const tables = pgTable("tables", {
     .notNull()
     .references(() => schemas.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
+  namespace: text("namespace"),
   alias: text("alias"),
   note: text("note"),
   headerColor: text("header_color"),
   positionX: real("position_x").notNull().default(0),
   positionY: real("position_y").notNull().default(0),
+  width: real("width"),
+  collapsed: boolean("collapsed").notNull().default(false),
   description: text("description"),
   color: text("color"),
+  modelName: text("model_name"),
+  indexes: text("indexes").notNull().default("[]"), // Stored as JSON string
+  sortOrder: integer("sort_order").notNull().default(0),
 });
 
 export const columns = pgTable("columns", {
@@ -134,6 +141,61 @@ export const columns = pgTable("columns", {
   foreignKeyColumnId: text("foreign_key_column_id"),
   foreignKeyOnDelete: text("foreign_key_on_delete"),
   foreignKeyOnUpdate: text("foreign_key_on_update"),
+  enumId: text("enum_id"),
+  length: integer("length"),
+  precision: integer("precision"),
+  scale: integer("scale"),
+  arrayElementType: text("array_element_type"),
+  withTimezone: boolean("with_timezone"),
+  nativeType: text("native_type"),
+  nativeTypeDialect: text("native_type_dialect"),
+  fieldName: text("field_name"),
+  sortOrder: integer("sort_order").notNull().default(0),
+});
+
+export const enums = pgTable("enums", {
+  id: text("id").primaryKey(),
+  schemaId: text("schema_id")
+    .notNull()
+    .references(() => schemas.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  namespace: text("namespace"),
+  values: text("values").notNull().default("[]"), // Stored as JSON string
+  note: text("note"),
+  sortOrder: integer("sort_order").notNull().default(0),
+});
+
+export const tableGroups = pgTable("table_groups", {
+  id: text("id").primaryKey(),
+  schemaId: text("schema_id")
+    .notNull()
+    .references(() => schemas.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tableIds: text("table_ids").notNull().default("[]"), // Stored as JSON string
+  note: text("note"),
+  color: text("color"),
+  positionX: real("position_x").notNull().default(0),
+  positionY: real("position_y").notNull().default(0),
+  width: real("width").notNull().default(0),
+  height: real("height").notNull().default(0),
+  collapsed: boolean("collapsed").notNull().default(false),
+  sortOrder: integer("sort_order").notNull().default(0),
+});
+
+export const stickyNotes = pgTable("sticky_notes", {
+  id: text("id").primaryKey(),
+  schemaId: text("schema_id")
+    .notNull()
+    .references(() => schemas.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  content: text("content").notNull().default(""),
+  color: text("color"),
+  tableId: text("table_id"),
+  positionX: real("position_x").notNull().default(0),
+  positionY: real("position_y").notNull().default(0),
+  width: real("width").notNull().default(0),
+  height: real("height").notNull().default(0),
+  sortOrder: integer("sort_order").notNull().default(0),
 });
 
 export const relationships = pgTable("relationships", {
@@ -145,6 +207,8 @@ export const relationships = pgTable("relationships", {
   sourceColumnId: text("source_column_id").notNull(),
   targetTableId: text("target_table_id").notNull(),
   targetColumnId: text("target_column_id").notNull(),
+  sourceColumnIds: text("source_column_ids"), // Stored as JSON string, composite keys only
+  targetColumnIds: text("target_column_ids"), // Stored as JSON string, composite keys only
   type: text("type").notNull(),
   isInline: boolean("is_inline"),
   name: text("name"),
@@ -182,6 +246,9 @@ export const schemasRelations = relations(schemas, ({ one, many }) => ({
   versions: many(schemaVersions),
   tables: many(tables),
   relationships: many(relationships),
+  enums: many(enums),
+  tableGroups: many(tableGroups),
+  stickyNotes: many(stickyNotes),
 }));
 
 export const schemaVersionsRelations = relations(schemaVersions, ({ one }) => ({
@@ -212,3 +279,24 @@ export const relationshipsRelations = relations(relationships, ({ one }) => ({
     references: [schemas.id],
   }),
 }));
+
+export const enumsRelations = relations(enums, ({ one }) => ({
+  schema: one(schemas, {
+    fields: [enums.schemaId],
+    references: [schemas.id],
+  }),
+}));
+
+export const tableGroupsRelations = relations(tableGroups, ({ one }) => ({
+  schema: one(schemas, {
+    fields: [tableGroups.schemaId],
+    references: [schemas.id],
+  }),
+}));
+
+export const stickyNotesRelations = relations(stickyNotes, ({ one }) => ({
+  schema: one(schemas, {
+    fields: [stickyNotes.schemaId],
+    references: [schemas.id],
+  }),
+}));
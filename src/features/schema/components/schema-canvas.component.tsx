@@ -11,6 +11,7 @@ import {
   useReactFlow,
   ConnectionMode,
   type NodeChange,
+  type NodePositionChange,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 
@@ -19,9 +20,19 @@ import { useTableOperations } from "@/features/schema/hooks/use-table-operations
 import { useColumnOperations } from "@/features/schema/hooks/use-column-operations";
 import { useRelationshipOperations } from "@/features/schema/hooks/use-relationship-operations";
 import { useCanvasState } from "@/features/schema/hooks/use-canvas-state";
-import { useReactFlowIntegration } from "@/features/schema/hooks/use-react-flow-integration";
-import { generateTableSQL } from "@/features/schema/utils/sql-generator.utils";
+import {
+  useReactFlowIntegration,
+  isTableNode,
+  type GhostElements,
+} from "@/features/schema/hooks/use-react-flow-integration";
+import { diffSchemas } from "@/features/schema/utils/schema-diff.utils";
+import type { CanvasNode, Column, SchemaProject } from "@/features/schema/types/schema.types";
+import {
+  generateEnumTypesSQL,
+  generateTableSQL,
+} from "@/features/schema/utils/sql-generator.utils";
 import { findOpenSlot } from "@/lib/layout/smart-placement";
+import { DEFAULT_STICKY_NOTE_SIZE } from "@/constants/schema";
 
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -35,6 +46,9 @@ import {
   Table2,
   FileUp,
   FileDown,
+  Undo2,
+  Redo2,
+  StickyNote,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -47,6 +61,8 @@ import {
 import { SchemaSelector } from "@/components/schema/schema-selector";
 import { CanvasSidebar } from "@/components/schema/canvas-sidebar";
 import TableNode from "@/components/schema/table-node";
+import TableGroupNode from "@/components/schema/table-group-node";
+import StickyNoteNode from "@/components/schema/sticky-note-node";
 import RelationshipEdge from "@/components/schema/relationship-edge";
 import ExportDialog from "@/components/export/export-dialog";
 import ImportDialog from "@/components/import/import-dialog";
@@ -56,15 +72,33 @@ import EdgeContextMenu from "@/components/schema/edge-context-menu";
 import ConnectionPanel from "@/components/schema/connection-panel";
 import RelationshipTypeSelector from "@/components/schema/relationship-type-selector";
 import LayoutPanel from "@/components/schema/layout-panel";
-import SchemaEditorPane from "@/components/schema/schema-editor-pane";
+import SchemaEditorPane, { type SourceTarget } from "@/components/schema/schema-editor-pane";
 
 import VersionHistoryPanel from "@/components/schema/version-history-panel";
+import VersionComparePanel from "@/components/schema/version-compare-panel";
+import SaveConflictDialog from "@/components/schema/save-conflict-dialog";
 import TableSearch from "@/components/schema/table-search";
 import { UserAuth } from "@/components/auth/user-auth";
 
-const nodeTypes = { table: TableNode };
+const nodeTypes = {
+  table: TableNode,
+  tableGroup: TableGroupNode,
+  stickyNote: StickyNoteNode,
+};
 const edgeTypes = { relationship: RelationshipEdge };
 
+// Keyboard shortcuts that would clash with text editing (undo, select all)
+// are left to inputs and the DBML editor when they have focus
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT"
+  );
+}
+
 // Strip handle suffix to get the base column ID
 function columnIdFromHandle(handleId: string): string {
   return handleId
@@ -77,12 +111,32 @@ function columnIdFromHandle(handleId: string): string {
 const SchemaCanvasContent: React.FC = () => {
   const tables = useSchema((s) => s.tables);
   const relationships = useSchema((s) => s.relationships);
+  const enums = useSchema((s) => s.enums);
+  const groups = useSchema((s) => s.groups);
+  const notes = useSchema((s) => s.notes);
   const updateTable = useSchema((s) => s.updateTable);
+  const updateGroup = useSchema((s) => s.updateGroup);
+  const addNote = useSchema((s) => s.addNote);
+  const updateNote = useSchema((s) => s.updateNote);
   const clearSchema = useSchema((s) => s.clearSchema);
   const loadSchema = useSchema((s) => s.loadSchema);
   const exportSchema = useSchema((s) => s.exportSchema);
   const saveVersion = useSchema((s) => s.saveVersion);
   const activeSchemaId = useSchema((s) => s.activeSchemaId);
+  const undo = useSchema((s) => s.undo);
+  const redo = useSchema((s) => s.redo);
+  const batch = useSchema((s) => s.batch);
+  const canUndo = useSchema((s) => s.canUndo);
+  const canRedo = useSchema((s) => s.canRedo);
+  const activeSchemaName = useSchema((s) => s.activeSchemaName);
+  const activeSchemaDescription = useSchema((s) => s.activeSchemaDescription);
+  const databaseType = useSchema((s) => s.databaseType);
+  const updateProject = useSchema((s) => s.updateProject);
+
+  const project = React.useMemo(
+    (): SchemaProject => ({ name: activeSchemaName, description: activeSchemaDescription, databaseType }),
+    [activeSchemaName, activeSchemaDescription, databaseType],
+  );
 
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [isEditorCollapsed, setIsEditorCollapsed] = useState(false);
@@ -107,6 +161,7 @@ const SchemaCanvasContent: React.FC = () => {
   const setHoveredNode = useCanvasState((s) => s.setHoveredNode);
   const hideAllContextMenus = useCanvasState((s) => s.hideAllContextMenus);
   const showConnectionPanel = useCanvasState((s) => s.showConnectionPanel);
+  const setHighlightedColumn = useCanvasState((s) => s.setHighlightedColumn);
   const highlightEdgeTemporarily = useCanvasState(
     (s) => s.highlightEdgeTemporarily,
   );
@@ -134,6 +189,9 @@ const SchemaCanvasContent: React.FC = () => {
   const connectionPanelTable = useCanvasState((s) => s.connectionPanelTable);
   const pendingConnection = useCanvasState((s) => s.pendingConnection);
   const isVersionHistoryOpen = useCanvasState((s) => s.isVersionHistoryOpen);
+  const comparison = useCanvasState((s) => s.comparison);
+  const setComparisonDiff = useCanvasState((s) => s.setComparisonDiff);
+  const stopComparison = useCanvasState((s) => s.stopComparison);
 
   const { getNodes, setNodes, screenToFlowPosition, fitView } = useReactFlow();
 
@@ -165,10 +223,51 @@ const SchemaCanvasContent: React.FC = () => {
     setHighlightedTableIds,
   ]);
 
+  // Compare mode: diff the selected version against the live state
+  const comparisonDiff = React.useMemo(
+    () =>
+      comparison
+        ? diffSchemas(comparison.snapshot, { tables, relationships, enums })
+        : null,
+    [comparison, tables, relationships, enums],
+  );
+
+  useEffect(() => {
+    setComparisonDiff(comparisonDiff);
+  }, [comparisonDiff, setComparisonDiff]);
+
+  // A comparison belongs to the schema it was started on
+  useEffect(() => {
+    if (comparison && comparison.schemaId !== activeSchemaId) stopComparison();
+  }, [comparison, activeSchemaId, stopComparison]);
+
+  // Removed tables and relationships are drawn as read-only ghosts
+  const ghosts = React.useMemo((): GhostElements | undefined => {
+    if (!comparisonDiff) return undefined;
+    const ghostTables = comparisonDiff.tables
+      .filter((t) => t.kind === "removed")
+      .map((t) => t.before!);
+    const tableIds = new Set([
+      ...tables.map((t) => t.id),
+      ...ghostTables.map((t) => t.id),
+    ]);
+    const ghostRelationships = comparisonDiff.relationships
+      .filter((r) => r.kind === "removed")
+      .map((r) => r.before!)
+      .filter(
+        (rel) =>
+          tableIds.has(rel.sourceTableId) && tableIds.has(rel.targetTableId),
+      );
+    return { tables: ghostTables, relationships: ghostRelationships };
+  }, [comparisonDiff, tables]);
+
   const reactFlowIntegration = useReactFlowIntegration(
     tables,
     relationships,
+    groups,
+    notes,
     handleConnection,
+    ghosts,
   );
 
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
@@ -221,6 +320,18 @@ const SchemaCanvasContent: React.FC = () => {
     tableOps.createNewTable(position);
   }, [tableOps, getNodes, getCenterPosition]);
 
+  const handleAddNote = useCallback(() => {
+    const names = new Set(notes.map((n) => n.name));
+    let index = notes.length + 1;
+    while (names.has(`note_${index}`)) index++;
+    addNote({
+      name: `note_${index}`,
+      content: "",
+      position: findOpenSlot(getNodes(), getCenterPosition()),
+      ...DEFAULT_STICKY_NOTE_SIZE,
+    });
+  }, [notes, addNote, getNodes, getCenterPosition]);
+
   const handleSaveVersion = useCallback(async () => {
     if (!activeSchemaId) return;
     const label = prompt("Enter version label (optional):");
@@ -230,36 +341,189 @@ const SchemaCanvasContent: React.FC = () => {
   }, [activeSchemaId, saveVersion]);
 
   const handleLayout = useCallback(
-    (updatedTables: typeof tables) => {
-      updatedTables.forEach((t) => updateTable(t.id, { position: t.position }));
+    (updatedTables: typeof tables, updatedGroups: typeof groups) => {
+      const tablesById = new Map(tables.map((t) => [t.id, t]));
+      batch("Arrange tables", () => {
+        updatedTables.forEach((t) =>
+          updateTable(t.id, { position: t.position }),
+        );
+        // Pinned notes keep their place relative to their table
+        const updatedById = new Map(updatedTables.map((t) => [t.id, t]));
+        notes.forEach((n) => {
+          const before = n.tableId ? tablesById.get(n.tableId) : undefined;
+          const after = n.tableId ? updatedById.get(n.tableId) : undefined;
+          if (!before || !after) return;
+          updateNote(n.id, {
+            position: {
+              x: n.position.x + after.position.x - before.position.x,
+              y: n.position.y + after.position.y - before.position.y,
+            },
+          });
+        });
+        updatedGroups.forEach((g) =>
+          updateGroup(g.id, {
+            position: g.position,
+            width: g.width,
+            height: g.height,
+          }),
+        );
+      });
       // Fit view after layout with a small delay to let positions settle
       setTimeout(() => fitView({ padding: 0.15, duration: 300 }), 50);
     },
-    [updateTable, fitView],
+    [batch, tables, notes, updateTable, updateGroup, updateNote, fitView],
   );
 
   const handleSchemaChange = useCallback(
-    (newTables: typeof tables, newRelationships: typeof relationships) => {
+    (
+      newTables: typeof tables,
+      newRelationships: typeof relationships,
+      newEnums: typeof enums,
+      newGroups: typeof groups,
+      newNotes: typeof notes,
+    ) => {
       loadSchema({
         ...exportSchema(),
         tables: newTables,
         relationships: newRelationships,
+        enums: newEnums,
+        groups: newGroups,
+        notes: newNotes,
       });
     },
     [loadSchema, exportSchema],
   );
 
-  // Persist final drag position to store so it survives re-renders
+  const handleProjectChange = useCallback(
+    (newProject: SchemaProject) => {
+      updateProject(newProject).catch((error) =>
+        console.error("Failed to save project settings:", error),
+      );
+    },
+    [updateProject],
+  );
+
+  // The DBML cursor moved into a table, column or ref: select it and bring it into view
+  const handleLocateSource = useCallback(
+    (target: SourceTarget) => {
+      if ("relationshipId" in target) {
+        const rel = relationships.find((r) => r.id === target.relationshipId);
+        if (!rel) return;
+        highlightEdgeTemporarily(rel.id, 2000);
+        fitView({
+          nodes: [{ id: rel.sourceTableId }, { id: rel.targetTableId }],
+          padding: 0.5,
+          duration: 300,
+        });
+        return;
+      }
+      const panToTable = target.tableId !== useCanvasState.getState().selectedNodeId;
+      selectNode(target.tableId);
+      setHighlightedColumn(target.columnId);
+      if (panToTable) {
+        fitView({ nodes: [{ id: target.tableId }], padding: 0.5, duration: 300 });
+      }
+    },
+    [relationships, selectNode, setHighlightedColumn, highlightEdgeTemporarily, fitView],
+  );
+
+  // A table dropped inside an expanded group joins it; one dropped outside its group leaves it
+  const updateGroupMembership = useCallback(
+    (tableId: string, position: { x: number; y: number }) => {
+      const node = reactFlowIntegration.findNode(tableId);
+      const center = {
+        x: position.x + (node?.measured?.width ?? 0) / 2,
+        y: position.y + (node?.measured?.height ?? 0) / 2,
+      };
+      const currentGroups = useSchema.getState().groups;
+      const current = currentGroups.find((g) => g.tableIds.includes(tableId));
+      const target = currentGroups.find(
+        (g) =>
+          !g.collapsed &&
+          center.x >= g.position.x &&
+          center.x <= g.position.x + g.width &&
+          center.y >= g.position.y &&
+          center.y <= g.position.y + g.height,
+      );
+      if (target === current) return;
+      if (target) {
+        updateGroup(target.id, { tableIds: [...target.tableIds, tableId] });
+      } else if (current) {
+        updateGroup(current.id, {
+          tableIds: current.tableIds.filter((id) => id !== tableId),
+        });
+      }
+    },
+    [reactFlowIntegration, updateGroup],
+  );
+
+  // Persist final drag position to store so it survives re-renders.
+  // A multi-table drag ends with one change per node; record it as one step.
+  // Dragging a group carries its tables along and moving a table carries its
+  // pinned notes, unless they are dragged themselves.
   const handleNodesChange = useCallback(
-    (changes: NodeChange[]) => {
-      reactFlowIntegration.onNodesChange(changes);
-      changes.forEach((change: any) => {
-        if (change.type === "position" && change.position && !change.dragging) {
-          tableOps.updateTablePosition(change.id, change.position);
-        }
+    (changes: NodeChange<CanvasNode>[]) => {
+      const groupsById = new Map(groups.map((g) => [g.id, g]));
+      const noteIds = new Set(notes.map((n) => n.id));
+      const moving = new Set(
+        changes.filter((c) => c.type === "position").map((c) => c.id),
+      );
+      const followerChanges: NodeChange<CanvasNode>[] = [];
+
+      // Drag changes carry `dragging`; resizing from the top or left edge does not
+      const isDrag = (change: NodeChange<CanvasNode>): change is NodePositionChange =>
+        change.type === "position" && !!change.position && change.dragging !== undefined;
+
+      const follow = (change: NodePositionChange, followerIds: string[]) => {
+        if (!change.position) return;
+        const node = reactFlowIntegration.findNode(change.id);
+        if (!node) return;
+        const dx = change.position.x - node.position.x;
+        const dy = change.position.y - node.position.y;
+        followerIds.forEach((followerId) => {
+          const follower = reactFlowIntegration.findNode(followerId);
+          if (!follower || moving.has(followerId)) return;
+          moving.add(followerId);
+          followerChanges.push({
+            id: followerId,
+            type: "position",
+            position: { x: follower.position.x + dx, y: follower.position.y + dy },
+            dragging: change.dragging,
+          });
+        });
+      };
+
+      const groupChanges = changes.filter(isDrag).filter((c) => groupsById.has(c.id));
+      groupChanges.forEach((change) => follow(change, groupsById.get(change.id)!.tableIds));
+
+      [...changes, ...followerChanges]
+        .filter(isDrag)
+        .filter((c) => !groupsById.has(c.id) && !noteIds.has(c.id))
+        .forEach((change) =>
+          follow(change, notes.filter((n) => n.tableId === change.id).map((n) => n.id)),
+        );
+
+      const allChanges = [...changes, ...followerChanges];
+      reactFlowIntegration.onNodesChange(allChanges);
+      batch("Move tables", () => {
+        allChanges.forEach((change) => {
+          if (change.type !== "position" || !change.position) return;
+          if (groupsById.has(change.id)) {
+            if (change.dragging === false) {
+              updateGroup(change.id, { position: change.position });
+            }
+          } else if (noteIds.has(change.id)) {
+            if (change.dragging === false) {
+              updateNote(change.id, { position: change.position });
+            }
+          } else if (!change.dragging) {
+            tableOps.updateTablePosition(change.id, change.position);
+            if (groupChanges.length === 0) updateGroupMembership(change.id, change.position);
+          }
+        });
       });
     },
-    [reactFlowIntegration, tableOps],
+    [reactFlowIntegration, tableOps, batch, groups, notes, updateGroup, updateNote, updateGroupMembership],
   );
 
   const handleClearSchema = useCallback(() => {
@@ -288,8 +552,10 @@ const SchemaCanvasContent: React.FC = () => {
     [reactFlowIntegration, tableOps],
   );
 
+  // Groups and notes are selected by React Flow only, so they do not take part in table highlighting
   const handleNodeClick = useCallback(
     (event: React.MouseEvent, node: any) => {
+      if (!isTableNode(node)) return;
       if (event.ctrlKey || event.metaKey) {
         toggleNodeSelection(node.id);
       } else {
@@ -334,6 +600,7 @@ const SchemaCanvasContent: React.FC = () => {
 
   const handleNodeMouseEnter = useCallback(
     (_: React.MouseEvent, node: any) => {
+      if (!isTableNode(node)) return;
       setHoveredNode(node.id);
     },
     [setHoveredNode],
@@ -358,9 +625,11 @@ const SchemaCanvasContent: React.FC = () => {
   );
 
   const handleDeleteSelected = useCallback(() => {
-    selectedNodeIds.forEach((id) => tableOps.deleteExistingTable(id));
+    batch("Delete tables", () => {
+      selectedNodeIds.forEach((id) => tableOps.deleteExistingTable(id));
+    });
     clearSelection();
-  }, [selectedNodeIds, tableOps, clearSelection]);
+  }, [selectedNodeIds, tableOps, clearSelection, batch]);
 
   const handleDuplicateTable = useCallback(
     (table: any) => tableOps.duplicateExistingTable(table),
@@ -386,11 +655,18 @@ const SchemaCanvasContent: React.FC = () => {
   );
 
   const handleExportTable = useCallback((table: any) => {
-    const sql = generateTableSQL(table, {
-      dialect: "postgresql",
-      includeDescriptions: false,
-      dropTables: false,
-    });
+    // The table's enum types are included so the file runs on its own
+    const usedEnums = enums.filter((e) =>
+      table.columns.some((c: Column) => c.type === "enum" && c.enumId === e.id),
+    );
+    const sql =
+      generateEnumTypesSQL(usedEnums, "postgresql") +
+      generateTableSQL(table, {
+        dialect: "postgresql",
+        includeDescriptions: false,
+        dropTables: false,
+        enums,
+      });
     const blob = new Blob([sql], { type: "text/plain" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -398,7 +674,7 @@ const SchemaCanvasContent: React.FC = () => {
     a.download = `${table.name}.sql`;
     a.click();
     URL.revokeObjectURL(url);
-  }, []);
+  }, [enums]);
 
   const handleSelectRelationshipType = useCallback(
     (type: string) => {
@@ -425,6 +701,16 @@ const SchemaCanvasContent: React.FC = () => {
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        (e.ctrlKey || e.metaKey) &&
+        (e.key.toLowerCase() === "z" || e.key === "y") &&
+        !isEditableTarget(e.target)
+      ) {
+        e.preventDefault();
+        if (e.key === "y" || e.shiftKey) redo();
+        else undo();
+        return;
+      }
       if ((e.ctrlKey || e.metaKey) && e.key === ",") {
         e.preventDefault();
         handleSettings();
@@ -475,6 +761,8 @@ const SchemaCanvasContent: React.FC = () => {
     handleSettings,
     tableOps,
     handleSaveVersion,
+    undo,
+    redo,
   ]);
 
   return (
@@ -503,6 +791,29 @@ const SchemaCanvasContent: React.FC = () => {
 
           {/* Center: Primary Actions */}
           <div className="flex items-center gap-1">
+            <Button
+              onClick={undo}
+              disabled={!canUndo}
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0 text-muted-foreground"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              onClick={redo}
+              disabled={!canRedo}
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0 text-muted-foreground"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="h-3.5 w-3.5" />
+            </Button>
+
+            <div className="h-5 w-px bg-border mx-1" />
+
             <Button
               onClick={handleAddTable}
               size="sm"
@@ -513,6 +824,17 @@ const SchemaCanvasContent: React.FC = () => {
               Add Table
             </Button>
 
+            <Button
+              onClick={handleAddNote}
+              size="sm"
+              variant="ghost"
+              className="h-8 px-2.5 text-xs text-muted-foreground"
+              title="Add sticky note"
+            >
+              <StickyNote className="h-3.5 w-3.5 mr-1.5" />
+              Note
+            </Button>
+
             <div className="h-5 w-px bg-border mx-1" />
 
             <Button
@@ -614,7 +936,7 @@ const SchemaCanvasContent: React.FC = () => {
             )}
             <span className="text-muted-foreground/60">
               Ctrl+click multi-select &bull; Ctrl+A select all &bull; Delete
-              remove
+              remove &bull; Ctrl+Z undo
             </span>
           </div>
         </div>
@@ -642,9 +964,16 @@ const SchemaCanvasContent: React.FC = () => {
             onToggleCollapse={() => setIsEditorCollapsed((v) => !v)}
             tables={tables}
             relationships={relationships}
+            enums={enums}
+            groups={groups}
+            notes={notes}
+            project={project}
             getNodes={getNodes}
             onSchemaChange={handleSchemaChange}
+            onProjectChange={handleProjectChange}
             getCenterPosition={getCenterPosition}
+            selectedTableId={selectedNodeId}
+            onLocate={handleLocateSource}
           >
             {/* Canvas */}
             <div className="flex-1 relative" ref={reactFlowWrapper}>
@@ -678,6 +1007,8 @@ const SchemaCanvasContent: React.FC = () => {
                   zoomable
                   nodeColor={(node) => {
                     if (node.type === "table") return "hsl(var(--primary))";
+                    if (node.type === "tableGroup") return "hsl(var(--muted))";
+                    if (node.type === "stickyNote") return "#fef08a";
                     return "hsl(var(--background))";
                   }}
                   className="bg-card border border-border rounded overflow-hidden"
@@ -739,6 +1070,7 @@ const SchemaCanvasContent: React.FC = () => {
                   <LayoutPanel
                     tables={tables}
                     relationships={relationships}
+                    groups={groups}
                     onLayout={handleLayout}
                     onFitView={() => fitView({ padding: 0.15, duration: 300 })}
                   />
@@ -751,6 +1083,7 @@ const SchemaCanvasContent: React.FC = () => {
         {/* Dialogs */}
         <ExportDialog isOpen={isExportDialogOpen} onClose={closeExportDialog} />
         <ImportDialog isOpen={isImportDialogOpen} onClose={closeImportDialog} />
+        <SaveConflictDialog />
         <SettingsDialog
           isOpen={isSettingsDialogOpen}
           onClose={closeSettingsDialog}
@@ -818,6 +1151,14 @@ const SchemaCanvasContent: React.FC = () => {
         {isVersionHistoryOpen && (
           <VersionHistoryPanel onClose={toggleVersionHistory} />
         )}
+
+        {comparison && !isVersionHistoryOpen && (
+          <VersionComparePanel
+            onFocusTable={(tableId) =>
+              fitView({ nodes: [{ id: tableId }], padding: 0.5, duration: 300 })
+            }
+          />
+        )}
       </div>
     </div>
   );
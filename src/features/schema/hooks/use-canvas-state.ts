@@ -1,182 +1,259 @@
-import { create } from 'zustand';
-import { devtools } from 'zustand/middleware';
-import type {
-  NodeContextMenuState,
-  EdgeContextMenuState,
-  PendingConnection,
-  Table,
-  Relationship
-} from '@/features/schema/types/schema.types';
-
-export type DetailLevel = 'compact' | 'keys-only' | 'standard' | 'detailed';
-
-interface CanvasState {
-  // Dialog states
-  isExportDialogOpen: boolean;
-  isImportDialogOpen: boolean;
-  isSettingsDialogOpen: boolean;
-  
-  // Connection states
-  isConnecting: boolean;
-  pendingConnection: PendingConnection | null;
-  
-  // Context menu states
-  contextMenu: NodeContextMenuState | null;
-  edgeContextMenu: EdgeContextMenuState | null;
-  
-  // Selection/Hover states
-  selectedNodeId: string | null;
-  selectedNodeIds: Set<string>;
-  hoveredNodeId: string | null;
-  highlightedEdgeId: string | null;
-  highlightedTableIds: Set<string>;
-  
-  // Panel states
-  connectionPanelTable: Table | null;
-  isVersionHistoryOpen: boolean;
-
-  // View Preferences
-  detailLevel: DetailLevel;
-
-  // Actions
-  openExportDialog: () => void;
-  closeExportDialog: () => void;
-  openImportDialog: () => void;
-  closeImportDialog: () => void;
-  openSettingsDialog: () => void;
-  closeSettingsDialog: () => void;
-  
-  startConnection: () => void;
-  endConnection: () => void;
-  setPendingConnectionData: (data: PendingConnection | null) => void;
-  
-  showNodeContextMenu: (x: number, y: number, nodeId: string, table: Table) => void;
-  showEdgeContextMenu: (x: number, y: number, edgeId: string, relationship: Relationship) => void;
-  hideAllContextMenus: () => void;
-  
-  selectNode: (nodeId: string | null) => void;
-  toggleNodeSelection: (nodeId: string) => void;
-  selectAllNodes: (nodeIds: string[]) => void;
-  clearSelection: () => void;
-  setHoveredNode: (nodeId: string | null) => void;
-  highlightEdge: (edgeId: string | null) => void;
-  highlightEdgeTemporarily: (edgeId: string, duration?: number) => void;
-  setHighlightedTableIds: (ids: Set<string>) => void;
-  
-  showConnectionPanel: (table: Table) => void;
-  hideConnectionPanel: () => void;
-  
-  toggleVersionHistory: () => void;
-  
-  setDetailLevel: (level: DetailLevel) => void;
-  
-  clearAllStates: () => void;
-  resetCanvasState: () => void;
-}
-
-export const useCanvasState = create<CanvasState>()(
-  devtools(
-    (set) => ({
-      // Initial state
-      isExportDialogOpen: false,
-      isImportDialogOpen: false,
-      isSettingsDialogOpen: false,
-      isConnecting: false,
-      pendingConnection: null,
-      contextMenu: null,
-      edgeContextMenu: null,
-      selectedNodeId: null,
-      selectedNodeIds: new Set<string>(),
-      hoveredNodeId: null,
-      highlightedEdgeId: null,
-      highlightedTableIds: new Set<string>(),
-      connectionPanelTable: null,
-      isVersionHistoryOpen: false,
-      detailLevel: (typeof window !== 'undefined' ? localStorage.getItem('schemaCanvas_detailLevel') || 'standard' : 'standard') as DetailLevel,
-
-      // Actions
-      openExportDialog: () => set({ isExportDialogOpen: true }),
-      closeExportDialog: () => set({ isExportDialogOpen: false }),
-      openImportDialog: () => set({ isImportDialogOpen: true }),
-      closeImportDialog: () => set({ isImportDialogOpen: false }),
-      openSettingsDialog: () => set({ isSettingsDialogOpen: true }),
-      closeSettingsDialog: () => set({ isSettingsDialogOpen: false }),
-
-      startConnection: () => set({ isConnecting: true }),
-      endConnection: () => set({ isConnecting: false, pendingConnection: null }),
-      setPendingConnectionData: (data) => set({ pendingConnection: data }),
-
-      showNodeContextMenu: (x, y, nodeId, table) => set({ 
-        contextMenu: { x, y, nodeId, table }, 
-        edgeContextMenu: null 
-      }),
-      showEdgeContextMenu: (x, y, edgeId, relationship) => set({ 
-        edgeContextMenu: { x, y, edgeId, relationship }, 
-        contextMenu: null 
-      }),
-      hideAllContextMenus: () => set({ contextMenu: null, edgeContextMenu: null }),
-
-      selectNode: (nodeId) => set({ selectedNodeId: nodeId, selectedNodeIds: nodeId ? new Set([nodeId]) : new Set() }),
-      toggleNodeSelection: (nodeId) => set((state) => {
-        const next = new Set(state.selectedNodeIds);
-        if (next.has(nodeId)) {
-          next.delete(nodeId);
-        } else {
-          next.add(nodeId);
-        }
-        return { selectedNodeIds: next, selectedNodeId: next.size === 1 ? [...next][0] : null };
-      }),
-      selectAllNodes: (nodeIds) => set({ selectedNodeIds: new Set(nodeIds), selectedNodeId: null }),
-      clearSelection: () => set({ selectedNodeId: null, selectedNodeIds: new Set() }),
-      setHoveredNode: (nodeId) => set({ hoveredNodeId: nodeId }),
-      highlightEdge: (edgeId) => set({ highlightedEdgeId: edgeId }),
-      highlightEdgeTemporarily: (edgeId, duration = 2000) => {
-        set({ highlightedEdgeId: edgeId });
-        setTimeout(() => set({ highlightedEdgeId: null }), duration);
-      },
-      setHighlightedTableIds: (ids) => set({ highlightedTableIds: ids }),
-
-      showConnectionPanel: (table) => set({ connectionPanelTable: table }),
-      hideConnectionPanel: () => set({ connectionPanelTable: null }),
-
-      toggleVersionHistory: () => set((state) => ({ isVersionHistoryOpen: !state.isVersionHistoryOpen })),
-
-      setDetailLevel: (level) => {
-        if (typeof window !== 'undefined') {
-          localStorage.setItem('schemaCanvas_detailLevel', level);
-        }
-        set({ detailLevel: level });
-      },
-
-      clearAllStates: () => set({
-        contextMenu: null,
-        edgeContextMenu: null,
-        selectedNodeId: null,
-        selectedNodeIds: new Set<string>(),
-        hoveredNodeId: null,
-        highlightedEdgeId: null,
-        highlightedTableIds: new Set<string>(),
-        connectionPanelTable: null,
-        isConnecting: false,
-        pendingConnection: null,
-        isExportDialogOpen: false,
-        isImportDialogOpen: false,
-        isSettingsDialogOpen: false,
-      }),
-
-      resetCanvasState: () => set({
-        contextMenu: null,
-        edgeContextMenu: null,
-        selectedNodeId: null,
-        selectedNodeIds: new Set<string>(),
-        hoveredNodeId: null,
-        highlightedEdgeId: null,
-        highlightedTableIds: new Set<string>(),
-        connectionPanelTable: null,
-        isConnecting: false,
-        pendingConnection: null,
-      }),
-    }),
-    { name: 'canvas-store' }
-  )
-);
\ No newline at end of file
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type {
+  NodeContextMenuState,
+  EdgeContextMenuState,
+  PendingConnection,
+  Table,
+  Relationship
+} from '@/features/schema/types/schema.types';
+import type {
+  SchemaDiff,
+  SchemaSnapshot,
+  TableDiff,
+  RelationshipDiff,
+} from '@/features/schema/utils/schema-diff.utils';
+import { DEFAULT_DBML_FORMAT_OPTIONS, type DbmlFormatOptions } from '@/lib/dbml/dbml-formatter';
+
+export type DetailLevel = 'compact' | 'keys-only' | 'standard' | 'detailed';
+
+const DBML_FORMAT_STORAGE_KEY = 'schemaCanvas_dbmlFormat';
+
+// Saved options over the defaults, so options added later get their default
+const loadDbmlFormatOptions = (): DbmlFormatOptions => {
+  if (typeof window === 'undefined') return DEFAULT_DBML_FORMAT_OPTIONS;
+  try {
+    return { ...DEFAULT_DBML_FORMAT_OPTIONS, ...JSON.parse(localStorage.getItem(DBML_FORMAT_STORAGE_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_DBML_FORMAT_OPTIONS;
+  }
+};
+
+/** A saved version being compared against the live canvas */
+export interface VersionComparison {
+  schemaId: string;
+  versionId: string;
+  label: string;
+  snapshot: SchemaSnapshot;
+}
+
+/** Diff of the compared version against the current state, indexed for node/edge lookups */
+export interface ComparisonDiff {
+  diff: SchemaDiff;
+  tables: Map<string, TableDiff>;
+  relationships: Map<string, RelationshipDiff>;
+}
+
+interface CanvasState {
+  // Dialog states
+  isExportDialogOpen: boolean;
+  isImportDialogOpen: boolean;
+  isSettingsDialogOpen: boolean;
+  
+  // Connection states
+  isConnecting: boolean;
+  pendingConnection: PendingConnection | null;
+  
+  // Context menu states
+  contextMenu: NodeContextMenuState | null;
+  edgeContextMenu: EdgeContextMenuState | null;
+  
+  // Selection/Hover states
+  selectedNodeId: string | null;
+  selectedNodeIds: Set<string>;
+  hoveredNodeId: string | null;
+  highlightedEdgeId: string | null;
+  highlightedTableIds: Set<string>;
+  /** Column whose definition holds the DBML editor cursor */
+  highlightedColumnId: string | null;
+  
+  // Panel states
+  connectionPanelTable: Table | null;
+  isVersionHistoryOpen: boolean;
+
+  // Version compare mode
+  comparison: VersionComparison | null;
+  comparisonDiff: ComparisonDiff | null;
+
+  // View Preferences
+  detailLevel: DetailLevel;
+  /** Style of the DBML editor's Format Document command */
+  dbmlFormatOptions: DbmlFormatOptions;
+
+  // Actions
+  openExportDialog: () => void;
+  closeExportDialog: () => void;
+  openImportDialog: () => void;
+  closeImportDialog: () => void;
+  openSettingsDialog: () => void;
+  closeSettingsDialog: () => void;
+  
+  startConnection: () => void;
+  endConnection: () => void;
+  setPendingConnectionData: (data: PendingConnection | null) => void;
+  
+  showNodeContextMenu: (x: number, y: number, nodeId: string, table: Table) => void;
+  showEdgeContextMenu: (x: number, y: number, edgeId: string, relationship: Relationship) => void;
+  hideAllContextMenus: () => void;
+  
+  selectNode: (nodeId: string | null) => void;
+  toggleNodeSelection: (nodeId: string) => void;
+  selectAllNodes: (nodeIds: string[]) => void;
+  clearSelection: () => void;
+  setHoveredNode: (nodeId: string | null) => void;
+  highlightEdge: (edgeId: string | null) => void;
+  highlightEdgeTemporarily: (edgeId: string, duration?: number) => void;
+  setHighlightedTableIds: (ids: Set<string>) => void;
+  setHighlightedColumn: (columnId: string | null) => void;
+  
+  showConnectionPanel: (table: Table) => void;
+  hideConnectionPanel: () => void;
+  
+  toggleVersionHistory: () => void;
+
+  startComparison: (comparison: VersionComparison) => void;
+  setComparisonDiff: (diff: SchemaDiff | null) => void;
+  stopComparison: () => void;
+  
+  setDetailLevel: (level: DetailLevel) => void;
+  setDbmlFormatOptions: (options: Partial<DbmlFormatOptions>) => void;
+  
+  clearAllStates: () => void;
+  resetCanvasState: () => void;
+}
+
+export const useCanvasState = create<CanvasState>()(
+  devtools(
+    (set) => ({
+      // Initial state
+      isExportDialogOpen: false,
+      isImportDialogOpen: false,
+      isSettingsDialogOpen: false,
+      isConnecting: false,
+      pendingConnection: null,
+      contextMenu: null,
+      edgeContextMenu: null,
+      selectedNodeId: null,
+      selectedNodeIds: new Set<string>(),
+      hoveredNodeId: null,
+      highlightedEdgeId: null,
+      highlightedTableIds: new Set<string>(),
+      highlightedColumnId: null,
+      connectionPanelTable: null,
+      isVersionHistoryOpen: false,
+      comparison: null,
+      comparisonDiff: null,
+      detailLevel: (typeof window !== 'undefined' ? localStorage.getItem('schemaCanvas_detailLevel') || 'standard' : 'standard') as DetailLevel,
+      dbmlFormatOptions: loadDbmlFormatOptions(),
+
+      // Actions
+      openExportDialog: () => set({ isExportDialogOpen: true }),
+      closeExportDialog: () => set({ isExportDialogOpen: false }),
+      openImportDialog: () => set({ isImportDialogOpen: true }),
+      closeImportDialog: () => set({ isImportDialogOpen: false }),
+      openSettingsDialog: () => set({ isSettingsDialogOpen: true }),
+      closeSettingsDialog: () => set({ isSettingsDialogOpen: false }),
+
+      startConnection: () => set({ isConnecting: true }),
+      endConnection: () => set({ isConnecting: false, pendingConnection: null }),
+      setPendingConnectionData: (data) => set({ pendingConnection: data }),
+
+      showNodeContextMenu: (x, y, nodeId, table) => set({ 
+        contextMenu: { x, y, nodeId, table }, 
+        edgeContextMenu: null 
+      }),
+      showEdgeContextMenu: (x, y, edgeId, relationship) => set({ 
+        edgeContextMenu: { x, y, edgeId, relationship }, 
+        contextMenu: null 
+      }),
+      hideAllContextMenus: () => set({ contextMenu: null, edgeContextMenu: null }),
+
+      selectNode: (nodeId) => set({ selectedNodeId: nodeId, selectedNodeIds: nodeId ? new Set([nodeId]) : new Set(), highlightedColumnId: null }),
+      toggleNodeSelection: (nodeId) => set((state) => {
+        const next = new Set(state.selectedNodeIds);
+        if (next.has(nodeId)) {
+          next.delete(nodeId);
+        } else {
+          next.add(nodeId);
+        }
+        return { selectedNodeIds: next, selectedNodeId: next.size === 1 ? [...next][0] : null };
+      }),
+      selectAllNodes: (nodeIds) => set({ selectedNodeIds: new Set(nodeIds), selectedNodeId: null }),
+      clearSelection: () => set({ selectedNodeId: null, selectedNodeIds: new Set(), highlightedColumnId: null }),
+      setHoveredNode: (nodeId) => set({ hoveredNodeId: nodeId }),
+      highlightEdge: (edgeId) => set({ highlightedEdgeId: edgeId }),
+      highlightEdgeTemporarily: (edgeId, duration = 2000) => {
+        set({ highlightedEdgeId: edgeId });
+        setTimeout(() => set({ highlightedEdgeId: null }), duration);
+      },
+      setHighlightedTableIds: (ids) => set({ highlightedTableIds: ids }),
+      setHighlightedColumn: (columnId) => set({ highlightedColumnId: columnId }),
+
+      showConnectionPanel: (table) => set({ connectionPanelTable: table }),
+      hideConnectionPanel: () => set({ connectionPanelTable: null }),
+
+      toggleVersionHistory: () => set((state) => ({ isVersionHistoryOpen: !state.isVersionHistoryOpen })),
+
+      startComparison: (comparison) => set({ comparison, comparisonDiff: null, isVersionHistoryOpen: false }),
+      setComparisonDiff: (diff) => set({
+        comparisonDiff: diff
+          ? {
+              diff,
+              tables: new Map(diff.tables.map(t => [t.tableId, t])),
+              relationships: new Map(diff.relationships.map(r => [r.relationshipId, r])),
+            }
+          : null,
+      }),
+      stopComparison: () => set({ comparison: null, comparisonDiff: null }),
+
+      setDetailLevel: (level) => {
+        if (typeof window !== 'undefined') {
+          localStorage.setItem('schemaCanvas_detailLevel', level);
+        }
+        set({ detailLevel: level });
+      },
+
+      setDbmlFormatOptions: (options) => set((state) => {
+        const dbmlFormatOptions = { ...state.dbmlFormatOptions, ...options };
+        if (typeof window !== 'undefined') {
+          localStorage.setItem(DBML_FORMAT_STORAGE_KEY, JSON.stringify(dbmlFormatOptions));
+        }
+        return { dbmlFormatOptions };
+      }),
+
+      clearAllStates: () => set({
+        contextMenu: null,
+        edgeContextMenu: null,
+        selectedNodeId: null,
+        selectedNodeIds: new Set<string>(),
+        hoveredNodeId: null,
+        highlightedEdgeId: null,
+        highlightedTableIds: new Set<string>(),
+        highlightedColumnId: null,
+        connectionPanelTable: null,
+        isConnecting: false,
+        pendingConnection: null,
+        isExportDialogOpen: false,
+        isImportDialogOpen: false,
+        isSettingsDialogOpen: false,
+      }),
+
+      resetCanvasState: () => set({
+        contextMenu: null,
+        edgeContextMenu: null,
+        selectedNodeId: null,
+        selectedNodeIds: new Set<string>(),
+        hoveredNodeId: null,
+        highlightedEdgeId: null,
+        highlightedTableIds: new Set<string>(),
+        highlightedColumnId: null,
+        connectionPanelTable: null,
+        isConnecting: false,
+        pendingConnection: null,
+        comparison: null,
+        comparisonDiff: null,
+      }),
+    }),
+    { name: 'canvas-store' }
+  )
+);
@@ -18,12 +18,40 @@ import {
   applyEdgeChanges
 } from '@xyflow/react';
 import { useTheme } from 'next-themes';
-import type { Table, Relationship, SchemaNode, SchemaEdge } from '@/features/schema/types/schema.types';
+import type {
+  Table,
+  Relationship,
+  TableGroup,
+  StickyNote,
+  SchemaNode,
+  SchemaEdge,
+  TableGroupNode,
+  StickyNoteNode,
+  CanvasNode,
+} from '@/features/schema/types/schema.types';
+import { getQualifiedTableName } from '@/features/schema/utils/schema.utils';
+
+/** Tables and relationships drawn read-only on top of the schema, e.g. removed ones in compare mode */
+export interface GhostElements {
+  tables: Table[];
+  relationships: Relationship[];
+}
+
+const NO_GHOSTS: GhostElements = { tables: [], relationships: [] };
+
+export const isTableNode = (node: CanvasNode): node is SchemaNode => node.type === 'table';
+
+export const isTableGroupNode = (node: CanvasNode): node is TableGroupNode => node.type === 'tableGroup';
+
+export const isStickyNoteNode = (node: CanvasNode): node is StickyNoteNode => node.type === 'stickyNote';
 
 export const useReactFlowIntegration = (
   tables: Table[],
   relationships: Relationship[],
-  onConnection: (connection: Connection) => void
+  groups: TableGroup[],
+  notes: StickyNote[],
+  onConnection: (connection: Connection) => void,
+  ghosts: GhostElements = NO_GHOSTS
 ) => {
   const { theme, resolvedTheme } = useTheme();
   const reactFlowInstance = useReactFlow();
@@ -45,15 +73,54 @@ export const useReactFlowIntegration = (
     }
   }, [resolvedTheme, mounted]);
 
-  // Convert tables to ReactFlow nodes - MEMOIZED to prevent infinite loops
-  const nodes = useMemo((): SchemaNode[] => {
-    return tables.map((table: Table) => {
+  // Convert groups, tables and notes to ReactFlow nodes - MEMOIZED to prevent infinite loops.
+  // Groups come first so they are drawn behind their tables, notes last so they
+  // sit on top; the tables of a collapsed group (and their notes) are hidden.
+  const nodes = useMemo((): CanvasNode[] => {
+    const tablesById = new Map(tables.map((table) => [table.id, table]));
+    const collapsedTableIds = new Set(
+      groups.filter((group) => group.collapsed).flatMap((group) => group.tableIds)
+    );
+
+    const groupNodes: TableGroupNode[] = groups.map((group) => ({
+      id: group.id,
+      type: 'tableGroup' as const,
+      position: group.position,
+      width: group.collapsed ? undefined : group.width,
+      height: group.collapsed ? undefined : group.height,
+      zIndex: group.collapsed ? undefined : -1,
+      draggable: true,
+      selectable: true,
+      connectable: false,
+      data: {
+        group,
+        tableNames: group.tableIds
+          .map((id) => tablesById.get(id))
+          .filter((table): table is Table => !!table)
+          .map(getQualifiedTableName),
+      },
+    }));
+
+    const ghostNodes: SchemaNode[] = ghosts.tables.map((table: Table) => ({
+      id: table.id,
+      type: 'table' as const,
+      position: table.position || { x: 0, y: 0 },
+      width: table.width,
+      draggable: false,
+      selectable: false,
+      connectable: false,
+      data: { table, isGhost: true },
+    }));
+
+    const tableNodes = tables.map((table: Table): SchemaNode => {
       // Ensure position is valid
       const position = table.position || { x: 0, y: 0 };
       return {
         id: table.id,
         type: 'table' as const,
         position,
+        width: table.width,
+        hidden: collapsedTableIds.has(table.id),
         draggable: true,
         selectable: true,
         data: {
@@ -65,11 +132,40 @@ export const useReactFlowIntegration = (
         },
       };
     });
-  }, [tables]); // Only recreate when tables change
+
+    const noteNodes: StickyNoteNode[] = notes.map((note) => {
+      const table = note.tableId ? tablesById.get(note.tableId) : undefined;
+      return {
+        id: note.id,
+        type: 'stickyNote' as const,
+        position: note.position,
+        width: note.width,
+        height: note.height,
+        hidden: !!table && collapsedTableIds.has(table.id),
+        draggable: true,
+        selectable: true,
+        connectable: false,
+        data: { note, tableName: table ? getQualifiedTableName(table) : undefined },
+      };
+    });
+
+    return [...groupNodes, ...tableNodes, ...noteNodes, ...ghostNodes];
+  }, [tables, groups, notes, ghosts.tables]); // Only recreate when tables, groups or notes change
 
   // Convert relationships to ReactFlow edges - MEMOIZED to prevent infinite loops
   const edges = useMemo((): SchemaEdge[] => {
-    return relationships.map((relationship: Relationship) => {
+    const ghostEdges: SchemaEdge[] = ghosts.relationships.map((relationship: Relationship) => ({
+      id: relationship.id,
+      source: relationship.sourceTableId,
+      target: relationship.targetTableId,
+      sourceHandle: relationship.sourceColumnId,
+      targetHandle: relationship.targetColumnId,
+      type: 'relationship' as const,
+      selectable: false,
+      data: { relationship, isGhost: true },
+    }));
+
+    return relationships.map((relationship: Relationship): SchemaEdge => {
       return {
         id: relationship.id,
         source: relationship.sourceTableId,
@@ -83,11 +179,11 @@ export const useReactFlowIntegration = (
           onRelationshipDelete: () => { },
         },
       };
-    });
-  }, [relationships]); // Only recreate when relationships change
+    }).concat(ghostEdges);
+  }, [relationships, ghosts.relationships]); // Only recreate when relationships change
 
   // React Flow state
-  const [rfNodes, setNodes, onNodesChange] = useNodesState<SchemaNode>(nodes);
+  const [rfNodes, setNodes, onNodesChange] = useNodesState<CanvasNode>(nodes);
   const [rfEdges, setEdges, onEdgesChange] = useEdgesState<SchemaEdge>(edges);
 
   // Sync React Flow state with computed nodes/edges ONLY when they actually change
@@ -100,7 +196,11 @@ export const useReactFlowIntegration = (
           node.id !== computedNode.id ||
           node.position.x !== computedNode.position.x ||
           node.position.y !== computedNode.position.y ||
-          node.data.table !== computedNode.data.table;
+          node.hidden !== computedNode.hidden ||
+          node.data.table !== computedNode.data.table ||
+          node.data.group !== computedNode.data.group ||
+          node.data.note !== computedNode.data.note ||
+          node.data.tableName !== computedNode.data.tableName;
       });
 
     if (nodesChanged) {
@@ -205,7 +305,7 @@ export const useReactFlowIntegration = (
     });
     
     if (validChanges.length > 0) {
-      onNodesChange(validChanges as NodeChange<SchemaNode>[]);
+      onNodesChange(validChanges as NodeChange<CanvasNode>[]);
     }
   }, [onNodesChange, rfNodes]);
 
@@ -272,7 +372,7 @@ export const useReactFlowIntegration = (
   }, []);
 
   // Helper to find node by ID
-  const findNode = useCallback((nodeId: string): SchemaNode | undefined => {
+  const findNode = useCallback((nodeId: string): CanvasNode | undefined => {
     return rfNodes.find(node => node.id === nodeId);
   }, [rfNodes]);
 
@@ -283,7 +383,7 @@ export const useReactFlowIntegration = (
 
   // Helper to update node position
   const updateNodePosition = useCallback((nodeId: string, position: { x: number; y: number }) => {
-    const change: NodeChange<SchemaNode> = {
+    const change: NodeChange<CanvasNode> = {
       id: nodeId,
       type: 'position',
       position
@@ -294,7 +394,7 @@ export const useReactFlowIntegration = (
   // Helper to get table from node
   const getTableFromNode = useCallback((nodeId: string): Table | undefined => {
     const node = findNode(nodeId);
-    return node?.data.table;
+    return node && isTableNode(node) ? node.data.table : undefined;
   }, [findNode]);
 
   // Helper to get relationship from edge
@@ -174,8 +174,8 @@ export const useRelationshipOperations = () => {
     columnId: string
   ): Relationship[] => {
     return relationships.filter(rel =>
-      (rel.sourceTableId === tableId && rel.sourceColumnId === columnId) ||
-      (rel.targetTableId === tableId && rel.targetColumnId === columnId)
+      (rel.sourceTableId === tableId && (rel.sourceColumnId === columnId || !!rel.sourceColumnIds?.includes(columnId))) ||
+      (rel.targetTableId === tableId && (rel.targetColumnId === columnId || !!rel.targetColumnIds?.includes(columnId)))
     );
   }, [relationships]);
 
@@ -3,7 +3,7 @@
  */
 
 import type { Node, Edge } from "@xyflow/react";
-import type { ColumnType, RelationshipType, ForeignKeyAction } from "@/constants/schema";
+import type { ColumnType, RelationshipType, ForeignKeyAction, IndexType, SQLDialect } from "@/constants/schema";
 
 export interface Column {
   id: string;
@@ -17,8 +17,29 @@ export interface Column {
   increment?: boolean;
   foreignKey?: ForeignKey;
   description?: string;
+  /** The enum this column takes its values from; only used with type 'enum' */
+  enumId?: string;
+  /** Maximum length of a string column; VARCHAR(255) when unset */
+  length?: number;
+  /** Total digits of a decimal column; DECIMAL(10,2) when unset */
+  precision?: number;
+  /** Digits after the decimal point; only used together with `precision` */
+  scale?: number;
+  /** Element type of an array column; TEXT[] when unset */
+  arrayElementType?: ColumnType;
+  /** Whether a timestamp, datetime or time column stores the time zone */
+  withTimezone?: boolean;
+  /** Database type as written, e.g. `inet` or `tsvector`; `type` is its closest portable equivalent */
+  nativeType?: string;
+  /** The dialect `nativeType` belongs to; other dialects get `type` instead */
+  nativeTypeDialect?: SQLDialect;
+  /** Prisma field name, kept from an import when it differs from the one derived from `name` */
+  fieldName?: string;
 }
 
+/** The parameters refining a column type, such as the 64 in VARCHAR(64) */
+export type ColumnTypeParams = Pick<Column, 'length' | 'precision' | 'scale' | 'arrayElementType' | 'withTimezone'>;
+
 export interface ForeignKey {
   tableId: string;
   columnId: string;
@@ -26,18 +47,87 @@ export interface ForeignKey {
   onUpdate?: ForeignKeyAction;
 }
 
+export interface TableIndex {
+  id: string;
+  /** Generated from the table and column names when unset */
+  name?: string;
+  /** Indexed columns, in index order */
+  columnIds: string[];
+  unique: boolean;
+  /** Index method; the database default (usually btree) when unset */
+  type?: IndexType;
+  /** Condition of a partial index, without the WHERE keyword */
+  where?: string;
+  note?: string;
+}
+
 export interface Table {
   /** Internal ID for React Flow. E.g. table_12345 */
   id: string;
   name: string;
+  /** Database schema the table lives in, e.g. `core`; the default schema when unset */
+  namespace?: string;
   alias?: string;
   note?: string;
   headerColor?: string;
   /** Essential layout data */
   position: { x: number; y: number };
+  /** Node width set by resizing; the node sizes to its content when unset */
+  width?: number;
+  /** Only the header is shown; columns are hidden */
+  collapsed?: boolean;
   columns: Column[];
+  /** Indexes and multi-column unique constraints */
+  indexes?: TableIndex[];
   description?: string;
   color?: string;
+  /** Prisma model name, kept from an import when it differs from the one derived from `name` */
+  modelName?: string;
+}
+
+export interface EnumValue {
+  name: string;
+  note?: string;
+}
+
+export interface Enum {
+  id: string;
+  name: string;
+  /** Database schema the type lives in, e.g. `core`; the default schema when unset */
+  namespace?: string;
+  values: EnumValue[];
+  note?: string;
+}
+
+/** A DBML TableGroup, drawn as a labelled region behind its tables */
+export interface TableGroup {
+  id: string;
+  name: string;
+  /** Member tables; a table belongs to at most one group */
+  tableIds: string[];
+  note?: string;
+  color?: string;
+  /** Top-left corner of the region */
+  position: { x: number; y: number };
+  width: number;
+  height: number;
+  /** Drawn as a single node in place of its tables */
+  collapsed?: boolean;
+}
+
+/** A DBML sticky note: free-standing markdown drawn on the canvas */
+export interface StickyNote {
+  id: string;
+  /** Identifier used in DBML `Note name { ... }` */
+  name: string;
+  /** Markdown */
+  content: string;
+  color?: string;
+  position: { x: number; y: number };
+  width: number;
+  height: number;
+  /** Table the note is pinned to; it moves along with that table */
+  tableId?: string;
 }
 
 export interface Relationship {
@@ -46,6 +136,10 @@ export interface Relationship {
   sourceColumnId: string; // the handle ID
   targetTableId: string;
   targetColumnId: string; // the handle ID
+  /** All source columns of a composite foreign key, in order; the first matches `sourceColumnId` */
+  sourceColumnIds?: string[];
+  /** All referenced columns of a composite foreign key, in order; the first matches `targetColumnId` */
+  targetColumnIds?: string[];
   type: RelationshipType;
   isInline?: boolean; // Whether the relationship was generated from an inline ref
   name?: string;
@@ -57,16 +151,33 @@ export interface Schema {
   id: string;
   name: string;
   description?: string;
+  /** Target database, from the DBML `Project` block; used as the default export dialect */
+  databaseType?: SQLDialect;
   tables: Table[];
   relationships: Relationship[];
+  /** Missing on schemas and snapshots saved before enums existed */
+  enums?: Enum[];
+  /** Missing on schemas and snapshots saved before table groups existed */
+  groups?: TableGroup[];
+  /** Missing on schemas and snapshots saved before sticky notes existed */
+  notes?: StickyNote[];
   createdAt: Date;
   updatedAt: Date;
   version: number;
 }
 
+/** Schema-level settings, written to DBML as the `Project` block */
+export interface SchemaProject {
+  name: string;
+  description?: string;
+  databaseType?: SQLDialect;
+}
+
 // React Flow specific types
 export interface SchemaNodeData {
   table: Table;
+  /** Read-only node for a table that only exists in a compared version */
+  isGhost?: boolean;
   onTableUpdate?: (table: Table) => void;
   onColumnUpdate?: (tableId: string, column: Column) => void;
   onColumnDelete?: (tableId: string, columnId: string) => void;
@@ -78,10 +189,32 @@ export interface SchemaNode extends Node<SchemaNodeData> {
   // data is provided by the generic Node<SchemaNodeData> type
 }
 
+export interface TableGroupNodeData {
+  group: TableGroup;
+  /** Names of the member tables, listed when the group is collapsed */
+  tableNames: string[];
+  [key: string]: unknown;
+}
+
+export type TableGroupNode = Node<TableGroupNodeData>;
+
+export interface StickyNoteNodeData {
+  note: StickyNote;
+  /** Qualified name of the table the note is pinned to */
+  tableName?: string;
+  [key: string]: unknown;
+}
+
+export type StickyNoteNode = Node<StickyNoteNodeData>;
+
+/** Any node on the schema canvas */
+export type CanvasNode = SchemaNode | TableGroupNode | StickyNoteNode;
+
 export interface SchemaEdgeData {
   [key: string]: unknown;
   relationship: Relationship;
   isHighlighted?: boolean;
+  isGhost?: boolean;
   onRelationshipUpdate?: (relationship: Relationship) => void;
   onRelationshipDelete?: (relationshipId: string) => void;
 }
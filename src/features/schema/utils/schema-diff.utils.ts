@@ -0,0 +1,464 @@
+/**
+ * Schema diff utilities - compares two schema snapshots by stable IDs
+ */
+
+import type { Table, Column, Relationship, Enum, TableIndex, Schema } from '@/features/schema/types/schema.types';
+import type { ForeignKeyAction } from '@/constants/schema';
+import {
+  formatColumnTypeLabel,
+  getQualifiedTableName,
+  getRelationshipColumnIds,
+  getRelationshipForeignKey,
+} from '@/features/schema/utils/schema.utils';
+
+export type SchemaSnapshot = Pick<Schema, 'tables' | 'relationships' | 'enums' | 'groups' | 'notes'>;
+
+export type ChangeKind = 'added' | 'removed' | 'modified';
+
+export type ColumnProperty =
+  | 'name'
+  | 'type'
+  | 'nullable'
+  | 'defaultValue'
+  | 'unique'
+  | 'primaryKey'
+  | 'increment'
+  | 'enumId';
+
+export interface ColumnDiff {
+  kind: ChangeKind;
+  columnId: string;
+  before?: Column;
+  after?: Column;
+  /** Properties that differ; only set for modified columns */
+  changes: ColumnProperty[];
+}
+
+/** A modified index is dropped and created again, so no property list is kept */
+export interface IndexDiff {
+  kind: ChangeKind;
+  indexId: string;
+  before?: TableIndex;
+  after?: TableIndex;
+}
+
+export interface TableDiff {
+  kind: ChangeKind;
+  tableId: string;
+  before?: Table;
+  after?: Table;
+  renamed: boolean;
+  columns: ColumnDiff[];
+  /** Index changes; only set for modified tables */
+  indexes: IndexDiff[];
+}
+
+/**
+ * A foreign key constraint, regardless of whether it was declared on the
+ * column or only drawn as a relationship on the canvas.
+ */
+export interface ForeignKeyRef {
+  tableId: string;
+  /** Several columns for a composite key, in key order */
+  columnIds: string[];
+  referencedTableId: string;
+  referencedColumnIds: string[];
+  onDelete?: ForeignKeyAction;
+  onUpdate?: ForeignKeyAction;
+  /** Set when the constraint only exists as a canvas relationship */
+  relationshipId?: string;
+}
+
+export interface ForeignKeyDiff {
+  kind: ChangeKind;
+  before?: ForeignKeyRef;
+  after?: ForeignKeyRef;
+}
+
+export type RelationshipProperty = 'type' | 'source' | 'target' | 'onDelete' | 'onUpdate' | 'name';
+
+export interface RelationshipDiff {
+  kind: ChangeKind;
+  relationshipId: string;
+  before?: Relationship;
+  after?: Relationship;
+  /** Properties that differ; only set for modified relationships */
+  changes: RelationshipProperty[];
+}
+
+export interface EnumDiff {
+  kind: ChangeKind;
+  enumId: string;
+  before?: Enum;
+  after?: Enum;
+  renamed: boolean;
+  /** Value names only present after / before; only set for modified enums */
+  addedValues: string[];
+  removedValues: string[];
+  /** True when the kept values are in a different order */
+  reordered: boolean;
+}
+
+export interface SchemaDiff {
+  tables: TableDiff[];
+  foreignKeys: ForeignKeyDiff[];
+  relationships: RelationshipDiff[];
+  enums: EnumDiff[];
+  hasChanges: boolean;
+}
+
+const COLUMN_PROPERTIES: ColumnProperty[] = [
+  'name',
+  'type',
+  'nullable',
+  'defaultValue',
+  'unique',
+  'primaryKey',
+  'increment',
+  'enumId',
+];
+
+const normalizeValue = (column: Column, property: ColumnProperty): unknown => {
+  const value = column[property];
+  // Type parameters such as a VARCHAR length count as part of the type
+  if (property === 'type') return formatColumnTypeLabel(column);
+  if (property === 'defaultValue') return value || undefined;
+  if (property === 'increment') return Boolean(value);
+  return value;
+};
+
+/**
+ * Lists the properties that differ between two versions of the same column
+ */
+export const diffColumn = (before: Column, after: Column): ColumnProperty[] =>
+  COLUMN_PROPERTIES.filter(
+    property => normalizeValue(before, property) !== normalizeValue(after, property)
+  );
+
+/**
+ * Collects every foreign key in a snapshot, keyed by `tableId.columnIds`.
+ * Column-level foreign keys win over relationships on the same column, which
+ * mirrors how the SQL exporter emits constraints. Many-to-many relationships
+ * need a join table rather than a key on either side, so they have none.
+ */
+export const collectForeignKeys = (snapshot: SchemaSnapshot): Map<string, ForeignKeyRef> => {
+  const foreignKeys = new Map<string, ForeignKeyRef>();
+  const tablesById = new Map(snapshot.tables.map(table => [table.id, table]));
+
+  const hasColumn = (tableId: string, columnId: string) =>
+    tablesById.get(tableId)?.columns.some(column => column.id === columnId) ?? false;
+
+  for (const table of snapshot.tables) {
+    for (const column of table.columns) {
+      const fk = column.foreignKey;
+      if (!fk || !hasColumn(fk.tableId, fk.columnId)) continue;
+
+      foreignKeys.set(`${table.id}.${column.id}`, {
+        tableId: table.id,
+        columnIds: [column.id],
+        referencedTableId: fk.tableId,
+        referencedColumnIds: [fk.columnId],
+        onDelete: fk.onDelete,
+        onUpdate: fk.onUpdate,
+      });
+    }
+  }
+
+  for (const relationship of snapshot.relationships) {
+    if (relationship.type === 'many-to-many') continue;
+
+    // The key lives on the "many" side, which one-to-many relationships store as their target
+    const { tableId, columnIds, referencedTableId, referencedColumnIds } =
+      getRelationshipForeignKey(relationship, snapshot.tables);
+    const key = `${tableId}.${columnIds.join(',')}`;
+
+    if (foreignKeys.has(key)) continue;
+    if (!columnIds.every(columnId => hasColumn(tableId, columnId))) continue;
+    if (!referencedColumnIds.every(columnId => hasColumn(referencedTableId, columnId))) continue;
+
+    foreignKeys.set(key, {
+      tableId,
+      columnIds,
+      referencedTableId,
+      referencedColumnIds,
+      onDelete: relationship.onDelete,
+      onUpdate: relationship.onUpdate,
+      relationshipId: relationship.id,
+    });
+  }
+
+  return foreignKeys;
+};
+
+const diffRelationship = (before: Relationship, after: Relationship): RelationshipProperty[] => {
+  const changes: RelationshipProperty[] = [];
+  if (before.type !== after.type) changes.push('type');
+  const beforeColumns = getRelationshipColumnIds(before);
+  const afterColumns = getRelationshipColumnIds(after);
+  if (
+    before.sourceTableId !== after.sourceTableId ||
+    beforeColumns.sourceColumnIds.join(',') !== afterColumns.sourceColumnIds.join(',')
+  ) {
+    changes.push('source');
+  }
+  if (
+    before.targetTableId !== after.targetTableId ||
+    beforeColumns.targetColumnIds.join(',') !== afterColumns.targetColumnIds.join(',')
+  ) {
+    changes.push('target');
+  }
+  if ((before.onDelete || 'NO ACTION') !== (after.onDelete || 'NO ACTION')) changes.push('onDelete');
+  if ((before.onUpdate || 'NO ACTION') !== (after.onUpdate || 'NO ACTION')) changes.push('onUpdate');
+  if ((before.name || '') !== (after.name || '')) changes.push('name');
+  return changes;
+};
+
+const sameForeignKey = (a: ForeignKeyRef, b: ForeignKeyRef): boolean =>
+  a.referencedTableId === b.referencedTableId &&
+  a.referencedColumnIds.join(',') === b.referencedColumnIds.join(',') &&
+  (a.onDelete || 'NO ACTION') === (b.onDelete || 'NO ACTION') &&
+  (a.onUpdate || 'NO ACTION') === (b.onUpdate || 'NO ACTION');
+
+const diffTableColumns = (before: Table, after: Table): ColumnDiff[] => {
+  const diffs: ColumnDiff[] = [];
+  const afterColumns = new Map(after.columns.map(column => [column.id, column]));
+  const beforeIds = new Set(before.columns.map(column => column.id));
+
+  for (const column of before.columns) {
+    const next = afterColumns.get(column.id);
+    if (!next) {
+      diffs.push({ kind: 'removed', columnId: column.id, before: column, changes: [] });
+      continue;
+    }
+
+    const changes = diffColumn(column, next);
+    if (changes.length > 0) {
+      diffs.push({ kind: 'modified', columnId: column.id, before: column, after: next, changes });
+    }
+  }
+
+  for (const column of after.columns) {
+    if (!beforeIds.has(column.id)) {
+      diffs.push({ kind: 'added', columnId: column.id, after: column, changes: [] });
+    }
+  }
+
+  return diffs;
+};
+
+// Notes have no DDL counterpart, so they do not make an index differ
+const indexDefinition = (index: TableIndex) =>
+  JSON.stringify([index.name || '', index.columnIds, index.unique, index.type || '', index.where || '']);
+
+const diffTableIndexes = (before: Table, after: Table): IndexDiff[] => {
+  const diffs: IndexDiff[] = [];
+  const afterIndexes = new Map((after.indexes ?? []).map(index => [index.id, index]));
+  const beforeIds = new Set((before.indexes ?? []).map(index => index.id));
+
+  for (const index of before.indexes ?? []) {
+    const next = afterIndexes.get(index.id);
+    if (!next) {
+      diffs.push({ kind: 'removed', indexId: index.id, before: index });
+    } else if (indexDefinition(index) !== indexDefinition(next)) {
+      diffs.push({ kind: 'modified', indexId: index.id, before: index, after: next });
+    }
+  }
+
+  for (const index of after.indexes ?? []) {
+    if (!beforeIds.has(index.id)) {
+      diffs.push({ kind: 'added', indexId: index.id, after: index });
+    }
+  }
+
+  return diffs;
+};
+
+const diffEnum = (before: Enum, after: Enum): EnumDiff | null => {
+  const beforeNames = before.values.map(value => value.name);
+  const afterNames = after.values.map(value => value.name);
+  const addedValues = afterNames.filter(name => !beforeNames.includes(name));
+  const removedValues = beforeNames.filter(name => !afterNames.includes(name));
+  const kept = afterNames.filter(name => beforeNames.includes(name));
+  const reordered = kept.join('\n') !== beforeNames.filter(name => afterNames.includes(name)).join('\n');
+  const renamed = getQualifiedTableName(before) !== getQualifiedTableName(after);
+
+  if (!renamed && !reordered && addedValues.length === 0 && removedValues.length === 0) return null;
+  return { kind: 'modified', enumId: after.id, before, after, renamed, addedValues, removedValues, reordered };
+};
+
+/**
+ * Compares two schema snapshots. Tables and columns are matched by ID, so a
+ * renamed table or column shows up as modified rather than dropped and re-added.
+ */
+export const diffSchemas = (from: SchemaSnapshot, to: SchemaSnapshot): SchemaDiff => {
+  const tables: TableDiff[] = [];
+  const toTables = new Map(to.tables.map(table => [table.id, table]));
+  const fromIds = new Set(from.tables.map(table => table.id));
+
+  for (const table of from.tables) {
+    const next = toTables.get(table.id);
+    if (!next) {
+      tables.push({ kind: 'removed', tableId: table.id, before: table, renamed: false, columns: [], indexes: [] });
+      continue;
+    }
+
+    const renamed = getQualifiedTableName(table) !== getQualifiedTableName(next);
+    const columns = diffTableColumns(table, next);
+    const indexes = diffTableIndexes(table, next);
+    if (renamed || columns.length > 0 || indexes.length > 0) {
+      tables.push({ kind: 'modified', tableId: table.id, before: table, after: next, renamed, columns, indexes });
+    }
+  }
+
+  for (const table of to.tables) {
+    if (!fromIds.has(table.id)) {
+      tables.push({ kind: 'added', tableId: table.id, after: table, renamed: false, columns: [], indexes: [] });
+    }
+  }
+
+  const foreignKeys: ForeignKeyDiff[] = [];
+  const fromForeignKeys = collectForeignKeys(from);
+  const toForeignKeys = collectForeignKeys(to);
+
+  for (const [key, fk] of fromForeignKeys) {
+    const next = toForeignKeys.get(key);
+    if (!next) {
+      foreignKeys.push({ kind: 'removed', before: fk });
+    } else if (!sameForeignKey(fk, next)) {
+      foreignKeys.push({ kind: 'modified', before: fk, after: next });
+    }
+  }
+
+  for (const [key, fk] of toForeignKeys) {
+    if (!fromForeignKeys.has(key)) {
+      foreignKeys.push({ kind: 'added', after: fk });
+    }
+  }
+
+  const relationships: RelationshipDiff[] = [];
+  const toRelationships = new Map(to.relationships.map(rel => [rel.id, rel]));
+  const fromRelationshipIds = new Set(from.relationships.map(rel => rel.id));
+
+  for (const relationship of from.relationships) {
+    const next = toRelationships.get(relationship.id);
+    if (!next) {
+      relationships.push({ kind: 'removed', relationshipId: relationship.id, before: relationship, changes: [] });
+      continue;
+    }
+
+    const changes = diffRelationship(relationship, next);
+    if (changes.length > 0) {
+      relationships.push({ kind: 'modified', relationshipId: relationship.id, before: relationship, after: next, changes });
+    }
+  }
+
+  for (const relationship of to.relationships) {
+    if (!fromRelationshipIds.has(relationship.id)) {
+      relationships.push({ kind: 'added', relationshipId: relationship.id, after: relationship, changes: [] });
+    }
+  }
+
+  // Only names and values matter for enums; notes have no DDL counterpart
+  const enums: EnumDiff[] = [];
+  const fromEnums = from.enums ?? [];
+  const toEnums = new Map((to.enums ?? []).map(enumDef => [enumDef.id, enumDef]));
+  const fromEnumIds = new Set(fromEnums.map(enumDef => enumDef.id));
+  const emptyEnumDiff = { renamed: false, addedValues: [], removedValues: [], reordered: false };
+
+  for (const enumDef of fromEnums) {
+    const next = toEnums.get(enumDef.id);
+    if (!next) {
+      enums.push({ kind: 'removed', enumId: enumDef.id, before: enumDef, ...emptyEnumDiff });
+      continue;
+    }
+
+    const enumDiff = diffEnum(enumDef, next);
+    if (enumDiff) enums.push(enumDiff);
+  }
+
+  for (const enumDef of toEnums.values()) {
+    if (!fromEnumIds.has(enumDef.id)) {
+      enums.push({ kind: 'added', enumId: enumDef.id, after: enumDef, ...emptyEnumDiff });
+    }
+  }
+
+  return {
+    tables,
+    foreignKeys,
+    relationships,
+    enums,
+    hasChanges: tables.length > 0 || foreignKeys.length > 0 || relationships.length > 0 || enums.length > 0,
+  };
+};
+
+const formatDefault = (value?: string) => (value ? value : 'none');
+
+/**
+ * Human-readable list of what changed on a modified column, e.g. "type: string → text"
+ */
+export const describeColumnChanges = (diff: ColumnDiff): string[] => {
+  const before = diff.before;
+  const after = diff.after;
+  if (!before || !after) return [];
+
+  return diff.changes.map(change => {
+    switch (change) {
+      case 'name':
+        return `renamed: ${before.name} → ${after.name}`;
+      case 'type':
+        return `type: ${formatColumnTypeLabel(before)} → ${formatColumnTypeLabel(after)}`;
+      case 'nullable':
+        return after.nullable ? 'NOT NULL removed' : 'NOT NULL added';
+      case 'defaultValue':
+        return `default: ${formatDefault(before.defaultValue)} → ${formatDefault(after.defaultValue)}`;
+      case 'unique':
+        return after.unique ? 'UNIQUE added' : 'UNIQUE removed';
+      case 'primaryKey':
+        return after.primaryKey ? 'PRIMARY KEY added' : 'PRIMARY KEY removed';
+      case 'increment':
+        return after.increment ? 'auto increment added' : 'auto increment removed';
+      case 'enumId':
+        return 'enum changed';
+    }
+  });
+};
+
+/**
+ * Human-readable list of what changed on a modified enum
+ */
+export const describeEnumChanges = (diff: EnumDiff): string[] => {
+  const changes: string[] = [];
+  if (diff.renamed) {
+    changes.push(`renamed: ${getQualifiedTableName(diff.before!)} → ${getQualifiedTableName(diff.after!)}`);
+  }
+  if (diff.addedValues.length > 0) changes.push(`values added: ${diff.addedValues.join(', ')}`);
+  if (diff.removedValues.length > 0) changes.push(`values removed: ${diff.removedValues.join(', ')}`);
+  if (diff.reordered) changes.push('values reordered');
+  return changes;
+};
+
+/**
+ * Human-readable list of what changed on a modified relationship
+ */
+export const describeRelationshipChanges = (diff: RelationshipDiff): string[] => {
+  const before = diff.before;
+  const after = diff.after;
+  if (!before || !after) return [];
+
+  return diff.changes.map(change => {
+    switch (change) {
+      case 'type':
+        return `type: ${before.type} → ${after.type}`;
+      case 'source':
+        return 'source column changed';
+      case 'target':
+        return 'target column changed';
+      case 'onDelete':
+        return `on delete: ${before.onDelete || 'NO ACTION'} → ${after.onDelete || 'NO ACTION'}`;
+      case 'onUpdate':
+        return `on update: ${before.onUpdate || 'NO ACTION'} → ${after.onUpdate || 'NO ACTION'}`;
+      case 'name':
+        return `name: ${before.name || 'none'} → ${after.name || 'none'}`;
+    }
+  });
+};
@@ -0,0 +1,190 @@
+/**
+ * Schema merge utilities - three-way merge of tables, columns, relationships, enums,
+ * table groups and sticky notes for resolving concurrent saves
+ */
+
+import type { Table, Column, Relationship, Enum, TableGroup, StickyNote } from '@/features/schema/types/schema.types';
+import type { SchemaSnapshot } from '@/features/schema/utils/schema-diff.utils';
+
+export interface SchemaMergeResult {
+  tables: Table[];
+  relationships: Relationship[];
+  enums: Enum[];
+  groups: TableGroup[];
+  notes: StickyNote[];
+  /** Entities changed on both sides in different ways; the local edit was kept */
+  conflicts: string[];
+  /** Number of tables, columns, relationships, enums, groups and notes only changed remotely */
+  theirChanges: number;
+  /** Number of tables, columns, relationships, enums, groups and notes only changed locally */
+  myChanges: number;
+}
+
+interface MergeContext {
+  conflicts: string[];
+  theirChanges: number;
+  myChanges: number;
+}
+
+const same = (a: unknown, b: unknown): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Merges lists of entities by ID. An entity changed on one side only takes that
+ * side; one changed on both sides goes through `mergeBoth`, which reports
+ * conflicts itself. Local order is kept, with remote additions appended.
+ */
+const mergeById = <T extends { id: string }>(
+  base: T[],
+  mine: T[],
+  theirs: T[],
+  context: MergeContext,
+  describe: (item: T) => string,
+  mergeBoth: (base: T | undefined, mine: T, theirs: T) => T
+): T[] => {
+  const baseById = new Map(base.map(item => [item.id, item]));
+  const mineById = new Map(mine.map(item => [item.id, item]));
+  const theirsById = new Map(theirs.map(item => [item.id, item]));
+
+  const ids = [
+    ...mine.map(item => item.id),
+    ...theirs.filter(item => !mineById.has(item.id)).map(item => item.id),
+    ...base.filter(item => !mineById.has(item.id) && !theirsById.has(item.id)).map(item => item.id),
+  ];
+
+  const merged: T[] = [];
+
+  for (const id of ids) {
+    const b = baseById.get(id);
+    const m = mineById.get(id);
+    const t = theirsById.get(id);
+
+    if (same(m, b)) {
+      if (!same(t, b)) context.theirChanges++;
+      if (t) merged.push(t);
+      continue;
+    }
+
+    if (same(t, b) || same(m, t)) {
+      context.myChanges++;
+      if (m) merged.push(m);
+      continue;
+    }
+
+    // Changed on both sides
+    if (m && t) {
+      merged.push(mergeBoth(b, m, t));
+    } else {
+      // Deleted on one side, edited on the other: keep the edit
+      context.conflicts.push(`${describe((m ?? t)!)} (deleted on one side)`);
+      merged.push((m ?? t)!);
+    }
+  }
+
+  return merged;
+};
+
+const keepMine = <T>(context: MergeContext, describe: (item: T) => string) =>
+  (_base: T | undefined, mine: T): T => {
+    context.conflicts.push(describe(mine));
+    return mine;
+  };
+
+const mergeTable = (context: MergeContext) =>
+  (base: Table | undefined, mine: Table, theirs: Table): Table => {
+    const { columns: baseColumns = [], ...baseFields } = base ?? ({} as Partial<Table>);
+    const { columns: myColumns, ...myFields } = mine;
+    const { columns: theirColumns, ...theirFields } = theirs;
+
+    let fields = myFields;
+    if (same(myFields, baseFields)) {
+      fields = theirFields;
+    } else if (!same(theirFields, baseFields) && !same(myFields, theirFields)) {
+      context.conflicts.push(`Table ${mine.name}`);
+    }
+
+    const columns = mergeById<Column>(
+      baseColumns,
+      myColumns,
+      theirColumns,
+      context,
+      column => `Column ${mine.name}.${column.name}`,
+      keepMine(context, column => `Column ${mine.name}.${column.name}`)
+    );
+
+    return { ...fields, columns };
+  };
+
+/**
+ * Three-way merge of two edits of the same base snapshot. Non-overlapping
+ * changes from both sides are combined; where both sides changed the same
+ * entity differently, the local version wins and the entity is listed in
+ * `conflicts`.
+ */
+export const mergeSchemas = (
+  base: SchemaSnapshot,
+  mine: SchemaSnapshot,
+  theirs: SchemaSnapshot
+): SchemaMergeResult => {
+  const context: MergeContext = { conflicts: [], theirChanges: 0, myChanges: 0 };
+
+  const tables = mergeById(
+    base.tables,
+    mine.tables,
+    theirs.tables,
+    context,
+    table => `Table ${table.name}`,
+    mergeTable(context)
+  );
+
+  const tableNames = new Map(tables.map(table => [table.id, table.name]));
+  const describeRelationship = (rel: Relationship) =>
+    `Relationship ${tableNames.get(rel.sourceTableId) ?? '?'} → ${tableNames.get(rel.targetTableId) ?? '?'}`;
+
+  const tableIds = new Set(tables.map(table => table.id));
+  const relationships = mergeById(
+    base.relationships,
+    mine.relationships,
+    theirs.relationships,
+    context,
+    describeRelationship,
+    keepMine(context, describeRelationship)
+  ).filter(rel => tableIds.has(rel.sourceTableId) && tableIds.has(rel.targetTableId));
+
+  const describeEnum = (enumDef: Enum) => `Enum ${enumDef.name}`;
+  const enums = mergeById(
+    base.enums ?? [],
+    mine.enums ?? [],
+    theirs.enums ?? [],
+    context,
+    describeEnum,
+    keepMine(context, describeEnum)
+  );
+
+  // Groups only keep members that survived the merge
+  const describeGroup = (group: TableGroup) => `Group ${group.name}`;
+  const groups = mergeById(
+    base.groups ?? [],
+    mine.groups ?? [],
+    theirs.groups ?? [],
+    context,
+    describeGroup,
+    keepMine(context, describeGroup)
+  ).map(group =>
+    group.tableIds.every(id => tableIds.has(id))
+      ? group
+      : { ...group, tableIds: group.tableIds.filter(id => tableIds.has(id)) }
+  );
+
+  // A note pinned to a table that was deleted stays on the canvas, unpinned
+  const describeNote = (note: StickyNote) => `Note ${note.name}`;
+  const notes = mergeById(
+    base.notes ?? [],
+    mine.notes ?? [],
+    theirs.notes ?? [],
+    context,
+    describeNote,
+    keepMine(context, describeNote)
+  ).map(note => (note.tableId && !tableIds.has(note.tableId) ? { ...note, tableId: undefined } : note));
+
+  return { tables, relationships, enums, groups, notes, ...context };
+};
@@ -0,0 +1,272 @@
+/**
+ * Schema patch utilities - computes the row-level changes between the last
+ * saved state and the current store state, for incremental saves
+ */
+
+import type { Table, Column, Relationship, Enum, TableGroup, StickyNote } from '@/features/schema/types/schema.types';
+import type { SchemaSnapshot } from '@/features/schema/utils/schema-diff.utils';
+
+/** A table row without its columns; `sortOrder` is its index in the schema */
+export type TableRecord = Omit<Table, 'columns'> & { sortOrder: number };
+
+/** A column row; `sortOrder` is its index within the table */
+export type ColumnRecord = Column & { tableId: string; sortOrder: number };
+
+/** An enum row; `sortOrder` is its index in the schema */
+export type EnumRecord = Enum & { sortOrder: number };
+
+/** A table group row; `sortOrder` is its index in the schema */
+export type GroupRecord = TableGroup & { sortOrder: number };
+
+/** A sticky note row; `sortOrder` is its index in the schema */
+export type NoteRecord = StickyNote & { sortOrder: number };
+
+/** Layout of a table: saved separately from the schema content, without versioning */
+export type TableLayout = Pick<Table, 'id' | 'position' | 'width' | 'collapsed'>;
+
+/** Layout of a table group, saved like a table layout */
+export type GroupLayout = Pick<TableGroup, 'id' | 'position' | 'width' | 'height' | 'collapsed'>;
+
+/** Layout of a sticky note, saved like a table layout */
+export type NoteLayout = Pick<StickyNote, 'id' | 'position' | 'width' | 'height'>;
+
+export interface SchemaPatch {
+  upsertTables: TableRecord[];
+  deleteTableIds: string[];
+  upsertColumns: ColumnRecord[];
+  deleteColumnIds: string[];
+  upsertRelationships: Relationship[];
+  deleteRelationshipIds: string[];
+  upsertEnums: EnumRecord[];
+  deleteEnumIds: string[];
+  upsertGroups: GroupRecord[];
+  deleteGroupIds: string[];
+  upsertNotes: NoteRecord[];
+  deleteNoteIds: string[];
+}
+
+// A copy of a record without the given fields
+const omit = <T extends object, K extends keyof T>(record: T, ...keys: K[]): Omit<T, K> => {
+  const copy = { ...record };
+  keys.forEach(key => delete copy[key]);
+  return copy;
+};
+
+const toTableRecord = (table: Table, sortOrder: number): TableRecord => ({
+  ...omit(table, 'columns'),
+  sortOrder
+});
+
+const toColumnRecord = (column: Column, tableId: string, sortOrder: number): ColumnRecord => ({
+  ...column,
+  tableId,
+  sortOrder,
+});
+
+const toTableLayout = (table: Table): TableLayout => ({
+  id: table.id,
+  position: table.position,
+  width: table.width,
+  collapsed: table.collapsed,
+});
+
+const toGroupLayout = (group: TableGroup): GroupLayout => ({
+  id: group.id,
+  position: group.position,
+  width: group.width,
+  height: group.height,
+  collapsed: group.collapsed,
+});
+
+const toNoteLayout = (note: StickyNote): NoteLayout => ({
+  id: note.id,
+  position: note.position,
+  width: note.width,
+  height: note.height,
+});
+
+// Layout changes are saved through their own path, so they do not count as content changes
+const tableContent = (record: TableRecord) => omit(record, 'position', 'width', 'collapsed');
+
+const groupContent = (record: GroupRecord) => omit(record, 'position', 'width', 'height', 'collapsed');
+
+const noteContent = (record: NoteRecord) => omit(record, 'position', 'width', 'height');
+
+// Store updates are immutable, so an unchanged row is usually the same object;
+// the JSON comparison catches rows that were recreated with the same values (undo, DBML sync).
+const sameRecord = <T>(a: T, b: T): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Computes the upserts and deletes that turn `saved` into `current`.
+ * Rows are matched by ID; deleting a table implies deleting its columns.
+ * A table whose layout alone changed is left to `computeLayoutChanges`.
+ */
+export const computeSchemaPatch = (saved: SchemaSnapshot, current: SchemaSnapshot): SchemaPatch => {
+  const patch: SchemaPatch = {
+    upsertTables: [],
+    deleteTableIds: [],
+    upsertColumns: [],
+    deleteColumnIds: [],
+    upsertRelationships: [],
+    deleteRelationshipIds: [],
+    upsertEnums: [],
+    deleteEnumIds: [],
+    upsertGroups: [],
+    deleteGroupIds: [],
+    upsertNotes: [],
+    deleteNoteIds: [],
+  };
+
+  const savedTables = new Map(saved.tables.map((table, index) => [table.id, { table, index }]));
+  const currentTableIds = new Set(current.tables.map(table => table.id));
+
+  current.tables.forEach((table, index) => {
+    const previous = savedTables.get(table.id);
+    if (previous && previous.table === table && previous.index === index) return;
+
+    const record = toTableRecord(table, index);
+    if (!previous || !sameRecord(tableContent(toTableRecord(previous.table, previous.index)), tableContent(record))) {
+      patch.upsertTables.push(record);
+    }
+
+    const savedColumns = new Map(
+      (previous?.table.columns ?? []).map((column, columnIndex) => [column.id, toColumnRecord(column, table.id, columnIndex)])
+    );
+    const currentColumnIds = new Set(table.columns.map(column => column.id));
+
+    table.columns.forEach((column, columnIndex) => {
+      const columnRecord = toColumnRecord(column, table.id, columnIndex);
+      const savedColumn = savedColumns.get(column.id);
+      if (!savedColumn || !sameRecord(savedColumn, columnRecord)) {
+        patch.upsertColumns.push(columnRecord);
+      }
+    });
+
+    for (const columnId of savedColumns.keys()) {
+      if (!currentColumnIds.has(columnId)) patch.deleteColumnIds.push(columnId);
+    }
+  });
+
+  for (const table of saved.tables) {
+    if (!currentTableIds.has(table.id)) patch.deleteTableIds.push(table.id);
+  }
+
+  const savedRelationships = new Map(saved.relationships.map(rel => [rel.id, rel]));
+  const currentRelationshipIds = new Set(current.relationships.map(rel => rel.id));
+
+  for (const relationship of current.relationships) {
+    const previous = savedRelationships.get(relationship.id);
+    if (!previous || !sameRecord(previous, relationship)) {
+      patch.upsertRelationships.push(relationship);
+    }
+  }
+
+  for (const relationship of saved.relationships) {
+    if (!currentRelationshipIds.has(relationship.id)) patch.deleteRelationshipIds.push(relationship.id);
+  }
+
+  const savedEnums = new Map((saved.enums ?? []).map((enumDef, index) => [enumDef.id, { ...enumDef, sortOrder: index }]));
+  const currentEnums = current.enums ?? [];
+  const currentEnumIds = new Set(currentEnums.map(enumDef => enumDef.id));
+
+  currentEnums.forEach((enumDef, index) => {
+    const record = { ...enumDef, sortOrder: index };
+    const previous = savedEnums.get(enumDef.id);
+    if (!previous || !sameRecord(previous, record)) patch.upsertEnums.push(record);
+  });
+
+  for (const enumId of savedEnums.keys()) {
+    if (!currentEnumIds.has(enumId)) patch.deleteEnumIds.push(enumId);
+  }
+
+  const savedGroups = new Map((saved.groups ?? []).map((group, index) => [group.id, { ...group, sortOrder: index }]));
+  const currentGroups = current.groups ?? [];
+  const currentGroupIds = new Set(currentGroups.map(group => group.id));
+
+  currentGroups.forEach((group, index) => {
+    const record = { ...group, sortOrder: index };
+    const previous = savedGroups.get(group.id);
+    if (!previous || !sameRecord(groupContent(previous), groupContent(record))) patch.upsertGroups.push(record);
+  });
+
+  for (const groupId of savedGroups.keys()) {
+    if (!currentGroupIds.has(groupId)) patch.deleteGroupIds.push(groupId);
+  }
+
+  const savedNotes = new Map((saved.notes ?? []).map((note, index) => [note.id, { ...note, sortOrder: index }]));
+  const currentNotes = current.notes ?? [];
+  const currentNoteIds = new Set(currentNotes.map(note => note.id));
+
+  currentNotes.forEach((note, index) => {
+    const record = { ...note, sortOrder: index };
+    const previous = savedNotes.get(note.id);
+    if (!previous || !sameRecord(noteContent(previous), noteContent(record))) patch.upsertNotes.push(record);
+  });
+
+  for (const noteId of savedNotes.keys()) {
+    if (!currentNoteIds.has(noteId)) patch.deleteNoteIds.push(noteId);
+  }
+
+  return patch;
+};
+
+/**
+ * Layouts of tables that exist on both sides and were moved, resized or
+ * collapsed. New tables carry their layout in the content patch.
+ */
+export const computeLayoutChanges = (saved: SchemaSnapshot, current: SchemaSnapshot): TableLayout[] => {
+  const savedTables = new Map(saved.tables.map(table => [table.id, table]));
+
+  return current.tables
+    .filter(table => {
+      const previous = savedTables.get(table.id);
+      return previous && previous !== table && !sameRecord(toTableLayout(previous), toTableLayout(table));
+    })
+    .map(toTableLayout);
+};
+
+/**
+ * Layouts of table groups that exist on both sides and were moved, resized or
+ * collapsed
+ */
+export const computeGroupLayoutChanges = (saved: SchemaSnapshot, current: SchemaSnapshot): GroupLayout[] => {
+  const savedGroups = new Map((saved.groups ?? []).map(group => [group.id, group]));
+
+  return (current.groups ?? [])
+    .filter(group => {
+      const previous = savedGroups.get(group.id);
+      return previous && previous !== group && !sameRecord(toGroupLayout(previous), toGroupLayout(group));
+    })
+    .map(toGroupLayout);
+};
+
+/**
+ * Layouts of sticky notes that exist on both sides and were moved or resized
+ */
+export const computeNoteLayoutChanges = (saved: SchemaSnapshot, current: SchemaSnapshot): NoteLayout[] => {
+  const savedNotes = new Map((saved.notes ?? []).map(note => [note.id, note]));
+
+  return (current.notes ?? [])
+    .filter(note => {
+      const previous = savedNotes.get(note.id);
+      return previous && previous !== note && !sameRecord(toNoteLayout(previous), toNoteLayout(note));
+    })
+    .map(toNoteLayout);
+};
+
+/**
+ * True when applying the patch would not change anything
+ */
+export const isEmptyPatch = (patch: SchemaPatch): boolean =>
+  patch.upsertTables.length === 0 &&
+  patch.deleteTableIds.length === 0 &&
+  patch.upsertColumns.length === 0 &&
+  patch.deleteColumnIds.length === 0 &&
+  patch.upsertRelationships.length === 0 &&
+  patch.deleteRelationshipIds.length === 0 &&
+  patch.upsertEnums.length === 0 &&
+  patch.deleteEnumIds.length === 0 &&
+  patch.upsertGroups.length === 0 &&
+  patch.deleteGroupIds.length === 0 &&
+  patch.upsertNotes.length === 0 &&
+  patch.deleteNoteIds.length === 0;
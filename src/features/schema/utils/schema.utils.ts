@@ -2,8 +2,8 @@
  * Schema utility functions - pure business logic
  */
 
-import type { Table, Column, Relationship, ForeignKey } from '@/features/schema/types/schema.types';
-import { ID_GENERATORS, DEFAULT_COLUMN, ForeignKeyAction } from '@/constants/schema';
+import type { Table, Column, ColumnTypeParams, Relationship, ForeignKey } from '@/features/schema/types/schema.types';
+import { ID_GENERATORS, DEFAULT_COLUMN, ForeignKeyAction, NAMESPACE_COLORS, TIMEZONE_COLUMN_TYPES, type ColumnType } from '@/constants/schema';
 
 /**
  * Creates a new table with default values
@@ -44,6 +44,63 @@ export const createRelationship = (
   type: type as any
 });
 
+/**
+ * Table name with its namespace, e.g. `core.users`; tables in the default
+ * schema keep their plain name
+ */
+export const getQualifiedTableName = (table: Pick<Table, 'name' | 'namespace'>): string =>
+  table.namespace ? `${table.namespace}.${table.name}` : table.name;
+
+/**
+ * Accent colour of a namespace; the same name always gets the same colour
+ */
+export const getNamespaceColor = (namespace: string): string => {
+  let hash = 0;
+  for (const char of namespace) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return NAMESPACE_COLORS[Math.abs(hash) % NAMESPACE_COLORS.length];
+};
+
+/**
+ * Keeps only the type parameters that apply to a column type, so that a
+ * column changed from string to integer loses its length. Arrays keep the
+ * parameters of their element type, e.g. the length of `varchar(20)[]`.
+ */
+export const pickTypeParams = (type: ColumnType, params: ColumnTypeParams): ColumnTypeParams => {
+  const valueType = type === 'array' ? params.arrayElementType : type;
+  return {
+    length: valueType === 'string' ? params.length : undefined,
+    precision: valueType === 'decimal' ? params.precision : undefined,
+    scale: valueType === 'decimal' && params.precision != null ? params.scale : undefined,
+    arrayElementType: type === 'array' ? params.arrayElementType : undefined,
+    withTimezone: (TIMEZONE_COLUMN_TYPES as readonly string[]).includes(valueType ?? '') && params.withTimezone ? true : undefined
+  };
+};
+
+/**
+ * Short label of a column type with its parameters, e.g. `string(64)`,
+ * `decimal(18,4)`, `integer[]` or `timestamptz`. Native types are shown as written.
+ */
+export const formatColumnTypeLabel = (column: Pick<Column, 'type' | 'nativeType'> & ColumnTypeParams): string => {
+  if (column.nativeType) return column.nativeType;
+  switch (column.type) {
+    case 'string':
+      return column.length ? `string(${column.length})` : column.type;
+    case 'decimal':
+      if (column.precision == null) return column.type;
+      return `decimal(${column.precision}${column.scale != null ? `,${column.scale}` : ''})`;
+    case 'array':
+      return column.arrayElementType
+        ? `${formatColumnTypeLabel({ ...column, type: column.arrayElementType, arrayElementType: undefined })}[]`
+        : column.type;
+    case 'timestamp':
+    case 'datetime':
+    case 'time':
+      return column.withTimezone ? `${column.type}tz` : column.type;
+    default:
+      return column.type;
+  }
+};
+
 /**
  * Validates table data
  */
@@ -111,6 +168,54 @@ function stripHandleSuffix(id: string): string {
     .replace(/-right$/, '');
 }
 
+/**
+ * Plain column IDs on both ends of a relationship, in key order. Single-column
+ * relationships give one-element lists.
+ */
+export const getRelationshipColumnIds = (
+  relationship: Relationship
+): { sourceColumnIds: string[]; targetColumnIds: string[] } => ({
+  sourceColumnIds: relationship.sourceColumnIds ?? [stripHandleSuffix(relationship.sourceColumnId)],
+  targetColumnIds: relationship.targetColumnIds ?? [stripHandleSuffix(relationship.targetColumnId)]
+});
+
+/**
+ * The columns holding a relationship's foreign key and the columns they
+ * reference. One-to-many relationships store the "one" side as their source,
+ * so their key lives on the target; a one-to-one key is held by the source
+ * unless only the source column is a primary key.
+ */
+export const getRelationshipForeignKey = (
+  relationship: Relationship,
+  tables: Table[]
+): { tableId: string; columnIds: string[]; referencedTableId: string; referencedColumnIds: string[] } => {
+  const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(relationship);
+  const isPrimaryKey = (tableId: string, columnId: string) =>
+    tables.find(t => t.id === tableId)?.columns.find(c => c.id === columnId)?.primaryKey ?? false;
+
+  let sourceIsForeignKey = relationship.type !== 'one-to-many' && relationship.type !== 'zero-to-many';
+  if (relationship.type === 'one-to-one' || relationship.type === 'zero-to-one') {
+    sourceIsForeignKey = !(
+      isPrimaryKey(relationship.sourceTableId, sourceColumnIds[0]) &&
+      !isPrimaryKey(relationship.targetTableId, targetColumnIds[0])
+    );
+  }
+
+  return sourceIsForeignKey
+    ? {
+        tableId: relationship.sourceTableId,
+        columnIds: sourceColumnIds,
+        referencedTableId: relationship.targetTableId,
+        referencedColumnIds: targetColumnIds,
+      }
+    : {
+        tableId: relationship.targetTableId,
+        columnIds: targetColumnIds,
+        referencedTableId: relationship.sourceTableId,
+        referencedColumnIds: sourceColumnIds,
+      };
+};
+
 /**
  * Validates relationship data
  */
@@ -156,21 +261,32 @@ export const validateRelationship = (
 };
 
 /**
- * Duplicates a table with new IDs
- */
-export const duplicateTable = (table: Table, offset = { x: 50, y: 50 }): Table => ({
-  ...table,
-  id: ID_GENERATORS.TABLE(),
-  name: `${table.name}_copy`,
-  position: {
-    x: table.position.x + offset.x,
-    y: table.position.y + offset.y
-  },
-  columns: table.columns.map(column => ({
-    ...column,
-    id: ID_GENERATORS.COLUMN()
-  }))
-});
+ * Duplicates a table with new IDs. Index names are dropped, since they must
+ * be unique in the database; the copies get generated names.
+ */
+export const duplicateTable = (table: Table, offset = { x: 50, y: 50 }): Table => {
+  const columnIds = new Map(table.columns.map(column => [column.id, ID_GENERATORS.COLUMN()]));
+
+  return {
+    ...table,
+    id: ID_GENERATORS.TABLE(),
+    name: `${table.name}_copy`,
+    position: {
+      x: table.position.x + offset.x,
+      y: table.position.y + offset.y
+    },
+    columns: table.columns.map(column => ({
+      ...column,
+      id: columnIds.get(column.id)!
+    })),
+    indexes: table.indexes?.map(index => ({
+      ...index,
+      id: ID_GENERATORS.INDEX(),
+      name: undefined,
+      columnIds: index.columnIds.map(id => columnIds.get(id) ?? id)
+    }))
+  };
+};
 
 /**
  * Finds relationships connected to a table
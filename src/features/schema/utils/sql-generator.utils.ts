@@ -2,24 +2,27 @@
  * SQL generation utilities
  */
 
-import type { Table, Column, Relationship, ForeignKey } from '@/features/schema/types/schema.types';
+import type { Table, Column, ColumnTypeParams, Relationship, ForeignKey, Enum } from '@/features/schema/types/schema.types';
 import type { SQLDialect, ForeignKeyAction } from '@/constants/schema';
+import { getRelationshipColumnIds } from '@/features/schema/utils/schema.utils';
 
 export interface SQLOptions {
   dialect: SQLDialect;
   includePositions?: boolean;
   includeDescriptions?: boolean;
   dropTables?: boolean;
+  /** Enums referenced by enum columns; without them enum columns fall back to a plain type */
+  enums?: Enum[];
 }
 
 /**
  * Generates SQL CREATE TABLE statement
  */
 export const generateTableSQL = (table: Table, options: SQLOptions): string => {
-  const { dialect, includeDescriptions = false } = options;
+  const { dialect, includeDescriptions = false, enums = [] } = options;
 
   const columns = table.columns.map(column =>
-    generateColumnSQL(column, dialect)
+    generateColumnSQL(column, dialect, enums)
   ).join(',\n');
 
   const foreignKeys = table.columns
@@ -45,9 +48,12 @@ export const generateTableSQL = (table: Table, options: SQLOptions): string => {
 /**
  * Generates SQL for a column definition
  */
-export const generateColumnSQL = (column: Column, dialect: SQLDialect): string => {
+export const generateColumnSQL = (column: Column, dialect: SQLDialect, enums: Enum[] = []): string => {
   const name = escapeIdentifier(column.name, dialect);
-  const type = mapColumnTypeToSQL(column.type, dialect);
+  const enumDef = column.type === 'enum' ? enums.find(e => e.id === column.enumId) : undefined;
+  const type = column.nativeType && column.nativeTypeDialect === dialect
+    ? column.nativeType
+    : enumDef ? mapEnumTypeToSQL(enumDef, dialect) : mapColumnTypeToSQL(column.type, dialect, column);
 
   let columnDef = `  ${name} ${type}`;
 
@@ -94,10 +100,46 @@ export const generateForeignKeySQL = (column: Column, dialect: SQLDialect): stri
   return sql;
 };
 
+/**
+ * Applies type parameters to the base SQL type of a column: string length,
+ * decimal precision and scale, time zones and PostgreSQL array element types,
+ * which take the same parameters. Dialects without the matching feature keep
+ * the base type.
+ */
+export const applyColumnTypeParams = (
+  baseType: string,
+  type: string,
+  params: ColumnTypeParams,
+  dialect: SQLDialect,
+  mapElementType: (elementType: string) => string
+): string => {
+  switch (type) {
+    case 'string':
+      return params.length ? baseType.replace(/CHAR\(\d+\)$/, `CHAR(${params.length})`) : baseType;
+    case 'decimal':
+      if (params.precision == null || dialect === 'sqlite') return baseType;
+      return `${baseType.replace(/\(.*\)$/, '')}(${params.precision}${params.scale != null ? `,${params.scale}` : ''})`;
+    case 'timestamp':
+    case 'datetime':
+      if (!params.withTimezone) return baseType;
+      if (dialect === 'postgresql') return 'TIMESTAMPTZ';
+      if (dialect === 'sqlserver') return 'DATETIMEOFFSET';
+      return baseType;
+    case 'time':
+      return params.withTimezone && dialect === 'postgresql' ? 'TIMETZ' : baseType;
+    case 'array':
+      return params.arrayElementType && dialect === 'postgresql'
+        ? `${applyColumnTypeParams(mapElementType(params.arrayElementType), params.arrayElementType, params, dialect, mapElementType)}[]`
+        : baseType;
+    default:
+      return baseType;
+  }
+};
+
 /**
  * Maps column types to SQL dialect-specific types
  */
-export const mapColumnTypeToSQL = (type: string, dialect: SQLDialect): string => {
+export const mapColumnTypeToSQL = (type: string, dialect: SQLDialect, params: ColumnTypeParams = {}): string => {
   const typeMap = {
     postgresql: {
       'string': 'VARCHAR(255)',
@@ -177,7 +219,31 @@ export const mapColumnTypeToSQL = (type: string, dialect: SQLDialect): string =>
     }
   };
 
-  return typeMap[dialect]?.[type as keyof typeof typeMap[typeof dialect]] || 'VARCHAR(255)';
+  const baseType = typeMap[dialect]?.[type as keyof typeof typeMap[typeof dialect]] || 'VARCHAR(255)';
+  return applyColumnTypeParams(baseType, type, params, dialect, elementType => mapColumnTypeToSQL(elementType, dialect));
+};
+
+const quoteEnumValues = (enumDef: Enum): string =>
+  enumDef.values.map(value => `'${value.name.replace(/'/g, "''")}'`).join(', ');
+
+/**
+ * Maps an enum column to its SQL type: the named type on PostgreSQL, an inline
+ * ENUM on MySQL and the plain enum fallback elsewhere
+ */
+export const mapEnumTypeToSQL = (enumDef: Enum, dialect: SQLDialect): string => {
+  if (dialect === 'postgresql') return escapeIdentifier(enumDef.name, dialect);
+  if (dialect === 'mysql' && enumDef.values.length > 0) return `ENUM(${quoteEnumValues(enumDef)})`;
+  return mapColumnTypeToSQL('enum', dialect);
+};
+
+/**
+ * Generates CREATE TYPE statements for enums; only PostgreSQL has named enum types
+ */
+export const generateEnumTypesSQL = (enums: Enum[], dialect: SQLDialect): string => {
+  if (dialect !== 'postgresql' || enums.length === 0) return '';
+  return enums
+    .map(e => `CREATE TYPE ${escapeIdentifier(e.name, dialect)} AS ENUM (${quoteEnumValues(e)});\n`)
+    .join('') + '\n';
 };
 
 /**
@@ -228,6 +294,8 @@ export const generateSchemaSQL = (
     sql += '\n';
   }
 
+  sql += generateEnumTypesSQL(options.enums ?? [], options.dialect);
+
   sql += '-- Create tables\n';
   tables.forEach(table => {
     sql += generateTableSQL(table, options) + '\n';
@@ -254,16 +322,20 @@ export const generateRelationshipSQL = (
 
   if (!sourceTable || !targetTable) return '';
 
-  const sourceColumn = sourceTable.columns.find(c => c.id === relationship.sourceColumnId);
-  const targetColumn = targetTable.columns.find(c => c.id === relationship.targetColumnId);
+  const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(relationship);
+  const sourceColumns = sourceColumnIds.map(id => sourceTable.columns.find(c => c.id === id));
+  const targetColumns = targetColumnIds.map(id => targetTable.columns.find(c => c.id === id));
+
+  if (!sourceColumns.every(c => c) || !targetColumns.every(c => c)) return '';
 
-  if (!sourceColumn || !targetColumn) return '';
+  const sourceNames = sourceColumns.map(c => escapeIdentifier(c!.name, options.dialect)).join(', ');
+  const targetNames = targetColumns.map(c => escapeIdentifier(c!.name, options.dialect)).join(', ');
 
   const constraintName = `fk_${sourceTable.name}_${targetTable.name}`;
   let sql = `ALTER TABLE ${escapeIdentifier(sourceTable.name, options.dialect)} `;
   sql += `ADD CONSTRAINT ${escapeIdentifier(constraintName, options.dialect)} `;
-  sql += `FOREIGN KEY (${escapeIdentifier(sourceColumn.name, options.dialect)}) `;
-  sql += `REFERENCES ${escapeIdentifier(targetTable.name, options.dialect)}(${escapeIdentifier(targetColumn.name, options.dialect)})`;
+  sql += `FOREIGN KEY (${sourceNames}) `;
+  sql += `REFERENCES ${escapeIdentifier(targetTable.name, options.dialect)}(${targetNames})`;
 
   if (relationship.onDelete) {
     sql += ` ON DELETE ${relationship.onDelete}`;
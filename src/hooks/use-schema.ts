@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import { Table, Relationship, Column, Schema } from '@/features/schema/types/schema.types';
+import { Table, Relationship, Column, Enum, TableIndex, TableGroup, StickyNote, Schema, SchemaProject } from '@/features/schema/types/schema.types';
+import type { SQLDialect } from '@/constants/schema';
 import {
   apiGetAllSchemas,
   apiGetSchemaById,
@@ -9,54 +10,124 @@ import {
   apiDeleteSchema,
   apiDuplicateSchema,
   apiSaveSchema,
+  apiPatchSchema,
+  apiSaveLayout,
   apiGetVersions,
   apiCreateVersion,
   apiRestoreVersion,
+  type SaveResult,
   type SchemaSummary,
   type SchemaVersionSummary,
 } from '@/lib/schema-api';
+import {
+  computeSchemaPatch,
+  computeLayoutChanges,
+  computeGroupLayoutChanges,
+  computeNoteLayoutChanges,
+  isEmptyPatch,
+} from '@/features/schema/utils/schema-patch.utils';
+import { mergeSchemas, type SchemaMergeResult } from '@/features/schema/utils/schema-merge.utils';
+import type { SchemaSnapshot } from '@/features/schema/utils/schema-diff.utils';
+import { takeCachedPositions } from '@/db/migrate-localstorage';
+
+// --- Undo/redo history ---
+// Entries are whole-schema snapshots; tables, relationships, enums, groups and notes
+// are never mutated in place, so a snapshot only holds references to the previous arrays.
+const HISTORY_LIMIT = 100;
+const LOCAL_HISTORY_KEY = '__local__';
 
-// --- localStorage position cache ---
-type PositionMap = Record<string, { x: number; y: number }>;
+interface HistoryEntry {
+  label: string;
+  tables: Table[];
+  relationships: Relationship[];
+  enums: Enum[];
+  groups: TableGroup[];
+  notes: StickyNote[];
+}
 
-function positionKey(schemaId: string) {
-  return `schema-positions-${schemaId}`;
+interface HistoryStack {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
 }
 
-function loadPositions(schemaId: string): PositionMap {
-  if (typeof window === 'undefined') return {};
-  try {
-    const raw = localStorage.getItem(positionKey(schemaId));
-    return raw ? JSON.parse(raw) : {};
-  } catch {
-    return {};
+const histories = new Map<string, HistoryStack>();
+
+// Open while a `batch` callback runs; the first mutation inside it records the
+// only history entry for the whole group.
+let historyGroup: { label: string; recorded: boolean } | null = null;
+
+function historyFor(schemaId: string | null): HistoryStack {
+  const key = schemaId ?? LOCAL_HISTORY_KEY;
+  let stack = histories.get(key);
+  if (!stack) {
+    stack = { past: [], future: [] };
+    histories.set(key, stack);
   }
+  return stack;
 }
 
-function savePositions(schemaId: string, tables: Table[]) {
-  if (typeof window === 'undefined') return;
-  const map: PositionMap = {};
-  tables.forEach((t) => { map[t.id] = t.position; });
-  localStorage.setItem(positionKey(schemaId), JSON.stringify(map));
+function historyFlags(stack: HistoryStack) {
+  return {
+    canUndo: stack.past.length > 0,
+    canRedo: stack.future.length > 0,
+  };
 }
 
-function applyPositions(tables: Table[], positions: PositionMap): Table[] {
-  if (Object.keys(positions).length === 0) return tables;
-  return tables.map((t) => positions[t.id] ? { ...t, position: positions[t.id] } : t);
+/**
+ * Pushes the current tables/relationships/enums/groups/notes onto the undo stack of the active
+ * schema and drops the redo stack. Returns the flags to merge into `set`.
+ */
+function recordHistory(state: SchemaState, label: string) {
+  const stack = historyFor(state.activeSchemaId);
+  if (historyGroup) {
+    if (historyGroup.recorded) return historyFlags(stack);
+    historyGroup.recorded = true;
+    label = historyGroup.label;
+  }
+
+  stack.past.push({
+    label,
+    tables: state.tables,
+    relationships: state.relationships,
+    enums: state.enums,
+    groups: state.groups,
+    notes: state.notes,
+  });
+  if (stack.past.length > HISTORY_LIMIT) stack.past.shift();
+  stack.future = [];
+  return historyFlags(stack);
+}
+
+export type SaveConflictResolution = 'mine' | 'theirs' | 'merge';
+
+/** A save rejected because the schema was changed elsewhere since it was loaded */
+export interface SaveConflict {
+  server: Schema;
+  /** Preview of the merged result, computed when the conflict was reported */
+  merge: SchemaMergeResult;
 }
 
 interface SchemaState {
   // State
   tables: Table[];
   relationships: Relationship[];
+  enums: Enum[];
+  groups: TableGroup[];
+  notes: StickyNote[];
   selectedTableId: string | null;
   selectedRelationshipId: string | null;
   isDirty: boolean;
   activeSchemaId: string | null;
   activeSchemaName: string;
+  activeSchemaDescription: string | undefined;
+  /** Target database of the active schema, from the DBML `Project` block */
+  databaseType: SQLDialect | undefined;
   schemaList: SchemaSummary[];
   versions: SchemaVersionSummary[];
   isLoading: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  saveConflict: SaveConflict | null;
 
   // Actions
   addTable: (table: Omit<Table, 'id'>) => void;
@@ -67,10 +138,30 @@ interface SchemaState {
   updateColumn: (tableId: string, columnId: string, updates: Partial<Column>) => void;
   deleteColumn: (tableId: string, columnId: string) => void;
 
+  addIndex: (tableId: string, index: Omit<TableIndex, 'id'>) => void;
+  updateIndex: (tableId: string, indexId: string, updates: Partial<TableIndex>) => void;
+  deleteIndex: (tableId: string, indexId: string) => void;
+
   addRelationship: (relationship: Omit<Relationship, 'id'>) => void;
   updateRelationship: (id: string, updates: Partial<Relationship>) => void;
   deleteRelationship: (id: string) => void;
 
+  /** Returns the ID of the new enum, so it can be assigned to a column right away */
+  addEnum: (enumData: Omit<Enum, 'id'>) => string;
+  updateEnum: (id: string, updates: Partial<Enum>) => void;
+  deleteEnum: (id: string) => void;
+
+  /** Returns the ID of the new group */
+  addGroup: (group: Omit<TableGroup, 'id'>) => string;
+  updateGroup: (id: string, updates: Partial<TableGroup>) => void;
+  /** Removes the group; its tables stay on the canvas */
+  deleteGroup: (id: string) => void;
+
+  // Sticky note actions
+  addNote: (note: Omit<StickyNote, 'id'>) => string;
+  updateNote: (id: string, updates: Partial<StickyNote>) => void;
+  deleteNote: (id: string) => void;
+
   setSelectedTable: (id: string | null) => void;
   setSelectedRelationship: (id: string | null) => void;
 
@@ -80,6 +171,11 @@ interface SchemaState {
 
   setDirty: (dirty: boolean) => void;
 
+  // History actions
+  undo: () => void;
+  redo: () => void;
+  batch: (label: string, fn: () => void) => void;
+
   // Multi-schema actions
   loadSchemaList: () => Promise<void>;
   loadActiveSchema: () => Promise<void>;
@@ -88,7 +184,11 @@ interface SchemaState {
   deleteActiveSchema: () => Promise<void>;
   duplicateActiveSchema: () => Promise<string>;
   renameActiveSchema: (name: string) => Promise<void>;
+  /** Applies a DBML `Project` block: the schema's name, description and database type */
+  updateProject: (project: SchemaProject) => Promise<void>;
   autoSave: () => Promise<void>;
+  reportSaveConflict: (server: Schema) => void;
+  resolveSaveConflict: (resolution: SaveConflictResolution) => void;
   
   // Versioning actions
   loadVersions: () => Promise<void>;
@@ -98,19 +198,99 @@ interface SchemaState {
 
 let saveTimeout: NodeJS.Timeout | null = null;
 
+// --- Incremental saves ---
+// What the server holds for the active schema, as of the last load or save.
+// Autosave sends only the difference; without a baseline it falls back to a full save.
+// `version` is sent along so the server can reject saves based on stale data.
+let lastSaved: {
+  schemaId: string;
+  version: number;
+  tables: Table[];
+  relationships: Relationship[];
+  enums: Enum[];
+  groups: TableGroup[];
+  notes: StickyNote[];
+} | null = null;
+
+const EMPTY_SNAPSHOT = {
+  tables: [] as Table[],
+  relationships: [] as Relationship[],
+  enums: [] as Enum[],
+  groups: [] as TableGroup[],
+  notes: [] as StickyNote[],
+};
+
+function markSaved(
+  schemaId: string,
+  version: number,
+  { tables, relationships, enums = [], groups = [], notes = [] }: SchemaSnapshot
+) {
+  lastSaved = { schemaId, version, tables, relationships, enums, groups, notes };
+}
+
+/**
+ * Saves the active schema. Returns false when the server rejected the save as
+ * stale; the conflict is then reported to the store for the user to resolve.
+ */
+async function persistSchema(state: SchemaState): Promise<boolean> {
+  const schemaId = state.activeSchemaId;
+  if (!schemaId) return true;
+  if (state.saveConflict) return false;
+
+  const { tables, relationships, enums, groups, notes } = state;
+  const baseline = lastSaved?.schemaId === schemaId ? lastSaved : null;
+  let result: SaveResult | null = null;
+
+  if (baseline) {
+    // Moving, resizing or collapsing tables, groups and notes only takes the lightweight layout path
+    const layouts = computeLayoutChanges(baseline, { tables, relationships });
+    const groupLayouts = computeGroupLayoutChanges(baseline, { tables, relationships, groups });
+    const noteLayouts = computeNoteLayoutChanges(baseline, { tables, relationships, notes });
+    const patch = computeSchemaPatch(baseline, { tables, relationships, enums, groups, notes });
+
+    try {
+      if (layouts.length > 0 || groupLayouts.length > 0 || noteLayouts.length > 0) {
+        await apiSaveLayout(schemaId, layouts, groupLayouts, noteLayouts);
+      }
+      result = isEmptyPatch(patch)
+        ? { status: 'saved', version: baseline.version }
+        : await apiPatchSchema(schemaId, patch, baseline.version);
+    } catch (error) {
+      console.error('Incremental save failed, falling back to a full save', error);
+    }
+  }
+
+  if (!result) {
+    result = await apiSaveSchema({
+      id: schemaId,
+      name: state.activeSchemaName,
+      description: state.activeSchemaDescription,
+      databaseType: state.databaseType,
+      tables,
+      relationships,
+      enums,
+      groups,
+      notes,
+      baseVersion: baseline?.version,
+    });
+  }
+
+  if (result.status === 'conflict') {
+    state.reportSaveConflict(result.server);
+    return false;
+  }
+
+  markSaved(schemaId, result.version, { tables, relationships, enums, groups, notes });
+  return true;
+}
+
 function scheduleAutoSave(get: () => SchemaState) {
   if (saveTimeout) clearTimeout(saveTimeout);
 
   saveTimeout = setTimeout(async () => {
     const state = get();
-    if (state.isDirty && state.activeSchemaId) {
-      await apiSaveSchema({
-        id: state.activeSchemaId,
-        name: state.activeSchemaName,
-        tables: state.tables,
-        relationships: state.relationships,
-      });
-      state.setDirty(false);
+    if (state.isDirty && state.activeSchemaId && !state.saveConflict) {
+      if (await persistSchema(state)) state.setDirty(false);
     }
   }, 1000);
 }
@@ -121,14 +301,22 @@ export const useSchema = create<SchemaState>()(
       // Initial state
       tables: [],
       relationships: [],
+      enums: [],
+      groups: [],
+      notes: [],
       selectedTableId: null,
       selectedRelationshipId: null,
       isDirty: false,
       activeSchemaId: null,
       activeSchemaName: 'Untitled Schema',
+      activeSchemaDescription: undefined,
+      databaseType: undefined,
       schemaList: [],
       versions: [],
       isLoading: false,
+      canUndo: false,
+      canRedo: false,
+      saveConflict: null,
 
       // Table actions
       addTable: (tableData) => {
@@ -138,6 +326,7 @@ export const useSchema = create<SchemaState>()(
         };
 
         set((state) => ({
+          ...recordHistory(state, 'Add table'),
           tables: [...state.tables, newTable],
           isDirty: true,
         }));
@@ -146,21 +335,25 @@ export const useSchema = create<SchemaState>()(
       },
 
       updateTable: (id, updates) => {
+        const current = get().tables.find((table) => table.id === id);
+        if (!current) return;
+
+        // React Flow reports a drag-end even when the node did not move
+        const { position } = updates;
+        const isMoveOnly = position !== undefined && Object.keys(updates).length === 1;
+        if (isMoveOnly && current.position.x === position.x && current.position.y === position.y) {
+          return;
+        }
+
         set((state) => ({
+          ...recordHistory(state, isMoveOnly ? 'Move table' : 'Update table'),
           tables: state.tables.map((table) =>
             table.id === id ? { ...table, ...updates } : table
           ),
           isDirty: true,
         }));
 
-        // Persist position to localStorage immediately on drag-end
-        if (updates.position) {
-          const state = get();
-          if (state.activeSchemaId) {
-            savePositions(state.activeSchemaId, get().tables);
-          }
-        }
-
+        // A move only changes the layout, which the autosave sends through the layout path
         scheduleAutoSave(get);
       },
 
@@ -171,8 +364,18 @@ export const useSchema = create<SchemaState>()(
           );
 
           return {
+            ...recordHistory(state, 'Delete table'),
             tables: state.tables.filter((table) => table.id !== id),
             relationships: filteredRelationships,
+            groups: state.groups.map((group) =>
+              group.tableIds.includes(id)
+                ? { ...group, tableIds: group.tableIds.filter((tableId) => tableId !== id) }
+                : group
+            ),
+            // Notes pinned to the table stay on the canvas, unpinned
+            notes: state.notes.map((note) =>
+              note.tableId === id ? { ...note, tableId: undefined } : note
+            ),
             selectedTableId: state.selectedTableId === id ? null : state.selectedTableId,
             isDirty: true,
           };
@@ -189,6 +392,7 @@ export const useSchema = create<SchemaState>()(
         };
 
         set((state) => ({
+          ...recordHistory(state, 'Add column'),
           tables: state.tables.map((table) =>
             table.id === tableId
               ? { ...table, columns: [...table.columns, newColumn] }
@@ -202,6 +406,7 @@ export const useSchema = create<SchemaState>()(
 
       updateColumn: (tableId, columnId, updates) => {
         set((state) => ({
+          ...recordHistory(state, 'Update column'),
           tables: state.tables.map((table) =>
             table.id === tableId
               ? {
@@ -220,11 +425,16 @@ export const useSchema = create<SchemaState>()(
 
       deleteColumn: (tableId, columnId) => {
         set((state) => ({
+          ...recordHistory(state, 'Delete column'),
           tables: state.tables.map((table) =>
             table.id === tableId
               ? {
                   ...table,
                   columns: table.columns.filter((column) => column.id !== columnId),
+                  // Indexes lose the column; an index left without columns is dropped
+                  indexes: table.indexes
+                    ?.map((index) => ({ ...index, columnIds: index.columnIds.filter((id) => id !== columnId) }))
+                    .filter((index) => index.columnIds.length > 0),
                 }
               : table
           ),
@@ -234,6 +444,59 @@ export const useSchema = create<SchemaState>()(
         scheduleAutoSave(get);
       },
 
+      // Index actions
+      addIndex: (tableId, indexData) => {
+        const newIndex: TableIndex = {
+          ...indexData,
+          id: `idx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        };
+
+        set((state) => ({
+          ...recordHistory(state, 'Add index'),
+          tables: state.tables.map((table) =>
+            table.id === tableId
+              ? { ...table, indexes: [...(table.indexes ?? []), newIndex] }
+              : table
+          ),
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+      },
+
+      updateIndex: (tableId, indexId, updates) => {
+        set((state) => ({
+          ...recordHistory(state, 'Update index'),
+          tables: state.tables.map((table) =>
+            table.id === tableId
+              ? {
+                  ...table,
+                  indexes: table.indexes?.map((index) =>
+                    index.id === indexId ? { ...index, ...updates } : index
+                  ),
+                }
+              : table
+          ),
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+      },
+
+      deleteIndex: (tableId, indexId) => {
+        set((state) => ({
+          ...recordHistory(state, 'Delete index'),
+          tables: state.tables.map((table) =>
+            table.id === tableId
+              ? { ...table, indexes: table.indexes?.filter((index) => index.id !== indexId) }
+              : table
+          ),
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+      },
+
       // Relationship actions
       addRelationship: (relationshipData) => {
         const newRelationship: Relationship = {
@@ -242,6 +505,7 @@ export const useSchema = create<SchemaState>()(
         };
 
         set((state) => ({
+          ...recordHistory(state, 'Add relationship'),
           relationships: [...state.relationships, newRelationship],
           isDirty: true,
         }));
@@ -251,6 +515,7 @@ export const useSchema = create<SchemaState>()(
 
       updateRelationship: (id, updates) => {
         set((state) => ({
+          ...recordHistory(state, 'Update relationship'),
           relationships: state.relationships.map((rel) =>
             rel.id === id ? { ...rel, ...updates } : rel
           ),
@@ -262,6 +527,7 @@ export const useSchema = create<SchemaState>()(
 
       deleteRelationship: (id) => {
         set((state) => ({
+          ...recordHistory(state, 'Delete relationship'),
           relationships: state.relationships.filter((rel) => rel.id !== id),
           selectedRelationshipId: state.selectedRelationshipId === id ? null : state.selectedRelationshipId,
           isDirty: true,
@@ -270,6 +536,162 @@ export const useSchema = create<SchemaState>()(
         scheduleAutoSave(get);
       },
 
+      // Enum actions
+      addEnum: (enumData) => {
+        const newEnum: Enum = {
+          ...enumData,
+          id: `enum_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        };
+
+        set((state) => ({
+          ...recordHistory(state, 'Add enum'),
+          enums: [...state.enums, newEnum],
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+        return newEnum.id;
+      },
+
+      updateEnum: (id, updates) => {
+        set((state) => ({
+          ...recordHistory(state, 'Update enum'),
+          enums: state.enums.map((enumDef) =>
+            enumDef.id === id ? { ...enumDef, ...updates } : enumDef
+          ),
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+      },
+
+      deleteEnum: (id) => {
+        set((state) => ({
+          ...recordHistory(state, 'Delete enum'),
+          enums: state.enums.filter((enumDef) => enumDef.id !== id),
+          // Columns keep their enum type but no longer point at the deleted enum
+          tables: state.tables.map((table) =>
+            table.columns.some((column) => column.enumId === id)
+              ? {
+                  ...table,
+                  columns: table.columns.map((column) =>
+                    column.enumId === id ? { ...column, enumId: undefined } : column
+                  ),
+                }
+              : table
+          ),
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+      },
+
+      // Table group actions
+      addGroup: (groupData) => {
+        const newGroup: TableGroup = {
+          ...groupData,
+          id: `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        };
+
+        set((state) => ({
+          ...recordHistory(state, 'Add group'),
+          // A table belongs to one group at most
+          groups: [
+            ...state.groups.map((group) => ({
+              ...group,
+              tableIds: group.tableIds.filter((id) => !newGroup.tableIds.includes(id)),
+            })),
+            newGroup,
+          ],
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+        return newGroup.id;
+      },
+
+      updateGroup: (id, updates) => {
+        const current = get().groups.find((group) => group.id === id);
+        if (!current) return;
+
+        // React Flow reports drag and resize ends even when nothing changed
+        const changed = (Object.keys(updates) as (keyof TableGroup)[]).some(
+          (key) => JSON.stringify(current[key]) !== JSON.stringify(updates[key])
+        );
+        if (!changed) return;
+
+        const { tableIds } = updates;
+        set((state) => ({
+          ...recordHistory(state, 'Update group'),
+          groups: state.groups.map((group) =>
+            group.id === id
+              ? { ...group, ...updates }
+              : tableIds && group.tableIds.some((tableId) => tableIds.includes(tableId))
+                ? { ...group, tableIds: group.tableIds.filter((tableId) => !tableIds.includes(tableId)) }
+                : group
+          ),
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+      },
+
+      deleteGroup: (id) => {
+        set((state) => ({
+          ...recordHistory(state, 'Delete group'),
+          groups: state.groups.filter((group) => group.id !== id),
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+      },
+
+      // Sticky note actions
+      addNote: (noteData) => {
+        const newNote: StickyNote = {
+          ...noteData,
+          id: `note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        };
+
+        set((state) => ({
+          ...recordHistory(state, 'Add note'),
+          notes: [...state.notes, newNote],
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+        return newNote.id;
+      },
+
+      updateNote: (id, updates) => {
+        const current = get().notes.find((note) => note.id === id);
+        if (!current) return;
+
+        // React Flow reports drag and resize ends even when nothing changed
+        const changed = (Object.keys(updates) as (keyof StickyNote)[]).some(
+          (key) => JSON.stringify(current[key]) !== JSON.stringify(updates[key])
+        );
+        if (!changed) return;
+
+        set((state) => ({
+          ...recordHistory(state, 'Update note'),
+          notes: state.notes.map((note) => (note.id === id ? { ...note, ...updates } : note)),
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+      },
+
+      deleteNote: (id) => {
+        set((state) => ({
+          ...recordHistory(state, 'Delete note'),
+          notes: state.notes.filter((note) => note.id !== id),
+          isDirty: true,
+        }));
+
+        scheduleAutoSave(get);
+      },
+
       // Selection actions
       setSelectedTable: (id) => {
         set({ selectedTableId: id, selectedRelationshipId: null });
@@ -281,17 +703,17 @@ export const useSchema = create<SchemaState>()(
 
       // Schema actions
       loadSchema: (schema) => {
-        const schemaId = get().activeSchemaId;
-        const tables = schemaId
-          ? applyPositions(schema.tables, loadPositions(schemaId))
-          : schema.tables;
-        set({
-          tables,
+        set((state) => ({
+          ...recordHistory(state, 'Load schema'),
+          tables: schema.tables,
           relationships: schema.relationships,
+          enums: schema.enums ?? [],
+          groups: schema.groups ?? [],
+          notes: schema.notes ?? [],
           selectedTableId: null,
           selectedRelationshipId: null,
           isDirty: false,
-        });
+        }));
       },
 
       exportSchema: () => {
@@ -299,8 +721,13 @@ export const useSchema = create<SchemaState>()(
         return {
           id: state.activeSchemaId || `schema_${Date.now()}`,
           name: state.activeSchemaName,
+          description: state.activeSchemaDescription,
+          databaseType: state.databaseType,
           tables: state.tables,
           relationships: state.relationships,
+          enums: state.enums,
+          groups: state.groups,
+          notes: state.notes,
           createdAt: new Date(),
           updatedAt: new Date(),
           version: 1,
@@ -308,19 +735,97 @@ export const useSchema = create<SchemaState>()(
       },
 
       clearSchema: () => {
-        set({
+        set((state) => ({
+          ...recordHistory(state, 'Clear schema'),
           tables: [],
           relationships: [],
+          enums: [],
+          groups: [],
+          notes: [],
           selectedTableId: null,
           selectedRelationshipId: null,
           isDirty: false,
-        });
+        }));
       },
 
       setDirty: (dirty) => {
         set({ isDirty: dirty });
       },
 
+      // History actions
+      undo: () => {
+        const state = get();
+        const stack = historyFor(state.activeSchemaId);
+        const entry = stack.past.pop();
+        if (!entry) return;
+
+        stack.future.push({
+          label: entry.label,
+          tables: state.tables,
+          relationships: state.relationships,
+          enums: state.enums,
+          groups: state.groups,
+          notes: state.notes,
+        });
+        set({
+          ...historyFlags(stack),
+          tables: entry.tables,
+          relationships: entry.relationships,
+          enums: entry.enums,
+          groups: entry.groups,
+          notes: entry.notes,
+          selectedTableId: null,
+          selectedRelationshipId: null,
+          isDirty: true,
+        });
+
+        scheduleAutoSave(get);
+      },
+
+      redo: () => {
+        const state = get();
+        const stack = historyFor(state.activeSchemaId);
+        const entry = stack.future.pop();
+        if (!entry) return;
+
+        stack.past.push({
+          label: entry.label,
+          tables: state.tables,
+          relationships: state.relationships,
+          enums: state.enums,
+          groups: state.groups,
+          notes: state.notes,
+        });
+        set({
+          ...historyFlags(stack),
+          tables: entry.tables,
+          relationships: entry.relationships,
+          enums: entry.enums,
+          groups: entry.groups,
+          notes: entry.notes,
+          selectedTableId: null,
+          selectedRelationshipId: null,
+          isDirty: true,
+        });
+
+        scheduleAutoSave(get);
+      },
+
+      batch: (label, fn) => {
+        // Nested batches fold into the outermost one
+        if (historyGroup) {
+          fn();
+          return;
+        }
+
+        historyGroup = { label, recorded: false };
+        try {
+          fn();
+        } finally {
+          historyGroup = null;
+        }
+      },
+
       // Multi-schema actions
       loadSchemaList: async () => {
         set({ isLoading: true });
@@ -340,15 +845,24 @@ export const useSchema = create<SchemaState>()(
         try {
           const schema = await apiGetSchemaById(state.activeSchemaId);
           if (schema) {
-            const positions = loadPositions(state.activeSchemaId);
+            markSaved(state.activeSchemaId, schema.version, schema);
+            const migratedTables = takeCachedPositions(state.activeSchemaId, schema.tables);
             set({
-              tables: applyPositions(schema.tables, positions),
+              ...historyFlags(historyFor(state.activeSchemaId)),
+              tables: migratedTables ?? schema.tables,
               relationships: schema.relationships,
+              enums: schema.enums ?? [],
+              groups: schema.groups ?? [],
+              notes: schema.notes ?? [],
               activeSchemaName: schema.name,
+              activeSchemaDescription: schema.description,
+              databaseType: schema.databaseType,
               selectedTableId: null,
               selectedRelationshipId: null,
-              isDirty: false,
+              isDirty: migratedTables !== null,
+              saveConflict: null,
             });
+            if (migratedTables) scheduleAutoSave(get);
             await get().loadVersions();
           }
         } finally {
@@ -373,15 +887,24 @@ export const useSchema = create<SchemaState>()(
         try {
           const schema = await apiGetSchemaById(id);
           if (schema) {
-            const positions = loadPositions(id);
+            markSaved(id, schema.version, schema);
+            const migratedTables = takeCachedPositions(id, schema.tables);
             set({
-              tables: applyPositions(schema.tables, positions),
+              ...historyFlags(historyFor(id)),
+              tables: migratedTables ?? schema.tables,
               relationships: schema.relationships,
+              enums: schema.enums ?? [],
+              groups: schema.groups ?? [],
+              notes: schema.notes ?? [],
               activeSchemaName: schema.name,
+              activeSchemaDescription: schema.description,
+              databaseType: schema.databaseType,
               selectedTableId: null,
               selectedRelationshipId: null,
-              isDirty: false,
+              isDirty: migratedTables !== null,
+              saveConflict: null,
             });
+            if (migratedTables) scheduleAutoSave(get);
             await get().loadVersions();
           }
         } finally {
@@ -396,6 +919,8 @@ export const useSchema = create<SchemaState>()(
         set({ isLoading: true });
         try {
           await apiDeleteSchema(state.activeSchemaId);
+          histories.delete(state.activeSchemaId);
+          lastSaved = null;
           await get().loadSchemaList();
 
           const list = await apiGetAllSchemas();
@@ -403,9 +928,15 @@ export const useSchema = create<SchemaState>()(
             await get().switchSchema(list[0].id);
           } else {
             set({
+              ...historyFlags(historyFor(null)),
               activeSchemaId: null,
+              activeSchemaDescription: undefined,
+              databaseType: undefined,
               tables: [],
               relationships: [],
+              enums: [],
+              groups: [],
+              notes: [],
               selectedTableId: null,
               selectedRelationshipId: null,
               isDirty: false,
@@ -440,18 +971,86 @@ export const useSchema = create<SchemaState>()(
         await get().loadSchemaList();
       },
 
+      updateProject: async ({ name, description, databaseType }) => {
+        const state = get();
+        set({ activeSchemaName: name, activeSchemaDescription: description, databaseType });
+        if (!state.activeSchemaId) return;
+
+        // Cleared fields are sent as null so the server clears them too
+        await apiUpdateSchemaMetadata(state.activeSchemaId, {
+          name,
+          description: description ?? null,
+          databaseType: databaseType ?? null,
+        });
+        if (name !== state.activeSchemaName) await get().loadSchemaList();
+      },
+
       autoSave: async () => {
         const state = get();
         if (state.isDirty && state.activeSchemaId) {
-          await apiSaveSchema({
-            id: state.activeSchemaId,
-            name: state.activeSchemaName,
-            tables: state.tables,
-            relationships: state.relationships,
-          });
-          set({ isDirty: false });
+          if (await persistSchema(state)) set({ isDirty: false });
         }
       },
+
+      reportSaveConflict: (server) => {
+        const state = get();
+        const base = lastSaved?.schemaId === server.id ? lastSaved : EMPTY_SNAPSHOT;
+        set({
+          saveConflict: {
+            server,
+            merge: mergeSchemas(base, state, server),
+          },
+        });
+      },
+
+      resolveSaveConflict: (resolution) => {
+        const state = get();
+        const conflict = state.saveConflict;
+        if (!conflict || state.activeSchemaId !== conflict.server.id) {
+          set({ saveConflict: null });
+          return;
+        }
+
+        const { server } = conflict;
+        const base = lastSaved?.schemaId === server.id ? lastSaved : EMPTY_SNAPSHOT;
+        const merged = resolution === 'merge' ? mergeSchemas(base, state, server) : null;
+
+        // Every resolution continues from the server copy, so the next save is not stale
+        markSaved(server.id, server.version, server);
+
+        if (resolution === 'theirs') {
+          set((current) => ({
+            ...recordHistory(current, 'Take server changes'),
+            tables: server.tables,
+            relationships: server.relationships,
+            enums: server.enums ?? [],
+            groups: server.groups ?? [],
+            notes: server.notes ?? [],
+            selectedTableId: null,
+            selectedRelationshipId: null,
+            isDirty: false,
+            saveConflict: null,
+          }));
+          return;
+        }
+
+        if (merged) {
+          set((current) => ({
+            ...recordHistory(current, 'Merge server changes'),
+            tables: merged.tables,
+            relationships: merged.relationships,
+            enums: merged.enums,
+            groups: merged.groups,
+            notes: merged.notes,
+            isDirty: true,
+            saveConflict: null,
+          }));
+        } else {
+          set({ isDirty: true, saveConflict: null });
+        }
+
+        scheduleAutoSave(get);
+      },
       
       // Versioning actions
       loadVersions: async () => {
@@ -474,12 +1073,9 @@ export const useSchema = create<SchemaState>()(
         try {
           // If dirty, save current state first
           if (state.isDirty) {
-            await apiSaveSchema({
-              id: state.activeSchemaId,
-              name: state.activeSchemaName,
-              tables: state.tables,
-              relationships: state.relationships,
-            });
+            if (!(await persistSchema(state))) {
+              throw new Error('Resolve the save conflict before saving a version');
+            }
             set({ isDirty: false });
           }
           
@@ -498,17 +1094,20 @@ export const useSchema = create<SchemaState>()(
         set({ isLoading: true });
         try {
           const result = await apiRestoreVersion(state.activeSchemaId, versionId);
-          // Clear cached positions so restored layout from snapshot is used
-          if (typeof window !== 'undefined') {
-            localStorage.removeItem(positionKey(state.activeSchemaId));
-          }
-          set({
+          markSaved(state.activeSchemaId, result.version, result);
+          set((current) => ({
+            ...recordHistory(current, 'Restore version'),
+            databaseType: result.databaseType,
             tables: result.tables,
             relationships: result.relationships,
+            enums: result.enums ?? [],
+            groups: result.groups ?? [],
+            notes: result.notes ?? [],
             isDirty: false,
+            saveConflict: null,
             selectedTableId: null,
             selectedRelationshipId: null,
-          });
+          }));
           await get().loadVersions();
         } finally {
           set({ isLoading: false });
@@ -1,4 +1,8 @@
 import { autocompletion, CompletionContext, Completion, CompletionResult } from '@codemirror/autocomplete';
+import type { SQLDialect } from '@/constants/schema';
+import type { Column, Enum, Table } from '@/features/schema/types/schema.types';
+import { formatColumnTypeLabel, getQualifiedTableName } from '@/features/schema/utils/schema.utils';
+import { SERIAL_REFERENCE_TYPES } from '@/lib/dbml/dbml-lint';
 
 // Common SQL data types for autocomplete
 const DATA_TYPES: Completion[] = [
@@ -15,6 +19,7 @@ const DATA_TYPES: Completion[] = [
   { label: 'varchar', type: 'type', detail: 'Variable Character', info: 'Variable-length string with max length' },
   { label: 'char', type: 'type', detail: 'Character', info: 'Fixed-length character string' },
   { label: 'text', type: 'type', detail: 'Text', info: 'Unlimited length text' },
+  { label: 'citext', type: 'type', detail: 'Case-insensitive Text', info: 'Text compared case-insensitively (PostgreSQL)' },
   { label: 'nvarchar', type: 'type', detail: 'Unicode Variable Character', info: 'Unicode variable-length string' },
   
   // Boolean
@@ -49,8 +54,43 @@ const DATA_TYPES: Completion[] = [
   { label: 'macaddr', type: 'type', detail: 'MAC Address', info: 'MAC address' },
   { label: 'bit', type: 'type', detail: 'Bit String', info: 'Fixed-length bit string' },
   { label: 'varbit', type: 'type', detail: 'Variable Bit', info: 'Variable-length bit string' },
+  { label: 'tsvector', type: 'type', detail: 'Text Search Vector', info: 'Full-text search document (PostgreSQL)' },
 ];
 
+// Entries of DATA_TYPES that only PostgreSQL has
+const POSTGRES_ONLY_TYPES = new Set([
+  'serial', 'bigserial', 'citext', 'timestamptz', 'timetz', 'interval',
+  'jsonb', 'inet', 'macaddr', 'varbit', 'tsvector',
+]);
+
+// Native types offered in their place when the project targets another database
+const DIALECT_DATA_TYPES: Record<Exclude<SQLDialect, 'postgresql'>, Completion[]> = {
+  mysql: [
+    { label: 'mediumint', type: 'type', detail: 'Medium Integer', info: 'Medium-range integer (MySQL)' },
+    { label: 'tinytext', type: 'type', detail: 'Tiny Text', info: 'Text up to 255 bytes (MySQL)' },
+    { label: 'mediumtext', type: 'type', detail: 'Medium Text', info: 'Text up to 16 MB (MySQL)' },
+    { label: 'longtext', type: 'type', detail: 'Long Text', info: 'Text up to 4 GB (MySQL)' },
+    { label: 'blob', type: 'type', detail: 'Binary', info: 'Binary data up to 64 KB (MySQL)' },
+    { label: 'longblob', type: 'type', detail: 'Long Binary', info: 'Binary data up to 4 GB (MySQL)' },
+    { label: 'year', type: 'type', detail: 'Year', info: 'Four-digit year (MySQL)' },
+  ],
+  sqlite: [
+    { label: 'blob', type: 'type', detail: 'Binary', info: 'Binary data, stored as written (SQLite)' },
+  ],
+  sqlserver: [
+    { label: 'datetime2', type: 'type', detail: 'DateTime', info: 'Date and time with fractional seconds (SQL Server)' },
+    { label: 'datetimeoffset', type: 'type', detail: 'DateTime with TZ', info: 'Date and time with a UTC offset (SQL Server)' },
+    { label: 'uniqueidentifier', type: 'type', detail: 'UUID', info: 'Globally unique identifier (SQL Server)' },
+    { label: 'varbinary', type: 'type', detail: 'Binary', info: 'Variable-length binary data (SQL Server)' },
+  ],
+};
+
+// Data types for the project's database_type; all of DATA_TYPES without one
+function dataTypesFor(dialect: SQLDialect | undefined): Completion[] {
+  if (!dialect || dialect === 'postgresql') return DATA_TYPES;
+  return [...DATA_TYPES.filter((t) => !POSTGRES_ONLY_TYPES.has(t.label)), ...DIALECT_DATA_TYPES[dialect]];
+}
+
 // Field modifiers
 const MODIFIERS: Completion[] = [
   { label: 'pk', type: 'keyword', detail: 'Primary Key', info: 'Set as primary key', apply: 'pk' },
@@ -89,7 +129,7 @@ const SNIPPETS: Completion[] = [
     type: 'snippet',
     detail: 'Project Block',
     info: 'Create a project metadata block',
-    apply: 'Project ${name} {\n  Note: \'${description}\'\n}',
+    apply: 'Project ${name} {\n  database_type: \'PostgreSQL\'\n  Note: \'${description}\'\n}',
   },
 ];
 
@@ -120,130 +160,261 @@ function extractFieldNames(doc: string, tableName: string): string[] {
   return [...new Set(fields)];
 }
 
-// Determine the current context for smart completions
-function getContextAtCursor(doc: string, pos: number): {
+/** The schema of the last successful parse, which completions are drawn from */
+export interface DbmlCompletionSchema {
+  tables: Table[];
+  enums: Enum[];
+}
+
+interface CursorContext {
   context: 'table-name' | 'field-name' | 'field-type' | 'ref-table' | 'ref-field' | 'modifier' | 'snippet';
   tableName?: string;
-} {
+  /** The column being defined on the current line */
+  columnName?: string;
+  /** In a ref, the `table.column` on the other side of the relation */
+  refSource?: string;
+}
+
+// A table endpoint being typed, e.g. `users.` or `core.users.em`
+const REF_FIELD_PATTERN = /(?:^|[\s:<>\-(])((?:\w+\.)?\w+)\.(\w*)$/;
+// The left side of a standalone ref, e.g. `posts.user_id >`
+const REF_SOURCE_PATTERN = /((?:\w+\.)?\w+\.\w+)\s*(?:<>|[<>\-])\s*\w*$/;
+
+// Determine the current context for smart completions
+function getContextAtCursor(doc: string, pos: number): CursorContext {
   const textBefore = doc.substring(0, pos);
   const lines = textBefore.split('\n');
   const currentLine = lines[lines.length - 1];
   const trimmedLine = currentLine.trim();
-  
+
+  // Inside a table
+  const tableMatch = textBefore.match(/Table\s+((?:\w+\.)?\w+)(?:\s+as\s+\w+)?\s*(?:\[[^\]]*\])?\s*\{[^}]*$/);
+  const columnName = currentLine.match(/^\s*(\w+)\s/)?.[1];
+
+  // Ref endpoints: inline `[ref: > users.id]`, `Ref: a.b > c.d` or a line of a `Ref { }` block
+  const inlineRef = tableMatch && /\bref:\s*(?:<>|[<>\-])\s*[\w.]*$/.test(currentLine);
+  const standaloneRef = /^\s*Ref\b[^:{\n]*:/.test(currentLine) || /Ref\b[^{\n]*\{[^}]*$/.test(textBefore);
+  if (inlineRef || standaloneRef) {
+    const refSource = inlineRef
+      ? columnName && `${tableMatch[1]}.${columnName}`
+      : currentLine.match(REF_SOURCE_PATTERN)?.[1];
+    const field = currentLine.match(REF_FIELD_PATTERN);
+    if (field) return { context: 'ref-field', tableName: field[1], refSource };
+    return { context: 'ref-table', refSource };
+  }
+
   // Check if we're at the start of a line (possible snippet context)
-  if (trimmedLine === '' || trimmedLine.match(/^(Table|Enum|Ref|Project)?$/)) {
+  if ((trimmedLine === '' && !tableMatch) || trimmedLine.match(/^(Table|Enum|Ref|Project)?$/)) {
     return { context: 'snippet' };
   }
-  
+
   // Check if we're after "Table" keyword (table name context)
   if (trimmedLine.match(/^Table\s+\w*$/)) {
     return { context: 'table-name' };
   }
-  
-  // Check if we're inside a table definition
-  const tableMatch = textBefore.match(/Table\s+(\w+)\s*\{[^}]*$/);
+
   if (tableMatch) {
     const tableName = tableMatch[1];
     // Check if we're after a field name (type context)
-    const fieldMatch = currentLine.match(/^\s*\w+\s+(\w*)$/);
-    if (fieldMatch) {
-      return { context: 'field-type', tableName };
+    if (currentLine.match(/^\s*\w+\s+(\w*)$/)) {
+      return { context: 'field-type', tableName, columnName };
     }
     // Check if we're typing a field name
-    if (currentLine.match(/^\s+\w*$/)) {
+    if (currentLine.match(/^\s*\w*$/)) {
       return { context: 'field-name', tableName };
     }
     // Otherwise might be typing modifiers
-    return { context: 'modifier', tableName };
+    return { context: 'modifier', tableName, columnName };
   }
-  
-  // Check if we're in a Ref block
-  if (textBefore.match(/Ref\s*\{[^}]*$/)) {
-    // Check if we're typing a table reference
-    if (currentLine.match(/(\w*)\.\w*$/)) {
-      return { context: 'ref-table' };
-    }
-    if (currentLine.match(/\w+\.(\w*)$/)) {
-      return { context: 'ref-field' };
-    }
-  }
-  
+
   return { context: 'snippet' };
 }
 
+// `users` -> `user`, `categories` -> `category`, `addresses` -> `address`
+function singular(name: string): string {
+  if (/ies$/i.test(name)) return name.slice(0, -3) + 'y';
+  if (/(s|x|z|ch|sh)es$/i.test(name)) return name.slice(0, -2);
+  if (/[^s]s$/i.test(name)) return name.slice(0, -1);
+  return name;
+}
+
+const findTable = (schema: DbmlCompletionSchema, name: string) =>
+  schema.tables.find((t) => getQualifiedTableName(t) === name || t.alias === name);
+
+// The single primary key column a foreign key would point at
+function primaryKeyOf(table: Table): Column | undefined {
+  const keys = table.columns.filter((c) => c.primaryKey);
+  return keys.length === 1 ? keys[0] : undefined;
+}
+
+// How a column referencing `key` is typed, e.g. `int` for a `serial` key
+function referencingType(key: Column): string {
+  const type = formatColumnTypeLabel(key);
+  return SERIAL_REFERENCE_TYPES[type.toLowerCase()] ?? type;
+}
+
+/** Tables a column such as `user_id` or `userId` most likely refers to */
+function foreignKeyTargets(schema: DbmlCompletionSchema, columnName: string, ownTable?: string) {
+  const base = /^(\w+?)_?id$/i.exec(columnName)?.[1]?.toLowerCase();
+  if (!base) return [];
+  return schema.tables.flatMap((table) => {
+    const key = primaryKeyOf(table);
+    const name = table.name.toLowerCase();
+    if (!key || getQualifiedTableName(table) === ownTable) return [];
+    return name === base || singular(name) === base ? [{ table, key }] : [];
+  });
+}
+
+const columnTypeDetail = (column: Column, schema: DbmlCompletionSchema) => {
+  const enumDef = column.type === 'enum' ? schema.enums.find((e) => e.id === column.enumId) : undefined;
+  return enumDef ? getQualifiedTableName(enumDef) : formatColumnTypeLabel(column);
+};
+
+function columnCompletions(schema: DbmlCompletionSchema, doc: string, tableName: string): Completion[] {
+  const table = findTable(schema, tableName);
+  if (!table) {
+    // A table typed since the last successful parse
+    return extractFieldNames(doc, tableName).map((field) => ({
+      label: field,
+      type: 'property',
+      detail: 'Field',
+      info: `Field in ${tableName}`,
+    }));
+  }
+  return table.columns.map((column) => ({
+    label: column.name,
+    type: 'property',
+    detail: columnTypeDetail(column, schema),
+    info: [column.primaryKey && 'Primary key', column.unique && 'Unique', column.note].filter(Boolean).join(' · ') || undefined,
+    boost: column.primaryKey ? 1 : 0,
+  }));
+}
+
+function tableCompletions(schema: DbmlCompletionSchema, doc: string, refSource?: string): Completion[] {
+  const names = schema.tables.map((t) => getQualifiedTableName(t));
+  const tables: Completion[] = [
+    ...names,
+    ...extractTableNames(doc).filter((name) => !names.includes(name)),
+  ].map((name) => ({
+    label: name,
+    type: 'class',
+    detail: 'Table',
+  }));
+
+  // `posts.user_id >` is most likely followed by `users.id`
+  const sourceColumn = refSource?.split('.').pop();
+  const sourceTable = refSource?.split('.').slice(0, -1).join('.');
+  const targets = sourceColumn ? foreignKeyTargets(schema, sourceColumn, sourceTable) : [];
+  return [
+    ...targets.map(({ table, key }) => ({
+      label: `${getQualifiedTableName(table)}.${key.name}`,
+      type: 'variable',
+      detail: `${sourceColumn} → ${getQualifiedTableName(table)}.${key.name}`,
+      boost: 10,
+    })),
+    ...tables,
+  ];
+}
+
+// Columns that would reference another table's key, e.g. `user_id int [ref: > users.id]`
+function foreignKeyColumnCompletions(schema: DbmlCompletionSchema, ownTable?: string): Completion[] {
+  return schema.tables.flatMap((table) => {
+    const key = primaryKeyOf(table);
+    if (!key || getQualifiedTableName(table) === ownTable) return [];
+    const target = `${getQualifiedTableName(table)}.${key.name}`;
+    const name = `${singular(table.name)}_${key.name}`;
+    return [{
+      label: name,
+      type: 'property',
+      detail: `→ ${target}`,
+      info: `Foreign key to ${target}`,
+      apply: `${name} ${referencingType(key)} [ref: > ${target}]`,
+    }];
+  });
+}
+
+function foreignKeyRefCompletions(schema: DbmlCompletionSchema, columnName?: string, ownTable?: string): Completion[] {
+  if (!columnName) return [];
+  return foreignKeyTargets(schema, columnName, ownTable).map(({ table, key }) => {
+    const target = `${getQualifiedTableName(table)}.${key.name}`;
+    return {
+      label: `ref: > ${target}`,
+      type: 'keyword',
+      detail: `${columnName} → ${target}`,
+      boost: 10,
+    };
+  });
+}
+
+const enumCompletions = (schema: DbmlCompletionSchema): Completion[] =>
+  schema.enums.map((e) => ({
+    label: getQualifiedTableName(e),
+    type: 'enum',
+    detail: 'Enum',
+    info: e.values.map((v) => v.name).join(', '),
+    boost: 1,
+  }));
+
+const EMPTY_SCHEMA: DbmlCompletionSchema = { tables: [], enums: [] };
+
 // Main completion function
-function dbmlCompletions(context: CompletionContext): CompletionResult | null {
+function dbmlCompletions(
+  context: CompletionContext,
+  dialect: SQLDialect | undefined,
+  schema: DbmlCompletionSchema = EMPTY_SCHEMA
+): CompletionResult | null {
   const word = context.matchBefore(/\w*/);
-  if (!word || (word.from === word.to && !context.explicit)) {
+  const afterDot = context.matchBefore(/\.$/) !== null;
+  if (!word || (word.from === word.to && !context.explicit && !afterDot)) {
     return null;
   }
-  
+
   const doc = context.state.doc.toString();
   const pos = context.pos;
   const ctx = getContextAtCursor(doc, pos);
-  
+
   let completions: Completion[] = [];
-  
+
   switch (ctx.context) {
     case 'table-name':
       // No specific completions for table names (user types freely)
       completions = [];
       break;
-      
+
     case 'field-name':
-      // Field names are user-defined, no autocomplete
-      completions = [];
+      // Field names are user-defined; only suggest foreign keys to other tables
+      completions = foreignKeyColumnCompletions(schema, ctx.tableName);
       break;
-      
+
     case 'field-type':
-      // Suggest data types
-      completions = DATA_TYPES;
+      // Suggest the schema's enums, then data types
+      completions = [...enumCompletions(schema), ...dataTypesFor(dialect)];
       break;
-      
+
     case 'modifier':
-      // Suggest modifiers
-      completions = MODIFIERS;
+      // Suggest modifiers, and a ref when the column looks like a foreign key
+      completions = [...foreignKeyRefCompletions(schema, ctx.columnName, ctx.tableName), ...MODIFIERS];
       break;
-      
+
     case 'ref-table':
-      // Suggest existing table names
-      const tableNames = extractTableNames(doc);
-      completions = tableNames.map(name => ({
-        label: name,
-        type: 'variable',
-        detail: 'Table',
-        info: `Reference table: ${name}`,
-      }));
+      completions = tableCompletions(schema, doc, ctx.refSource);
       break;
-      
+
     case 'ref-field':
-      // Extract field names from the referenced table
-      const refTableMatch = context.state.doc.toString().substring(0, pos).match(/(\w+)\.\w*$/);
-      if (refTableMatch) {
-        const tableName = refTableMatch[1];
-        const fields = extractFieldNames(doc, tableName);
-        completions = fields.map(field => ({
-          label: field,
-          type: 'property',
-          detail: 'Field',
-          info: `Field in ${tableName}`,
-        }));
-      } else {
-        completions = DATA_TYPES;
-      }
+      completions = columnCompletions(schema, doc, ctx.tableName!);
       break;
-      
+
     case 'snippet':
     default:
       // Show snippets and common keywords
-      completions = [...SNIPPETS, ...DATA_TYPES.slice(0, 10)];
+      completions = [...SNIPPETS, ...dataTypesFor(dialect).slice(0, 10)];
       break;
   }
-  
+
   if (completions.length === 0) {
     return null;
   }
-  
+
   return {
     from: word.from,
     options: completions,
@@ -251,10 +422,15 @@ function dbmlCompletions(context: CompletionContext): CompletionResult | null {
   };
 }
 
-// Export the autocomplete extension
-export function dbmlAutocomplete() {
+// Export the autocomplete extension. `getDialect` returns the project's
+// database_type and `getSchema` the last parsed schema, both read on every
+// completion so they can change while editing.
+export function dbmlAutocomplete(
+  getDialect: () => SQLDialect | undefined = () => undefined,
+  getSchema: () => DbmlCompletionSchema | undefined = () => undefined
+) {
   return autocompletion({
-    override: [dbmlCompletions],
+    override: [(context) => dbmlCompletions(context, getDialect(), getSchema())],
     activateOnTyping: true,
     defaultKeymap: true,
     aboveCursor: false,
@@ -0,0 +1,213 @@
+import { hoverTooltip } from '@codemirror/view';
+import { indexDbmlSymbols, occurrenceAt } from '@/lib/dbml/dbml-symbols';
+import { refNotation } from '@/lib/dbml/dbml-serializer';
+import {
+  generateColumnSQL,
+  generateEnumTypesSQL,
+  generateTableSQL,
+} from '@/features/schema/utils/sql-generator.utils';
+import {
+  formatColumnTypeLabel,
+  getQualifiedTableName,
+  getRelationshipColumnIds,
+} from '@/features/schema/utils/schema.utils';
+import type { Column, Enum, Relationship, Table } from '@/features/schema/types/schema.types';
+import type { SQLDialect } from '@/constants/schema';
+
+/** The schema hover cards describe */
+export interface DbmlHoverSchema {
+  tables: Table[];
+  relationships: Relationship[];
+  enums: Enum[];
+}
+
+const DEFAULT_DIALECT: SQLDialect = 'postgresql';
+
+// Same form as the symbols in the DBML index: the schema is left out for `public`
+const tableSymbol = (table: Table) =>
+  table.namespace && table.namespace !== 'public' ? `${table.namespace}.${table.name}` : table.name;
+
+function el(tag: string, className: string, text?: string): HTMLElement {
+  const node = document.createElement(tag);
+  node.className = className;
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+function section(title: string, ...children: HTMLElement[]): HTMLElement {
+  const node = el('div', 'cm-dbmlHover-section');
+  node.append(el('div', 'cm-dbmlHover-title', title), ...children);
+  return node;
+}
+
+const typeLabel = (column: Column, enums: Enum[]) => {
+  const enumDef = column.type === 'enum' ? enums.find((e) => e.id === column.enumId) : undefined;
+  return enumDef ? getQualifiedTableName(enumDef) : formatColumnTypeLabel(column);
+};
+
+interface RefSide {
+  tableId: string;
+  columnIds: string[];
+}
+
+/**
+ * The side of a relationship holding the foreign key and the side it points
+ * at. One-to-many relationships store the "one" side as their source.
+ */
+function foreignKeyOf(relationship: Relationship, tables: Table[]): { from: RefSide; to: RefSide; notation: string } {
+  const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(relationship);
+  const source = { tableId: relationship.sourceTableId, columnIds: sourceColumnIds };
+  const target = { tableId: relationship.targetTableId, columnIds: targetColumnIds };
+  const isPrimaryKey = (side: RefSide) =>
+    tables.find((t) => t.id === side.tableId)?.columns.find((c) => c.id === side.columnIds[0])?.primaryKey ?? false;
+
+  let sourceIsForeignKey = relationship.type !== 'one-to-many' && relationship.type !== 'zero-to-many';
+  if (relationship.type === 'one-to-one' || relationship.type === 'zero-to-one') {
+    const targetIsKey = isPrimaryKey(target);
+    // An inline ref is written on its foreign key, which @dbml/core lists second
+    sourceIsForeignKey = isPrimaryKey(source) !== targetIsKey ? targetIsKey : !relationship.isInline;
+  }
+  const notation = refNotation(relationship.type);
+  return sourceIsForeignKey
+    ? { from: source, to: target, notation }
+    : { from: target, to: source, notation: notation === '<' ? '>' : notation === '>' ? '<' : notation };
+}
+
+/** `pk`, `unique`, `not null` and the rest, as written in DBML column settings */
+function constraintsOf(column: Column, table: Table, schema: DbmlHoverSchema): string[] {
+  const isForeignKey = schema.relationships.some((r) => {
+    const { from } = foreignKeyOf(r, schema.tables);
+    return from.tableId === table.id && from.columnIds.includes(column.id);
+  });
+  return [
+    column.primaryKey && 'pk',
+    isForeignKey && 'fk',
+    column.unique && !column.primaryKey && 'unique',
+    !column.nullable && !column.primaryKey && 'not null',
+    column.increment && 'increment',
+    column.defaultValue && `default: ${column.defaultValue}`,
+  ].filter((c): c is string => Boolean(c));
+}
+
+/** A relationship as a DBML ref from its foreign key, e.g. `posts.user_id > users.id` */
+function refLabel(relationship: Relationship, tables: Table[]): string {
+  const { from, to, notation } = foreignKeyOf(relationship, tables);
+  const side = ({ tableId, columnIds }: RefSide) => {
+    const table = tables.find((t) => t.id === tableId);
+    const names = columnIds.map((id) => table?.columns.find((c) => c.id === id)?.name ?? '?');
+    return `${table ? tableSymbol(table) : '?'}.${names.length > 1 ? `(${names.join(', ')})` : names[0]}`;
+  };
+  return `${side(from)} ${notation} ${side(to)}`;
+}
+
+/** Refs this table or column makes to others, and refs others make to it */
+function relationshipSections(
+  table: Table,
+  columnId: string | null,
+  schema: DbmlHoverSchema
+): HTMLElement[] {
+  const involves = ({ tableId, columnIds }: RefSide) =>
+    tableId === table.id && (columnId === null || columnIds.includes(columnId));
+  const list = (relationships: Relationship[]) => {
+    const node = el('div', '');
+    relationships.forEach((r) => node.append(el('div', 'cm-dbmlHover-ref', refLabel(r, schema.tables))));
+    return node;
+  };
+
+  const outgoing = schema.relationships.filter((r) => involves(foreignKeyOf(r, schema.tables).from));
+  const incoming = schema.relationships.filter((r) => involves(foreignKeyOf(r, schema.tables).to));
+  return [
+    ...(outgoing.length > 0 ? [section('References', list(outgoing))] : []),
+    ...(incoming.length > 0 ? [section('Referenced by', list(incoming))] : []),
+  ];
+}
+
+function tableCard(table: Table, schema: DbmlHoverSchema, dialect: SQLDialect): HTMLElement {
+  const card = el('div', 'cm-dbmlHover');
+  const header = el('div', 'cm-dbmlHover-header');
+  header.append(el('span', 'cm-dbmlHover-kind', 'Table'), el('span', 'cm-dbmlHover-name', tableSymbol(table)));
+  if (table.alias) header.append(el('span', 'cm-dbmlHover-muted', `as ${table.alias}`));
+  card.append(header);
+
+  if (table.note) card.append(el('div', 'cm-dbmlHover-note', table.note));
+
+  const columns = el('div', 'cm-dbmlHover-columns');
+  table.columns.forEach((column) => {
+    columns.append(
+      el('span', '', column.name),
+      el('span', 'cm-dbmlHover-type', typeLabel(column, schema.enums)),
+      el('span', 'cm-dbmlHover-muted', constraintsOf(column, table, schema).join(', '))
+    );
+  });
+  card.append(section(`Columns (${table.columns.length})`, columns));
+
+  const indexes = (table.indexes ?? []).map((index) => {
+    const names = index.columnIds.map((id) => table.columns.find((c) => c.id === id)?.name ?? '?');
+    const settings = [index.unique && 'unique', index.type && `type: ${index.type}`, index.name && `name: '${index.name}'`]
+      .filter(Boolean)
+      .join(', ');
+    return el('div', 'cm-dbmlHover-ref', `(${names.join(', ')})${settings ? ` [${settings}]` : ''}`);
+  });
+  if (indexes.length > 0) card.append(section('Indexes', ...indexes));
+
+  card.append(...relationshipSections(table, null, schema));
+
+  // The enum types the table uses come first, so the statement runs on its own
+  const usedEnums = schema.enums.filter((e) => table.columns.some((c) => c.type === 'enum' && c.enumId === e.id));
+  const sql = generateEnumTypesSQL(usedEnums, dialect) + generateTableSQL(table, { dialect, enums: schema.enums });
+  card.append(section('SQL', el('pre', 'cm-dbmlHover-sql', sql.trimEnd())));
+  return card;
+}
+
+function columnCard(table: Table, column: Column, schema: DbmlHoverSchema, dialect: SQLDialect): HTMLElement {
+  const card = el('div', 'cm-dbmlHover');
+  const header = el('div', 'cm-dbmlHover-header');
+  header.append(
+    el('span', 'cm-dbmlHover-kind', 'Column'),
+    el('span', 'cm-dbmlHover-name', `${tableSymbol(table)}.${column.name}`),
+    el('span', 'cm-dbmlHover-type', typeLabel(column, schema.enums))
+  );
+  card.append(header);
+
+  const constraints = constraintsOf(column, table, schema);
+  if (constraints.length > 0) card.append(el('div', 'cm-dbmlHover-muted', constraints.join(', ')));
+  if (column.note) card.append(el('div', 'cm-dbmlHover-note', column.note));
+
+  card.append(...relationshipSections(table, column.id, schema));
+  card.append(section('SQL', el('pre', 'cm-dbmlHover-sql', generateColumnSQL(column, dialect, schema.enums).trim())));
+  return card;
+}
+
+/**
+ * Shows a card for the table or column under the mouse: its columns and
+ * constraints, the refs to and from it, its note and the SQL it generates for
+ * the project's dialect. Names are looked up in the schema as last applied,
+ * so nothing is shown for a table or column that has only just been typed.
+ */
+export function dbmlHover(
+  getSchema: () => DbmlHoverSchema | undefined,
+  getDialect: () => SQLDialect | undefined
+) {
+  return hoverTooltip((view, pos) => {
+    const schema = getSchema();
+    const index = schema && indexDbmlSymbols(view.state.doc.toString());
+    const occurrence = index && occurrenceAt(index, pos);
+    if (!schema || !occurrence) return null;
+
+    const symbol =
+      occurrence.kind === 'table'
+        ? occurrence.symbol
+        : occurrence.symbol.slice(0, occurrence.symbol.length - occurrence.name.length - 1);
+    const table = schema.tables.find((t) => tableSymbol(t) === symbol);
+    const column = occurrence.kind === 'column' ? table?.columns.find((c) => c.name === occurrence.name) : undefined;
+    if (!table || (occurrence.kind === 'column' && !column)) return null;
+
+    const dialect = getDialect() ?? DEFAULT_DIALECT;
+    return {
+      pos: occurrence.from,
+      end: occurrence.to,
+      above: true,
+      create: () => ({ dom: column ? columnCard(table, column, schema, dialect) : tableCard(table, schema, dialect) }),
+    };
+  });
+}
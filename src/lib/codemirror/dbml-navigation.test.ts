@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { EditorState, type TransactionSpec } from '@codemirror/state';
+import type { EditorView } from '@codemirror/view';
+import { goToDefinition, symbolAt } from './dbml-navigation';
+
+const SHOP = `Table sales.orders as O {
+  id integer [pk]
+  "customer id" integer
+  indexes {
+    "customer id"
+  }
+}
+
+Table "order items" {
+  order_id integer
+}
+
+Ref: "order items".order_id > O.id
+
+TableGroup shop {
+  sales.orders
+  "order items"
+}`;
+
+// Just enough of a view for navigation: its state, updated by dispatch
+function fakeView(doc: string) {
+  const view = {
+    state: EditorState.create({ doc }),
+    dispatch(spec: TransactionSpec) {
+      view.state = view.state.update(spec).state;
+    },
+    focus() {},
+  };
+  return view as unknown as EditorView;
+}
+
+const selected = (view: EditorView) => view.state.sliceDoc(view.state.selection.main.from, view.state.selection.main.to);
+
+describe('symbolAt', () => {
+  it('finds the table or column at a position', () => {
+    const view = fakeView(SHOP);
+
+    expect(symbolAt(view, SHOP.indexOf('O.id'))?.occurrence).toMatchObject({ kind: 'table', symbol: 'sales.orders', viaAlias: true });
+    expect(symbolAt(view, SHOP.indexOf('O.id') + 2)?.occurrence).toMatchObject({ kind: 'column', symbol: 'sales.orders.id' });
+    expect(symbolAt(view, SHOP.indexOf('TableGroup'))).toBeNull();
+  });
+});
+
+describe('goToDefinition', () => {
+  it('selects the definition of a table named through its alias', () => {
+    const view = fakeView(SHOP);
+
+    expect(goToDefinition(view, SHOP.indexOf('O.id'))).toBe(true);
+    expect(view.state.selection.main.from).toBe(SHOP.indexOf('orders'));
+    expect(selected(view)).toBe('orders');
+  });
+
+  it('selects the definition of a quoted table from its table group', () => {
+    const view = fakeView(SHOP);
+
+    expect(goToDefinition(view, SHOP.lastIndexOf('"order items"') + 1)).toBe(true);
+    expect(view.state.selection.main.from).toBe(SHOP.indexOf('"order items"'));
+    expect(selected(view)).toBe('"order items"');
+  });
+
+  it('selects the definition of a quoted column from an index', () => {
+    const view = fakeView(SHOP);
+
+    expect(goToDefinition(view, SHOP.lastIndexOf('"customer id"') + 1)).toBe(true);
+    expect(view.state.selection.main.from).toBe(SHOP.indexOf('"customer id"'));
+  });
+
+  it('selects the definition of a column named in a ref, from the cursor by default', () => {
+    const view = fakeView(SHOP);
+    view.dispatch({ selection: { anchor: SHOP.indexOf('order_id >') } });
+
+    expect(goToDefinition(view)).toBe(true);
+    expect(view.state.selection.main.from).toBe(SHOP.indexOf('order_id integer'));
+    expect(selected(view)).toBe('order_id');
+  });
+
+  it('does nothing away from a name, or when the document does not parse', () => {
+    const view = fakeView(SHOP);
+
+    expect(goToDefinition(view, SHOP.indexOf('integer'))).toBe(false);
+    expect(goToDefinition(fakeView(SHOP.replace('Ref:', 'Ref')), SHOP.indexOf('O.id'))).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { EditorSelection } from '@codemirror/state';
+import { EditorView, keymap } from '@codemirror/view';
+import {
+  definitionOf,
+  indexDbmlSymbols,
+  occurrenceAt,
+  type DbmlOccurrence,
+  type DbmlSymbolIndex,
+} from '@/lib/dbml/dbml-symbols';
+
+/** The table or column named at `pos`, with the index it was found in */
+export function symbolAt(view: EditorView, pos: number): { index: DbmlSymbolIndex; occurrence: DbmlOccurrence } | null {
+  const index = indexDbmlSymbols(view.state.doc.toString());
+  const occurrence = index && occurrenceAt(index, pos);
+  return index && occurrence ? { index, occurrence } : null;
+}
+
+/** Selects the name of the table or column at `pos` where it is defined */
+export function goToDefinition(view: EditorView, pos = view.state.selection.main.head): boolean {
+  const found = symbolAt(view, pos);
+  const definition = found && definitionOf(found.index, found.occurrence.symbol);
+  if (!definition) return false;
+  view.dispatch({
+    selection: EditorSelection.single(definition.from, definition.to),
+    effects: EditorView.scrollIntoView(definition.from, { y: 'center' }),
+    userEvent: 'select',
+  });
+  view.focus();
+  return true;
+}
+
+interface NavigationHandlers {
+  /** Shift+F12 on a table or column */
+  onFindReferences: (view: EditorView) => boolean;
+  /** F2 on a table or column */
+  onRename: (view: EditorView) => boolean;
+}
+
+/**
+ * F12 or Ctrl/Cmd+click jumps to the definition of the table or column under
+ * the cursor; Shift+F12 and F2 hand over to the editor's references panel and
+ * rename prompt.
+ */
+export function dbmlNavigation(handlers: NavigationHandlers) {
+  return [
+    keymap.of([
+      { key: 'F12', run: (view) => goToDefinition(view) },
+      { key: 'Shift-F12', run: handlers.onFindReferences },
+      { key: 'F2', run: handlers.onRename },
+    ]),
+    EditorView.domEventHandlers({
+      mousedown: (event, view) => {
+        if (!(event.ctrlKey || event.metaKey) || event.button !== 0) return false;
+        const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+        if (pos === null || !goToDefinition(view, pos)) return false;
+        event.preventDefault();
+        return true;
+      },
+    }),
+  ];
+}
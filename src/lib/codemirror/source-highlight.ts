@@ -0,0 +1,54 @@
+import { RangeSetBuilder, StateEffect, StateField, type Text } from '@codemirror/state';
+import { Decoration, EditorView, type DecorationSet } from '@codemirror/view';
+import type { SourceRange } from '@/lib/dbml/dbml-source-map';
+
+/** Highlights the lines of one block, e.g. the table selected on the canvas; null clears it */
+export const setSourceHighlight = StateEffect.define<SourceRange | null>();
+
+const highlightLine = Decoration.line({ class: 'cm-sourceHighlight' });
+
+function lineDecorations(doc: Text, range: SourceRange): DecorationSet {
+  const builder = new RangeSetBuilder<Decoration>();
+  const from = doc.lineAt(Math.min(range.from, doc.length)).number;
+  const to = doc.lineAt(Math.min(range.to, doc.length)).number;
+  for (let n = from; n <= to; n++) {
+    const line = doc.line(n);
+    builder.add(line.from, line.from, highlightLine);
+  }
+  return builder.finish();
+}
+
+const sourceHighlightField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(decorations, tr) {
+    let next = decorations.map(tr.changes);
+    for (const effect of tr.effects) {
+      if (effect.is(setSourceHighlight)) {
+        next = effect.value ? lineDecorations(tr.state.doc, effect.value) : Decoration.none;
+      }
+    }
+    return next;
+  },
+  provide: (field) => EditorView.decorations.from(field),
+});
+
+export function sourceHighlight() {
+  return sourceHighlightField;
+}
+
+/**
+ * Highlights `range`, scrolling it into view if asked to, unless the cursor is
+ * already inside it: then the user put it there and the view stays put.
+ */
+export function showSourceHighlight(view: EditorView, range: SourceRange | null, scroll = false) {
+  const cursor = view.state.selection.main.head;
+  const shouldScroll = scroll && range && (cursor < range.from || cursor > range.to);
+  view.dispatch({
+    effects: [
+      setSourceHighlight.of(range),
+      ...(shouldScroll
+        ? [EditorView.scrollIntoView(Math.min(range.from, view.state.doc.length), { y: 'start', yMargin: 40 })]
+        : []),
+    ],
+  });
+}
@@ -11,6 +11,8 @@ const darkColors = {
   fg: '#d4d4d4',
   fgSecondary: '#858585',
   lineHighlight: '#2a2d2e',
+  sourceHighlight: '#569cd61f',
+  sourceHighlightBorder: '#569cd6',
   selection: '#264f78',
   selectionHighlight: '#264f7880',
   cursor: '#aeafad',
@@ -53,6 +55,8 @@ const lightColors = {
   fg: '#333333',
   fgSecondary: '#999999',
   lineHighlight: '#e4e6f1',
+  sourceHighlight: '#0066b814',
+  sourceHighlightBorder: '#0066b8',
   selection: '#add6ff',
   selectionHighlight: '#add6ff80',
   cursor: '#000000',
@@ -132,6 +136,10 @@ function createTheme(colors: typeof darkColors | typeof lightColors) {
     '.cm-activeLine': {
       backgroundColor: colors.lineHighlight,
     },
+    '.cm-sourceHighlight': {
+      backgroundColor: colors.sourceHighlight,
+      boxShadow: `inset 2px 0 0 ${colors.sourceHighlightBorder}`,
+    },
     '.cm-foldPlaceholder': {
       backgroundColor: 'transparent',
       border: 'none',
@@ -167,6 +175,61 @@ function createTheme(colors: typeof darkColors | typeof lightColors) {
         color: colors.fg,
       },
     },
+    '.cm-dbmlHover': {
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '6px',
+      maxWidth: '460px',
+      maxHeight: '360px',
+      overflowY: 'auto',
+      padding: '8px 10px',
+      fontSize: '12px',
+    },
+    '.cm-dbmlHover-header': {
+      display: 'flex',
+      alignItems: 'baseline',
+      gap: '6px',
+    },
+    '.cm-dbmlHover-kind': {
+      color: colors.keyword,
+    },
+    '.cm-dbmlHover-name': {
+      fontWeight: '600',
+    },
+    '.cm-dbmlHover-type': {
+      color: colors.type,
+    },
+    '.cm-dbmlHover-muted': {
+      color: colors.fgSecondary,
+    },
+    '.cm-dbmlHover-note': {
+      color: colors.comment,
+      whiteSpace: 'pre-wrap',
+    },
+    '.cm-dbmlHover-section': {
+      borderTop: `1px solid ${colors.bgTertiary}`,
+      paddingTop: '6px',
+    },
+    '.cm-dbmlHover-title': {
+      marginBottom: '2px',
+      color: colors.fgSecondary,
+      fontSize: '10px',
+      textTransform: 'uppercase',
+      letterSpacing: '0.05em',
+    },
+    '.cm-dbmlHover-columns': {
+      display: 'grid',
+      gridTemplateColumns: 'auto auto 1fr',
+      columnGap: '10px',
+    },
+    '.cm-dbmlHover-sql': {
+      margin: '0',
+      padding: '6px 8px',
+      borderRadius: '4px',
+      backgroundColor: colors.bg,
+      whiteSpace: 'pre',
+      overflowX: 'auto',
+    },
     '.cm-diagnostic': {
       '&.cm-diagnostic-error': {
         borderColor: '#f44747',
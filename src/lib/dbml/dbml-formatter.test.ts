@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DBML_FORMAT_OPTIONS, formatDbml, formatDbmlChanges, type DbmlFormatOptions } from './dbml-formatter';
+import { parseDbml } from './dbml-parser';
+
+const MESSY = `// Shop schema
+Project shop{
+database_type:'PostgreSQL'
+}
+
+
+enum sales.status{
+  pending
+    shipped [note:'on its way']
+}
+Table sales.orders  as O{
+id integer [increment,pk]  // surrogate key
+  region   varchar(2) [not null,default:'EU' , pk]
+        status sales.status
+total decimal(10, 2) [note: 'incl. tax', not null]
+  /* legacy column */ legacy_code text
+  note:'''
+  Orders placed
+    on the web'''
+}
+
+Table "order items"{
+  order_id integer [ref:>O.id]
+  order_region varchar(2)
+  sku varchar [unique,not null]
+  indexes {
+    ( order_id,sku ) [unique, name:'order_sku']
+  }
+}
+Ref:"order items".(order_id,order_region)>sales.orders.(id,region) [delete:cascade]
+
+TableGroup  shop{
+sales.orders
+"order items"
+}
+`;
+
+const OPTIONS: DbmlFormatOptions[] = [
+  DEFAULT_DBML_FORMAT_OPTIONS,
+  { indent: 4, alignColumns: false, sortSettings: false },
+  { indent: 'tab', alignColumns: true, sortSettings: false },
+];
+
+// The text with the changes applied, last change first so earlier offsets stay valid
+const apply = (text: string, changes: { from: number; to: number; insert: string }[]) =>
+  [...changes].sort((a, b) => b.from - a.from).reduce((result, change) => result.slice(0, change.from) + change.insert + result.slice(change.to), text);
+
+// The parsed schema without IDs and layout, naming the tables and columns it refers to, so two parses compare equal
+function parsedShape(text: string) {
+  const result = parseDbml(text, [], []);
+  expect(result.errors).toEqual([]);
+  const names = new Map<string, string>();
+  result.tables.forEach(table => {
+    names.set(table.id, table.name);
+    table.columns.forEach(column => names.set(column.id, `${table.name}.${column.name}`));
+  });
+  result.enums.forEach(enumDef => names.set(enumDef.id, enumDef.name));
+  // Column handles are the column's ID with the side it is drawn on
+  const rename = (value: string) => {
+    const [, id, side = ''] = /^([^]*?)(-left|-right)?$/.exec(value)!;
+    return names.has(id) ? names.get(id) + side : value;
+  };
+  const { tables, relationships, enums, groups, notes, project } = result;
+  return JSON.parse(
+    JSON.stringify({ tables, relationships, enums, groups, notes, project }, (key, value) =>
+      ['id', 'position', 'width', 'height'].includes(key) ? undefined : typeof value === 'string' ? rename(value) : value
+    )
+  );
+}
+
+describe('formatDbml', () => {
+  it('formats a schema the way the canvas writes it', () => {
+    expect(formatDbml(MESSY)).toBe(`// Shop schema
+Project shop {
+  database_type: 'PostgreSQL'
+}
+
+enum sales.status {
+  pending
+  shipped [note: 'on its way']
+}
+Table sales.orders as O {
+  id     integer       [pk, increment]               // surrogate key
+  region varchar(2)    [pk, not null, default: 'EU']
+  status sales.status
+  total  decimal(10,2) [not null, note: 'incl. tax']
+  /* legacy column */ legacy_code text
+  note:'''
+  Orders placed
+    on the web'''
+}
+
+Table "order items" {
+  order_id     integer    [ref: > O.id]
+  order_region varchar(2)
+  sku          varchar    [not null, unique]
+  indexes {
+    (order_id, sku) [unique, name: 'order_sku']
+  }
+}
+Ref: "order items".(order_id, order_region) > sales.orders.(id, region) [delete: cascade]
+
+TableGroup shop {
+  sales.orders
+  "order items"
+}
+`);
+  });
+
+  it.each(OPTIONS)('leaves formatted text as it is (%o)', options => {
+    const formatted = formatDbml(MESSY, options);
+
+    expect(formatDbml(formatted, options)).toBe(formatted);
+    expect(formatDbmlChanges(formatted, options)).toEqual([]);
+  });
+
+  it('keeps line, trailing and block comments', () => {
+    const text = '/* header\n   spanning lines */\nTable users{\n  // the key\n  id integer [pk] // surrogate\n  /* inline */ name varchar\n}';
+    const formatted = formatDbml(text);
+
+    expect(formatted).toContain('/* header\n   spanning lines */');
+    expect(formatted).toContain('  // the key\n');
+    expect(formatted).toContain('  id integer [pk] // surrogate\n');
+    expect(formatted).toContain('  /* inline */ name varchar\n');
+  });
+
+  it('keeps comment markers inside strings', () => {
+    const formatted = formatDbml("Table users {\n  url varchar [default:'http://example.com']\n}");
+
+    expect(formatted).toBe("Table users {\n  url varchar [default: 'http://example.com']\n}");
+  });
+
+  it.each(OPTIONS)('does not change the parsed schema (%o)', options => {
+    expect(parsedShape(formatDbml(MESSY, options))).toEqual(parsedShape(MESSY));
+  });
+});
+
+describe('formatDbmlChanges', () => {
+  it.each(OPTIONS)('gives the formatted text when applied (%o)', options => {
+    expect(apply(MESSY, formatDbmlChanges(MESSY, options))).toBe(formatDbml(MESSY, options));
+  });
+
+  it('gives the formatted text when blank lines lead, trail or repeat', () => {
+    const text = '\n\nTable users {\n\n\n  id integer\n}\n\n\n';
+
+    expect(apply(text, formatDbmlChanges(text))).toBe(formatDbml(text));
+    expect(formatDbml(text)).toBe('Table users {\n\n  id integer\n}\n');
+  });
+
+  it('leaves the text between edits alone', () => {
+    const text = 'Table users {\n  id   integer [pk]\n}';
+
+    expect(formatDbmlChanges(text)).toEqual([{ from: text.indexOf('   integer') + 1, to: text.indexOf('   integer') + 3, insert: '' }]);
+  });
+});
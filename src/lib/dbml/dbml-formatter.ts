@@ -0,0 +1,359 @@
+import type { DbmlTextChange } from '@/lib/dbml/dbml-lint';
+
+export interface DbmlFormatOptions {
+  /** Spaces per nesting level, or a tab */
+  indent: 2 | 4 | 'tab';
+  /** Line up the names, types, settings and trailing comments of a table's columns */
+  alignColumns: boolean;
+  /** Put column and index settings in the order the canvas writes them: pk, increment, not null, unique, default, note, ref */
+  sortSettings: boolean;
+}
+
+export const DEFAULT_DBML_FORMAT_OPTIONS: DbmlFormatOptions = {
+  indent: 2,
+  alignColumns: true,
+  sortSettings: true,
+};
+
+// Unknown settings, e.g. `check`, keep their order after these
+const SETTING_ORDER = [
+  'pk',
+  'primary key',
+  'increment',
+  'not null',
+  'null',
+  'unique',
+  'name',
+  'type',
+  'default',
+  'note',
+  'ref',
+  'delete',
+  'update',
+];
+
+// Marks a string taken out of a line while it is normalized, e.g. \u0001 3 \u0001
+const PLACEHOLDER = /\u0001(\d+)\u0001/g;
+
+interface ScannedLine {
+  /** The line up to a `//` comment, with strings replaced by placeholders */
+  code: string;
+  strings: string[];
+  comment: string | null;
+  /** Braces outside strings and comments, in order */
+  braces: string;
+  /** Delimiter of a multi-line string or block comment still open at the end of the line */
+  open: "'''" | '*/' | null;
+  hasBlockComment: boolean;
+}
+
+/** Splits a line into code, strings and a trailing comment */
+function scanLine(line: string): ScannedLine {
+  const strings: string[] = [];
+  let code = '';
+  let braces = '';
+  let hasBlockComment = false;
+  let i = 0;
+  while (i < line.length) {
+    const char = line[i];
+    if (line.startsWith('//', i)) {
+      return { code, strings, comment: line.slice(i).trimEnd(), braces, open: null, hasBlockComment };
+    }
+    if (line.startsWith('/*', i)) {
+      hasBlockComment = true;
+      const end = line.indexOf('*/', i + 2);
+      if (end === -1) return { code, strings, comment: null, braces, open: '*/', hasBlockComment };
+      code += line.slice(i, end + 2);
+      i = end + 2;
+      continue;
+    }
+    if (line.startsWith("'''", i)) {
+      const end = line.indexOf("'''", i + 3);
+      if (end === -1) return { code, strings, comment: null, braces, open: "'''", hasBlockComment };
+      code += `\u0001${strings.push(line.slice(i, end + 3)) - 1}\u0001`;
+      i = end + 3;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === '`') {
+      // Unterminated strings run to the end of the line, which @dbml/core reports
+      let end = i + 1;
+      while (end < line.length && line[end] !== char) end += line[end] === '\\' ? 2 : 1;
+      code += `\u0001${strings.push(line.slice(i, end + 1)) - 1}\u0001`;
+      i = end + 1;
+      continue;
+    }
+    if (char === '{' || char === '}') braces += char;
+    code += char;
+    i++;
+  }
+  return { code, strings, comment: null, braces, open: null, hasBlockComment };
+}
+
+const restore = (code: string, strings: string[]) => code.replace(PLACEHOLDER, (_, i) => strings[Number(i)]);
+
+/**
+ * Normalizes the spacing of a line's code: single spaces between words,
+ * `key: value`, `a, b`, `Table name {` and `type [settings]`. Type arguments
+ * such as `decimal(10,2)` keep their commas tight.
+ */
+function normalizeCode(code: string): string {
+  const spaced = code
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\s*:\s*/g, ': ')
+    .replace(/([[(])\s+/g, '$1')
+    .replace(/\s+([\])])/g, '$1')
+    .replace(/(\S)\{/g, '$1 {')
+    .replace(/(\S)\[(?!\])/g, '$1 [')
+    .trimEnd();
+
+  // Commas in type arguments, i.e. parentheses right after a word, stay tight
+  let result = '';
+  const tightParens: boolean[] = [];
+  for (let i = 0; i < spaced.length; i++) {
+    const char = spaced[i];
+    if (char === '(') tightParens.push(/[\w\u0001]/.test(spaced[i - 1] ?? ''));
+    if (char === ')') tightParens.pop();
+    if (char === ',') {
+      result = result.trimEnd() + (tightParens[tightParens.length - 1] ? ',' : ', ');
+      while (spaced[i + 1] === ' ') i++;
+      continue;
+    }
+    result += char;
+  }
+  return result.trimEnd();
+}
+
+/**
+ * Spaces ref operators: `ref: > users.id` in column settings and, on the lines
+ * of standalone refs, `posts.user_id > users.id`.
+ */
+function spaceRefOperators(code: string, isRefLine: boolean): string {
+  const spaced = code.replace(/\bref: (<>|[<>-]) ?/gi, 'ref: $1 ');
+  if (!isRefLine) return spaced;
+  const settings = spaced.endsWith(']') ? spaced.lastIndexOf(' [') : -1;
+  const end = settings === -1 ? spaced.length : settings;
+  const start = /^ref\b[^:]*: /i.exec(spaced)?.[0].length ?? 0;
+  return spaced.slice(0, start) + spaced.slice(start, end).replace(/ ?(<>|[<>-]) ?/g, ' $1 ') + spaced.slice(end);
+}
+
+/** Splits `[a, b: c]` into its settings, leaving commas in nested parentheses alone */
+function splitSettings(inner: string): string[] {
+  const settings: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of inner) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (char === ',' && depth === 0) {
+      settings.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) settings.push(current.trim());
+  return settings;
+}
+
+const settingRank = (setting: string) => {
+  const key = setting.split(':')[0].trim().toLowerCase().replace(/\s+/g, ' ');
+  const rank = SETTING_ORDER.indexOf(key);
+  return rank === -1 ? SETTING_ORDER.length : rank;
+};
+
+/** `[...]` at the end of a line, with its settings in canonical order */
+function sortTrailingSettings(code: string): string {
+  const open = code.lastIndexOf(' [');
+  if (open === -1 || !code.endsWith(']')) return code;
+  const settings = splitSettings(code.slice(open + 2, -1));
+  const sorted = settings
+    .map((setting, i) => ({ setting, i }))
+    .sort((a, b) => settingRank(a.setting) - settingRank(b.setting) || a.i - b.i)
+    .map(({ setting }) => setting);
+  return `${code.slice(0, open)} [${sorted.join(', ')}]`;
+}
+
+interface ColumnParts {
+  name: string;
+  type: string;
+  settings: string;
+}
+
+/** `name type [settings]`, or null when the line is something else */
+function columnParts(code: string): ColumnParts | null {
+  const match = /^(\S+) ([^\s[]+(?:\[\])?)(?: (\[.*\]))?$/.exec(code);
+  return match ? { name: match[1], type: match[2], settings: match[3] ?? '' } : null;
+}
+
+interface FormattedLine {
+  indent: string;
+  /** Final text, or parts to be aligned with the neighbouring column lines */
+  text: string | { column: ColumnParts; comment: string | null };
+}
+
+/**
+ * Formats every line of `text`: null for a blank line that is dropped. Lines
+ * inside multi-line strings and block comments are kept as written.
+ */
+function formatLines(text: string, options: DbmlFormatOptions): (string | null)[] {
+  const unit = options.indent === 'tab' ? '\t' : ' '.repeat(options.indent);
+  const lines = text.split('\n');
+  const formatted: (FormattedLine | string | null)[] = [];
+  const blocks: string[] = [];
+  let open: "'''" | '*/' | null = null;
+  let previousBlank = true;
+
+  const applyBraces = (braces: string, header: string) => {
+    for (const brace of braces) {
+      if (brace === '{') blocks.push(header.split(/[\s{]/)[0].toLowerCase());
+      else blocks.pop();
+    }
+  };
+
+  lines.forEach((raw) => {
+    // Inside a multi-line string or block comment
+    if (open) {
+      formatted.push(raw);
+      const close = raw.indexOf(open);
+      if (close === -1) return;
+      const rest = scanLine(raw.slice(close + open.length));
+      open = rest.open;
+      applyBraces(rest.braces, '');
+      previousBlank = false;
+      return;
+    }
+
+    const trimmed = raw.trim();
+    if (!trimmed) {
+      formatted.push(previousBlank ? null : '');
+      previousBlank = true;
+      return;
+    }
+    previousBlank = false;
+
+    const scanned = scanLine(trimmed);
+    const level = Math.max(0, blocks.length - (scanned.code.trimStart().startsWith('}') ? 1 : 0));
+    const indent = unit.repeat(level);
+    const inTable = blocks[blocks.length - 1] === 'table';
+    open = scanned.open;
+
+    // Lines opening a multi-line string or holding a block comment are only re-indented
+    if (scanned.open || scanned.hasBlockComment) {
+      formatted.push(indent + trimmed);
+      applyBraces(scanned.braces, scanned.code.trim());
+      return;
+    }
+
+    const isRefLine = /^ref\b[^:{]*:/i.test(scanned.code) || blocks[blocks.length - 1] === 'ref';
+    let code = spaceRefOperators(normalizeCode(scanned.code), isRefLine);
+    if (options.sortSettings && code.endsWith(']') && !scanned.braces) code = sortTrailingSettings(code);
+    applyBraces(scanned.braces, code);
+
+    const column = inTable && !scanned.braces && !/^note\s*:/i.test(code) ? columnParts(code) : null;
+    if (column) {
+      const restored = {
+        name: restore(column.name, scanned.strings),
+        type: restore(column.type, scanned.strings),
+        settings: restore(column.settings, scanned.strings),
+      };
+      formatted.push({ indent, text: { column: restored, comment: scanned.comment } });
+      return;
+    }
+    const restoredCode = restore(code, scanned.strings);
+    formatted.push({ indent, text: [restoredCode, scanned.comment].filter(Boolean).join(' ') });
+  });
+
+  // Trailing blank lines are dropped, but not the line break ending the last line
+  const endsWithBreak = lines.length > 1 && lines[lines.length - 1] === '';
+  for (let i = formatted.length - 1; i >= 0 && (formatted[i] === '' || formatted[i] === null); i--) formatted[i] = null;
+  if (endsWithBreak) formatted[formatted.length - 1] = '';
+
+  return alignColumns(formatted, options.alignColumns);
+}
+
+/** Joins the parts of column lines, lining them up across each run of consecutive columns */
+function alignColumns(lines: (FormattedLine | string | null)[], align: boolean): (string | null)[] {
+  const result: (string | null)[] = [];
+  let run: { index: number; indent: string; column: ColumnParts; comment: string | null }[] = [];
+
+  const flush = () => {
+    const width = (pick: (item: (typeof run)[number]) => string) => Math.max(...run.map((item) => pick(item).length));
+    const nameWidth = align ? width((item) => item.column.name) : 0;
+    const typeWidth = align ? width((item) => item.column.type) : 0;
+    const settingsWidth = align ? width((item) => item.column.settings) : 0;
+    run.forEach(({ index, indent, column, comment }) => {
+      const parts = align
+        ? [column.name.padEnd(nameWidth), column.type.padEnd(typeWidth)]
+        : [column.name, column.type];
+      if (column.settings || (align && settingsWidth > 0)) parts.push(column.settings.padEnd(settingsWidth));
+      if (comment) parts.push(comment);
+      result[index] = indent + parts.join(' ').trimEnd();
+    });
+    run = [];
+  };
+
+  lines.forEach((line, index) => {
+    result.push(null);
+    if (line !== null && typeof line !== 'string' && typeof line.text !== 'string') {
+      run.push({ index, indent: line.indent, ...line.text });
+      return;
+    }
+    // Comment lines between columns keep the run going
+    const isComment = line !== null && typeof line !== 'string' && (line.text as string).startsWith('//');
+    if (!isComment) flush();
+    result[index] = line === null || typeof line === 'string' ? line : line.indent + line.text;
+  });
+  flush();
+  return result;
+}
+
+/**
+ * Re-indents DBML, normalizes spacing, sorts settings and lines up column
+ * definitions, keeping comments, blank lines (at most one in a row) and the
+ * order of everything as written.
+ */
+export function formatDbml(text: string, options: DbmlFormatOptions = DEFAULT_DBML_FORMAT_OPTIONS): string {
+  return formatLines(text, options)
+    .filter((line): line is string => line !== null)
+    .join('\n');
+}
+
+/**
+ * The edits turning `text` into its formatted form, each as small as possible,
+ * so that the cursor and the positions tracked in the editor stay on their text.
+ */
+export function formatDbmlChanges(
+  text: string,
+  options: DbmlFormatOptions = DEFAULT_DBML_FORMAT_OPTIONS
+): DbmlTextChange[] {
+  const formatted = formatLines(text, options);
+  const lines = text.split('\n');
+  const changes: DbmlTextChange[] = [];
+  let from = 0;
+  lines.forEach((line, i) => {
+    const next = formatted[i];
+    const to = from + line.length;
+    if (next === null) {
+      // Remove the line with the line break before it, or after it at the start of the text
+      const isLeading = formatted.slice(0, i).every((l) => l === null);
+      if (isLeading && i < lines.length - 1) changes.push({ from, to: to + 1, insert: '' });
+      else if (from > 0) changes.push({ from: from - 1, to, insert: '' });
+      else if (to > from) changes.push({ from, to, insert: '' });
+    } else if (next !== line) {
+      let prefix = 0;
+      while (prefix < line.length && prefix < next.length && line[prefix] === next[prefix]) prefix++;
+      let suffix = 0;
+      while (
+        suffix < line.length - prefix &&
+        suffix < next.length - prefix &&
+        line[line.length - 1 - suffix] === next[next.length - 1 - suffix]
+      ) {
+        suffix++;
+      }
+      changes.push({ from: from + prefix, to: to - suffix, insert: next.slice(prefix, next.length - suffix) });
+    }
+    from = to + 1;
+  });
+  return changes;
+}
@@ -0,0 +1,129 @@
+import { rangeOverlap, type SourceRange } from '@/lib/dbml/dbml-source-map';
+
+interface ReconcileOptions<P, E> {
+  /** Where the parsed entity is written in the new source */
+  range: (parsed: P) => SourceRange | undefined;
+  /** Where existing entities were written before the edit, carried through it */
+  editedRanges?: Map<string, SourceRange>;
+  sameName: (parsed: P, existing: E) => boolean;
+  /** 0 (unrelated) to 1 (identical); pairs below `threshold` are never matched */
+  similarity: (parsed: P, existing: E) => number;
+  threshold: number;
+  /** Pair the last unmatched entity on each side, whatever their similarity */
+  pairLeftovers?: boolean;
+}
+
+// Claims the highest-scoring pairs first; each entity is matched at most once
+function claimBest<E>(
+  candidates: { parsedIndex: number; existing: E; score: number }[],
+  matches: (E | undefined)[],
+  claimed: Set<E>
+) {
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ parsedIndex, existing, score }) => {
+      if (score <= 0 || matches[parsedIndex] || claimed.has(existing)) return;
+      matches[parsedIndex] = existing;
+      claimed.add(existing);
+    });
+}
+
+/**
+ * Pairs entities parsed from DBML with the existing ones they stand for, so
+ * they keep their IDs and layout. In order of confidence: the entity written
+ * where an existing one was before the edit (whatever its name now), then the
+ * same name, then the most similar. Returns the match for each parsed entity.
+ */
+export function reconcile<P, E extends { id: string }>(
+  parsed: P[],
+  existing: E[],
+  options: ReconcileOptions<P, E>
+): (E | undefined)[] {
+  const { range, editedRanges, sameName, similarity, threshold, pairLeftovers } = options;
+  const matches: (E | undefined)[] = parsed.map(() => undefined);
+  const claimed = new Set<E>();
+  const free = () => existing.filter((e) => !claimed.has(e));
+  const unmatchedIndexes = () => parsed.map((_, i) => i).filter((i) => !matches[i]);
+
+  // Pass 1: edited in place
+  if (editedRanges && editedRanges.size > 0) {
+    claimBest(
+      parsed.flatMap((p, parsedIndex) => {
+        const r = range(p);
+        if (!r) return [];
+        return existing.flatMap((e) => {
+          const before = editedRanges.get(e.id);
+          return before ? [{ parsedIndex, existing: e, score: rangeOverlap(r, before) }] : [];
+        });
+      }),
+      matches,
+      claimed
+    );
+  }
+
+  // Pass 2: unchanged names
+  unmatchedIndexes().forEach((i) => {
+    const match = free().find((e) => sameName(parsed[i], e));
+    if (!match) return;
+    matches[i] = match;
+    claimed.add(match);
+  });
+
+  // Pass 3: renamed without an edit to track, e.g. after pasting over the whole source
+  claimBest(
+    unmatchedIndexes().flatMap((parsedIndex) =>
+      free().map((e) => {
+        const score = similarity(parsed[parsedIndex], e);
+        return { parsedIndex, existing: e, score: score >= threshold ? score : 0 };
+      })
+    ),
+    matches,
+    claimed
+  );
+
+  const leftoverParsed = unmatchedIndexes();
+  const leftoverExisting = free();
+  if (pairLeftovers && leftoverParsed.length === 1 && leftoverExisting.length === 1) {
+    matches[leftoverParsed[0]] = leftoverExisting[0];
+  }
+
+  return matches;
+}
+
+/** Share of the names the two lists have in common */
+export function nameOverlap(a: string[], b: string[]): number {
+  const setA = new Set(a.map((name) => name.toLowerCase()));
+  const setB = new Set(b.map((name) => name.toLowerCase()));
+  if (setA.size === 0 && setB.size === 0) return 1;
+  const shared = [...setA].filter((name) => setB.has(name)).length;
+  return shared / (setA.size + setB.size - shared);
+}
+
+/** Share of positions holding the same value, e.g. the column types of two tables */
+export function sequenceSimilarity(a: string[], b: string[]): number {
+  const length = Math.max(a.length, b.length);
+  if (length === 0) return 1;
+  return a.filter((value, i) => value === b[i]).length / length;
+}
+
+/** Dice coefficient over character pairs: 1 for equal names, 0 for nothing in common */
+export function nameSimilarity(a: string, b: string): number {
+  const pairs = (s: string) => {
+    const lower = s.toLowerCase();
+    return Array.from({ length: Math.max(0, lower.length - 1) }, (_, i) => lower.slice(i, i + 2));
+  };
+  if (a.toLowerCase() === b.toLowerCase()) return 1;
+  const pairsA = pairs(a);
+  const pairsB = pairs(b);
+  if (pairsA.length === 0 || pairsB.length === 0) return 0;
+
+  const remaining = [...pairsB];
+  let shared = 0;
+  pairsA.forEach((pair) => {
+    const index = remaining.indexOf(pair);
+    if (index === -1) return;
+    shared++;
+    remaining.splice(index, 1);
+  });
+  return (2 * shared) / (pairsA.length + pairsB.length);
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { lintDbml, type DbmlQuickFix } from './dbml-lint';
+import { parseDbml } from './dbml-parser';
+
+const lint = (text: string, knownText?: string) =>
+  lintDbml(text, parseDbml(text, [], []), { knownTables: knownText ? parseDbml(knownText, [], []).tables : [] });
+
+// The text with a quick fix applied, last change first so earlier offsets stay valid
+const applyFix = (text: string, fix: DbmlQuickFix) =>
+  [...fix.changes].sort((a, b) => b.from - a.from).reduce((result, change) => result.slice(0, change.from) + change.insert + result.slice(change.to), text);
+
+const BLOG = `Table users {
+  id integer [pk]
+  name varchar
+}
+
+Table posts {
+  id integer [pk]
+  uid integer
+}
+
+Ref: posts.uid > users.id`;
+
+describe('lintDbml', () => {
+  it('reports nothing for a clean schema', () => {
+    expect(lint(BLOG)).toEqual([]);
+  });
+
+  describe('parse errors', () => {
+    it('offers similar column names for a ref to a missing column', () => {
+      const text = BLOG.replace('users.id', 'users.nmae');
+      const [diagnostic] = lint(text, BLOG);
+
+      expect(diagnostic).toMatchObject({ severity: 'error', line: 11, message: "Column 'nmae' does not exist in Table 'users'" });
+      expect(diagnostic.fixes.map(fix => fix.label)).toEqual(["Change to 'name'"]);
+      expect(applyFix(text, diagnostic.fixes[0])).toBe(BLOG.replace('users.id', 'users.name'));
+    });
+
+    it('offers similar table names for a ref to a missing table', () => {
+      const text = BLOG.replace('users.id', 'usres.id');
+      const [diagnostic] = lint(text, BLOG);
+
+      expect(diagnostic).toMatchObject({ severity: 'error', message: "Table 'usres' does not exist in Schema 'public'" });
+      expect(applyFix(text, diagnostic.fixes[0])).toBe(BLOG);
+    });
+
+    it('offers to remove a duplicate column', () => {
+      const text = 'Table users {\n  id integer [pk]\n  name varchar\n  name text\n}';
+      const duplicate = lint(text).find(diagnostic => diagnostic.line === 4)!;
+
+      expect(duplicate).toMatchObject({ severity: 'error', message: 'Duplicate column name' });
+      expect(applyFix(text, duplicate.fixes[0])).toBe('Table users {\n  id integer [pk]\n  name varchar\n}');
+    });
+  });
+
+  describe('refs', () => {
+    it('warns about a ref the parser could not resolve', () => {
+      const result = parseDbml(BLOG, [], []);
+      const ref = { from: BLOG.indexOf('Ref'), to: BLOG.length };
+      const diagnostics = lintDbml(BLOG, { ...result, unresolvedRefs: [{ endpoint: 'users.nmae', range: ref }] });
+
+      expect(diagnostics).toEqual([
+        { ...ref, line: 11, severity: 'warning', message: 'This ref is ignored: there is no column users.nmae', fixes: [] },
+      ]);
+    });
+
+    it('offers the referenced type for a ref between columns of different types', () => {
+      const text = BLOG.replace('uid integer', 'uid varchar');
+      const [diagnostic] = lint(text);
+
+      expect(diagnostic).toMatchObject({
+        severity: 'warning',
+        line: 11,
+        message: 'posts.uid is varchar but references users.id, which is integer',
+      });
+      expect(diagnostic.fixes.map(fix => fix.label)).toEqual(['Change posts.uid to integer']);
+      expect(applyFix(text, diagnostic.fixes[0])).toBe(BLOG);
+    });
+
+    it('offers the plain integer type for a ref to a serial key', () => {
+      const text = BLOG.replace('id integer [pk]', 'id serial [pk]').replace('uid integer', 'uid varchar');
+      const [diagnostic] = lint(text);
+
+      expect(diagnostic.fixes.map(fix => fix.label)).toEqual(['Change posts.uid to int']);
+      expect(applyFix(text, diagnostic.fixes[0])).toContain('  uid int\n');
+    });
+  });
+
+  describe('primary keys', () => {
+    it('offers to make an id column the primary key', () => {
+      const text = 'Table users {\n  id integer\n}\n\nTable posts {\n  id integer [not null]\n}';
+      const [users, posts] = lint(text);
+
+      expect(users).toMatchObject({ severity: 'warning', line: 1, message: 'users has no primary key' });
+      expect(users.fixes.map(fix => fix.label)).toEqual(['Make id the primary key']);
+      expect(applyFix(text, users.fixes[0])).toContain('  id integer [pk]\n');
+      expect(applyFix(text, posts.fixes[0])).toContain('  id integer [pk, not null]\n');
+    });
+
+    it('offers to add an id primary key to a table without one', () => {
+      const text = 'Table tags {\n  name varchar\n}';
+      const [diagnostic] = lint(text);
+
+      expect(diagnostic.fixes.map(fix => fix.label)).toEqual(['Add an id primary key']);
+      expect(applyFix(text, diagnostic.fixes[0])).toBe('Table tags {\n  id integer [pk, increment]\n  name varchar\n}');
+    });
+  });
+
+  describe('unknown types', () => {
+    it('offers known types with a similar name', () => {
+      const text = 'Table users {\n  id integer [pk]\n  email strnig\n}';
+      const [diagnostic] = lint(text);
+
+      expect(diagnostic).toMatchObject({ severity: 'warning', line: 3, message: "Unknown type 'strnig' is stored as a string" });
+      expect(diagnostic.fixes[0].label).toBe("Change to 'string'");
+      expect(applyFix(text, diagnostic.fixes[0])).toBe('Table users {\n  id integer [pk]\n  email string\n}');
+    });
+  });
+
+  describe('reserved words', () => {
+    const withDialect = (dialect: string, body: string) =>
+      `Project p {\n  database_type: '${dialect}'\n}\n\nTable accounts {\n  id integer [pk]\n${body}\n}`;
+    const reservedNames = (text: string) =>
+      lint(text).filter(diagnostic => /reserved word/.test(diagnostic.message)).map(diagnostic => text.slice(diagnostic.from, diagnostic.to));
+
+    it('flags tables and columns named after a reserved word of the dialect', () => {
+      const text = 'Table user {\n  id integer [pk]\n  order integer\n}';
+
+      expect(lint(text)).toEqual([
+        expect.objectContaining({ line: 1, message: "'user' is a reserved word in PostgreSQL, so queries must quote it", fixes: [] }),
+        expect.objectContaining({ line: 3, message: "'order' is a reserved word in PostgreSQL, so queries must quote it", fixes: [] }),
+      ]);
+    });
+
+    it('does not flag words PostgreSQL only reserves in some positions', () => {
+      const body = ['key', 'index', 'values', 'set', 'update', 'insert', 'delete', 'exists', 'status']
+        .map(name => `  ${name} integer`)
+        .join('\n');
+
+      expect(reservedNames(withDialect('PostgreSQL', body))).toEqual([]);
+    });
+
+    it('flags key but not status in MySQL', () => {
+      expect(reservedNames(withDialect('MySQL', '  key varchar\n  status varchar\n  rank integer'))).toEqual(['key', 'rank']);
+    });
+
+    it('flags index but not key in SQLite', () => {
+      expect(reservedNames(withDialect('SQLite', '  key varchar\n  index integer\n  action varchar'))).toEqual(['index']);
+    });
+
+    it('flags the words SQL Server reserves', () => {
+      expect(reservedNames(withDialect('SQL Server', '  key varchar\n  public integer\n  status varchar'))).toEqual(['key', 'public']);
+    });
+  });
+});
@@ -0,0 +1,420 @@
+import type { ParseError, ParseResult } from '@/lib/dbml/dbml-parser';
+import { isUnknownDbmlType, KNOWN_DBML_TYPES } from '@/lib/dbml/dbml-parser';
+import { nameSimilarity } from '@/lib/dbml/dbml-identity';
+import type { SourceRange } from '@/lib/dbml/dbml-source-map';
+import type { Column, Relationship, Table } from '@/features/schema/types/schema.types';
+import { getQualifiedTableName, getRelationshipColumnIds } from '@/features/schema/utils/schema.utils';
+import { SQL_DIALECT_LABELS, type SQLDialect } from '@/constants/schema';
+
+export interface DbmlTextChange {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+/** An edit that resolves a diagnostic, offered as an action in the editor */
+export interface DbmlQuickFix {
+  label: string;
+  changes: DbmlTextChange[];
+}
+
+export interface DbmlDiagnostic extends SourceRange {
+  /** 1-based line the diagnostic starts on */
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+  fixes: DbmlQuickFix[];
+}
+
+type LintFinding = Omit<DbmlDiagnostic, 'line'>;
+
+interface LintOptions {
+  /** Tables of the last successful parse, to suggest names when a ref is broken */
+  knownTables?: Table[];
+}
+
+// Words each dialect reserves, from the vendors' keyword tables, so a table or
+// column named after one has to be quoted in every hand-written query. Words
+// that are only reserved in some positions, e.g. PostgreSQL's non-reserved
+// `key` or SQLite's fallback keywords, are left out.
+const RESERVED_WORDS: Record<SQLDialect, Set<string>> = {
+  // Reserved and "reserved (can be function or type)" keywords, PostgreSQL 16 Appendix C
+  postgresql: new Set([
+    'all', 'analyse', 'analyze', 'and', 'any', 'array', 'as', 'asc', 'asymmetric', 'authorization',
+    'binary', 'both', 'case', 'cast', 'check', 'collate', 'collation', 'column', 'concurrently',
+    'constraint', 'create', 'cross', 'current_catalog', 'current_date', 'current_role', 'current_schema',
+    'current_time', 'current_timestamp', 'current_user', 'default', 'deferrable', 'desc', 'distinct', 'do',
+    'else', 'end', 'except', 'false', 'fetch', 'for', 'foreign', 'freeze', 'from', 'full', 'grant',
+    'group', 'having', 'ilike', 'in', 'initially', 'inner', 'intersect', 'into', 'is', 'isnull', 'join',
+    'lateral', 'leading', 'left', 'like', 'limit', 'localtime', 'localtimestamp', 'natural', 'not',
+    'notnull', 'null', 'offset', 'on', 'only', 'or', 'order', 'outer', 'overlaps', 'placing', 'primary',
+    'references', 'returning', 'right', 'select', 'session_user', 'similar', 'some', 'symmetric',
+    'system_user', 'table', 'tablesample', 'then', 'to', 'trailing', 'true', 'union', 'unique', 'user',
+    'using', 'variadic', 'verbose', 'when', 'where', 'window', 'with',
+  ]),
+  // Keywords marked (R) in the MySQL 8.0 keyword list
+  mysql: new Set([
+    'accessible', 'add', 'all', 'alter', 'analyze', 'and', 'as', 'asc', 'asensitive', 'before', 'between',
+    'bigint', 'binary', 'blob', 'both', 'by', 'call', 'cascade', 'case', 'change', 'char', 'character',
+    'check', 'collate', 'column', 'condition', 'constraint', 'continue', 'convert', 'create', 'cross',
+    'cube', 'cume_dist', 'current_date', 'current_time', 'current_timestamp', 'current_user', 'cursor',
+    'database', 'databases', 'day_hour', 'day_microsecond', 'day_minute', 'day_second', 'dec', 'decimal',
+    'declare', 'default', 'delayed', 'delete', 'dense_rank', 'desc', 'describe', 'deterministic',
+    'distinct', 'distinctrow', 'div', 'double', 'drop', 'dual', 'each', 'else', 'elseif', 'empty',
+    'enclosed', 'escaped', 'except', 'exists', 'exit', 'explain', 'false', 'fetch', 'first_value', 'float',
+    'float4', 'float8', 'for', 'force', 'foreign', 'from', 'fulltext', 'function', 'generated', 'get',
+    'grant', 'group', 'grouping', 'groups', 'having', 'high_priority', 'hour_microsecond', 'hour_minute',
+    'hour_second', 'if', 'ignore', 'in', 'index', 'infile', 'inner', 'inout', 'insensitive', 'insert',
+    'int', 'int1', 'int2', 'int3', 'int4', 'int8', 'integer', 'intersect', 'interval', 'into',
+    'io_after_gtids', 'io_before_gtids', 'is', 'iterate', 'join', 'json_table', 'key', 'keys', 'kill',
+    'lag', 'last_value', 'lateral', 'lead', 'leading', 'leave', 'left', 'like', 'limit', 'linear', 'lines',
+    'load', 'localtime', 'localtimestamp', 'lock', 'long', 'longblob', 'longtext', 'loop', 'low_priority',
+    'master_bind', 'master_ssl_verify_server_cert', 'match', 'maxvalue', 'mediumblob', 'mediumint',
+    'mediumtext', 'middleint', 'minute_microsecond', 'minute_second', 'mod', 'modifies', 'natural', 'not',
+    'no_write_to_binlog', 'nth_value', 'ntile', 'null', 'numeric', 'of', 'on', 'optimize',
+    'optimizer_costs', 'option', 'optionally', 'or', 'order', 'out', 'outer', 'outfile', 'over',
+    'partition', 'percent_rank', 'precision', 'primary', 'procedure', 'purge', 'range', 'rank', 'read',
+    'reads', 'read_write', 'real', 'recursive', 'references', 'regexp', 'release', 'rename', 'repeat',
+    'replace', 'require', 'resignal', 'restrict', 'return', 'revoke', 'right', 'rlike', 'row', 'rows',
+    'row_number', 'schema', 'schemas', 'second_microsecond', 'select', 'sensitive', 'separator', 'set',
+    'show', 'signal', 'smallint', 'spatial', 'specific', 'sql', 'sqlexception', 'sqlstate', 'sqlwarning',
+    'sql_big_result', 'sql_calc_found_rows', 'sql_small_result', 'ssl', 'starting', 'stored',
+    'straight_join', 'system', 'table', 'terminated', 'then', 'tinyblob', 'tinyint', 'tinytext', 'to',
+    'trailing', 'trigger', 'true', 'undo', 'union', 'unique', 'unlock', 'unsigned', 'update', 'usage',
+    'use', 'using', 'utc_date', 'utc_time', 'utc_timestamp', 'values', 'varbinary', 'varchar',
+    'varcharacter', 'varying', 'virtual', 'when', 'where', 'while', 'window', 'with', 'write', 'xor',
+    'year_month', 'zerofill',
+  ]),
+  // SQLite keywords its parser does not accept as names, i.e. without an ID fallback
+  sqlite: new Set([
+    'add', 'all', 'alter', 'and', 'as', 'autoincrement', 'between', 'case', 'check', 'collate', 'commit',
+    'constraint', 'create', 'default', 'deferrable', 'delete', 'distinct', 'drop', 'else', 'escape',
+    'except', 'exists', 'foreign', 'from', 'group', 'having', 'in', 'index', 'indexed', 'insert',
+    'intersect', 'into', 'is', 'isnull', 'join', 'limit', 'not', 'nothing', 'notnull', 'null', 'on', 'or',
+    'order', 'primary', 'references', 'returning', 'select', 'set', 'table', 'then', 'to', 'transaction',
+    'union', 'unique', 'update', 'using', 'values', 'when', 'where',
+  ]),
+  // Transact-SQL reserved keywords
+  sqlserver: new Set([
+    'add', 'all', 'alter', 'and', 'any', 'as', 'asc', 'authorization', 'backup', 'begin', 'between',
+    'break', 'browse', 'bulk', 'by', 'cascade', 'case', 'check', 'checkpoint', 'close', 'clustered',
+    'coalesce', 'collate', 'column', 'commit', 'compute', 'constraint', 'contains', 'containstable',
+    'continue', 'convert', 'create', 'cross', 'current', 'current_date', 'current_time',
+    'current_timestamp', 'current_user', 'cursor', 'database', 'dbcc', 'deallocate', 'declare', 'default',
+    'delete', 'deny', 'desc', 'disk', 'distinct', 'distributed', 'double', 'drop', 'dump', 'else', 'end',
+    'errlvl', 'escape', 'except', 'exec', 'execute', 'exists', 'exit', 'external', 'fetch', 'file',
+    'fillfactor', 'for', 'foreign', 'freetext', 'freetexttable', 'from', 'full', 'function', 'goto',
+    'grant', 'group', 'having', 'holdlock', 'identity', 'identity_insert', 'identitycol', 'if', 'in',
+    'index', 'inner', 'insert', 'intersect', 'into', 'is', 'join', 'key', 'kill', 'left', 'like', 'lineno',
+    'load', 'merge', 'national', 'nocheck', 'nonclustered', 'not', 'null', 'nullif', 'of', 'off',
+    'offsets', 'on', 'open', 'opendatasource', 'openquery', 'openrowset', 'openxml', 'option', 'or',
+    'order', 'outer', 'over', 'percent', 'pivot', 'plan', 'precision', 'primary', 'print', 'proc',
+    'procedure', 'public', 'raiserror', 'read', 'readtext', 'reconfigure', 'references', 'replication',
+    'restore', 'restrict', 'return', 'revert', 'revoke', 'right', 'rollback', 'rowcount', 'rowguidcol',
+    'rule', 'save', 'schema', 'securityaudit', 'select', 'semantickeyphrasetable',
+    'semanticsimilaritydetailstable', 'semanticsimilaritytable', 'session_user', 'set', 'setuser',
+    'shutdown', 'some', 'statistics', 'system_user', 'table', 'tablesample', 'textsize', 'then', 'to',
+    'top', 'tran', 'transaction', 'trigger', 'truncate', 'try_convert', 'tsequal', 'union', 'unique',
+    'unpivot', 'update', 'updatetext', 'use', 'user', 'values', 'varying', 'view', 'waitfor', 'when',
+    'where', 'while', 'with', 'writetext',
+  ]),
+};
+
+// The parser reads native types as PostgreSQL when there is no database_type
+const DEFAULT_LINT_DIALECT: SQLDialect = 'postgresql';
+
+// A referencing column stores a serial key as the plain integer type
+export const SERIAL_REFERENCE_TYPES: Record<string, string> = {
+  serial: 'int',
+  smallserial: 'smallint',
+  bigserial: 'bigint',
+};
+
+const IDENTIFIER = String.raw`(?:"(?:[^"\\]|\\.)*"|[^\s"{\[(.]+)`;
+const COLUMN_PATTERN = new RegExp(
+  String.raw`^(${IDENTIFIER})(\s+)("(?:[^"\\]|\\.)*"|${IDENTIFIER}(?:\.${IDENTIFIER})?(?:\s*\([^)]*\))?(?:\[\])*)`
+);
+const TABLE_HEADER_PATTERN = new RegExp(String.raw`^(Table\s+)(${IDENTIFIER}(?:\.${IDENTIFIER})?)`, 'i');
+
+// Quote identifiers that contain spaces or special characters
+function q(name: string): string {
+  return /[^a-zA-Z0-9_]/.test(name) ? `"${name}"` : name;
+}
+
+/** Where a column definition's name, type and `[settings]` are written */
+function columnParts(text: string, range: SourceRange) {
+  const source = text.slice(range.from, range.to);
+  const match = COLUMN_PATTERN.exec(source);
+  if (!match) return null;
+  const typeFrom = range.from + match[1].length + match[2].length;
+  const typeTo = typeFrom + match[3].length;
+  const settings = source.indexOf('[', typeTo - range.from);
+  return {
+    name: { from: range.from, to: range.from + match[1].length },
+    type: { from: typeFrom, to: typeTo },
+    settingsFrom: settings === -1 ? undefined : range.from + settings,
+  };
+}
+
+/** Where a table's `Table name` header is written, and its name within it */
+function tableHeader(text: string, range: SourceRange) {
+  const match = TABLE_HEADER_PATTERN.exec(text.slice(range.from, range.to));
+  if (!match) return null;
+  const nameFrom = range.from + match[1].length;
+  return {
+    header: { from: range.from, to: nameFrom + match[2].length },
+    name: { from: nameFrom, to: nameFrom + match[2].length },
+  };
+}
+
+/** The whole line holding `pos`, without its line break */
+function lineAt(text: string, pos: number): SourceRange {
+  const end = text.indexOf('\n', pos);
+  return { from: text.lastIndexOf('\n', pos - 1) + 1, to: end === -1 ? text.length : end };
+}
+
+function lineRange(text: string, line: number): SourceRange {
+  let from = 0;
+  for (let n = 1; n < line; n++) {
+    const newline = text.indexOf('\n', from);
+    if (newline === -1) break;
+    from = newline + 1;
+  }
+  return lineAt(text, from);
+}
+
+// Share of characters left in place by the fewest edits, which catches
+// transposed letters (`nmae`) that share no character pairs
+function editSimilarity(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(above + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length, 1);
+}
+
+/** Up to three names that look like `name`, most alike first */
+function similarNames(name: string, candidates: string[]): string[] {
+  const lower = name.toLowerCase();
+  return [...new Set(candidates)]
+    .map((candidate) => ({
+      candidate,
+      score: Math.max(nameSimilarity(name, candidate), editSimilarity(lower, candidate.toLowerCase())),
+    }))
+    .filter(({ candidate, score }) => score >= 0.4 && candidate !== name)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3)
+    .map(({ candidate }) => candidate);
+}
+
+const replaceWith = (range: SourceRange, names: string[]): DbmlQuickFix[] =>
+  names.map((name) => ({
+    label: `Change to '${name}'`,
+    changes: [{ from: range.from, to: range.to, insert: q(name) }],
+  }));
+
+function findTable(tables: Table[], name: string): Table | undefined {
+  return tables.find((t) => getQualifiedTableName(t) === name || t.name === name || t.alias === name);
+}
+
+/** Hard errors from @dbml/core, with fixes for the broken refs and duplicate columns it reports */
+function errorFindings(text: string, errors: ParseError[], knownTables: Table[]): LintFinding[] {
+  return errors.map((error) => {
+    const range =
+      error.from !== undefined && error.to !== undefined && error.to > error.from
+        ? { from: error.from, to: error.to }
+        : error.line != null
+          ? lineRange(text, error.line)
+          : { from: 0, to: text.length };
+    const diagnostic: LintFinding = { ...range, severity: 'error', message: error.message, fixes: [] };
+
+    const missingColumn = /^Column '(.+)' does not exist in Table '(.+)'$/.exec(error.message);
+    const missingTable = /^Table '(.+)' does not exist/.exec(error.message);
+    const duplicateColumn = /^Duplicate column /.test(error.message);
+
+    if (missingColumn) {
+      const table = findTable(knownTables, missingColumn[2]);
+      diagnostic.fixes = replaceWith(range, similarNames(missingColumn[1], table?.columns.map((c) => c.name) ?? []));
+    } else if (missingTable) {
+      diagnostic.fixes = replaceWith(range, similarNames(missingTable[1], knownTables.map((t) => t.name)));
+    } else if (duplicateColumn) {
+      const line = lineAt(text, range.from);
+      diagnostic.fixes = [
+        { label: 'Remove this column', changes: [{ from: line.from, to: Math.min(line.to + 1, text.length), insert: '' }] },
+      ];
+    }
+    return diagnostic;
+  });
+}
+
+// Column types compared for a ref: the same type, array element type and enum
+const typeKey = (column: Column) => [column.type, column.arrayElementType, column.enumId].join(':');
+
+/** The column a relationship points at and the one that points to it */
+function refColumns(rel: Relationship, columnsById: Map<string, { table: Table; column: Column }>) {
+  const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(rel);
+  if (sourceColumnIds.length !== 1 || targetColumnIds.length !== 1) return null;
+  const source = columnsById.get(sourceColumnIds[0]);
+  const target = columnsById.get(targetColumnIds[0]);
+  if (!source || !target) return null;
+
+  const isKey = (c: Column) => c.primaryKey || c.unique;
+  const sourceIsReferenced =
+    rel.type === 'one-to-many' || (rel.type !== 'many-to-one' && isKey(source.column) && !isKey(target.column));
+  return sourceIsReferenced ? { referencing: target, referenced: source } : { referencing: source, referenced: target };
+}
+
+/** Problems @dbml/core does not report in a schema it parsed */
+function semanticFindings(text: string, result: ParseResult): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const { tables, relationships, sourceMap } = result;
+  const dialect = result.project?.databaseType ?? DEFAULT_LINT_DIALECT;
+  const reserved = RESERVED_WORDS[dialect];
+  const writtenType = (column: Column) => {
+    const range = sourceMap.columns.get(column.id);
+    const parts = range && columnParts(text, range);
+    return parts ? text.slice(parts.type.from, parts.type.to) : undefined;
+  };
+
+  result.unresolvedRefs.forEach(({ endpoint, range }) => {
+    if (!range) return;
+    findings.push({
+      ...range,
+      severity: 'warning',
+      message: `This ref is ignored: there is no column ${endpoint}`,
+      fixes: [],
+    });
+  });
+
+  const columnsById = new Map(
+    tables.flatMap((table) => table.columns.map((column) => [column.id, { table, column }] as const))
+  );
+  relationships.forEach((rel) => {
+    const columns = refColumns(rel, columnsById);
+    const range = sourceMap.refs.get(rel.id);
+    if (!columns || !range) return;
+    const { referencing, referenced } = columns;
+    if (typeKey(referencing.column) === typeKey(referenced.column)) return;
+
+    const referencingName = `${getQualifiedTableName(referencing.table)}.${referencing.column.name}`;
+    const referencedName = `${getQualifiedTableName(referenced.table)}.${referenced.column.name}`;
+    const referencedType = writtenType(referenced.column);
+    const columnRange = sourceMap.columns.get(referencing.column.id);
+    const parts = columnRange && columnParts(text, columnRange);
+    const fixType = referencedType && (SERIAL_REFERENCE_TYPES[referencedType.toLowerCase()] ?? referencedType);
+
+    findings.push({
+      ...range,
+      severity: 'warning',
+      message: `${referencingName} is ${writtenType(referencing.column) ?? referencing.column.type} but references ${referencedName}, which is ${referencedType ?? referenced.column.type}`,
+      fixes:
+        parts && fixType
+          ? [{ label: `Change ${referencingName} to ${fixType}`, changes: [{ ...parts.type, insert: fixType }] }]
+          : [],
+    });
+  });
+
+  tables.forEach((table) => {
+    const range = sourceMap.tables.get(table.id);
+    const header = range && tableHeader(text, range);
+    if (!range || !header) return;
+    const qualifiedName = getQualifiedTableName(table);
+
+    if (!table.columns.some((c) => c.primaryKey)) {
+      const idColumn = table.columns.find((c) => c.name.toLowerCase() === 'id');
+      const idRange = idColumn && sourceMap.columns.get(idColumn.id);
+      const idParts = idRange && columnParts(text, idRange);
+      const firstColumnRange = table.columns[0] && sourceMap.columns.get(table.columns[0].id);
+      const indent = firstColumnRange ? text.slice(lineAt(text, firstColumnRange.from).from, firstColumnRange.from) : '  ';
+      const brace = text.indexOf('{', header.header.to);
+
+      const fixes: DbmlQuickFix[] = [];
+      if (idColumn && idRange && idParts) {
+        fixes.push({
+          label: `Make ${idColumn.name} the primary key`,
+          changes: [
+            idParts.settingsFrom !== undefined
+              ? { from: idParts.settingsFrom + 1, to: idParts.settingsFrom + 1, insert: 'pk, ' }
+              : { from: idParts.type.to, to: idParts.type.to, insert: ' [pk]' },
+          ],
+        });
+      } else if (brace !== -1 && brace < range.to) {
+        fixes.push({
+          label: 'Add an id primary key',
+          changes: [{ from: brace + 1, to: brace + 1, insert: `\n${indent}id integer [pk, increment]` }],
+        });
+      }
+
+      findings.push({
+        ...header.header,
+        severity: 'warning',
+        message: `${qualifiedName} has no primary key`,
+        fixes,
+      });
+    }
+
+    if (reserved.has(table.name.toLowerCase())) {
+      findings.push({
+        ...header.name,
+        severity: 'warning',
+        message: `'${table.name}' is a reserved word in ${SQL_DIALECT_LABELS[dialect]}, so queries must quote it`,
+        fixes: [],
+      });
+    }
+
+    table.columns.forEach((column) => {
+      const columnRange = sourceMap.columns.get(column.id);
+      const parts = columnRange && columnParts(text, columnRange);
+      if (!parts) return;
+
+      if (column.nativeType && isUnknownDbmlType(column.nativeType)) {
+        const written = text.slice(parts.type.from, parts.type.to);
+        const base = /^[\w]+/.exec(written)?.[0];
+        findings.push({
+          ...parts.type,
+          severity: 'warning',
+          message: `Unknown type '${column.nativeType}' is stored as a string`,
+          fixes: base
+            ? similarNames(base.toLowerCase(), KNOWN_DBML_TYPES).map((name) => ({
+                label: `Change to '${name}'`,
+                changes: [{ from: parts.type.from, to: parts.type.from + base.length, insert: name }],
+              }))
+            : [],
+        });
+      }
+
+      if (reserved.has(column.name.toLowerCase())) {
+        findings.push({
+          ...parts.name,
+          severity: 'warning',
+          message: `'${column.name}' is a reserved word in ${SQL_DIALECT_LABELS[dialect]}, so queries must quote it`,
+          fixes: [],
+        });
+      }
+    });
+  });
+
+  return findings;
+}
+
+/**
+ * Checks a parsed schema for problems @dbml/core does not report: refs that
+ * could not be resolved, refs between columns of different types, tables
+ * without a primary key, unknown types and names the dialect reserves. When
+ * parsing failed, its errors are returned instead, with fixes where possible.
+ */
+export function lintDbml(text: string, result: ParseResult, options: LintOptions = {}): DbmlDiagnostic[] {
+  const findings =
+    result.errors.length > 0
+      ? errorFindings(text, result.errors, options.knownTables ?? [])
+      : semanticFindings(text, result);
+  return findings
+    .sort((a, b) => a.from - b.from)
+    .map((finding) => ({ ...finding, line: text.slice(0, finding.from).split('\n').length }));
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { parseDbml } from './dbml-parser';
+import { serializeToDbml } from './dbml-serializer';
+import { FOREIGN_KEY_ACTIONS } from '@/constants/schema';
+import { ChangeSet, Text } from '@codemirror/state';
+import { mapSourceMap } from './dbml-source-map';
+import type { ParseResult } from './dbml-parser';
+
+describe('parseDbml', () => {
+  describe('enums', () => {
+    const DBML = `Enum core.status {
+  active
+}
+
+Enum status {
+  draft
+}
+
+Table core.accounts {
+  id integer [pk]
+  state core.status
+  draft_state status
+}`;
+
+    it('keeps the namespace of an enum and resolves column types against it', () => {
+      const { enums, tables, errors } = parseDbml(DBML, [], []);
+      const [core, plain] = enums;
+
+      expect(errors).toEqual([]);
+      expect(core).toMatchObject({ name: 'status', namespace: 'core' });
+      expect(plain).toMatchObject({ name: 'status', namespace: undefined });
+      expect(tables[0].columns.map(column => column.enumId)).toEqual([undefined, core.id, plain.id]);
+    });
+
+    it('serializes namespaced enums back as written', () => {
+      const { tables, relationships, enums } = parseDbml(DBML, [], []);
+
+      expect(serializeToDbml(tables, relationships, enums)).toBe(DBML);
+    });
+  });
+
+  describe('renames', () => {
+    const BLOG = `Table users {
+  id integer [pk]
+  name varchar
+  email varchar
+}
+
+Table posts {
+  id integer [pk]
+  uid integer
+  title varchar
+}
+
+Ref: posts.uid > users.id`;
+
+    // The first version, with the tables moved on the canvas
+    function original(): ParseResult {
+      const result = parseDbml(BLOG, [], []);
+      result.tables = result.tables.map((table, i) => ({ ...table, position: { x: 100 * (i + 1), y: 50 } }));
+      return result;
+    }
+
+    // Applies text replacements in one edit, as the editor would
+    function edit(text: string, replacements: [string, string][]) {
+      const changes = ChangeSet.of(
+        replacements.map(([from, to]) => {
+          const at = text.indexOf(from);
+          return { from: at, to: at + from.length, insert: to };
+        }),
+        text.length
+      );
+      return { text: changes.apply(Text.of(text.split('\n'))).toString(), changes };
+    }
+
+    function reparse(before: ParseResult, text: string, editedRanges?: ParseResult['sourceMap']) {
+      const result = parseDbml(text, before.tables, [], undefined, before.enums, [], [], before.relationships, editedRanges);
+      expect(result.errors).toEqual([]);
+      return result;
+    }
+
+    // Each table's ID, position and column IDs, with the relationship between them
+    const identity = ({ tables, relationships }: ParseResult) => ({
+      tables: tables.map(table => ({ id: table.id, position: table.position, columnIds: table.columns.map(c => c.id) })),
+      relationships: relationships.map(r => ({ id: r.id, source: r.sourceTableId, target: r.targetTableId })),
+    });
+
+    it('keeps two tables renamed in one edit, with the edited ranges', () => {
+      const before = original();
+      const { text, changes } = edit(BLOG, [['users {', 'people {'], ['posts {', 'articles {'], ['posts.uid > users.id', 'articles.uid > people.id']]);
+      const after = reparse(before, text, mapSourceMap(before.sourceMap, changes));
+
+      expect(after.tables.map(t => t.name)).toEqual(['people', 'articles']);
+      expect(identity(after)).toEqual(identity(before));
+    });
+
+    it('keeps two tables renamed in one edit by their columns, without the edited ranges', () => {
+      const before = original();
+      const { text } = edit(BLOG, [['users {', 'people {'], ['posts {', 'articles {'], ['posts.uid > users.id', 'articles.uid > people.id']]);
+
+      expect(identity(reparse(before, text))).toEqual(identity(before));
+    });
+
+    it('keeps a table and a column renamed together', () => {
+      const before = original();
+      const { text, changes } = edit(BLOG, [['users {', 'people {'], ['name varchar', 'full_name varchar'], ['posts.uid > users.id', 'posts.uid > people.id']]);
+      const after = reparse(before, text, mapSourceMap(before.sourceMap, changes));
+
+      expect(after.tables[0].columns.map(c => c.name)).toEqual(['id', 'full_name', 'email']);
+      expect(identity(after)).toEqual(identity(before));
+    });
+
+    it('falls back to similarity when neither the edited ranges nor the names match', () => {
+      const before = original();
+      // Pasting over the whole source leaves no range to carry through
+      const pasted = BLOG.replace('users {', 'people {').replace('posts {', 'articles {').replace('posts.uid > users.id', 'articles.uid > people.id');
+      const changes = ChangeSet.of([{ from: 0, to: BLOG.length, insert: pasted }], BLOG.length);
+      const editedRanges = mapSourceMap(before.sourceMap, changes);
+
+      expect(editedRanges.tables.size).toBe(0);
+      expect(identity(reparse(before, pasted, editedRanges))).toEqual(identity(before));
+    });
+
+    it('gives a table that matches nothing a new ID', () => {
+      const before = original();
+      const after = reparse(before, `${BLOG}\n\nTable tags {\n  label varchar\n  color varchar\n}`);
+
+      expect(after.tables.slice(0, 2).map(t => t.id)).toEqual(before.tables.map(t => t.id));
+      expect(before.tables.map(t => t.id)).not.toContain(after.tables[2].id);
+    });
+  });
+
+  describe('foreign key actions', () => {
+    const cases = FOREIGN_KEY_ACTIONS.flatMap(action =>
+      (['delete', 'update'] as const).map(setting => ({ action, setting }))
+    );
+    const dbml = (setting: string, action: string) => `Table users {
+  id integer [pk]
+}
+
+Table posts {
+  id integer [pk]
+  uid integer
+}
+
+Ref: posts.uid > users.id [${setting}: ${action.toLowerCase()}]`;
+
+    it.each(cases)('reads $setting: $action', ({ action, setting }) => {
+      const { relationships, errors } = parseDbml(dbml(setting, action), [], []);
+
+      expect(errors).toEqual([]);
+      expect(relationships[0][setting === 'delete' ? 'onDelete' : 'onUpdate']).toBe(action);
+    });
+
+    it.each(cases)('writes $setting: $action back as written', ({ action, setting }) => {
+      const { tables, relationships, enums } = parseDbml(dbml(setting, action), [], []);
+
+      expect(serializeToDbml(tables, relationships, enums)).toContain(
+        `Ref: posts.uid > users.id [${setting}: ${action.toLowerCase()}]`
+      );
+    });
+  });
+});
@@ -1,24 +1,60 @@
 import { Parser } from '@dbml/core';
-import type { Table, Column, Relationship } from '@/features/schema/types/schema.types';
-import type { ColumnType, RelationshipType } from '@/constants/schema';
+import type {
+  Table,
+  Column,
+  ColumnTypeParams,
+  Relationship,
+  Enum,
+  TableIndex,
+  TableGroup,
+  StickyNote,
+  SchemaProject,
+} from '@/features/schema/types/schema.types';
+import {
+  DEFAULT_STICKY_NOTE_SIZE,
+  FOREIGN_KEY_ACTIONS,
+  SQL_DIALECTS,
+  type ColumnType,
+  type ForeignKeyAction,
+  type RelationshipType,
+  type IndexType,
+  type SQLDialect,
+} from '@/constants/schema';
 import { findOpenSlot } from '@/lib/layout/smart-placement';
+import { fitGroupBounds, EMPTY_GROUP_SIZE } from '@/lib/layout/groups';
+import { getQualifiedTableName, getRelationshipColumnIds, pickTypeParams } from '@/features/schema/utils/schema.utils';
+import { emptySourceMap, type DbmlSourceMap, type SourceRange } from '@/lib/dbml/dbml-source-map';
+import { reconcile, nameOverlap, nameSimilarity, sequenceSimilarity } from '@/lib/dbml/dbml-identity';
 import type { Node } from '@xyflow/react';
 
 export interface ParseError {
   message: string;
   line?: number;
+  /** Offsets of the offending text, when @dbml/core points at it */
+  from?: number;
+  to?: number;
 }
 
 export interface ParseResult {
   tables: Table[];
   relationships: Relationship[];
+  enums: Enum[];
+  groups: TableGroup[];
+  notes: StickyNote[];
+  /** The `Project` block, when the source has one */
+  project?: SchemaProject;
+  /** Where the tables and columns are written; empty when parsing failed */
+  sourceMap: DbmlSourceMap;
+  /** Refs left out because an endpoint names no known column, e.g. `users.nope` */
+  unresolvedRefs: { endpoint: string; range?: SourceRange }[];
   errors: ParseError[];
 }
 
 // Minimal types for @dbml/core v6 AST (no official TS exports)
-interface DbmlFieldType { type_name: string }
+interface DbmlFieldType { type_name: string; schemaName?: string | null }
 interface DbmlDefault { value: string | number | boolean | null }
-interface DbmlToken { start?: { line?: number; column?: number } }
+interface DbmlTokenPosition { offset?: number; line?: number; column?: number }
+interface DbmlToken { start?: DbmlTokenPosition; end?: DbmlTokenPosition }
 interface DbmlField {
   name: string;
   type: DbmlFieldType;
@@ -30,35 +66,200 @@ interface DbmlField {
   note: string | { value: string } | null;
   token?: DbmlToken;
 }
+interface DbmlIndexColumn { type: 'column' | 'expression'; value: string }
+interface DbmlIndex {
+  name?: string;
+  type?: string;
+  unique?: boolean;
+  pk?: boolean;
+  note: string | { value: string } | null;
+  columns: DbmlIndexColumn[];
+}
 interface DbmlTable { 
   name: string; 
   alias?: string; 
   headerColor?: string; 
   note?: string | { value: string } | null; 
   fields: DbmlField[];
+  indexes?: DbmlIndex[];
+  token?: DbmlToken;
 }
-interface DbmlEndpoint { tableName: string; fieldNames: string[]; relation: string }
-interface DbmlRef { endpoints: [DbmlEndpoint, DbmlEndpoint]; token?: DbmlToken }
-interface DbmlSchema { tables: DbmlTable[]; refs: DbmlRef[] }
-interface DbmlDatabase { schemas: DbmlSchema[] }
-interface DbmlDiag { message: string; location?: { start?: { line?: number } } }
+interface DbmlEndpoint { schemaName: string | null; tableName: string; fieldNames: string[]; relation: string }
+interface DbmlRef {
+  name?: string | null;
+  endpoints: [DbmlEndpoint, DbmlEndpoint];
+  onDelete?: string;
+  onUpdate?: string;
+  token?: DbmlToken;
+}
+interface DbmlEnumValue { name: string; note: string | { value: string } | null }
+interface DbmlEnum { name: string; note: string | { value: string } | null; values: DbmlEnumValue[] }
+interface DbmlTableGroup {
+  name: string;
+  color?: string;
+  note: string | { value: string } | null;
+  tables: { name: string; schema?: { name: string } }[];
+}
+interface DbmlSchema { name: string; tables: DbmlTable[]; refs: DbmlRef[]; enums: DbmlEnum[]; tableGroups?: DbmlTableGroup[] }
+interface DbmlStickyNote { name: string; content: string }
+interface DbmlDatabase {
+  schemas: DbmlSchema[];
+  notes?: DbmlStickyNote[];
+  // Set from the `Project` block
+  name?: string;
+  databaseType?: string;
+  note?: string | null;
+}
+interface DbmlDiagPosition { line?: number; column?: number }
+interface DbmlDiag { message: string; location?: { start?: DbmlDiagPosition; end?: DbmlDiagPosition } }
 interface DbmlError { diags?: DbmlDiag[]; message?: string }
 
-function mapDbmlType(typeName: string): ColumnType {
-  const t = typeName.toLowerCase();
-  if (['varchar', 'char', 'nvarchar'].includes(t)) return 'string';
-  if (['int', 'integer', 'smallint', 'tinyint'].includes(t)) return 'integer';
-  if (t === 'bigint') return 'bigint';
-  if (['float', 'real', 'double'].includes(t)) return 'float';
-  if (['decimal', 'numeric'].includes(t)) return 'decimal';
-  if (['bool', 'boolean'].includes(t)) return 'boolean';
-  if (t === 'date') return 'date';
-  if (t === 'datetime') return 'datetime';
-  if (t === 'timestamp') return 'timestamp';
-  if (['json', 'jsonb'].includes(t)) return 'json';
-  if (t === 'uuid') return 'uuid';
-  if (t === 'text') return 'text';
-  return 'string';
+// Portable stand-ins for PostgreSQL types without a column type of their own
+const NATIVE_TYPE_FALLBACKS: Record<string, ColumnType> = {
+  citext: 'text',
+  tsvector: 'text',
+  tsquery: 'text',
+  xml: 'text',
+  inet: 'string',
+  cidr: 'string',
+  macaddr: 'string',
+  interval: 'string',
+  money: 'decimal',
+  bytea: 'binary',
+  serial: 'integer',
+  smallserial: 'integer',
+  bigserial: 'bigint',
+  mediumint: 'integer',
+  year: 'integer',
+  tinytext: 'text',
+  mediumtext: 'text',
+  longtext: 'text',
+  blob: 'binary',
+  longblob: 'binary',
+  varbinary: 'binary',
+  datetime2: 'datetime',
+  datetimeoffset: 'datetime',
+  uniqueidentifier: 'uuid',
+};
+
+const DEFAULT_SCHEMA_NAME = 'public';
+
+// Native types are read in the project's database_type, PostgreSQL when there is none
+const DEFAULT_NATIVE_TYPE_DIALECT: SQLDialect = 'postgresql';
+
+// database_type names are matched loosely, e.g. 'PostgreSQL', 'SQL Server', 'postgres' or 'MSSQL'
+const DATABASE_TYPE_ALIASES: Record<string, SQLDialect> = {
+  postgres: 'postgresql',
+  mssql: 'sqlserver',
+};
+
+function mapDatabaseType(databaseType: string | undefined): SQLDialect | undefined {
+  if (!databaseType) return undefined;
+  const key = databaseType.toLowerCase().replace(/\s+/g, '');
+  return SQL_DIALECTS.find((d) => d === key) ?? DATABASE_TYPE_ALIASES[key];
+}
+
+// Includes the column type names the serializer writes as they are, e.g. `string`
+const DBML_TYPES = new Map<string, ColumnType>([
+  ['string', 'string'],
+  ['varchar', 'string'],
+  ['char', 'string'],
+  ['nvarchar', 'string'],
+  ['character varying', 'string'],
+  ['character', 'string'],
+  ['int', 'integer'],
+  ['integer', 'integer'],
+  ['smallint', 'integer'],
+  ['tinyint', 'integer'],
+  ['bigint', 'bigint'],
+  ['float', 'float'],
+  ['real', 'float'],
+  ['double', 'float'],
+  ['double precision', 'float'],
+  ['decimal', 'decimal'],
+  ['numeric', 'decimal'],
+  ['bool', 'boolean'],
+  ['boolean', 'boolean'],
+  ['date', 'date'],
+  ['datetime', 'datetime'],
+  ['timestamp', 'timestamp'],
+  ['time', 'time'],
+  ['json', 'json'],
+  ['jsonb', 'jsonb'],
+  ['uuid', 'uuid'],
+  ['text', 'text'],
+  ['binary', 'binary'],
+]);
+
+function mapDbmlType(typeName: string): ColumnType | undefined {
+  return DBML_TYPES.get(typeName.toLowerCase());
+}
+
+/** Every type name the parser maps to a column type of its own or a stand-in */
+export const KNOWN_DBML_TYPES = [...DBML_TYPES.keys(), ...Object.keys(NATIVE_TYPE_FALLBACKS)];
+
+/**
+ * Whether a DBML type is neither mapped nor a known stand-in, so it was read
+ * as a string. Arguments, array brackets and time zones are ignored.
+ */
+export function isUnknownDbmlType(typeName: string): boolean {
+  const base = typeName
+    .trim()
+    .toLowerCase()
+    .replace(/(\[\])+$/, '')
+    .replace(/\s*\(.*\)$/, '')
+    .replace(/ with(out)? time zone$/, '')
+    .replace(/^(timestamp|time)tz$/, '$1');
+  return !mapDbmlType(base) && !Object.prototype.hasOwnProperty.call(NATIVE_TYPE_FALLBACKS, base);
+}
+
+/**
+ * Maps a DBML type with its arguments, e.g. `varchar(64)`, `numeric(18,4)`,
+ * `int[]` or `timestamp with time zone`, to a column type and its parameters
+ */
+function mapDbmlColumnType(
+  typeName: string,
+  dialect: SQLDialect
+): Pick<Column, 'type' | 'nativeType' | 'nativeTypeDialect'> & ColumnTypeParams {
+  let t = typeName.trim().toLowerCase();
+  if (t.endsWith('[]')) {
+    const element = mapDbmlColumnType(t.slice(0, -2), dialect);
+    return {
+      type: 'array',
+      ...pickTypeParams('array', { ...element, arrayElementType: element.type }),
+      ...(element.nativeType && { nativeType: typeName.trim(), nativeTypeDialect: dialect }),
+    };
+  }
+
+  let withTimezone = false;
+  if (t === 'timestamptz' || t === 'timetz') {
+    t = t.slice(0, -2);
+    withTimezone = true;
+  } else if (t.endsWith(' with time zone')) {
+    t = t.slice(0, -' with time zone'.length);
+    withTimezone = true;
+  }
+  t = t.replace(/ without time zone$/, '');
+
+  const args = /^(.+?)\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)$/.exec(t);
+  const type = mapDbmlType(args ? args[1] : t);
+  if (!type) {
+    // Unknown types are kept as written and exported verbatim to their dialect
+    return {
+      type: NATIVE_TYPE_FALLBACKS[args ? args[1] : t] ?? 'string',
+      nativeType: typeName.trim(),
+      nativeTypeDialect: dialect,
+    };
+  }
+  return {
+    type,
+    ...pickTypeParams(type, {
+      length: args ? Number(args[2]) : undefined,
+      precision: args ? Number(args[2]) : undefined,
+      scale: args?.[3] !== undefined ? Number(args[3]) : undefined,
+      withTimezone,
+    }),
+  };
 }
 
 // @dbml/core stores endpoint.relation as '1' or '*' (not '>' '<' '-' '<>')
@@ -70,6 +271,31 @@ function mapEndpointRelations(r0: string, r1: string): RelationshipType {
   return 'one-to-many';
 }
 
+// Ref settings are written in lower case, e.g. `[delete: set null]`; actions
+// without a counterpart, such as `set default`, are dropped
+function mapForeignKeyAction(action: string | undefined): ForeignKeyAction | undefined {
+  const upper = action?.trim().toUpperCase();
+  return FOREIGN_KEY_ACTIONS.find((a) => a === upper);
+}
+
+function tokenRange(token: DbmlToken | undefined): SourceRange | undefined {
+  const from = token?.start?.offset;
+  const to = token?.end?.offset;
+  return from !== undefined && to !== undefined ? { from, to } : undefined;
+}
+
+// Diagnostics give 1-based lines and columns rather than offsets
+function diagOffset(text: string, position: DbmlDiagPosition | undefined): number | undefined {
+  if (position?.line === undefined || position.column === undefined) return undefined;
+  let offset = 0;
+  for (let line = 1; line < position.line; line++) {
+    const newline = text.indexOf('\n', offset);
+    if (newline === -1) return undefined;
+    offset = newline + 1;
+  }
+  return Math.min(offset + position.column - 1, text.length);
+}
+
 function extractNote(note: string | { value: string } | null | undefined): string | undefined {
   if (!note) return undefined;
   if (typeof note === 'string') return note;
@@ -77,13 +303,152 @@ function extractNote(note: string | { value: string } | null | undefined): strin
   return undefined;
 }
 
+/**
+ * Maps the column indexes of a DBML table. Expression indexes and `[pk]`
+ * entries are skipped. DBML has no syntax for partial indexes, so the WHERE
+ * clause of a matching existing index (same name, or same columns) is kept.
+ */
+function mapIndexes(dbTable: DbmlTable, columns: Column[], existing: TableIndex[]): TableIndex[] {
+  const columnIdByName = new Map(columns.map((c) => [c.name, c.id]));
+  const indexes: TableIndex[] = [];
+
+  (dbTable.indexes ?? []).forEach((dbIndex) => {
+    if (dbIndex.pk || dbIndex.columns.some((c) => c.type !== 'column')) return;
+    const columnIds = dbIndex.columns.map((c) => columnIdByName.get(c.value));
+    if (columnIds.some((id) => !id)) return;
+
+    const key = columnIds.join(',');
+    const match =
+      existing.find((i) => dbIndex.name && i.name === dbIndex.name) ??
+      existing.find((i) => !dbIndex.name && !i.name && i.columnIds.join(',') === key);
+
+    indexes.push({
+      id: match?.id ?? `idx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: dbIndex.name || undefined,
+      columnIds: columnIds as string[],
+      unique: !!dbIndex.unique,
+      type: (dbIndex.type?.toLowerCase() as IndexType) || undefined,
+      where: match?.where,
+      note: extractNote(dbIndex.note),
+    });
+  });
+
+  return indexes;
+}
+
+/**
+ * Maps DBML table groups. A group keeps its ID, place and size across edits
+ * when its name is unchanged (or it is the only renamed one); a new group, or
+ * one whose tables changed, is fitted around its tables.
+ */
+function mapGroups(
+  dbGroups: DbmlTableGroup[],
+  tables: Table[],
+  existingGroups: TableGroup[],
+  center?: { x: number; y: number }
+): TableGroup[] {
+  const tableIdByName = new Map(tables.map((t) => [getQualifiedTableName(t), t.id]));
+  const matches = dbGroups.map((dbGroup) => ({
+    dbGroup,
+    existing: existingGroups.find((g) => g.name === dbGroup.name),
+  }));
+
+  const unmatchedExisting = existingGroups.filter((g) => !matches.some((m) => m.existing === g));
+  const unmatchedDbml = matches.filter((m) => !m.existing);
+  if (unmatchedExisting.length === 1 && unmatchedDbml.length === 1) {
+    unmatchedDbml[0].existing = unmatchedExisting[0];
+  }
+
+  return matches.map(({ dbGroup, existing }) => {
+    const tableIds = dbGroup.tables
+      .map((t) => {
+        const schemaName = t.schema?.name;
+        const namespace = schemaName && schemaName !== DEFAULT_SCHEMA_NAME ? schemaName : undefined;
+        return tableIdByName.get(getQualifiedTableName({ name: t.name, namespace }));
+      })
+      .filter((id): id is string => !!id);
+
+    const sameTables = existing && existing.tableIds.join(',') === tableIds.join(',');
+    const bounds = sameTables
+      ? { position: existing.position, width: existing.width, height: existing.height }
+      : fitGroupBounds(tables.filter((t) => tableIds.includes(t.id))) ?? {
+          position: existing?.position ?? center ?? { x: 200, y: 200 },
+          ...EMPTY_GROUP_SIZE,
+        };
+
+    return {
+      id: existing?.id ?? `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: dbGroup.name,
+      tableIds,
+      note: extractNote(dbGroup.note),
+      color: dbGroup.color,
+      ...bounds,
+      collapsed: existing?.collapsed,
+    };
+  });
+}
+
+/**
+ * Maps DBML sticky notes. DBML only holds a note's name and content, so an
+ * existing note with the same name (or the only renamed one) keeps its ID,
+ * colour, place, size and pinned table.
+ */
+function mapNotes(
+  dbNotes: DbmlStickyNote[],
+  tables: Table[],
+  existingNotes: StickyNote[],
+  existingNodes: Node[],
+  center?: { x: number; y: number }
+): StickyNote[] {
+  const matches = dbNotes.map((dbNote) => ({
+    dbNote,
+    existing: existingNotes.find((n) => n.name === dbNote.name),
+  }));
+
+  const unmatchedExisting = existingNotes.filter((n) => !matches.some((m) => m.existing === n));
+  const unmatchedDbml = matches.filter((m) => !m.existing);
+  if (unmatchedExisting.length === 1 && unmatchedDbml.length === 1) {
+    unmatchedDbml[0].existing = unmatchedExisting[0];
+  }
+
+  const tableIds = new Set(tables.map((t) => t.id));
+
+  return matches.map(({ dbNote, existing }) => ({
+    id: existing?.id ?? `note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: dbNote.name,
+    // A multi-line note ends with the newline before its closing quotes
+    content: dbNote.content.replace(/\n$/, ''),
+    color: existing?.color,
+    position: existing?.position ?? findOpenSlot(existingNodes, center ?? { x: 200, y: 200 }),
+    width: existing?.width ?? DEFAULT_STICKY_NOTE_SIZE.width,
+    height: existing?.height ?? DEFAULT_STICKY_NOTE_SIZE.height,
+    tableId: existing?.tableId && tableIds.has(existing.tableId) ? existing.tableId : undefined,
+  }));
+}
+
 export function parseDbml(
   text: string,
   existingTables: Table[],
   existingNodes: Node[],
-  center?: { x: number; y: number }
+  center?: { x: number; y: number },
+  existingEnums: Enum[] = [],
+  existingGroups: TableGroup[] = [],
+  existingNotes: StickyNote[] = [],
+  existingRelationships: Relationship[] = [],
+  editedRanges?: DbmlSourceMap
 ): ParseResult {
-  if (!text.trim()) return { tables: [], relationships: [], errors: [] };
+  if (!text.trim()) {
+    return {
+      tables: [],
+      relationships: [],
+      enums: [],
+      groups: [],
+      notes: [],
+      sourceMap: emptySourceMap(),
+      unresolvedRefs: [],
+      errors: [],
+    };
+  }
 
   let database: DbmlDatabase;
   try {
@@ -91,89 +456,238 @@ export function parseDbml(
   } catch (e: unknown) {
     // @dbml/core v6 throws { diags: [{ message, location }] } instead of a standard Error
     const err = e as DbmlError;
-    const diag = err.diags?.[0];
-    const msg = diag?.message ?? err.message ?? String(e);
-    const line = diag?.location?.start?.line;
-    return { tables: [], relationships: [], errors: [{ message: msg, line }] };
+    const errors: ParseError[] = err.diags?.length
+      ? err.diags.map((diag) => ({
+          message: diag.message,
+          line: diag.location?.start?.line,
+          from: diagOffset(text, diag.location?.start),
+          to: diagOffset(text, diag.location?.end),
+        }))
+      : [{ message: err.message ?? String(e) }];
+    return {
+      tables: [],
+      relationships: [],
+      enums: [],
+      groups: [],
+      notes: [],
+      sourceMap: emptySourceMap(),
+      unresolvedRefs: [],
+      errors,
+    };
   }
 
-  const schema = database.schemas?.[0];
-  if (!schema) return { tables: [], relationships: [], errors: [] };
+  const project: SchemaProject | undefined =
+    database.name !== undefined
+      ? {
+          name: database.name,
+          description: database.note?.replace(/\n$/, '') || undefined,
+          databaseType: mapDatabaseType(database.databaseType),
+        }
+      : undefined;
+  const nativeTypeDialect = project?.databaseType ?? DEFAULT_NATIVE_TYPE_DIALECT;
 
-  // Pass 1: Map exact name matches
-  const matchedExistingIds = new Set<string>();
-  const tableMatches = schema.tables.map((dbTable) => {
-    const existing = existingTables.find((t) => t.name === dbTable.name);
-    if (existing) matchedExistingIds.add(existing.id);
-    return { dbTable, existing };
+  // Tables in `public`, DBML's default schema, have no namespace
+  const schemas = database.schemas ?? [];
+  const namespaceOf = (schemaName: string | null | undefined) =>
+    schemaName && schemaName !== DEFAULT_SCHEMA_NAME ? schemaName : undefined;
+
+  // Enums keep their IDs across edits when the name is unchanged. DBML cannot
+  // express a note on the enum itself, so an existing one is carried over.
+  const dbEnums = schemas.flatMap((schema) =>
+    (schema.enums ?? []).map((dbEnum) => ({ dbEnum, namespace: namespaceOf(schema.name) }))
+  );
+  const enums: Enum[] = dbEnums.map(({ dbEnum, namespace }) => {
+    const existing = existingEnums.find((e) => e.name === dbEnum.name && e.namespace === namespace);
+    return {
+      id: existing?.id ?? `enum_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: dbEnum.name,
+      namespace,
+      values: dbEnum.values.map((value) => ({
+        name: value.name,
+        note: extractNote(value.note),
+      })),
+      note: extractNote(dbEnum.note) ?? existing?.note,
+    };
   });
+  // Column types name an enum the way tables are named, e.g. `core.status`
+  const enumByName = new Map(enums.map((e) => [getQualifiedTableName(e), e]));
+  const fieldEnum = (field: DbmlField): Enum | undefined =>
+    field.type &&
+    enumByName.get(getQualifiedTableName({ name: field.type.type_name, namespace: namespaceOf(field.type.schemaName) }));
 
-  // Pass 2: Heuristic renaming
-  // If exactly one table is unmatched in both sets, map it.
-  const unmatchedExisting = existingTables.filter(t => !matchedExistingIds.has(t.id));
-  const unmatchedDbml = tableMatches.filter(m => !m.existing);
-  
-  if (unmatchedExisting.length === 1 && unmatchedDbml.length === 1) {
-    unmatchedDbml[0].existing = unmatchedExisting[0];
-  }
+  const fieldType = (field: DbmlField): ColumnType => {
+    const typeName = field.type?.type_name ?? 'string';
+    return fieldEnum(field) ? 'enum' : mapDbmlColumnType(typeName, nativeTypeDialect).type;
+  };
+
+  // A renamed table most likely keeps its column names, or at least their types
+  const tableSimilarity = (dbTable: DbmlTable, table: Table): number =>
+    0.4 * nameOverlap(dbTable.fields.map((f) => f.name), table.columns.map((c) => c.name)) +
+    0.3 * sequenceSimilarity(dbTable.fields.map(fieldType), table.columns.map((c) => c.type)) +
+    0.3 * nameSimilarity(dbTable.name, table.name);
+
+  // Tables and columns keep their IDs, place and canvas-only settings across
+  // edits, including renames; see `reconcile` for how they are matched
+  const dbTables = schemas.flatMap((schema) =>
+    schema.tables.map((dbTable) => ({ dbTable, namespace: namespaceOf(schema.name) }))
+  );
+  const tableMatches = reconcile(dbTables, existingTables, {
+    range: ({ dbTable }) => tokenRange(dbTable.token),
+    editedRanges: editedRanges?.tables,
+    sameName: ({ dbTable, namespace }, t) => t.name === dbTable.name && t.namespace === namespace,
+    similarity: ({ dbTable }, t) => tableSimilarity(dbTable, t),
+    threshold: 0.4,
+    pairLeftovers: true,
+  });
+
+  const sourceMap = emptySourceMap();
 
   // To detect inline refs using tokens: capture field token lines
   const fieldLines = new Map<number, { tableId: string; columnId: string }>();
 
-  const tables: Table[] = tableMatches.map(({ dbTable, existing }) => {
+  const tables: Table[] = dbTables.map(({ dbTable, namespace }, tableIndex) => {
+    const existing = tableMatches[tableIndex];
     const position = existing?.position ?? findOpenSlot(existingNodes, center ?? { x: 200, y: 200 });
     const tableId = existing?.id ?? `table_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    const columns: Column[] = dbTable.fields.map((field) => {
-      const colId =
-        existing?.columns.find((c) => c.name === field.name)?.id ??
-        `col_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
+    const tableRange = tokenRange(dbTable.token);
+    if (tableRange) sourceMap.tables.set(tableId, tableRange);
+
+    const parsedColumns = dbTable.fields.map((field, index) => {
+      const typeName = field.type?.type_name ?? 'string';
+      const enumDef = fieldEnum(field);
+      return {
+        field,
+        index,
+        column: {
+          name: field.name,
+          ...(enumDef ? { type: 'enum' as const } : mapDbmlColumnType(typeName, nativeTypeDialect)),
+          enumId: enumDef?.id,
+          primaryKey: !!field.pk,
+          nullable: !field.not_null && !field.pk,
+          unique: !!field.unique,
+          defaultValue: field.dbdefault?.value != null ? String(field.dbdefault.value) : undefined,
+          increment: !!field.increment,
+          note: extractNote(field.note),
+        },
+      };
+    });
+
+    // A renamed column is most likely one of the same type in the same place
+    const existingColumns = existing?.columns ?? [];
+    const columnMatches = reconcile(parsedColumns, existingColumns, {
+      range: ({ field }) => tokenRange(field.token),
+      editedRanges: editedRanges?.columns,
+      sameName: ({ column }, c) => c.name === column.name,
+      similarity: ({ column, index }, c) =>
+        (c.type === column.type ? 0.5 : 0) +
+        (existingColumns[index] === c ? 0.3 : 0) +
+        0.2 * nameSimilarity(column.name, c.name),
+      threshold: 0.6,
+    });
+
+    const columns: Column[] = parsedColumns.map(({ field, column }, index) => {
+      const match = columnMatches[index];
+      const colId = match?.id ?? `col_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
       const line = field.token?.start?.line;
       if (line !== undefined) {
         fieldLines.set(line, { tableId, columnId: colId });
       }
+      const columnRange = tokenRange(field.token);
+      if (columnRange) sourceMap.columns.set(colId, columnRange);
 
+      // Settings DBML cannot express are carried over from the matched column
       return {
         id: colId,
-        name: field.name,
-        type: mapDbmlType(field.type?.type_name ?? 'string'),
-        primaryKey: !!field.pk,
-        nullable: !field.not_null && !field.pk,
-        unique: !!field.unique,
-        defaultValue: field.dbdefault?.value != null ? String(field.dbdefault.value) : undefined,
-        increment: !!field.increment,
-        note: extractNote(field.note),
+        description: match?.description,
+        foreignKey: match?.foreignKey,
+        fieldName: match?.fieldName,
+        ...column,
       };
     });
 
+    // Composite primary keys are declared as `indexes { (a, b) [pk] }`
+    (dbTable.indexes ?? [])
+      .filter((dbIndex) => dbIndex.pk)
+      .forEach((dbIndex) => {
+        dbIndex.columns.forEach((indexColumn) => {
+          const column = columns.find((c) => c.name === indexColumn.value);
+          if (!column) return;
+          column.primaryKey = true;
+          column.nullable = false;
+        });
+      });
+
+    const indexes = mapIndexes(dbTable, columns, existing?.indexes ?? []);
+
     return {
       id: tableId,
       name: dbTable.name,
+      namespace,
       alias: dbTable.alias,
       note: extractNote(dbTable.note),
       headerColor: dbTable.headerColor,
       position,
+      width: existing?.width,
+      collapsed: existing?.collapsed,
       columns,
+      indexes: indexes.length > 0 ? indexes : undefined,
+      description: existing?.description,
+      color: existing?.color,
+      modelName: existing?.modelName,
     };
   });
 
-  // col lookup: "tableName.fieldName" -> { tableId, columnId }
+  // col lookup: "namespace.tableName.fieldName" -> { tableId, columnId }
   const colLookup = new Map<string, { tableId: string; columnId: string }>();
   tables.forEach((table) => {
     table.columns.forEach((col) => {
-      colLookup.set(`${table.name}.${col.name}`, { tableId: table.id, columnId: col.id });
+      colLookup.set(`${getQualifiedTableName(table)}.${col.name}`, { tableId: table.id, columnId: col.id });
     });
   });
+  // Endpoints may name a table by its alias, e.g. `Table users as U` ... `ref: > U.id`
+  const tableNames = new Set(tables.map((t) => getQualifiedTableName(t)));
+  const tableNameByAlias = new Map(
+    tables.filter((t) => t.alias).map((t) => [t.alias!, getQualifiedTableName(t)])
+  );
+  const endpointTableName = (endpoint: DbmlEndpoint) => {
+    const name = getQualifiedTableName({ name: endpoint.tableName, namespace: namespaceOf(endpoint.schemaName) });
+    return tableNames.has(name) ? name : tableNameByAlias.get(name) ?? name;
+  };
+  const endpointColumn = (endpoint: DbmlEndpoint, fieldName: string) =>
+    colLookup.get(`${endpointTableName(endpoint)}.${fieldName}`);
+
+  // A relationship between the same columns keeps its ID, whichever way round it is written
+  const endpointsKey = (sourceColumnIds: string[], targetColumnIds: string[]) =>
+    [sourceColumnIds.join(','), targetColumnIds.join(',')].sort().join('|');
+  const existingRelationshipIds = new Map(
+    existingRelationships.map((rel) => {
+      const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(rel);
+      return [endpointsKey(sourceColumnIds, targetColumnIds), rel.id];
+    })
+  );
 
   const relationships: Relationship[] = [];
-  schema.refs.forEach((ref) => {
+  const unresolvedRefs: ParseResult['unresolvedRefs'] = [];
+  schemas.flatMap((schema) => schema.refs).forEach((ref) => {
     const ep0 = ref.endpoints[0];
     const ep1 = ref.endpoints[1];
 
-    const src = colLookup.get(`${ep0.tableName}.${ep0.fieldNames[0]}`);
-    const tgt = colLookup.get(`${ep1.tableName}.${ep1.fieldNames[0]}`);
-    if (!src || !tgt) return;
+    // Composite refs (`a.(x, y) > b.(x, y)`) list several fields per endpoint
+    const srcCols = ep0.fieldNames.map((name) => endpointColumn(ep0, name));
+    const tgtCols = ep1.fieldNames.map((name) => endpointColumn(ep1, name));
+    const src = srcCols[0];
+    const tgt = tgtCols[0];
+    if (!src || !tgt || srcCols.some((c) => !c) || tgtCols.some((c) => !c)) {
+      const [endpoint, fieldNames, columns] = srcCols.some((c) => !c)
+        ? [ep0, ep0.fieldNames, srcCols]
+        : [ep1, ep1.fieldNames, tgtCols];
+      const missing = fieldNames.find((_, i) => !columns[i]);
+      unresolvedRefs.push({ endpoint: `${endpointTableName(endpoint)}.${missing}`, range: tokenRange(ref.token) });
+      return;
+    }
+    const isComposite = srcCols.length > 1 || tgtCols.length > 1;
 
     // Detect inline if the ref token line matches a field token line
     let isInline = false;
@@ -193,17 +707,30 @@ export function parseDbml(
       }
     }
 
+    const key = endpointsKey(srcCols.map((c) => c!.columnId), tgtCols.map((c) => c!.columnId));
+    const relationshipId = existingRelationshipIds.get(key) ?? `rel_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const refRange = tokenRange(ref.token);
+    if (refRange) sourceMap.refs.set(relationshipId, refRange);
     relationships.push({
-      id: `rel_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: relationshipId,
       sourceTableId: src.tableId,
       // Append handle suffixes to match how canvas-created relationships store column IDs
       sourceColumnId: `${src.columnId}-right`,
       targetTableId: tgt.tableId,
       targetColumnId: `${tgt.columnId}-left`,
+      sourceColumnIds: isComposite ? srcCols.map((c) => c!.columnId) : undefined,
+      targetColumnIds: isComposite ? tgtCols.map((c) => c!.columnId) : undefined,
       type: mapEndpointRelations(ep0.relation, ep1.relation),
       isInline,
+      name: ref.name || undefined,
+      onDelete: mapForeignKeyAction(ref.onDelete),
+      onUpdate: mapForeignKeyAction(ref.onUpdate),
     });
   });
 
-  return { tables, relationships, errors: [] };
+  const groups = mapGroups(schemas.flatMap((schema) => schema.tableGroups ?? []), tables, existingGroups, center);
+
+  const notes = mapNotes(database.notes ?? [], tables, existingNotes, existingNodes, center);
+
+  return { tables, relationships, enums, groups, notes, project, sourceMap, unresolvedRefs, errors: [] };
 }
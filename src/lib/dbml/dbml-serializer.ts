@@ -1,5 +1,15 @@
-import type { Table, Relationship } from '@/features/schema/types/schema.types';
-import type { RelationshipType } from '@/constants/schema';
+import type {
+  Table,
+  Column,
+  Relationship,
+  Enum,
+  TableIndex,
+  TableGroup,
+  StickyNote,
+  SchemaProject,
+} from '@/features/schema/types/schema.types';
+import { SQL_DIALECT_LABELS, type RelationshipType } from '@/constants/schema';
+import { getRelationshipColumnIds } from '@/features/schema/utils/schema.utils';
 
 // Returns the DBML ref symbol such that the roundtrip with the parser is consistent.
 // @dbml/core stores endpoint.relation as '1' or '*':
@@ -7,7 +17,7 @@ import type { RelationshipType } from '@/constants/schema';
 //   '>' -> ep0='*', ep1='1'  (source is many, target is one)
 //   '-' -> ep0='1', ep1='1'
 //   '<>' -> ep0='*', ep1='*'
-function refNotation(type: RelationshipType): string {
+export function refNotation(type: RelationshipType): string {
   switch (type) {
     case 'one-to-many': return '<';
     case 'many-to-one': return '>';
@@ -19,6 +29,14 @@ function refNotation(type: RelationshipType): string {
   }
 }
 
+// Settings of a standalone Ref, e.g. `[delete: cascade, update: set null]`
+function refSettings(rel: Relationship): string {
+  const settings: string[] = [];
+  if (rel.onDelete) settings.push(`delete: ${rel.onDelete.toLowerCase()}`);
+  if (rel.onUpdate) settings.push(`update: ${rel.onUpdate.toLowerCase()}`);
+  return settings.length > 0 ? ` [${settings.join(', ')}]` : '';
+}
+
 function columnConstraints(
   col: {
     primaryKey: boolean;
@@ -28,13 +46,16 @@ function columnConstraints(
     increment?: boolean;
     note?: string;
   },
-  inlineRefs?: string[]
+  inlineRefs?: string[],
+  inlinePk = true
 ): string {
   const parts: string[] = [];
-  if (col.primaryKey) parts.push('pk');
+  // Columns of a composite primary key are declared in the indexes block instead
+  const pk = col.primaryKey && inlinePk;
+  if (pk) parts.push('pk');
   if (col.increment) parts.push('increment');
-  if (!col.nullable && !col.primaryKey) parts.push('not null');
-  if (col.unique && !col.primaryKey) parts.push('unique');
+  if (!col.nullable && !pk) parts.push('not null');
+  if (col.unique && !pk) parts.push('unique');
   if (col.defaultValue != null) parts.push(`default: '${col.defaultValue}'`);
   if (col.note) parts.push(`note: '${col.note.replace(/'/g, "\\'")}'`);
   if (inlineRefs && inlineRefs.length > 0) {
@@ -57,10 +78,120 @@ function stripHandleSuffix(id: string): string {
     .replace(/-right$/, '');
 }
 
-export function serializeToDbml(tables: Table[], relationships: Relationship[]): string {
-  if (tables.length === 0) return '';
+// DBML has no syntax for a note on the enum itself; only value notes are written
+function enumBlock(enumDef: Enum): string {
+  const values = enumDef.values.map((value) => {
+    const note = value.note ? ` [note: '${value.note.replace(/'/g, "\\'")}']` : '';
+    return `  ${q(value.name)}${note}`;
+  });
+  return `Enum ${tableRef(enumDef)} {\n${values.join('\n')}\n}`;
+}
+
+function groupBlock(group: TableGroup, tablesById: Map<string, Table>): string {
+  const props: string[] = [];
+  if (group.color) props.push(`color: ${group.color}`);
+  if (group.note) props.push(`note: '${group.note.replace(/'/g, "\\'")}'`);
+  const propsStr = props.length > 0 ? ` [${props.join(', ')}]` : '';
+
+  const members = group.tableIds
+    .map((id) => tablesById.get(id))
+    .filter((t): t is Table => !!t)
+    .map((t) => `  ${tableRef(t)}`);
+  return `TableGroup ${q(group.name)}${propsStr} {\n${members.join('\n')}\n}`;
+}
+
+// Single-line text is written as a quoted string, anything longer as a
+// '''-block indented by `indent`; DBML strips the block's indentation when parsing
+function quotedText(text: string, indent: string): string {
+  const escaped = text.replace(/\\/g, '\\\\');
+  if (!text.includes('\n')) return `'${escaped.replace(/'/g, "\\'")}'`;
+
+  const lines = escaped
+    .replace(/'''/g, "\\'''")
+    .split('\n')
+    .map((line) => (line ? `${indent}${line}` : ''));
+  return `'''\n${lines.join('\n')}\n${indent}'''`;
+}
+
+function stickyNoteBlock(note: StickyNote): string {
+  return `Note ${q(note.name)} {\n  ${quotedText(note.content, '  ')}\n}`;
+}
+
+function projectBlock(project: SchemaProject): string {
+  const props: string[] = [];
+  if (project.databaseType) props.push(`  database_type: '${SQL_DIALECT_LABELS[project.databaseType]}'`);
+  if (project.description) props.push(`  Note: ${quotedText(project.description, '  ')}`);
+  return `Project ${q(project.name)} {\n${props.join('\n')}\n}`;
+}
+
+// Column type with its parameters, in a form the parser maps back to the same column
+function columnType(col: Column): string {
+  if (col.nativeType) {
+    // Names with spaces, e.g. double precision, need quotes
+    return /^\w+(\(\s*\d+(\s*,\s*\d+)*\s*\))?(\[\])*$/.test(col.nativeType) ? col.nativeType : `"${col.nativeType}"`;
+  }
+  switch (col.type) {
+    case 'string':
+      return col.length ? `varchar(${col.length})` : col.type;
+    case 'decimal':
+      if (col.precision == null) return col.type;
+      return `decimal(${col.precision}${col.scale != null ? `,${col.scale}` : ''})`;
+    case 'array':
+      return col.arrayElementType ? `${columnType({ ...col, type: col.arrayElementType, arrayElementType: undefined })}[]` : col.type;
+    case 'timestamp':
+    case 'time':
+      return col.withTimezone ? `${col.type}tz` : col.type;
+    case 'datetime':
+      return col.withTimezone ? '"datetime with time zone"' : col.type;
+    default:
+      return col.type;
+  }
+}
+
+// Table name with its schema, e.g. `core.users`
+function tableRef(table: Pick<Table, 'name' | 'namespace'>): string {
+  return table.namespace ? `${q(table.namespace)}.${q(table.name)}` : q(table.name);
+}
+
+// Writes a column name list as `a` or `(a, b)`
+function columnTuple(names: string[]): string {
+  return names.length === 1 ? q(names[0]) : `(${names.map(q).join(', ')})`;
+}
+
+// DBML has no syntax for partial indexes; the WHERE clause is not written
+function indexesBlock(table: Table): string | null {
+  const colIdToName = new Map(table.columns.map((c) => [c.id, c.name]));
+  const pkColumns = table.columns.filter((c) => c.primaryKey);
+  const pkLines = pkColumns.length > 1 ? [`    ${columnTuple(pkColumns.map((c) => c.name))} [pk]`] : [];
+  const indexLines = (table.indexes ?? []).flatMap((index: TableIndex) => {
+    const names = index.columnIds.map((id) => colIdToName.get(id)).filter((name): name is string => !!name);
+    if (names.length === 0) return [];
+
+    const target = columnTuple(names);
+    const settings: string[] = [];
+    if (index.unique) settings.push('unique');
+    if (index.name) settings.push(`name: '${index.name.replace(/'/g, "\\'")}'`);
+    if (index.type) settings.push(`type: ${index.type}`);
+    if (index.note) settings.push(`note: '${index.note.replace(/'/g, "\\'")}'`);
+    return [`    ${target}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`];
+  });
+  const lines = [...pkLines, ...indexLines];
+  return lines.length > 0 ? `  indexes {\n${lines.join('\n')}\n  }` : null;
+}
 
-  const tableIdToName = new Map(tables.map((t) => [t.id, t.name]));
+export function serializeToDbml(
+  tables: Table[],
+  relationships: Relationship[],
+  enums: Enum[] = [],
+  groups: TableGroup[] = [],
+  notes: StickyNote[] = [],
+  project?: SchemaProject
+): string {
+  if (tables.length === 0 && enums.length === 0 && notes.length === 0) return '';
+
+  const enumIdToName = new Map(enums.map((e) => [e.id, tableRef(e)]));
+
+  const tableIdToName = new Map(tables.map((t) => [t.id, tableRef(t)]));
   const colIdToName = new Map<string, string>();
   tables.forEach((t) => t.columns.forEach((c) => colIdToName.set(c.id, c.name)));
 
@@ -71,8 +202,10 @@ export function serializeToDbml(tables: Table[], relationships: Relationship[]):
   tables.forEach(t => inlineRefsByTable.set(t.id, new Map()));
 
   relationships.forEach(rel => {
-    if (!rel.isInline || drawnInlineRefIds.has(rel.id)) return;
-    
+    // Composite refs have no inline form, and inline refs cannot carry a name or settings
+    if (!rel.isInline || rel.sourceColumnIds || rel.targetColumnIds || drawnInlineRefIds.has(rel.id)) return;
+    if (rel.name || rel.onDelete || rel.onUpdate) return;
+
     const srcTable = tables.find(t => t.id === rel.sourceTableId);
     const tgtTable = tables.find(t => t.id === rel.targetTableId);
     if (!srcTable || !tgtTable) return;
@@ -101,7 +234,7 @@ export function serializeToDbml(tables: Table[], relationships: Relationship[]):
         const refs = inlineRefsByTable.get(srcTable.id);
         if (refs) {
           const arr = refs.get(srcCol.id) || [];
-          arr.push(`${refNotation(rel.type)} ${q(tgtTable.name)}.${q(tgtCol.name)}`);
+          arr.push(`${refNotation(rel.type)} ${tableRef(tgtTable)}.${q(tgtCol.name)}`);
           refs.set(srcCol.id, arr);
           drawnInlineRefIds.add(rel.id);
         }
@@ -116,7 +249,7 @@ export function serializeToDbml(tables: Table[], relationships: Relationship[]):
           else if (rel.type === 'one-to-one') revType = '-';
           else if (rel.type === 'many-to-many') revType = '<>';
           
-          arr.push(`${revType} ${q(srcTable.name)}.${q(srcCol.name)}`);
+          arr.push(`${revType} ${tableRef(srcTable)}.${q(srcCol.name)}`);
           refs.set(tgtCol.id, arr);
           drawnInlineRefIds.add(rel.id);
         }
@@ -125,9 +258,12 @@ export function serializeToDbml(tables: Table[], relationships: Relationship[]):
 
   const tableBlocks = tables.map((table) => {
     const inlineRefs = inlineRefsByTable.get(table.id)!;
+    const inlinePk = table.columns.filter((c) => c.primaryKey).length <= 1;
 
     const cols = table.columns.map((col) => {
-      return `  ${q(col.name)} ${col.type}${columnConstraints(col, inlineRefs.get(col.id))}`;
+      const enumName = col.type === 'enum' && col.enumId ? enumIdToName.get(col.enumId) : undefined;
+      const type = enumName ?? columnType(col);
+      return `  ${q(col.name)} ${type}${columnConstraints(col, inlineRefs.get(col.id), inlinePk)}`;
     });
 
     const aliasStr = table.alias ? ` as ${q(table.alias)}` : '';
@@ -138,24 +274,41 @@ export function serializeToDbml(tables: Table[], relationships: Relationship[]):
     if (table.note) tableProps.push(`note: '${table.note.replace(/'/g, "\\'")}'`);
     const propsStr = tableProps.length > 0 ? ` [${tableProps.join(', ')}]` : '';
 
-    return `Table ${q(table.name)}${aliasStr}${propsStr} {\n${cols.join('\n')}\n}`;
+    const indexes = indexesBlock(table);
+    if (indexes) cols.push('', indexes);
+
+    return `Table ${tableRef(table)}${aliasStr}${propsStr} {\n${cols.join('\n')}\n}`;
   });
 
   const refBlocks: string[] = [];
   relationships.forEach((rel) => {
     if (drawnInlineRefIds.has(rel.id)) return;
     
+    const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(rel);
     const srcTable = tableIdToName.get(rel.sourceTableId);
-    const srcCol = colIdToName.get(stripHandleSuffix(rel.sourceColumnId));
+    const srcCols = sourceColumnIds.map((id) => colIdToName.get(id));
     const tgtTable = tableIdToName.get(rel.targetTableId);
-    const tgtCol = colIdToName.get(stripHandleSuffix(rel.targetColumnId));
-    if (!srcTable || !srcCol || !tgtTable || !tgtCol) return;
+    const tgtCols = targetColumnIds.map((id) => colIdToName.get(id));
+    if (!srcTable || !tgtTable || srcCols.some((c) => !c) || tgtCols.some((c) => !c)) return;
+    const name = rel.name ? ` ${q(rel.name)}` : '';
     refBlocks.push(
-      `Ref: ${q(srcTable)}.${q(srcCol)} ${refNotation(rel.type)} ${q(tgtTable)}.${q(tgtCol)}`
+      `Ref${name}: ${srcTable}.${columnTuple(srcCols as string[])} ${refNotation(rel.type)} ${tgtTable}.${columnTuple(tgtCols as string[])}${refSettings(rel)}`
     );
   });
 
-  const parts = [...tableBlocks];
+  const tablesById = new Map(tables.map((t) => [t.id, t]));
+  const groupBlocks = groups.map((group) => groupBlock(group, tablesById));
+
+  // The Project block is only written once the schema has settings worth keeping
+  const projectBlocks = project && (project.databaseType || project.description) ? [projectBlock(project)] : [];
+
+  const parts = [
+    ...projectBlocks,
+    ...enums.map(enumBlock),
+    ...tableBlocks,
+    ...groupBlocks,
+    ...notes.map(stickyNoteBlock),
+  ];
   if (refBlocks.length > 0) parts.push('', ...refBlocks);
   return parts.join('\n\n');
 }
@@ -0,0 +1,57 @@
+import type { ChangeDesc } from '@codemirror/state';
+
+/** Character offsets of a block or line in the DBML source */
+export interface SourceRange {
+  from: number;
+  to: number;
+}
+
+/** Where each table, column and ref is written in the DBML source, keyed by ID */
+export interface DbmlSourceMap {
+  tables: Map<string, SourceRange>;
+  columns: Map<string, SourceRange>;
+  refs: Map<string, SourceRange>;
+}
+
+export const emptySourceMap = (): DbmlSourceMap => ({ tables: new Map(), columns: new Map(), refs: new Map() });
+
+/** Number of characters two ranges share */
+export const rangeOverlap = (a: SourceRange, b: SourceRange): number =>
+  Math.max(0, Math.min(a.to, b.to) - Math.max(a.from, b.from));
+
+/**
+ * Carries a source map through editor changes, so each range covers the same
+ * text afterwards. Text typed just before or after a block stays outside it;
+ * a block whose text was deleted is dropped.
+ */
+export function mapSourceMap(sourceMap: DbmlSourceMap, changes: ChangeDesc): DbmlSourceMap {
+  const mapRanges = (ranges: Map<string, SourceRange>) => {
+    const mapped = new Map<string, SourceRange>();
+    ranges.forEach((range, id) => {
+      const from = changes.mapPos(range.from, 1);
+      const to = changes.mapPos(range.to, -1);
+      if (to > from) mapped.set(id, { from, to });
+    });
+    return mapped;
+  };
+
+  return {
+    tables: mapRanges(sourceMap.tables),
+    columns: mapRanges(sourceMap.columns),
+    refs: mapRanges(sourceMap.refs),
+  };
+}
+
+/** The ID of the innermost range holding `pos`, or null when none does */
+export function findRangeAt(ranges: Map<string, SourceRange>, pos: number): string | null {
+  let found: string | null = null;
+  let foundLength = Infinity;
+  ranges.forEach((range, id) => {
+    if (pos < range.from || pos > range.to) return;
+    if (range.to - range.from < foundLength) {
+      found = id;
+      foundLength = range.to - range.from;
+    }
+  });
+  return found;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { definitionOf, indexDbmlSymbols, occurrenceAt, referencesTo, renameChanges, type DbmlSymbolIndex } from './dbml-symbols';
+
+const BLOG = `Table core."user accounts" as U {
+  id integer [pk]
+  name varchar
+  indexes {
+    (id, name) [unique]
+    name
+  }
+}
+
+Table posts {
+  id integer [pk]
+  uid integer [ref: > U.id]
+  author_name varchar
+}
+
+Ref: posts.(uid, author_name) > core."user accounts".(id, name)
+Ref: posts.author_name - U.name
+
+TableGroup blog {
+  core."user accounts"
+  posts
+}`;
+
+function index(text: string): DbmlSymbolIndex {
+  const result = indexDbmlSymbols(text);
+  expect(result).not.toBeNull();
+  return result!;
+}
+
+// The occurrence at the `nth` place `written` appears in the text
+function at(symbols: DbmlSymbolIndex, text: string, written: string, nth = 0) {
+  let pos = -1;
+  for (let i = 0; i <= nth; i++) pos = text.indexOf(written, pos + 1);
+  const occurrence = occurrenceAt(symbols, pos);
+  expect(occurrence).toBeDefined();
+  return occurrence!;
+}
+
+const textOf = (text: string, ranges: { from: number; to: number }[]) => ranges.map(range => text.slice(range.from, range.to));
+
+// The text with the changes applied, last change first so earlier offsets stay valid
+const apply = (text: string, changes: { from: number; to: number; insert: string }[]) =>
+  [...changes].sort((a, b) => b.from - a.from).reduce((result, change) => result.slice(0, change.from) + change.insert + result.slice(change.to), text);
+
+function rename(text: string, written: string, newName: string, nth = 0) {
+  const symbols = index(text);
+  const result = renameChanges(symbols, at(symbols, text, written, nth), newName);
+  if ('error' in result) throw new Error(result.error);
+  return apply(text, result.changes);
+}
+
+describe('indexDbmlSymbols', () => {
+  it('returns null for a document that does not parse', () => {
+    expect(indexDbmlSymbols('Table users {\n  id integer [pk]\n')).toBeNull();
+  });
+
+  it('names a schema-qualified table by its schema, and a public one by its name alone', () => {
+    const symbols = index(BLOG);
+
+    expect(symbols.occurrences.filter(o => o.kind === 'table' && o.isDefinition).map(o => o.symbol)).toEqual([
+      'core.user accounts',
+      'posts',
+    ]);
+    expect(index('Table public.users {\n  id integer\n}').occurrences[0].symbol).toBe('users');
+  });
+
+  it('finds the definition from a quoted name, an alias, an index and a table group', () => {
+    const symbols = index(BLOG);
+    const definition = definitionOf(symbols, 'core.user accounts')!;
+
+    expect(textOf(BLOG, [definition])).toEqual(['"user accounts"']);
+    expect(at(symbols, BLOG, '"user accounts"', 1).symbol).toBe('core.user accounts');
+    expect(at(symbols, BLOG, 'U.id').symbol).toBe('core.user accounts');
+    expect(at(symbols, BLOG, '"user accounts"', 2).symbol).toBe('core.user accounts');
+    expect(at(symbols, BLOG, 'id, name) [unique]').symbol).toBe('core.user accounts.id');
+    expect(definitionOf(symbols, at(symbols, BLOG, 'posts', 2).symbol)).toMatchObject({ from: BLOG.indexOf('posts') });
+  });
+});
+
+describe('referencesTo', () => {
+  it('lists each ref naming a table, through its name or its alias', () => {
+    const symbols = index(BLOG);
+    const references = referencesTo(symbols, definitionOf(symbols, 'core.user accounts')!);
+
+    expect(textOf(BLOG, references)).toEqual(['U', '"user accounts"', 'U']);
+    expect(references.map(o => o.viaAlias)).toEqual([true, false, true]);
+  });
+
+  it('lists the columns of composite refs, but not indexes or definitions', () => {
+    const symbols = index(BLOG);
+    const name = at(symbols, BLOG, 'name varchar');
+
+    expect(name).toMatchObject({ kind: 'column', symbol: 'core.user accounts.name', isDefinition: true });
+    expect(referencesTo(symbols, name).map(o => o.from)).toEqual([
+      BLOG.indexOf('name)\nRef'),
+      BLOG.indexOf('U.name') + 2,
+    ]);
+  });
+});
+
+describe('renameChanges', () => {
+  it('renames a table in refs and table groups, leaving the alias alone', () => {
+    const renamed = rename(BLOG, '"user accounts"', 'members');
+
+    expect(renamed).toContain('Table core.members as U {');
+    expect(renamed).toContain('Ref: posts.(uid, author_name) > core.members.(id, name)');
+    expect(renamed).toContain('Ref: posts.author_name - U.name');
+    expect(renamed).toContain('  core.members\n  posts');
+    expect(index(renamed).occurrences.filter(o => o.symbol === 'core.members')).toHaveLength(5);
+  });
+
+  it('quotes a new name that needs quoting', () => {
+    const renamed = rename(BLOG, 'posts', 'blog posts');
+
+    expect(renamed).toContain('Table "blog posts" {');
+    expect(renamed).toContain('Ref: "blog posts".(uid, author_name)');
+    expect(renamed).toContain('  "blog posts"\n}');
+    expect(definitionOf(index(renamed), 'blog posts')).toBeDefined();
+  });
+
+  it('renames a column in indexes, inline refs and composite refs, including through the alias', () => {
+    const renamed = rename(BLOG, 'id integer [pk]', 'account_id');
+
+    expect(renamed).toContain('  account_id integer [pk]\n  name varchar');
+    expect(renamed).toContain('    (account_id, name) [unique]');
+    expect(renamed).toContain('[ref: > U.account_id]');
+    expect(renamed).toContain('core."user accounts".(account_id, name)');
+    // posts.id is another column
+    expect(renamed).toContain('Table posts {\n  id integer [pk]');
+  });
+
+  it('renames a column from one of its references', () => {
+    const renamed = rename(BLOG, 'author_name', 'byline', 1);
+
+    expect(renamed).toContain('  byline varchar');
+    expect(renamed).toContain('posts.(uid, byline)');
+    expect(renamed).toContain('Ref: posts.byline - U.name');
+  });
+
+  it('refuses a name another table or column already has', () => {
+    const symbols = index(BLOG);
+
+    expect(renameChanges(symbols, at(symbols, BLOG, 'uid'), 'ID')).toEqual({ error: "'ID' already exists" });
+    expect(renameChanges(symbols, at(symbols, BLOG, 'posts'), '  ')).toEqual({ error: 'Enter a name' });
+  });
+});
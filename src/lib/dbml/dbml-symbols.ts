@@ -0,0 +1,258 @@
+import { Parser } from '@dbml/core';
+import type { SourceRange } from '@/lib/dbml/dbml-source-map';
+
+// Minimal types for the parts of the @dbml/core v6 AST that name tables and columns
+interface DbmlTokenPosition { offset?: number }
+interface DbmlToken { start?: DbmlTokenPosition; end?: DbmlTokenPosition }
+interface DbmlField { name: string; token?: DbmlToken }
+interface DbmlIndexColumn { type: 'column' | 'expression'; value: string; token?: DbmlToken }
+interface DbmlTable {
+  name: string;
+  alias?: string | null;
+  fields: DbmlField[];
+  indexes?: { columns: DbmlIndexColumn[] }[];
+  token?: DbmlToken;
+}
+interface DbmlEndpoint { schemaName: string | null; tableName: string; fieldNames: string[]; token?: DbmlToken }
+interface DbmlRef { endpoints: [DbmlEndpoint, DbmlEndpoint]; token?: DbmlToken }
+interface DbmlTableGroup { token?: DbmlToken }
+interface DbmlSchema { name: string; tables: DbmlTable[]; refs: DbmlRef[]; tableGroups?: DbmlTableGroup[] }
+interface DbmlDatabase { schemas: DbmlSchema[] }
+
+const DEFAULT_SCHEMA_NAME = 'public';
+
+/** A place in the DBML source where a table or column is named */
+export interface DbmlOccurrence extends SourceRange {
+  kind: 'table' | 'column';
+  /** `schema.table` (schema omitted for `public`), plus `.column` for columns */
+  symbol: string;
+  /** The name as written, without quotes */
+  name: string;
+  isDefinition: boolean;
+  /** Named through the table's alias, which a rename leaves alone */
+  viaAlias?: boolean;
+  /** Written in a ref, rather than e.g. an index or a table group */
+  inRef?: boolean;
+}
+
+export interface DbmlSymbolIndex {
+  occurrences: DbmlOccurrence[];
+}
+
+interface Identifier extends SourceRange {
+  name: string;
+}
+
+// Identifiers are bare words or double-quoted names with backslash escapes
+const IDENTIFIER_PATTERN = /"((?:[^"\\]|\\.)*)"|([^\s"{}\[\]().,:<>\-]+)/y;
+
+/** The identifiers in `source` from `from` on, with the punctuation between them */
+function lex(text: string, from: number, to: number): (Identifier | { punct: string; from: number })[] {
+  const items: (Identifier | { punct: string; from: number })[] = [];
+  let pos = from;
+  while (pos < to) {
+    const char = text[pos];
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+    IDENTIFIER_PATTERN.lastIndex = pos;
+    const match = IDENTIFIER_PATTERN.exec(text);
+    if (match && match.index === pos) {
+      const end = Math.min(pos + match[0].length, to);
+      items.push({ from: pos, to: end, name: match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2] });
+      pos = end;
+    } else {
+      items.push({ punct: char, from: pos });
+      pos++;
+    }
+  }
+  return items;
+}
+
+const isIdentifier = (item: Identifier | { punct: string }): item is Identifier => 'name' in item;
+
+const qualify = (schemaName: string | null | undefined, name: string) =>
+  schemaName && schemaName !== DEFAULT_SCHEMA_NAME ? `${schemaName}.${name}` : name;
+
+/**
+ * Finds every place a table or column is named in a DBML document: its
+ * definition, refs, indexes and table groups. Returns null when the document
+ * does not parse, as positions are taken from the parser's tokens.
+ */
+export function indexDbmlSymbols(text: string): DbmlSymbolIndex | null {
+  let database: DbmlDatabase;
+  try {
+    database = new Parser().parse(text, 'dbmlv2') as unknown as DbmlDatabase;
+  } catch {
+    return null;
+  }
+
+  const occurrences: DbmlOccurrence[] = [];
+  const schemas = database.schemas ?? [];
+  const tableByAlias = new Map<string, string>();
+  const tableNames = new Set<string>();
+  const fieldTokens = new Set<number>();
+
+  schemas.forEach((schema) =>
+    schema.tables.forEach((table) => {
+      const symbol = qualify(schema.name, table.name);
+      tableNames.add(symbol);
+      if (table.alias) tableByAlias.set(table.alias, symbol);
+    })
+  );
+
+  // `users`, `core.users` or an alias, to the table's symbol
+  const resolveTable = (names: Identifier[]) => {
+    const written = names.map((n) => n.name).join('.');
+    const symbol = qualify(names.length > 1 ? names[0].name : null, names[names.length - 1].name);
+    if (tableNames.has(symbol)) return { symbol, viaAlias: false };
+    const aliased = tableByAlias.get(written);
+    return aliased ? { symbol: aliased, viaAlias: true } : null;
+  };
+
+  const pushTableName = (names: Identifier[], inRef: boolean) => {
+    const resolved = names.length > 0 && resolveTable(names);
+    if (!resolved) return null;
+    const name = names[names.length - 1];
+    occurrences.push({ ...name, kind: 'table', symbol: resolved.symbol, isDefinition: false, viaAlias: resolved.viaAlias, inRef });
+    return resolved.symbol;
+  };
+
+  schemas.forEach((schema) => {
+    schema.tables.forEach((table) => {
+      const symbol = qualify(schema.name, table.name);
+      const from = table.token?.start?.offset;
+      const to = table.token?.end?.offset;
+      if (from === undefined || to === undefined) return;
+
+      // `Table [schema.]name [as alias] {`
+      const header = lex(text, from, text.indexOf('{', from) === -1 ? to : text.indexOf('{', from));
+      const names = header.slice(1).filter(isIdentifier);
+      const nameCount = header[2] && !isIdentifier(header[2]) && header[2].punct === '.' ? 2 : 1;
+      const name = names[nameCount - 1];
+      if (name) occurrences.push({ ...name, kind: 'table', symbol, isDefinition: true });
+
+      table.fields.forEach((field) => {
+        const fieldFrom = field.token?.start?.offset;
+        const fieldTo = field.token?.end?.offset;
+        if (fieldFrom === undefined || fieldTo === undefined) return;
+        fieldTokens.add(fieldFrom);
+        const [fieldName] = lex(text, fieldFrom, fieldTo);
+        if (fieldName && isIdentifier(fieldName)) {
+          occurrences.push({ ...fieldName, kind: 'column', symbol: `${symbol}.${field.name}`, isDefinition: true });
+        }
+      });
+
+      (table.indexes ?? []).forEach((index) =>
+        index.columns.forEach((column) => {
+          const columnFrom = column.token?.start?.offset;
+          const columnTo = column.token?.end?.offset;
+          if (column.type !== 'column' || columnFrom === undefined || columnTo === undefined) return;
+          const [columnName] = lex(text, columnFrom, columnTo);
+          if (columnName && isIdentifier(columnName)) {
+            occurrences.push({ ...columnName, kind: 'column', symbol: `${symbol}.${column.value}`, isDefinition: false });
+          }
+        })
+      );
+    });
+
+    (schema.tableGroups ?? []).forEach((group) => {
+      const from = group.token?.start?.offset;
+      const to = group.token?.end?.offset;
+      const open = from === undefined ? -1 : text.indexOf('{', from);
+      if (to === undefined || open === -1 || open > to) return;
+      // One `[schema.]table` per line; other lines, e.g. `Note: '...'`, are skipped
+      text.slice(open + 1, to - 1).split('\n').reduce((lineFrom, line) => {
+        const items = lex(text, lineFrom, lineFrom + line.length);
+        const isTableLine =
+          items.length > 0 &&
+          items.every((item, i) => (i % 2 === 0 ? isIdentifier(item) : !isIdentifier(item) && item.punct === '.'));
+        if (isTableLine) pushTableName(items.filter(isIdentifier), false);
+        return lineFrom + line.length + 1;
+      }, open + 1);
+    });
+  });
+
+  // Each ref once, even when @dbml/core lists it under more than one schema
+  const seenRefs = new Set<number>();
+  schemas.flatMap((schema) => schema.refs).forEach((ref) => {
+    const refFrom = ref.token?.start?.offset;
+    if (refFrom === undefined || seenRefs.has(refFrom)) return;
+    seenRefs.add(refFrom);
+
+    ref.endpoints.forEach((endpoint) => {
+      const from = endpoint.token?.start?.offset;
+      const to = endpoint.token?.end?.offset;
+      // The column an inline ref is written on is its own endpoint
+      if (from === undefined || to === undefined || fieldTokens.has(from)) return;
+
+      // `[ref: >] [schema.]table.column` or `[schema.]table.(a, b)`
+      let items = lex(text, from, to);
+      const arrow = items.findIndex((item) => !isIdentifier(item) && ['>', '<', '-'].includes(item.punct));
+      if (isIdentifier(items[0]) && items[0].name === 'ref' && arrow !== -1) {
+        items = items.slice(arrow + 1).filter((item) => isIdentifier(item) || !['>', '<', '-'].includes(item.punct));
+      }
+      const paren = items.findIndex((item) => !isIdentifier(item) && item.punct === '(');
+      const path = (paren === -1 ? items : items.slice(0, paren)).filter(isIdentifier);
+      const columns = paren === -1 ? path.slice(-1) : items.slice(paren).filter(isIdentifier);
+      const tablePath = paren === -1 ? path.slice(0, -1) : path;
+
+      const table = pushTableName(tablePath, true);
+      if (!table) return;
+      columns.forEach((column) =>
+        occurrences.push({ ...column, kind: 'column', symbol: `${table}.${column.name}`, isDefinition: false, inRef: true })
+      );
+    });
+  });
+
+  return { occurrences: occurrences.sort((a, b) => a.from - b.from) };
+}
+
+/** The table or column named at `pos`, if any */
+export function occurrenceAt(index: DbmlSymbolIndex, pos: number): DbmlOccurrence | undefined {
+  return index.occurrences.find((o) => o.from <= pos && pos <= o.to);
+}
+
+/** Where a table or column is defined */
+export function definitionOf(index: DbmlSymbolIndex, symbol: string): DbmlOccurrence | undefined {
+  return index.occurrences.find((o) => o.isDefinition && o.symbol === symbol);
+}
+
+/** Every place a ref names the table or column, one per ref endpoint */
+export function referencesTo(index: DbmlSymbolIndex, occurrence: DbmlOccurrence): DbmlOccurrence[] {
+  return index.occurrences.filter((o) => o.inRef && o.kind === occurrence.kind && o.symbol === occurrence.symbol);
+}
+
+// Quote identifiers that contain spaces or special characters
+const q = (name: string) => (/[^a-zA-Z0-9_]/.test(name) ? `"${name.replace(/"/g, '\\"')}"` : name);
+
+/**
+ * The edits renaming a table or column everywhere it is named, or an error
+ * when the new name is taken. Names written through an alias are left alone.
+ */
+export function renameChanges(
+  index: DbmlSymbolIndex,
+  occurrence: DbmlOccurrence,
+  newName: string
+): { changes: { from: number; to: number; insert: string }[] } | { error: string } {
+  const name = newName.trim();
+  if (!name) return { error: 'Enter a name' };
+
+  // Symbols end with the name, after the table's schema or the column's table
+  const renamed = occurrence.symbol.slice(0, occurrence.symbol.length - occurrence.name.length) + name;
+  const taken = index.occurrences.some(
+    (o) =>
+      o.isDefinition &&
+      o.kind === occurrence.kind &&
+      o.symbol !== occurrence.symbol &&
+      o.symbol.toLowerCase() === renamed.toLowerCase()
+  );
+  if (taken) return { error: `'${name}' already exists` };
+
+  return {
+    changes: index.occurrences
+      .filter((o) => o.symbol === occurrence.symbol && !o.viaAlias)
+      .map((o) => ({ from: o.from, to: o.to, insert: q(name) })),
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { ExportManager } from './export-manager';
+import { parseDbml } from '@/lib/dbml/dbml-parser';
+import type { Schema } from '@/features/schema/types/schema.types';
+
+function schemaFromDbml(dbml: string): Schema {
+  const result = parseDbml(dbml, [], []);
+  expect(result.errors).toEqual([]);
+  return {
+    id: 'schema',
+    name: 'Test',
+    tables: result.tables,
+    relationships: result.relationships,
+    enums: result.enums,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    version: 1,
+  };
+}
+
+const SHIPMENTS = schemaFromDbml(`
+Table orders {
+  id integer [pk]
+  region varchar [pk]
+}
+
+Table shipments {
+  id integer [pk]
+  order_id integer
+  order_region varchar
+  return_order_id integer
+  return_order_region varchar
+}
+
+Ref: shipments.(order_id, order_region) > orders.(id, region) [delete: cascade]
+Ref: orders.(id, region) < shipments.(return_order_id, return_order_region)
+`);
+
+describe('ExportManager', () => {
+  describe('composite foreign keys', () => {
+    it('notes in Django models that they are not exported', () => {
+      const models = ExportManager.export(SHIPMENTS, { format: 'django' });
+
+      expect(models).toContain(
+        '    # Not exported: composite foreign key (order_id, order_region) -> Orders (id, region); Django has no multi-column foreign keys'
+      );
+      expect(models).toContain(
+        '    # Not exported: composite foreign key (return_order_id, return_order_region) -> Orders (id, region); Django has no multi-column foreign keys'
+      );
+    });
+
+    it('adds them to Laravel migrations', () => {
+      const migration = ExportManager.export(SHIPMENTS, { format: 'laravel' });
+
+      expect(migration).toContain(
+        "$table->foreign(['order_id', 'order_region'])->references(['id', 'region'])->on('orders')->onDelete('cascade');"
+      );
+      expect(migration).toContain(
+        "$table->foreign(['return_order_id', 'return_order_region'])->references(['id', 'region'])->on('orders');"
+      );
+    });
+
+    it('adds a TypeORM relation for each, named after its first column', () => {
+      const entities = ExportManager.export(SHIPMENTS, { format: 'typeorm' });
+
+      expect(entities).toContain('    @ManyToOne(() => Orders, { onDelete: "CASCADE" })');
+      expect(entities).toContain(
+        '    @JoinColumn([{ name: "orderId", referencedColumnName: "id" }, { name: "orderRegion", referencedColumnName: "region" }])'
+      );
+      expect(entities).toContain('    order: Orders;');
+      expect(entities).toContain('    returnOrder: Orders;');
+    });
+  });
+});
@@ -1,7 +1,8 @@
-import { Schema, ExportOptions } from '@/types/schema';
+import { Schema, ExportOptions, Table, Column, Enum, TableIndex } from '@/types/schema';
 import { exportToJSON, importFromJSON } from '@/lib/export/json-exporter';
-import { exportToSQL, SQLDialect } from '@/lib/export/sql-exporter';
+import { exportToSQL, getIndexColumns, getIndexName, SQLDialect } from '@/lib/export/sql-exporter';
 import { exportToPrisma } from '@/lib/export/prisma-exporter';
+import { collectForeignKeys } from '@/features/schema/utils/schema-diff.utils';
 
 export class ExportManager {
   static export(schema: Schema, options: ExportOptions): string {
@@ -56,8 +57,33 @@ export class ExportManager {
 
     lines.push('from django.db import models');
     lines.push('from django.utils import timezone');
+    const indexClasses = [...new Set(
+      schema.tables.flatMap(table => (table.indexes ?? []).filter(index => !index.unique && index.type))
+        .map(index => this.DJANGO_INDEX_CLASSES[index.type!])
+    )];
+    if (indexClasses.length > 0) {
+      lines.push(`from django.contrib.postgres.indexes import ${indexClasses.sort().join(', ')}`);
+    }
+    if (schema.tables.some(table => table.columns.some(column => column.type === 'array' && column.arrayElementType))) {
+      lines.push('from django.contrib.postgres.fields import ArrayField');
+    }
     lines.push('');
 
+    const enums = schema.enums ?? [];
+    for (const enumDef of enums) {
+      lines.push(`class ${this.toPascalCase(enumDef.name)}(models.TextChoices):`);
+      if (enumDef.note) {
+        lines.push(`    """${enumDef.note}"""`);
+      }
+      for (const value of enumDef.values) {
+        lines.push(`    ${this.toEnumMemberName(value.name)} = "${value.name.replace(/"/g, '\\"')}"`);
+      }
+      if (enumDef.values.length === 0) {
+        lines.push('    pass');
+      }
+      lines.push('');
+    }
+
     for (const table of schema.tables) {
       const modelName = this.toPascalCase(table.name);
       lines.push(`class ${modelName}(models.Model):`);
@@ -67,10 +93,18 @@ export class ExportManager {
         lines.push(`    """${table.description}"""`);
       }
 
+      // Composite primary keys are declared once for the model (Django 5.2+)
+      const primaryKeyColumns = table.columns.filter(c => c.primaryKey);
+      const compositePrimaryKey = primaryKeyColumns.length > 1;
+      if (compositePrimaryKey) {
+        const pkFields = primaryKeyColumns.map(c => `"${this.toSnakeCase(c.name)}"`).join(', ');
+        lines.push(`    pk = models.CompositePrimaryKey(${pkFields})`);
+      }
+
       // Add fields
       for (const column of table.columns) {
         const fieldName = this.toSnakeCase(column.name);
-        const djangoField = this.mapToDjangoField(column);
+        const djangoField = this.mapToDjangoField(compositePrimaryKey ? { ...column, primaryKey: false } : column, enums);
         lines.push(`    ${fieldName} = ${djangoField}`);
 
         // Add field comment if description exists
@@ -79,6 +113,13 @@ export class ExportManager {
         }
       }
 
+      // ForeignObject would only relate the models, without a constraint in the database
+      for (const fk of this.compositeForeignKeys(schema, table)) {
+        const columns = fk.columns.map(c => this.toSnakeCase(c.name)).join(', ');
+        const referencedColumns = fk.referencedColumns.map(c => this.toSnakeCase(c.name)).join(', ');
+        lines.push(`    # Not exported: composite foreign key (${columns}) -> ${this.toPascalCase(fk.referencedTable.name)} (${referencedColumns}); Django has no multi-column foreign keys`);
+      }
+
       // Add string representation
       const nameField = table.columns.find(c => c.name.toLowerCase().includes('name'));
       if (nameField) {
@@ -94,6 +135,7 @@ export class ExportManager {
       // Add Meta class
       lines.push(`    class Meta:`);
       lines.push(`        db_table = '${table.name}'`);
+      lines.push(...this.mapToDjangoIndexes(table));
       lines.push('');
     }
 
@@ -123,11 +165,36 @@ export class ExportManager {
       migrations.push('    {');
       migrations.push(`        Schema::create('${tableName}', function (Blueprint $table) {`);
 
+      const primaryKeyColumns = table.columns.filter(c => c.primaryKey);
+      const compositePrimaryKey = primaryKeyColumns.length > 1;
+
       for (const column of table.columns) {
-        const laravelColumn = this.mapToLaravelColumn(column);
+        const laravelColumn = this.mapToLaravelColumn(
+          compositePrimaryKey ? { ...column, primaryKey: false } : column,
+          schema.enums ?? []
+        );
         migrations.push(`            $table->${laravelColumn};`);
       }
 
+      if (compositePrimaryKey) {
+        const pkColumns = primaryKeyColumns.map(c => `'${c.name}'`).join(', ');
+        migrations.push(`            $table->primary([${pkColumns}]);`);
+      }
+
+      for (const index of table.indexes ?? []) {
+        const laravelIndex = this.mapToLaravelIndex(table, index);
+        if (laravelIndex) migrations.push(`            ${laravelIndex}`);
+      }
+
+      for (const fk of this.compositeForeignKeys(schema, table)) {
+        const columns = fk.columns.map(c => `'${c.name}'`).join(', ');
+        const referencedColumns = fk.referencedColumns.map(c => `'${c.name}'`).join(', ');
+        let foreign = `$table->foreign([${columns}])->references([${referencedColumns}])->on('${this.toSnakeCase(fk.referencedTable.name)}')`;
+        if (fk.onDelete) foreign += `->onDelete('${fk.onDelete.toLowerCase()}')`;
+        if (fk.onUpdate) foreign += `->onUpdate('${fk.onUpdate.toLowerCase()}')`;
+        migrations.push(`            ${foreign};`);
+      }
+
       migrations.push('        });');
       migrations.push('    }');
       migrations.push('');
@@ -150,7 +217,9 @@ export class ExportManager {
 
     lines.push('import {');
     lines.push('    Entity,');
+    lines.push('    Index,');
     lines.push('    PrimaryGeneratedColumn,');
+    lines.push('    PrimaryColumn,');
     lines.push('    Column,');
     lines.push('    CreateDateColumn,');
     lines.push('    UpdateDateColumn,');
@@ -160,17 +229,58 @@ export class ExportManager {
     lines.push('} from "typeorm";');
     lines.push('');
 
+    const enums = schema.enums ?? [];
+    for (const enumDef of enums) {
+      lines.push(`export enum ${this.toPascalCase(enumDef.name)} {`);
+      for (const value of enumDef.values) {
+        lines.push(`    ${this.toEnumMemberName(value.name)} = "${value.name.replace(/"/g, '\\"')}",`);
+      }
+      lines.push('}');
+      lines.push('');
+    }
+
     for (const table of schema.tables) {
       const entityName = this.toPascalCase(table.name);
       lines.push(`@Entity()`);
+      for (const index of table.indexes ?? []) {
+        const typeORMIndex = this.mapToTypeORMIndex(table, index);
+        if (typeORMIndex) lines.push(typeORMIndex);
+      }
       lines.push(`export class ${entityName} {`);
 
+      // Each column of a composite primary key becomes a @PrimaryColumn
+      const compositePrimaryKey = table.columns.filter(c => c.primaryKey).length > 1;
+
       for (const column of table.columns) {
         const propertyName = this.toCamelCase(column.name);
-        const typeORMColumn = this.mapToTypeORMColumn(column);
+        const typeORMColumn = compositePrimaryKey && column.primaryKey
+          ? this.mapToTypeORMColumn({ ...column, primaryKey: false }, enums).replace(/^@Column\(/, '@PrimaryColumn(')
+          : this.mapToTypeORMColumn(column, enums);
         lines.push(`    ${typeORMColumn}`);
       }
 
+      // Relation properties are named after the first key column, e.g. `order` for order_id
+      const propertyNames = new Set(table.columns.map(column => this.toTypeORMPropertyName(table, column)));
+      for (const fk of this.compositeForeignKeys(schema, table)) {
+        const targetEntity = this.toPascalCase(fk.referencedTable.name);
+        const baseName = this.toCamelCase(fk.columns[0].name.replace(/_?id$/i, '')) ||
+          targetEntity.charAt(0).toLowerCase() + targetEntity.slice(1);
+        let propertyName = baseName;
+        for (let n = 2; propertyNames.has(propertyName); n++) propertyName = `${baseName}${n}`;
+        propertyNames.add(propertyName);
+
+        const options = [
+          fk.onDelete && `onDelete: "${fk.onDelete}"`,
+          fk.onUpdate && `onUpdate: "${fk.onUpdate}"`,
+        ].filter(Boolean);
+        const joinColumns = fk.columns.map((column, i) =>
+          `{ name: "${this.toTypeORMPropertyName(table, column)}", referencedColumnName: "${this.toTypeORMPropertyName(fk.referencedTable, fk.referencedColumns[i])}" }`
+        );
+        lines.push(`    @ManyToOne(() => ${targetEntity}${options.length > 0 ? `, { ${options.join(', ')} }` : ''})`);
+        lines.push(`    @JoinColumn([${joinColumns.join(', ')}])`);
+        lines.push(`    ${propertyName}: ${targetEntity};`);
+      }
+
       lines.push('}');
       lines.push('');
     }
@@ -198,12 +308,118 @@ export class ExportManager {
       .replace(/_([a-z])/g, (match, letter) => letter.toUpperCase());
   }
 
-  private static mapToDjangoField(column: any): string {
+  // UPPER_SNAKE member name for an enum value, valid in Python and TypeScript
+  private static toEnumMemberName(value: string): string {
+    const name = value.toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+    return /^[0-9]/.test(name) || !name ? `VALUE_${name}` : name;
+  }
+
+  // Property a column becomes in its entity; a lone integer primary key is always `id`
+  private static toTypeORMPropertyName(table: Table, column: Column): string {
+    const isGeneratedId = column.primaryKey && column.type === 'integer' && table.columns.filter(c => c.primaryKey).length === 1;
+    return isGeneratedId ? 'id' : this.toCamelCase(column.name);
+  }
+
+  /**
+   * Foreign keys over several columns held by a table, with their columns and
+   * referenced table resolved. Single-column keys stay plain columns in the
+   * ORM exports.
+   */
+  private static compositeForeignKeys(schema: Schema, table: Table) {
+    return [...collectForeignKeys(schema).values()]
+      .filter(fk => fk.tableId === table.id && fk.columnIds.length > 1)
+      .map(fk => {
+        const referencedTable = schema.tables.find(t => t.id === fk.referencedTableId)!;
+        return {
+          ...fk,
+          columns: fk.columnIds.map(id => table.columns.find(c => c.id === id)!),
+          referencedTable,
+          referencedColumns: fk.referencedColumnIds.map(id => referencedTable.columns.find(c => c.id === id)!),
+        };
+      });
+  }
+
+  private static findEnum(column: Column, enums: Enum[]): Enum | undefined {
+    return column.type === 'enum' ? enums.find(e => e.id === column.enumId) : undefined;
+  }
+
+  private static readonly DJANGO_INDEX_CLASSES: Record<string, string> = {
+    btree: 'BTreeIndex',
+    hash: 'HashIndex',
+    gin: 'GinIndex',
+    gist: 'GistIndex',
+    brin: 'BrinIndex',
+  };
+
+  // Django needs a name for every index and limits it to 30 characters. Partial
+  // conditions would have to be rewritten as Q objects, so they are left as comments.
+  private static mapToDjangoIndexes(table: Table): string[] {
+    const indexes: string[] = [];
+    const constraints: string[] = [];
+
+    for (const index of table.indexes ?? []) {
+      const fields = getIndexColumns(table, index).map(c => `'${this.toSnakeCase(c.name)}'`);
+      if (fields.length === 0) continue;
+
+      const name = getIndexName(table, index).substring(0, 30);
+      const comment = index.where ? `  # WHERE ${index.where}` : '';
+      if (index.unique) {
+        constraints.push(`            models.UniqueConstraint(fields=[${fields.join(', ')}], name='${name}'),${comment}`);
+      } else {
+        const indexClass = index.type ? this.DJANGO_INDEX_CLASSES[index.type] : 'models.Index';
+        indexes.push(`            ${indexClass}(fields=[${fields.join(', ')}], name='${name}'),${comment}`);
+      }
+    }
+
+    const lines: string[] = [];
+    if (indexes.length > 0) {
+      lines.push('        indexes = [', ...indexes, '        ]');
+    }
+    if (constraints.length > 0) {
+      lines.push('        constraints = [', ...constraints, '        ]');
+    }
+    return lines;
+  }
+
+  // The index method is passed as Laravel's algorithm argument; partial indexes need raw SQL
+  private static mapToLaravelIndex(table: Table, index: TableIndex): string | null {
+    const columns = getIndexColumns(table, index).map(c => `'${this.toSnakeCase(c.name)}'`);
+    if (columns.length === 0) return null;
+
+    const args = [columns.length === 1 ? columns[0] : `[${columns.join(', ')}]`];
+    if (index.name || index.type) args.push(index.name ? `'${index.name}'` : 'null');
+    if (index.type) args.push(`'${index.type}'`);
+    const comment = index.where ? ` // WHERE ${index.where}` : '';
+    return `$table->${index.unique ? 'unique' : 'index'}(${args.join(', ')});${comment}`;
+  }
+
+  // TypeORM has no option for the index method
+  private static mapToTypeORMIndex(table: Table, index: TableIndex): string | null {
+    const properties = getIndexColumns(table, index).map(c => `"${this.toCamelCase(c.name)}"`);
+    if (properties.length === 0) return null;
+
+    const args = [`[${properties.join(', ')}]`];
+    if (index.name) args.unshift(`"${index.name}"`);
+    const options: string[] = [];
+    if (index.unique) options.push('unique: true');
+    if (index.where) options.push(`where: ${JSON.stringify(index.where)}`);
+    if (options.length > 0) args.push(`{ ${options.join(', ')} }`);
+    return `@Index(${args.join(', ')})`;
+  }
+
+  // Field class and type arguments, before the column modifiers
+  private static mapToDjangoBaseField(column: Column, enums: Enum[] = []): string {
     let fieldDef = '';
+    const enumDef = this.findEnum(column, enums);
 
-    switch (column.type) {
+    switch (enumDef ? 'choices' : column.type) {
+      case 'choices': {
+        const maxLength = Math.max(1, ...enumDef!.values.map(v => v.name.length));
+        fieldDef = `models.CharField(max_length=${maxLength}, choices=${this.toPascalCase(enumDef!.name)}.choices)`;
+        break;
+      }
       case 'string':
-        fieldDef = `models.CharField(max_length=255)`;
+        fieldDef = `models.CharField(max_length=${column.length ?? 255})`;
         break;
       case 'text':
         fieldDef = `models.TextField()`;
@@ -218,7 +434,9 @@ export class ExportManager {
         fieldDef = `models.FloatField()`;
         break;
       case 'decimal':
-        fieldDef = `models.DecimalField(max_digits=10, decimal_places=2)`;
+        fieldDef = column.precision != null
+          ? `models.DecimalField(max_digits=${column.precision}, decimal_places=${column.scale ?? 0})`
+          : `models.DecimalField(max_digits=10, decimal_places=2)`;
         break;
       case 'boolean':
         fieldDef = `models.BooleanField()`;
@@ -242,25 +460,36 @@ export class ExportManager {
       case 'binary':
         fieldDef = `models.BinaryField()`;
         break;
+      case 'array':
+        fieldDef = column.arrayElementType
+          ? `ArrayField(${this.mapToDjangoBaseField({ ...column, type: column.arrayElementType }, enums)})`
+          : `models.JSONField()`;
+        break;
       default:
         fieldDef = `models.CharField(max_length=255)`;
     }
 
+    return fieldDef;
+  }
+
+  private static mapToDjangoField(column: any, enums: Enum[] = []): string {
+    let fieldDef = this.mapToDjangoBaseField(column, enums);
+
     // Add modifiers
     if (column.primaryKey && column.type !== 'uuid') {
       fieldDef = `models.AutoField(primary_key=True)`;
     }
 
     if (column.unique && !column.primaryKey) {
-      fieldDef = fieldDef.replace(')', ', unique=True)');
+      fieldDef = fieldDef.replace(/\)$/, ', unique=True)');
     }
 
     if (!column.nullable && !column.primaryKey) {
-      fieldDef = fieldDef.replace(')', ', blank=False)');
+      fieldDef = fieldDef.replace(/\)$/, ', blank=False)');
     }
 
     if (column.nullable && !column.primaryKey) {
-      fieldDef = fieldDef.replace(')', ', null=True, blank=True)');
+      fieldDef = fieldDef.replace(/\)$/, ', null=True, blank=True)');
     }
 
     if (column.defaultValue) {
@@ -269,23 +498,29 @@ export class ExportManager {
       } else if (column.defaultValue.toLowerCase().includes('now')) {
         // Already handled in timestamp fields
       } else if (!isNaN(Number(column.defaultValue))) {
-        fieldDef = fieldDef.replace(')', `, default=${column.defaultValue})`);
+        fieldDef = fieldDef.replace(/\)$/, `, default=${column.defaultValue})`);
       } else if (column.defaultValue.toLowerCase() === 'true' || column.defaultValue.toLowerCase() === 'false') {
-        fieldDef = fieldDef.replace(')', `, default=${column.defaultValue})`);
+        fieldDef = fieldDef.replace(/\)$/, `, default=${column.defaultValue})`);
       } else {
-        fieldDef = fieldDef.replace(')', `, default="${column.defaultValue}")`);
+        fieldDef = fieldDef.replace(/\)$/, `, default="${column.defaultValue}")`);
       }
     }
 
     return fieldDef;
   }
 
-  private static mapToLaravelColumn(column: any): string {
+  private static mapToLaravelColumn(column: any, enums: Enum[] = []): string {
     let laravelDef = '';
+    const enumDef = this.findEnum(column, enums);
 
-    switch (column.type) {
+    switch (enumDef ? 'choices' : column.type) {
+      case 'choices': {
+        const values = enumDef!.values.map(v => `'${v.name.replace(/'/g, "\\'")}'`).join(', ');
+        laravelDef = `enum('${column.name}', [${values}])`;
+        break;
+      }
       case 'string':
-        laravelDef = `string('${column.name}')`;
+        laravelDef = column.length ? `string('${column.name}', ${column.length})` : `string('${column.name}')`;
         break;
       case 'text':
         laravelDef = `text('${column.name}')`;
@@ -300,7 +535,9 @@ export class ExportManager {
         laravelDef = `float('${column.name}')`;
         break;
       case 'decimal':
-        laravelDef = `decimal('${column.name}', 10, 2)`;
+        laravelDef = column.precision != null
+          ? `decimal('${column.name}', ${column.precision}, ${column.scale ?? 0})`
+          : `decimal('${column.name}', 10, 2)`;
         break;
       case 'boolean':
         laravelDef = `boolean('${column.name}')`;
@@ -310,10 +547,10 @@ export class ExportManager {
         break;
       case 'datetime':
       case 'timestamp':
-        laravelDef = `timestamp('${column.name}')`;
+        laravelDef = column.withTimezone ? `timestampTz('${column.name}')` : `timestamp('${column.name}')`;
         break;
       case 'time':
-        laravelDef = `time('${column.name}')`;
+        laravelDef = column.withTimezone ? `timeTz('${column.name}')` : `time('${column.name}')`;
         break;
       case 'json':
         laravelDef = `json('${column.name}')`;
@@ -354,12 +591,20 @@ export class ExportManager {
     return laravelDef;
   }
 
-  private static mapToTypeORMColumn(column: any): string {
+  private static mapToTypeORMColumn(column: any, enums: Enum[] = []): string {
     let columnDef = '';
+    const enumDef = this.findEnum(column, enums);
 
-    switch (column.type) {
+    switch (enumDef ? 'choices' : column.type) {
+      case 'choices': {
+        const enumName = this.toPascalCase(enumDef!.name);
+        columnDef = `@Column({ type: "enum", enum: ${enumName}, enumName: "${enumDef!.name}" })\n    ${this.toCamelCase(column.name)}: ${enumName};`;
+        break;
+      }
       case 'string':
-        columnDef = `@Column({ type: "varchar" })\n    ${this.toCamelCase(column.name)}: string;`;
+        columnDef = column.length
+          ? `@Column({ type: "varchar", length: ${column.length} })\n    ${this.toCamelCase(column.name)}: string;`
+          : `@Column({ type: "varchar" })\n    ${this.toCamelCase(column.name)}: string;`;
         break;
       case 'text':
         columnDef = `@Column({ type: "text" })\n    ${this.toCamelCase(column.name)}: string;`;
@@ -376,7 +621,7 @@ export class ExportManager {
         columnDef = `@Column({ type: "float" })\n    ${this.toCamelCase(column.name)}: number;`;
         break;
       case 'decimal':
-        columnDef = `@Column({ type: "decimal", precision: 10, scale: 2 })\n    ${this.toCamelCase(column.name)}: number;`;
+        columnDef = `@Column({ type: "decimal", precision: ${column.precision ?? 10}, scale: ${column.scale ?? (column.precision != null ? 0 : 2)} })\n    ${this.toCamelCase(column.name)}: number;`;
         break;
       case 'boolean':
         columnDef = `@Column({ type: "boolean" })\n    ${this.toCamelCase(column.name)}: boolean;`;
@@ -386,10 +631,12 @@ export class ExportManager {
         break;
       case 'datetime':
       case 'timestamp':
-        columnDef = `@CreateDateColumn()\n    createdAt: Date;\n    @UpdateDateColumn()\n    updatedAt: Date;`;
+        columnDef = column.withTimezone
+          ? `@CreateDateColumn({ type: "timestamptz" })\n    createdAt: Date;\n    @UpdateDateColumn({ type: "timestamptz" })\n    updatedAt: Date;`
+          : `@CreateDateColumn()\n    createdAt: Date;\n    @UpdateDateColumn()\n    updatedAt: Date;`;
         break;
       case 'time':
-        columnDef = `@Column({ type: "time" })\n    ${this.toCamelCase(column.name)}: Date;`;
+        columnDef = `@Column({ type: "${column.withTimezone ? 'timetz' : 'time'}" })\n    ${this.toCamelCase(column.name)}: Date;`;
         break;
       case 'json':
         columnDef = `@Column({ type: "json" })\n    ${this.toCamelCase(column.name)}: any;`;
@@ -400,20 +647,38 @@ export class ExportManager {
       case 'binary':
         columnDef = `@Column({ type: "blob" })\n    ${this.toCamelCase(column.name)}: Buffer;`;
         break;
+      case 'array': {
+        // The element column with array: true; date elements are plain timestamps, not the created/updated pair
+        const elementType = column.arrayElementType;
+        if (!elementType) {
+          columnDef = `@Column({ type: "json" })\n    ${this.toCamelCase(column.name)}: any;`;
+        } else if (elementType === 'datetime' || elementType === 'timestamp') {
+          columnDef = `@Column({ type: "timestamp", array: true })\n    ${this.toCamelCase(column.name)}: Date[];`;
+        } else {
+          columnDef = this.mapToTypeORMColumn({ ...column, type: elementType, primaryKey: false, nullable: true, unique: false, defaultValue: undefined }, enums)
+            .replace(' })', ', array: true })')
+            .replace(/;$/, '[];');
+        }
+        break;
+      }
       default:
         columnDef = `@Column({ type: "varchar" })\n    ${this.toCamelCase(column.name)}: string;`;
     }
 
+    // Options go inside the @Column({ ... }) object
     if (!column.nullable && !column.primaryKey) {
-      columnDef = columnDef.replace(')', ', nullable: false })');
+      columnDef = columnDef.replace(' })', ', nullable: false })');
     }
 
     if (column.unique && !column.primaryKey) {
-      columnDef = columnDef.replace(')', ', unique: true })');
+      columnDef = columnDef.replace(' })', ', unique: true })');
     }
 
     if (column.defaultValue) {
-      columnDef = columnDef.replace(')', `, default: () => "${column.defaultValue}" })`);
+      const enumDefault = enumDef?.values.some(v => v.name === column.defaultValue)
+        ? `${this.toPascalCase(enumDef.name)}.${this.toEnumMemberName(column.defaultValue)}`
+        : undefined;
+      columnDef = columnDef.replace(' })', `, default: ${enumDefault ?? `() => "${column.defaultValue}"`} })`);
     }
 
     return columnDef;
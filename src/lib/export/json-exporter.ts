@@ -1,4 +1,6 @@
-import { Schema, Table, Relationship, Column } from '@/types/schema';
+import { Schema, Table, Relationship, Column, Enum, TableGroup, StickyNote } from '@/types/schema';
+import { fitGroupBounds, EMPTY_GROUP_SIZE } from '@/lib/layout';
+import { DEFAULT_STICKY_NOTE_SIZE, SQL_DIALECTS } from '@/constants/schema';
 
 export function exportToJSON(schema: Schema, includePositions = true): string {
   const exportData = {
@@ -6,6 +8,7 @@ export function exportToJSON(schema: Schema, includePositions = true): string {
     metadata: {
       name: schema.name,
       description: schema.description,
+      databaseType: schema.databaseType,
       createdAt: schema.createdAt,
       updatedAt: schema.updatedAt,
       exportedAt: new Date().toISOString(),
@@ -13,6 +16,8 @@ export function exportToJSON(schema: Schema, includePositions = true): string {
     tables: schema.tables.map(table => ({
       id: table.id,
       name: table.name,
+      namespace: table.namespace,
+      modelName: table.modelName,
       description: table.description,
       ...(includePositions && { position: table.position }),
       columns: table.columns.map(column => ({
@@ -24,6 +29,15 @@ export function exportToJSON(schema: Schema, includePositions = true): string {
         unique: column.unique,
         defaultValue: column.defaultValue,
         description: column.description,
+        enumId: column.enumId,
+        length: column.length,
+        precision: column.precision,
+        scale: column.scale,
+        arrayElementType: column.arrayElementType,
+        withTimezone: column.withTimezone,
+        nativeType: column.nativeType,
+        nativeTypeDialect: column.nativeTypeDialect,
+        fieldName: column.fieldName,
         ...(column.foreignKey && {
           foreignKey: {
             tableId: column.foreignKey.tableId,
@@ -33,6 +47,7 @@ export function exportToJSON(schema: Schema, includePositions = true): string {
           }
         }),
       })),
+      ...(table.indexes && table.indexes.length > 0 && { indexes: table.indexes }),
     })),
     relationships: schema.relationships.map(relationship => ({
       id: relationship.id,
@@ -41,10 +56,44 @@ export function exportToJSON(schema: Schema, includePositions = true): string {
       sourceColumnId: relationship.sourceColumnId,
       targetTableId: relationship.targetTableId,
       targetColumnId: relationship.targetColumnId,
+      sourceColumnIds: relationship.sourceColumnIds,
+      targetColumnIds: relationship.targetColumnIds,
       type: relationship.type,
       onDelete: relationship.onDelete,
       onUpdate: relationship.onUpdate,
     })),
+    enums: (schema.enums ?? []).map(enumDef => ({
+      id: enumDef.id,
+      name: enumDef.name,
+      namespace: enumDef.namespace,
+      note: enumDef.note,
+      values: enumDef.values,
+    })),
+    groups: (schema.groups ?? []).map(group => ({
+      id: group.id,
+      name: group.name,
+      note: group.note,
+      color: group.color,
+      tableIds: group.tableIds,
+      ...(includePositions && {
+        position: group.position,
+        width: group.width,
+        height: group.height,
+        collapsed: group.collapsed,
+      }),
+    })),
+    notes: (schema.notes ?? []).map(note => ({
+      id: note.id,
+      name: note.name,
+      content: note.content,
+      color: note.color,
+      tableId: note.tableId,
+      ...(includePositions && {
+        position: note.position,
+        width: note.width,
+        height: note.height,
+      }),
+    })),
   };
 
   return JSON.stringify(exportData, null, 2);
@@ -61,6 +110,8 @@ export function importFromJSON(jsonString: string): Schema {
     const tables: Table[] = data.tables.map((table: any) => ({
       id: table.id,
       name: table.name,
+      namespace: table.namespace,
+      modelName: table.modelName,
       position: table.position || { x: 0, y: 0 },
       description: table.description,
       columns: table.columns.map((column: any) => ({
@@ -72,6 +123,15 @@ export function importFromJSON(jsonString: string): Schema {
         unique: column.unique,
         defaultValue: column.defaultValue,
         description: column.description,
+        enumId: column.enumId,
+        length: column.length,
+        precision: column.precision,
+        scale: column.scale,
+        arrayElementType: column.arrayElementType,
+        withTimezone: column.withTimezone,
+        nativeType: column.nativeType,
+        nativeTypeDialect: column.nativeTypeDialect,
+        fieldName: column.fieldName,
         foreignKey: column.foreignKey ? {
           tableId: column.foreignKey.tableId,
           columnId: column.foreignKey.columnId,
@@ -79,6 +139,7 @@ export function importFromJSON(jsonString: string): Schema {
           onUpdate: column.foreignKey.onUpdate,
         } : undefined,
       })),
+      indexes: table.indexes,
     }));
 
     const relationships: Relationship[] = (data.relationships || []).map((rel: any) => ({
@@ -88,17 +149,68 @@ export function importFromJSON(jsonString: string): Schema {
       sourceColumnId: rel.sourceColumnId,
       targetTableId: rel.targetTableId,
       targetColumnId: rel.targetColumnId,
+      sourceColumnIds: rel.sourceColumnIds,
+      targetColumnIds: rel.targetColumnIds,
       type: rel.type,
       onDelete: rel.onDelete,
       onUpdate: rel.onUpdate,
     }));
 
+    const enums: Enum[] = (data.enums || []).map((enumDef: Partial<Enum>) => ({
+      id: enumDef.id,
+      name: enumDef.name,
+      namespace: enumDef.namespace,
+      note: enumDef.note,
+      values: enumDef.values || [],
+    }));
+
+    // Groups exported without positions are fitted around their tables
+    const groups: TableGroup[] = (data.groups || []).map((group: Partial<TableGroup>) => {
+      const tableIds = group.tableIds || [];
+      const bounds = group.position
+        ? {
+            position: group.position,
+            width: group.width ?? EMPTY_GROUP_SIZE.width,
+            height: group.height ?? EMPTY_GROUP_SIZE.height,
+          }
+        : fitGroupBounds(tables.filter(t => tableIds.includes(t.id))) ?? { position: { x: 0, y: 0 }, ...EMPTY_GROUP_SIZE };
+      return {
+        id: group.id,
+        name: group.name,
+        note: group.note,
+        color: group.color,
+        tableIds,
+        ...bounds,
+        collapsed: group.collapsed,
+      };
+    });
+
+    // Notes exported without positions start above their pinned table
+    const notes: StickyNote[] = (data.notes || []).map((note: Partial<StickyNote>) => {
+      const pinned = tables.find(t => t.id === note.tableId);
+      return {
+        id: note.id,
+        name: note.name,
+        content: note.content ?? '',
+        color: note.color,
+        tableId: pinned?.id,
+        position: note.position
+          ?? (pinned ? { x: pinned.position.x, y: pinned.position.y - DEFAULT_STICKY_NOTE_SIZE.height - 24 } : { x: 0, y: 0 }),
+        width: note.width ?? DEFAULT_STICKY_NOTE_SIZE.width,
+        height: note.height ?? DEFAULT_STICKY_NOTE_SIZE.height,
+      };
+    });
+
     return {
       id: data.metadata?.name || 'Imported Schema',
       name: data.metadata?.name || 'Imported Schema',
       description: data.metadata?.description,
+      databaseType: SQL_DIALECTS.includes(data.metadata?.databaseType) ? data.metadata.databaseType : undefined,
       tables,
       relationships,
+      enums,
+      groups,
+      notes,
       createdAt: data.metadata?.createdAt ? new Date(data.metadata.createdAt) : new Date(),
       updatedAt: data.metadata?.updatedAt ? new Date(data.metadata.updatedAt) : new Date(),
       version: data.version || 1,
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { exportMigrationSQL } from './migration-exporter';
+import { parseDbml } from '@/lib/dbml/dbml-parser';
+import { FOREIGN_KEY_ACTIONS } from '@/constants/schema';
+import type { SchemaSnapshot } from '@/features/schema/utils/schema-diff.utils';
+
+const EMPTY: SchemaSnapshot = { tables: [], relationships: [], enums: [] };
+
+// Parses DBML as the next version of a snapshot, so unchanged tables keep their IDs
+function version(dbml: string, previous: SchemaSnapshot = EMPTY): SchemaSnapshot {
+  const result = parseDbml(dbml, previous.tables, [], undefined, previous.enums, [], [], previous.relationships);
+  expect(result.errors).toEqual([]);
+  return { tables: result.tables, relationships: result.relationships, enums: result.enums };
+}
+
+// The statements of a migration, without its header comments
+const statements = (sql: string) => sql.split('\n').filter(line => line && !line.startsWith('--'));
+
+const USERS = `
+Table users {
+  id integer [pk]
+}
+`;
+
+const USERS_AND_POSTS = `
+Table users {
+  id integer [pk]
+}
+
+Table posts {
+  id integer [pk]
+  uid integer [ref: > users.id]
+}
+`;
+
+const POSTS = `
+Table posts {
+  id integer [pk]
+  uid integer
+}
+`;
+
+describe('exportMigrationSQL', () => {
+  it('adds the foreign key of an inline ref on the many side', () => {
+    const from = version(USERS);
+    const to = version(USERS_AND_POSTS, from);
+
+    expect(statements(exportMigrationSQL(from, to))).toContain(
+      'ALTER TABLE "posts" ADD CONSTRAINT "rel_posts_uid_users" FOREIGN KEY ("uid") REFERENCES "users"("id");'
+    );
+  });
+
+  it('drops the foreign key of a referencing table before dropping the table it references', () => {
+    const from = version(USERS_AND_POSTS);
+    const to = version(POSTS, from);
+
+    expect(statements(exportMigrationSQL(from, to))).toEqual([
+      'ALTER TABLE "posts" DROP CONSTRAINT "rel_posts_uid_users";',
+      'DROP TABLE "users";',
+    ]);
+  });
+
+  it('drops a referencing table before the table it references', () => {
+    const from = version(USERS_AND_POSTS);
+
+    expect(statements(exportMigrationSQL(from, EMPTY))).toEqual(['DROP TABLE "posts";', 'DROP TABLE "users";']);
+  });
+
+  it('names each foreign key between the same two tables after its columns', () => {
+    const from = version(USERS);
+    const to = version(
+      `
+Table users {
+  id integer [pk]
+}
+
+Table messages {
+  id integer [pk]
+  sender_id integer
+  recipient_id integer
+}
+
+Ref: users.id < messages.sender_id
+Ref: users.id < messages.recipient_id
+`,
+      from
+    );
+
+    const sql = statements(exportMigrationSQL(from, to, 'mysql'));
+    expect(sql).toContain(
+      'ALTER TABLE `messages` ADD CONSTRAINT `rel_messages_sender_id_users` FOREIGN KEY (`sender_id`) REFERENCES `users`(`id`);'
+    );
+    expect(sql).toContain(
+      'ALTER TABLE `messages` ADD CONSTRAINT `rel_messages_recipient_id_users` FOREIGN KEY (`recipient_id`) REFERENCES `users`(`id`);'
+    );
+  });
+
+  it('adds no foreign key for a many-to-many relationship', () => {
+    const from = version(`${USERS}
+Table tags {
+  id integer [pk]
+}
+`);
+    const to = version(`${USERS}
+Table tags {
+  id integer [pk]
+}
+
+Ref: users.id <> tags.id
+`, from);
+
+    expect(statements(exportMigrationSQL(from, to))).toEqual([]);
+  });
+
+  describe('foreign key actions', () => {
+    const cases = FOREIGN_KEY_ACTIONS.flatMap(action =>
+      (['delete', 'update'] as const).map(setting => ({ action, setting }))
+    );
+    const postsWith = (setting: string, action: string) => `${USERS}
+Table posts {
+  id integer [pk]
+  uid integer
+}
+
+Ref: posts.uid > users.id [${setting}: ${action.toLowerCase()}]
+`;
+
+    it.each(cases)('replaces the foreign key when ON $setting changes to $action', ({ action, setting }) => {
+      const from = version(postsWith(setting, 'no action'));
+      const sql = statements(exportMigrationSQL(from, version(postsWith(setting, action), from)));
+
+      // NO ACTION is what the foreign key already does without a clause
+      expect(sql).toEqual(
+        action === 'NO ACTION'
+          ? []
+          : [
+              'ALTER TABLE "posts" DROP CONSTRAINT "rel_posts_uid_users";',
+              `ALTER TABLE "posts" ADD CONSTRAINT "rel_posts_uid_users" FOREIGN KEY ("uid") REFERENCES "users"("id") ON ${setting.toUpperCase()} ${action};`,
+            ]
+      );
+    });
+
+    it.each(cases)('replaces the foreign key when ON $setting changes from $action', ({ action, setting }) => {
+      const from = version(postsWith(setting, action));
+      const sql = statements(exportMigrationSQL(from, version(postsWith(setting, 'no action'), from)));
+
+      expect(sql).toEqual(
+        action === 'NO ACTION'
+          ? []
+          : [
+              'ALTER TABLE "posts" DROP CONSTRAINT "rel_posts_uid_users";',
+              'ALTER TABLE "posts" ADD CONSTRAINT "rel_posts_uid_users" FOREIGN KEY ("uid") REFERENCES "users"("id");',
+            ]
+      );
+    });
+  });
+});
@@ -0,0 +1,592 @@
+import type { Table, Column, Enum } from '@/features/schema/types/schema.types';
+import {
+  diffSchemas,
+  collectForeignKeys,
+  type ColumnDiff,
+  type ColumnProperty,
+  type EnumDiff,
+  type ForeignKeyRef,
+  type SchemaSnapshot,
+  type TableDiff,
+} from '@/features/schema/utils/schema-diff.utils';
+import { getQualifiedTableName } from '@/features/schema/utils/schema.utils';
+import {
+  SQLDialect,
+  formatColumnType,
+  formatNativeTypeWarnings,
+  formatCreateType,
+  formatEnumValues,
+  formatEnumCheck,
+  findColumnEnum,
+  formatTableName,
+  formatQualifiedTableName,
+  formatCreateSchemas,
+  formatColumnName,
+  formatDefaultValue,
+  formatColumnDefinition,
+  formatForeignKeyName,
+  formatForeignKeyClause,
+  formatCreateTable,
+  formatCreateIndex,
+  formatDropIndex,
+  formatTableIndexes,
+} from '@/lib/export/sql-exporter';
+
+export interface MigrationOptions {
+  fromLabel?: string;
+  toLabel?: string;
+}
+
+interface MigrationContext {
+  dialect: SQLDialect;
+  fromTables: Map<string, Table>;
+  toTables: Map<string, Table>;
+  toForeignKeys: Map<string, ForeignKeyRef>;
+  fromEnums: Enum[];
+  toEnums: Enum[];
+}
+
+// On PostgreSQL a renamed enum keeps its columns, so the type is compared by enum ID.
+// SQLite rebuilds tables anyway, so its enum CHECK constraint counts as part of the type.
+function columnTypeKey(column: Column, dialect: SQLDialect, enums: Enum[]): string {
+  const enumDef = findColumnEnum(column, enums);
+  if (enumDef && dialect === 'postgresql') return `enum:${enumDef.id}`;
+  const type = formatColumnType(column, dialect, enums);
+  return dialect === 'sqlite' ? `${type} ${formatEnumCheck(column, dialect, enums)}` : type;
+}
+
+/**
+ * Changes that actually need DDL in the given dialect: increment is not emitted
+ * by the SQL exporter, and two column types may map to the same SQL type.
+ * A change of enum is reported as a type change.
+ */
+function sqlChanges(diff: ColumnDiff, context: MigrationContext): ColumnProperty[] {
+  const { dialect } = context;
+  const changes = diff.changes.filter(change => change !== 'increment' && change !== 'type' && change !== 'enumId');
+  const typeChanged =
+    (diff.changes.includes('type') || diff.changes.includes('enumId')) &&
+    columnTypeKey(diff.before!, dialect, context.fromEnums) !== columnTypeKey(diff.after!, dialect, context.toEnums);
+  return typeChanged ? ['type', ...changes] : changes;
+}
+
+const hasValueChanges = (diff: EnumDiff): boolean =>
+  diff.kind === 'modified' && (diff.addedValues.length > 0 || diff.removedValues.length > 0 || diff.reordered);
+
+// PostgreSQL can add enum values in place, but not remove or reorder them
+function alterEnumSQL(diff: EnumDiff): string[] {
+  const statements: string[] = [];
+  const before = diff.before!;
+  const after = diff.after!;
+  const typeName = formatQualifiedTableName(after, 'postgresql');
+
+  // Renamed first, then moved to its new schema, like tables
+  if (before.name !== after.name) {
+    statements.push(`ALTER TYPE ${formatQualifiedTableName(before, 'postgresql')} RENAME TO ${formatTableName(after.name, 'postgresql')};`);
+  }
+  if ((before.namespace ?? '') !== (after.namespace ?? '')) {
+    const renamed = formatQualifiedTableName({ ...before, name: after.name }, 'postgresql');
+    statements.push(`ALTER TYPE ${renamed} SET SCHEMA ${formatTableName(after.namespace ?? 'public', 'postgresql')};`);
+  }
+  for (const value of diff.addedValues) {
+    statements.push(`ALTER TYPE ${typeName} ADD VALUE '${value.replace(/'/g, "''")}';`);
+  }
+  if (diff.removedValues.length > 0 || diff.reordered) {
+    statements.push(
+      `-- PostgreSQL cannot drop or reorder enum values; recreate ${after.name} manually as ENUM (${formatEnumValues(after)}).`
+    );
+  }
+  return statements;
+}
+
+function primaryKeyIds(table: Table): string {
+  return table.columns.filter(c => c.primaryKey).map(c => c.id).sort().join(',');
+}
+
+/**
+ * SQLite can only rename, add and drop plain columns in place. Anything else
+ * (type, nullability, defaults, keys, constraints) requires rebuilding the table.
+ */
+function needsSqliteRebuild(tableDiff: TableDiff, rebuildTableIds: Set<string>, context: MigrationContext): boolean {
+  if (primaryKeyIds(tableDiff.before!) !== primaryKeyIds(tableDiff.after!)) return true;
+  if (rebuildTableIds.has(tableDiff.tableId)) return true;
+
+  return tableDiff.columns.some(diff => {
+    if (diff.kind === 'removed') return diff.before!.primaryKey || diff.before!.unique;
+    if (diff.kind === 'added') {
+      const column = diff.after!;
+      return column.primaryKey || column.unique || (!column.nullable && !column.defaultValue);
+    }
+    return sqlChanges(diff, context).some(change => change !== 'name');
+  });
+}
+
+type TableName = Pick<Table, 'name' | 'namespace'>;
+
+// A table moving to another namespace is renamed too; SQLite has no namespaces
+function renameTableSQL(from: TableName, to: TableName, dialect: SQLDialect): string[] {
+  const statements: string[] = [];
+  const moved = dialect !== 'sqlite' && (from.namespace ?? '') !== (to.namespace ?? '');
+
+  if (dialect === 'mysql') {
+    return [`RENAME TABLE ${formatQualifiedTableName(from, dialect)} TO ${formatQualifiedTableName(to, dialect)};`];
+  }
+  if (dialect === 'sqlserver') {
+    if (moved) {
+      statements.push(`ALTER SCHEMA ${formatTableName(to.namespace ?? 'dbo', dialect)} TRANSFER ${formatQualifiedTableName(from, dialect)};`);
+    }
+    if (from.name !== to.name) {
+      statements.push(`EXEC sp_rename '${getQualifiedTableName({ ...from, namespace: to.namespace })}', '${to.name}';`);
+    }
+    return statements;
+  }
+
+  if (from.name !== to.name) {
+    statements.push(`ALTER TABLE ${formatQualifiedTableName(from, dialect)} RENAME TO ${formatTableName(to.name, dialect)};`);
+  }
+  if (moved) {
+    const renamed = { ...from, name: to.name };
+    statements.push(`ALTER TABLE ${formatQualifiedTableName(renamed, dialect)} SET SCHEMA ${formatTableName(to.namespace ?? 'public', dialect)};`);
+  }
+  return statements;
+}
+
+function renameColumnSQL(table: Table, from: string, to: string, dialect: SQLDialect): string {
+  if (dialect === 'sqlserver') {
+    return `EXEC sp_rename '${getQualifiedTableName(table)}.${from}', '${to}', 'COLUMN';`;
+  }
+  return `ALTER TABLE ${formatQualifiedTableName(table, dialect)} RENAME COLUMN ${formatColumnName(from, dialect)} TO ${formatColumnName(to, dialect)};`;
+}
+
+function alterColumnSQL(table: Table, diff: ColumnDiff, changes: ColumnProperty[], context: MigrationContext): string[] {
+  const { dialect } = context;
+  const statements: string[] = [];
+  const tableName = formatQualifiedTableName(table, dialect);
+  const column = diff.after!;
+  const columnName = formatColumnName(column.name, dialect);
+  const columnType = formatColumnType(column, dialect, context.toEnums);
+
+  if (dialect === 'mysql') {
+    // MODIFY restates the whole column; uniqueness is handled as a separate index
+    if (changes.some(change => change === 'type' || change === 'nullable' || change === 'defaultValue')) {
+      statements.push(
+        `ALTER TABLE ${tableName} MODIFY COLUMN ${formatColumnDefinition({ ...column, unique: false }, dialect, false, context.toEnums)};`
+      );
+    }
+    return statements;
+  }
+
+  if (dialect === 'postgresql') {
+    if (changes.includes('type')) {
+      statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${columnName} TYPE ${columnType} USING ${columnName}::${columnType};`);
+    }
+    if (changes.includes('nullable')) {
+      statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${columnName} ${column.nullable ? 'DROP' : 'SET'} NOT NULL;`);
+    }
+  } else if (changes.includes('type') || changes.includes('nullable')) {
+    statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${columnName} ${columnType}${column.nullable ? ' NULL' : ' NOT NULL'};`);
+  }
+
+  if (changes.includes('defaultValue')) {
+    if (dialect === 'sqlserver') {
+      if (diff.before!.defaultValue) {
+        statements.push(`-- Drop the existing default constraint on ${table.name}.${column.name} manually; SQL Server names it automatically.`);
+      }
+      if (column.defaultValue) {
+        statements.push(`ALTER TABLE ${tableName} ADD ${formatDefaultValue(column.defaultValue, dialect)} FOR ${columnName};`);
+      }
+    } else if (column.defaultValue) {
+      statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${columnName} SET ${formatDefaultValue(column.defaultValue, dialect)};`);
+    } else {
+      statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${columnName} DROP DEFAULT;`);
+    }
+  }
+
+  return statements;
+}
+
+function addUniqueSQL(table: Table, column: string, dialect: SQLDialect): string {
+  const tableName = formatQualifiedTableName(table, dialect);
+  const columnName = formatColumnName(column, dialect);
+  if (dialect === 'mysql') {
+    return `ALTER TABLE ${tableName} ADD UNIQUE INDEX ${columnName} (${columnName});`;
+  }
+  const constraintName = dialect === 'sqlserver' ? `UQ_${table.name}_${column}` : `${table.name}_${column}_key`;
+  return `ALTER TABLE ${tableName} ADD CONSTRAINT ${formatColumnName(constraintName, dialect)} UNIQUE (${columnName});`;
+}
+
+// Constraint names are the defaults each database picks for an inline UNIQUE
+function dropUniqueSQL(table: Table, before: Table, column: Column, dialect: SQLDialect): string {
+  const tableName = formatQualifiedTableName(table, dialect);
+  if (dialect === 'mysql') {
+    return `ALTER TABLE ${tableName} DROP INDEX ${formatColumnName(column.name, dialect)};`;
+  }
+  if (dialect === 'sqlserver') {
+    return `-- Drop the unique constraint on ${table.name}.${column.name} manually; SQL Server names it automatically.`;
+  }
+  return `ALTER TABLE ${tableName} DROP CONSTRAINT ${formatColumnName(`${before.name}_${column.name}_key`, dialect)};`;
+}
+
+function dropPrimaryKeySQL(table: Table, before: Table, dialect: SQLDialect): string {
+  const tableName = formatQualifiedTableName(table, dialect);
+  if (dialect === 'mysql') {
+    return `ALTER TABLE ${tableName} DROP PRIMARY KEY;`;
+  }
+  if (dialect === 'sqlserver') {
+    return `-- Drop the primary key constraint on ${table.name} manually; SQL Server names it automatically.`;
+  }
+  return `ALTER TABLE ${tableName} DROP CONSTRAINT ${formatColumnName(`${before.name}_pkey`, dialect)};`;
+}
+
+function alterTableSQL(tableDiff: TableDiff, context: MigrationContext): string[] {
+  const { dialect } = context;
+  const before = tableDiff.before!;
+  const after = tableDiff.after!;
+  const statements: string[] = [];
+  const tableName = formatQualifiedTableName(after, dialect);
+  const primaryKeyChanged = primaryKeyIds(before) !== primaryKeyIds(after);
+
+  const modified = tableDiff.columns
+    .filter(diff => diff.kind === 'modified')
+    .map(diff => ({ diff, changes: sqlChanges(diff, context) }));
+
+  // Changed indexes are dropped under their old name and created again at the end
+  for (const diff of tableDiff.indexes) {
+    if (diff.kind !== 'added') {
+      statements.push(formatDropIndex(before, diff.before!, dialect));
+    }
+  }
+
+  for (const { diff, changes } of modified) {
+    if (changes.includes('name')) {
+      statements.push(renameColumnSQL(after, diff.before!.name, diff.after!.name, dialect));
+    }
+  }
+
+  if (primaryKeyChanged && before.columns.some(c => c.primaryKey)) {
+    statements.push(dropPrimaryKeySQL(after, before, dialect));
+  }
+
+  for (const { diff, changes } of modified) {
+    if (changes.includes('unique') && !diff.after!.unique) {
+      statements.push(dropUniqueSQL(after, before, diff.before!, dialect));
+    }
+  }
+
+  for (const diff of tableDiff.columns) {
+    if (diff.kind === 'removed') {
+      statements.push(`ALTER TABLE ${tableName} DROP COLUMN ${formatColumnName(diff.before!.name, dialect)};`);
+    }
+  }
+
+  for (const diff of tableDiff.columns) {
+    if (diff.kind === 'added') {
+      const definition = formatColumnDefinition(diff.after!, dialect, false, context.toEnums);
+      statements.push(`ALTER TABLE ${tableName} ADD ${dialect === 'sqlserver' ? '' : 'COLUMN '}${definition};`);
+    }
+  }
+
+  for (const { diff, changes } of modified) {
+    statements.push(...alterColumnSQL(after, diff, changes, context));
+  }
+
+  for (const { diff, changes } of modified) {
+    if (changes.includes('unique') && diff.after!.unique) {
+      statements.push(addUniqueSQL(after, diff.after!.name, dialect));
+    }
+  }
+
+  if (primaryKeyChanged && after.columns.some(c => c.primaryKey)) {
+    const pkColumns = after.columns.filter(c => c.primaryKey).map(c => formatColumnName(c.name, dialect)).join(', ');
+    statements.push(`ALTER TABLE ${tableName} ADD PRIMARY KEY (${pkColumns});`);
+  }
+
+  for (const diff of tableDiff.indexes) {
+    if (diff.kind !== 'removed') {
+      statements.push(formatCreateIndex(after, diff.after!, dialect));
+    }
+  }
+
+  return statements;
+}
+
+function inlineForeignKeys(tableId: string, context: MigrationContext): string[] {
+  return [...context.toForeignKeys.values()]
+    .filter(fk => fk.tableId === tableId)
+    .map(fk => formatForeignKeyClause(fk, context.toTables, context.dialect));
+}
+
+// Follows the SQLite table rebuild procedure: create, copy, drop, rename
+function rebuildSqliteTable(tableDiff: TableDiff, context: MigrationContext): string[] {
+  const before = tableDiff.before!;
+  const after = tableDiff.after!;
+  const tempName = `_${after.name}_new`;
+  const kept = after.columns.filter(column => before.columns.some(c => c.id === column.id));
+
+  const targetColumns = kept.map(column => formatColumnName(column.name, 'sqlite')).join(', ');
+  const sourceColumns = kept
+    .map(column => formatColumnName(before.columns.find(c => c.id === column.id)!.name, 'sqlite'))
+    .join(', ');
+
+  const statements = [
+    `-- Rebuild ${after.name}: SQLite cannot alter these columns in place`,
+    ...formatCreateTable({ ...after, name: tempName }, 'sqlite', inlineForeignKeys(after.id, context), context.toEnums),
+  ];
+  if (kept.length > 0) {
+    statements.push(
+      `INSERT INTO ${formatTableName(tempName, 'sqlite')} (${targetColumns}) SELECT ${sourceColumns} FROM ${formatTableName(before.name, 'sqlite')};`
+    );
+  }
+  statements.push(`DROP TABLE ${formatTableName(before.name, 'sqlite')};`);
+  statements.push(...renameTableSQL({ name: tempName }, after, 'sqlite'));
+  // Indexes go with the dropped table
+  statements.push(...formatTableIndexes(after, 'sqlite'));
+  return statements;
+}
+
+// Drop tables that reference other dropped tables first
+function orderDroppedTables(removed: Table[], fromForeignKeys: Map<string, ForeignKeyRef>): Table[] {
+  const ordered: Table[] = [];
+  const remaining = [...removed];
+
+  while (remaining.length > 0) {
+    const index = remaining.findIndex(table =>
+      ![...fromForeignKeys.values()].some(fk =>
+        fk.referencedTableId === table.id &&
+        fk.tableId !== table.id &&
+        remaining.some(other => other.id === fk.tableId)
+      )
+    );
+    ordered.push(...remaining.splice(index === -1 ? 0 : index, 1));
+  }
+
+  return ordered;
+}
+
+/**
+ * Generates the SQL that migrates a database from one schema snapshot to another.
+ * Tables and columns are matched by ID, so renames become RENAME statements instead
+ * of a drop and re-create.
+ */
+export function exportMigrationSQL(
+  from: SchemaSnapshot,
+  to: SchemaSnapshot,
+  dialect: SQLDialect = 'postgresql',
+  options: MigrationOptions = {}
+): string {
+  const diff = diffSchemas(from, to);
+  const fromForeignKeys = collectForeignKeys(from);
+  const context: MigrationContext = {
+    dialect,
+    fromTables: new Map(from.tables.map(table => [table.id, table])),
+    toTables: new Map(to.tables.map(table => [table.id, table])),
+    toForeignKeys: collectForeignKeys(to),
+    fromEnums: from.enums ?? [],
+    toEnums: to.enums ?? [],
+  };
+
+  const statements: string[] = [];
+  statements.push(`-- Migration: ${options.fromLabel || 'previous version'} -> ${options.toLabel || 'current schema'}`);
+  statements.push(`-- Generated: ${new Date().toISOString()}`);
+  statements.push(`-- Dialect: ${dialect.toUpperCase()}`);
+  statements.push('');
+
+  // Only PostgreSQL has named enum types; elsewhere just value changes matter
+  const enumChanges = dialect === 'postgresql' ? diff.enums : diff.enums.filter(hasValueChanges);
+
+  // Relationship-only changes (e.g. cardinality) have no DDL counterpart
+  if (diff.tables.length === 0 && diff.foreignKeys.length === 0 && enumChanges.length === 0) {
+    statements.push('-- No schema changes between these versions.');
+    return statements.join('\n');
+  }
+
+  // Only the columns this migration creates or alters can hit a foreign native type
+  const writtenTables = diff.tables.flatMap(t =>
+    t.kind === 'added'
+      ? [t.after!]
+      : t.kind === 'modified'
+        ? [{ ...t.after!, columns: t.columns.filter(c => c.after).map(c => c.after!) }]
+        : []
+  );
+  const nativeTypeWarnings = formatNativeTypeWarnings(writtenTables, dialect, context.toEnums);
+  if (nativeTypeWarnings.length > 0) {
+    statements.push(...nativeTypeWarnings);
+    statements.push('');
+  }
+
+  const removedTables = diff.tables.filter(t => t.kind === 'removed').map(t => t.before!);
+  const addedTables = diff.tables.filter(t => t.kind === 'added').map(t => t.after!);
+  const modifiedTables = diff.tables.filter(t => t.kind === 'modified');
+
+  const fkTableIds = new Set(
+    diff.foreignKeys.flatMap(fk => [fk.before?.tableId, fk.after?.tableId]).filter((id): id is string => !!id)
+  );
+  // Tables with columns whose enum changed its values, without the column itself changing
+  const changedEnumIds = new Set(enumChanges.map(e => e.enumId));
+  const enumTableIds = new Set(
+    [...context.toTables.values()]
+      .filter(table => {
+        const before = context.fromTables.get(table.id);
+        return before && table.columns.some(column => {
+          const previous = before.columns.find(c => c.id === column.id);
+          return !!column.enumId && changedEnumIds.has(column.enumId) &&
+            previous?.enumId === column.enumId && previous.type === column.type;
+        });
+      })
+      .map(table => table.id)
+  );
+
+  const rebuildTableIds = new Set([...fkTableIds, ...enumTableIds]);
+  if (dialect === 'sqlite') {
+    // A foreign key or enum value change alone still means a rebuild for SQLite
+    for (const tableId of rebuildTableIds) {
+      const before = context.fromTables.get(tableId);
+      const after = context.toTables.get(tableId);
+      if (before && after && !modifiedTables.some(t => t.tableId === tableId)) {
+        modifiedTables.push({ kind: 'modified', tableId, before, after, renamed: false, columns: [], indexes: [] });
+      }
+    }
+  }
+  const rebuilt = new Set(
+    dialect === 'sqlite'
+      ? modifiedTables.filter(t => needsSqliteRebuild(t, rebuildTableIds, context)).map(t => t.tableId)
+      : []
+  );
+
+  if (rebuilt.size > 0) {
+    statements.push('PRAGMA foreign_keys = OFF;');
+    statements.push('');
+  }
+
+  // Drop changed foreign keys before touching the tables they live on.
+  // SQLite has no DROP CONSTRAINT; those tables are rebuilt instead.
+  if (dialect !== 'sqlite') {
+    const dropped = diff.foreignKeys
+      .filter(fk => fk.kind !== 'added' && context.toTables.has(fk.before!.tableId))
+      .map(fk => {
+        const table = formatQualifiedTableName(context.fromTables.get(fk.before!.tableId)!, dialect);
+        const name = formatForeignKeyName(fk.before!, context.fromTables, dialect);
+        return dialect === 'mysql'
+          ? `ALTER TABLE ${table} DROP FOREIGN KEY ${name};`
+          : `ALTER TABLE ${table} DROP CONSTRAINT ${name};`;
+      });
+    if (dropped.length > 0) {
+      statements.push(...dropped, '');
+    }
+  }
+
+  // Namespaces that tables and PostgreSQL enum types are created in or moved to
+  const withEnums = <T extends { namespace?: string }>(tables: T[], enums: Enum[]) =>
+    dialect === 'postgresql' ? [...tables, ...enums] : tables;
+  const fromNamespaces = new Set(withEnums(from.tables, context.fromEnums).map(item => item.namespace));
+  const schemaStatements = formatCreateSchemas(
+    withEnums([...context.toTables.values()], context.toEnums).filter(item => !fromNamespaces.has(item.namespace)),
+    dialect
+  );
+  if (schemaStatements.length > 0) {
+    statements.push(...schemaStatements, '');
+  }
+
+  // New and changed enum types must be in place before columns use them
+  if (dialect === 'postgresql') {
+    const enumStatements = [
+      ...enumChanges.filter(e => e.kind === 'added').map(e => formatCreateType(e.after!)),
+      ...enumChanges.filter(e => e.kind === 'modified').flatMap(alterEnumSQL),
+    ];
+    if (enumStatements.length > 0) {
+      statements.push(...enumStatements, '');
+    }
+  }
+
+  for (const table of orderDroppedTables(removedTables, fromForeignKeys)) {
+    statements.push(`DROP TABLE ${formatQualifiedTableName(table, dialect)};`);
+  }
+  if (removedTables.length > 0) statements.push('');
+
+  for (const tableDiff of modifiedTables) {
+    if (rebuilt.has(tableDiff.tableId)) continue;
+
+    const tableStatements: string[] = [];
+    if (tableDiff.renamed) {
+      tableStatements.push(...renameTableSQL(tableDiff.before!, tableDiff.after!, dialect));
+    }
+    tableStatements.push(...alterTableSQL(tableDiff, context));
+
+    if (tableStatements.length > 0) {
+      statements.push(...tableStatements, '');
+    }
+  }
+
+  for (const tableDiff of modifiedTables) {
+    if (rebuilt.has(tableDiff.tableId)) {
+      statements.push(...rebuildSqliteTable(tableDiff, context), '');
+    }
+  }
+
+  // Columns whose enum only changed its values: the enum is inline in the column on other dialects
+  if (dialect === 'mysql' || dialect === 'sqlserver') {
+    const enumStatements: string[] = [];
+
+    for (const tableId of enumTableIds) {
+      const table = context.toTables.get(tableId)!;
+      const before = context.fromTables.get(tableId)!;
+
+      for (const column of table.columns) {
+        const previous = before.columns.find(c => c.id === column.id);
+        if (!column.enumId || !changedEnumIds.has(column.enumId) || previous?.enumId !== column.enumId) continue;
+        if (previous.type !== column.type) continue;
+
+        if (dialect === 'mysql') {
+          const definition = formatColumnDefinition({ ...column, unique: false }, dialect, false, context.toEnums);
+          enumStatements.push(`ALTER TABLE ${formatQualifiedTableName(table, dialect)} MODIFY COLUMN ${definition};`);
+        } else {
+          enumStatements.push(`-- Update the CHECK constraint on ${table.name}.${column.name} to the new enum values manually.`);
+        }
+      }
+    }
+
+    if (enumStatements.length > 0) {
+      statements.push(...enumStatements, '');
+    }
+  }
+
+  // Create tables in dependency order like the full export does
+  const sortedAdded = [...addedTables].sort((a, b) => {
+    const aHasForeignKeys = inlineForeignKeys(a.id, context).length > 0;
+    const bHasForeignKeys = inlineForeignKeys(b.id, context).length > 0;
+    if (aHasForeignKeys && !bHasForeignKeys) return 1;
+    if (!aHasForeignKeys && bHasForeignKeys) return -1;
+    return 0;
+  });
+  for (const table of sortedAdded) {
+    const foreignKeys = dialect === 'sqlite' ? inlineForeignKeys(table.id, context) : [];
+    statements.push(...formatCreateTable(table, dialect, foreignKeys, context.toEnums));
+    statements.push(...formatTableIndexes(table, dialect), '');
+  }
+
+  if (dialect !== 'sqlite') {
+    // Foreign keys of new tables are added here too, once every referenced table exists
+    const added = diff.foreignKeys.filter(fk => fk.kind !== 'removed').map(fk => fk.after!);
+
+    for (const fk of added) {
+      const table = formatQualifiedTableName(context.toTables.get(fk.tableId)!, dialect);
+      // Same constraint names as exportToSQL
+      const name = formatForeignKeyName(fk, context.toTables, dialect);
+      statements.push(`ALTER TABLE ${table} ADD CONSTRAINT ${name} ${formatForeignKeyClause(fk, context.toTables, dialect)};`);
+    }
+  }
+
+  if (dialect === 'postgresql') {
+    const dropped = enumChanges.filter(e => e.kind === 'removed');
+    if (dropped.length > 0) {
+      if (statements[statements.length - 1] !== '') statements.push('');
+      statements.push(...dropped.map(e => `DROP TYPE ${formatQualifiedTableName(e.before!, dialect)};`));
+    }
+  }
+
+  if (rebuilt.size > 0) {
+    if (statements[statements.length - 1] !== '') statements.push('');
+    statements.push('PRAGMA foreign_keys = ON;');
+  }
+
+  return statements.join('\n').trimEnd();
+}
@@ -1,4 +1,5 @@
-import { Schema } from '@/types/schema';
+import { Schema, Table, Column, Enum, TableIndex } from '@/types/schema';
+import { getRelationshipColumnIds, pickTypeParams } from '@/features/schema/utils/schema.utils';
 
 function mapPrismaType(type: string): string {
   const typeMap: Record<string, string> = {
@@ -17,19 +18,63 @@ function mapPrismaType(type: string): string {
     'jsonb': 'Json',
     'uuid': 'String',
     'binary': 'Bytes',
-    'enum': 'String', // Would need custom enum type
+    'enum': 'String', // Enum columns with a known enum use its Prisma enum instead
     'array': 'Json', // Prisma doesn't have arrays in SQLite
   };
 
   return typeMap[type] || 'String';
 }
 
-function formatPrismaFieldName(name: string): string {
+// PostgreSQL types kept as a column's native type that Prisma can declare
+const POSTGRES_NATIVE_TYPES: Record<string, string> = {
+  'inet': '@db.Inet',
+  'citext': '@db.Citext',
+  'money': '@db.Money',
+  'xml': '@db.Xml',
+  'bit': '@db.Bit',
+  'varbit': '@db.VarBit',
+  'double precision': '@db.DoublePrecision',
+};
+
+// The @db attribute for a column's native type, if the datasource provider supports it
+function mapPostgresNativeType(column: Pick<Column, 'nativeType' | 'nativeTypeDialect'>): string | undefined {
+  if (!column.nativeType || column.nativeTypeDialect !== 'postgresql') return undefined;
+  return POSTGRES_NATIVE_TYPES[column.nativeType.toLowerCase()];
+}
+
+// PostgreSQL native types for column types that share a Prisma scalar
+function mapPrismaNativeType(
+  column: Pick<Column, 'type' | 'length' | 'precision' | 'scale' | 'withTimezone' | 'nativeType' | 'nativeTypeDialect'>
+): string | undefined {
+  const { type } = column;
+  const postgresNativeType = mapPostgresNativeType(column);
+  if (postgresNativeType) return postgresNativeType;
+  if (type === 'string' && column.length) return `@db.VarChar(${column.length})`;
+  if (type === 'decimal' && column.precision != null) {
+    return `@db.Decimal(${column.precision}, ${column.scale ?? 0})`;
+  }
+  if (column.withTimezone && (type === 'timestamp' || type === 'datetime')) return '@db.Timestamptz';
+  if (column.withTimezone && type === 'time') return '@db.Timetz';
+
+  const nativeTypeMap: Record<string, string> = {
+    'text': '@db.Text',
+    'uuid': '@db.Uuid',
+    'date': '@db.Date',
+    'timestamp': '@db.Timestamp',
+    'time': '@db.Time',
+    'json': '@db.Json',
+    'jsonb': '@db.JsonB',
+  };
+
+  return nativeTypeMap[type];
+}
+
+export function formatPrismaFieldName(name: string): string {
   // Convert snake_case to camelCase
   return name.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
 }
 
-function formatPrismaModelName(name: string): string {
+export function formatPrismaModelName(name: string): string {
   // Convert table name to PascalCase
   return name
     .split(/[_\s-]/)
@@ -37,8 +82,184 @@ function formatPrismaModelName(name: string): string {
     .join('');
 }
 
+// Names kept from a Prisma import win over the ones derived from the table and column names
+const modelNameOf = (table: Table): string => table.modelName ?? formatPrismaModelName(table.name);
+const fieldNameOf = (column: Column): string => column.fieldName ?? formatPrismaFieldName(column.name);
+
+// Enum values must be identifiers in Prisma; other names are mapped back with @map
+function formatPrismaEnumValue(name: string): string {
+  const identifier = name.replace(/[^a-zA-Z0-9_]/g, '_');
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier || '_';
+}
+
+function exportPrismaEnum(enumDef: Enum): string[] {
+  const lines: string[] = [];
+  const enumName = formatPrismaModelName(enumDef.name);
+
+  if (enumDef.note) {
+    enumDef.note.split('\n').forEach(line => lines.push(`/// ${line}`));
+  }
+  lines.push(`enum ${enumName} {`);
+  for (const value of enumDef.values) {
+    const identifier = formatPrismaEnumValue(value.name);
+    if (value.note) {
+      value.note.split('\n').forEach(line => lines.push(`  /// ${line}`));
+    }
+    lines.push(identifier !== value.name ? `  ${identifier} @map("${value.name.replace(/"/g, '\\"')}")` : `  ${identifier}`);
+  }
+  if (enumName !== enumDef.name) {
+    lines.push(`  @@map("${enumDef.name}")`);
+  }
+  lines.push('}');
+  lines.push('');
+  return lines;
+}
+
+const PRISMA_INDEX_TYPES: Record<string, string> = {
+  btree: 'BTree',
+  hash: 'Hash',
+  gin: 'Gin',
+  gist: 'Gist',
+  brin: 'Brin',
+};
+
+// Prisma cannot express partial indexes; the condition is kept as a comment
+function exportPrismaIndex(table: Table, index: TableIndex): string | null {
+  const fields = index.columnIds
+    .map(id => table.columns.find(c => c.id === id))
+    .filter((column): column is Column => !!column)
+    .map(fieldNameOf);
+  if (fields.length === 0) return null;
+
+  const args = [`[${fields.join(', ')}]`];
+  if (index.name) args.push(`map: "${index.name}"`);
+  if (index.type && !index.unique) args.push(`type: ${PRISMA_INDEX_TYPES[index.type]}`);
+  const comment = index.where ? ` // WHERE ${index.where}` : '';
+  return `  @@${index.unique ? 'unique' : 'index'}(${args.join(', ')})${comment}`;
+}
+
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+// List field names: `posts` for Post, while `Users` or `Status` are left as they are
+function pluralize(name: string): string {
+  return /s$/i.test(name) ? name : `${name}s`;
+}
+
+function formatReferentialAction(action: string): string {
+  const actionMap: Record<string, string> = {
+    'CASCADE': 'Cascade',
+    'SET NULL': 'SetNull',
+    'RESTRICT': 'Restrict',
+    'NO ACTION': 'NoAction',
+  };
+
+  return actionMap[action] || action;
+}
+
+interface PrismaRelation {
+  /** Model holding the foreign key; for many-to-many either side */
+  fromTable: Table;
+  /** Several columns for a composite key, in key order */
+  fromColumns: Column[];
+  toTable: Table;
+  toColumns: Column[];
+  kind: 'many-to-one' | 'one-to-one' | 'many-to-many';
+  name?: string;
+  onDelete?: string;
+  onUpdate?: string;
+}
+
+/**
+ * Collects relations from the schema relationships, orienting each one so the
+ * foreign key side comes first, plus column foreign keys without a relationship.
+ */
+function collectRelations(schema: Schema): PrismaRelation[] {
+  const relations: PrismaRelation[] = [];
+  const seen = new Set<string>();
+
+  for (const relationship of schema.relationships) {
+    const sourceTable = schema.tables.find(t => t.id === relationship.sourceTableId);
+    const targetTable = schema.tables.find(t => t.id === relationship.targetTableId);
+    if (!sourceTable || !targetTable) continue;
+    const { sourceColumnIds, targetColumnIds } = getRelationshipColumnIds(relationship);
+    const sourceColumns = sourceColumnIds.map(id => sourceTable.columns.find(c => c.id === id));
+    const targetColumns = targetColumnIds.map(id => targetTable.columns.find(c => c.id === id));
+    if (!sourceColumns.every(c => c) || !targetColumns.every(c => c)) continue;
+
+    // one-to-many stores the "one" side as source; the foreign key lives on the target
+    let sourceIsForeignKey = relationship.type !== 'one-to-many' && relationship.type !== 'zero-to-many';
+    if (relationship.type === 'one-to-one' || relationship.type === 'zero-to-one') {
+      sourceIsForeignKey = !(sourceColumns[0]!.primaryKey && !targetColumns[0]!.primaryKey);
+    }
+
+    const [fromTable, fromColumns, toTable, toColumns] = sourceIsForeignKey
+      ? [sourceTable, sourceColumns as Column[], targetTable, targetColumns as Column[]]
+      : [targetTable, targetColumns as Column[], sourceTable, sourceColumns as Column[]];
+
+    const kind = relationship.type === 'many-to-many'
+      ? 'many-to-many'
+      : relationship.type === 'one-to-one' || relationship.type === 'zero-to-one' ? 'one-to-one' : 'many-to-one';
+
+    if (fromColumns.length === 1) seen.add(`${fromColumns[0].id}:${toColumns[0].id}`);
+    relations.push({
+      fromTable,
+      fromColumns,
+      toTable,
+      toColumns,
+      kind,
+      name: relationship.name,
+      onDelete: relationship.onDelete ?? fromColumns[0].foreignKey?.onDelete,
+      onUpdate: relationship.onUpdate ?? fromColumns[0].foreignKey?.onUpdate,
+    });
+  }
+
+  for (const table of schema.tables) {
+    for (const column of table.columns) {
+      if (!column.foreignKey) continue;
+      const targetTable = schema.tables.find(t => t.id === column.foreignKey!.tableId);
+      const targetColumn = targetTable?.columns.find(c => c.id === column.foreignKey!.columnId);
+      if (!targetTable || !targetColumn || seen.has(`${column.id}:${targetColumn.id}`)) continue;
+
+      relations.push({
+        fromTable: table,
+        fromColumns: [column],
+        toTable: targetTable,
+        toColumns: [targetColumn],
+        kind: column.unique ? 'one-to-one' : 'many-to-one',
+        onDelete: column.foreignKey.onDelete,
+        onUpdate: column.foreignKey.onUpdate,
+      });
+    }
+  }
+
+  // Prisma needs a relation name whenever two models are linked more than once
+  const pairCounts = new Map<string, number>();
+  const pairKey = (r: PrismaRelation) => [r.fromTable.id, r.toTable.id].sort().join(':');
+  relations.forEach(r => pairCounts.set(pairKey(r), (pairCounts.get(pairKey(r)) || 0) + 1));
+  relations.forEach(r => {
+    if (!r.name && (pairCounts.get(pairKey(r))! > 1 || r.fromTable.id === r.toTable.id)) {
+      r.name = `${modelNameOf(r.fromTable)}${formatPrismaModelName(r.fromColumns[0].name)}`;
+    }
+  });
+
+  return relations;
+}
+
+function uniqueFieldName(base: string, used: Set<string>): string {
+  let name = base;
+  let counter = 2;
+  while (used.has(name)) {
+    name = `${base}${counter++}`;
+  }
+  used.add(name);
+  return name;
+}
+
 export function exportToPrisma(schema: Schema): string {
   const lines: string[] = [];
+  const relations = collectRelations(schema);
 
   // Add header
   lines.push('// This is your Prisma schema file,');
@@ -54,16 +275,43 @@ export function exportToPrisma(schema: Schema): string {
   lines.push(`}`);
   lines.push('');
 
+  const enums = schema.enums ?? [];
+  for (const enumDef of enums) {
+    lines.push(...exportPrismaEnum(enumDef));
+  }
+
   // Generate models
   for (const table of schema.tables) {
-    const modelName = formatPrismaModelName(table.name);
+    const modelName = modelNameOf(table);
+    const usedFieldNames = new Set(table.columns.map(fieldNameOf));
+
+    // Add table comment if description exists
+    if (table.description) {
+      table.description.split('\n').forEach(line => lines.push(`/// ${line}`));
+    }
 
     lines.push(`model ${modelName} {`);
 
     // Add columns
     for (const column of table.columns) {
-      const fieldName = formatPrismaFieldName(column.name);
-      const prismaType = mapPrismaType(column.type);
+      const fieldName = fieldNameOf(column);
+      const columnEnum = column.type === 'enum' ? enums.find(e => e.id === column.enumId) : undefined;
+      // Typed arrays become scalar lists, which Prisma does not allow to be optional
+      const isScalarList = column.type === 'array' && !!column.arrayElementType && column.arrayElementType !== 'enum';
+      const prismaType = columnEnum
+        ? formatPrismaModelName(columnEnum.name)
+        : isScalarList
+          ? `${mapPrismaType(column.arrayElementType!)}[]`
+          : mapPrismaType(column.type);
+
+      // Add comment if description exists
+      if (column.description) {
+        column.description.split('\n').forEach(line => lines.push(`  /// ${line}`));
+      }
+
+      if (column.nativeType && !mapPostgresNativeType(column)) {
+        lines.push(`  // Warning: ${column.nativeTypeDialect ?? 'native'} type ${column.nativeType} is stored as ${prismaType}`);
+      }
 
       let fieldDef = `  ${fieldName} ${prismaType}`;
 
@@ -74,7 +322,7 @@ export function exportToPrisma(schema: Schema): string {
         if (column.type.includes('timestamp') && !column.defaultValue) {
           modifiers.push('@default(now())');
         }
-      } else {
+      } else if (!isScalarList) {
         fieldDef += '?';
       }
 
@@ -84,11 +332,19 @@ export function exportToPrisma(schema: Schema): string {
         }
       }
 
-      if (column.unique) {
+      if (column.unique && !column.primaryKey) {
         modifiers.push('@unique');
       }
 
-      if (column.defaultValue) {
+      if (column.increment) {
+        modifiers.push('@default(autoincrement())');
+      } else if (columnEnum && column.defaultValue) {
+        // Enum defaults refer to the value identifier, unquoted
+        const defaultValue = column.defaultValue.replace(/^'(.*)'$/, '$1');
+        if (columnEnum.values.some(v => v.name === defaultValue)) {
+          modifiers.push(`@default(${formatPrismaEnumValue(defaultValue)})`);
+        }
+      } else if (column.defaultValue) {
         if (column.defaultValue.toLowerCase() === 'uuid_generate_v4()') {
           modifiers.push('@default(uuid())');
         } else if (column.defaultValue.toLowerCase().includes('now') || column.defaultValue.toLowerCase().includes('current_timestamp')) {
@@ -98,12 +354,18 @@ export function exportToPrisma(schema: Schema): string {
         } else if (column.defaultValue.toLowerCase() === 'true' || column.defaultValue.toLowerCase() === 'false') {
           modifiers.push(`@default(${column.defaultValue})`);
         } else {
-          modifiers.push(`@default("${column.defaultValue}")`);
+          modifiers.push(`@default("${column.defaultValue.replace(/"/g, '\\"')}")`);
         }
       }
 
-      if (column.nullable && !column.defaultValue) {
-        fieldDef += '?';
+      // Keep the original column name when the field name was camelCased
+      if (fieldName !== column.name) {
+        modifiers.push(`@map("${column.name}")`);
+      }
+
+      const nativeType = mapPrismaNativeType(isScalarList ? { type: column.arrayElementType!, ...pickTypeParams(column.arrayElementType!, column) } : column);
+      if (nativeType) {
+        modifiers.push(nativeType);
       }
 
       // Add modifiers
@@ -112,106 +374,78 @@ export function exportToPrisma(schema: Schema): string {
       }
 
       lines.push(fieldDef);
+    }
 
-      // Add comment if description exists
-      if (column.description) {
-        lines.push(`  /// ${column.description}`);
+    // Add relation fields for foreign keys held by this model
+    for (const relation of relations.filter(r => r.fromTable.id === table.id && r.kind !== 'many-to-many')) {
+      const targetModelName = modelNameOf(relation.toTable);
+      const fkFieldNames = relation.fromColumns.map(fieldNameOf);
+      const targetFieldNames = relation.toColumns.map(fieldNameOf);
+      // Composite keys have no single field to derive the relation field name from
+      const baseName = fkFieldNames.length === 1
+        ? fkFieldNames[0].replace(/_?id$/i, '') || lowerFirst(targetModelName)
+        : lowerFirst(targetModelName);
+      const relationFieldName = uniqueFieldName(baseName, usedFieldNames);
+
+      const relationArgs: string[] = [];
+      if (relation.name) relationArgs.push(`"${relation.name}"`);
+      relationArgs.push(`fields: [${fkFieldNames.join(', ')}]`, `references: [${targetFieldNames.join(', ')}]`);
+
+      // Add cascade options if specified
+      if (relation.onDelete) {
+        relationArgs.push(`onDelete: ${formatReferentialAction(relation.onDelete)}`);
+      }
+      if (relation.onUpdate) {
+        relationArgs.push(`onUpdate: ${formatReferentialAction(relation.onUpdate)}`);
       }
-    }
 
-    // Add composite primary key if needed
-    const primaryKeyColumns = table.columns.filter(c => c.primaryKey);
-    if (primaryKeyColumns.length > 1) {
-      const pkFields = primaryKeyColumns.map(c => formatPrismaFieldName(c.name)).join(', ');
-      lines.push(`  @@id([${pkFields}])`);
+      const optional = relation.fromColumns.some(c => c.nullable) ? '?' : '';
+      lines.push(`  ${relationFieldName} ${targetModelName}${optional} @relation(${relationArgs.join(', ')})`);
     }
 
-    // Add relationships from this table's foreign keys
-    const foreignKeyColumns = table.columns.filter(c => c.foreignKey);
-    for (const column of foreignKeyColumns) {
-      const targetTable = schema.tables.find(t => t.id === column.foreignKey!.tableId);
-      if (targetTable) {
-        const targetModelName = formatPrismaModelName(targetTable.name);
-        const fieldName = formatPrismaFieldName(column.name);
-        const targetFieldName = formatPrismaFieldName(targetTable.columns.find(c => c.id === column.foreignKey!.columnId)?.name || 'id');
-
-        // Add relation field
-        if (fieldName !== targetModelName.toLowerCase()) {
-          lines.push(`  ${targetModelName.toLowerCase()} ${targetModelName}? @relation(fields: [${fieldName}], references: [${targetFieldName}]`);
-        } else {
-          lines.push(`  ${targetModelName}Relation ${targetModelName}? @relation(fields: [${fieldName}], references: [${targetFieldName}]`);
-        }
-
-        // Add cascade options if specified
-        const relationOptions: string[] = [];
-        if (column.foreignKey?.onDelete && column.foreignKey.onDelete !== 'NO ACTION') {
-          relationOptions.push(`onDelete: ${column.foreignKey.onDelete}`);
-        }
-        if (column.foreignKey?.onUpdate && column.foreignKey.onUpdate !== 'NO ACTION') {
-          relationOptions.push(`onUpdate: ${column.foreignKey.onUpdate}`);
-        }
+    // Add back-relation fields for foreign keys pointing at this model
+    for (const relation of relations.filter(r => r.toTable.id === table.id && r.kind !== 'many-to-many')) {
+      const sourceModelName = modelNameOf(relation.fromTable);
+      const isList = relation.kind === 'many-to-one';
+      const plural = (name: string) => (isList ? pluralize(name) : name);
+      // Prefix with the relation name when the model is referenced more than once
+      const baseName = usedFieldNames.has(plural(lowerFirst(sourceModelName))) && relation.name
+        ? lowerFirst(formatPrismaModelName(relation.name)) + plural(sourceModelName)
+        : plural(lowerFirst(sourceModelName));
+      const relationFieldName = uniqueFieldName(baseName, usedFieldNames);
+      const relationAttr = relation.name ? ` @relation("${relation.name}")` : '';
+
+      lines.push(`  ${relationFieldName} ${sourceModelName}${isList ? '[]' : '?'}${relationAttr}`);
+    }
 
-        if (relationOptions.length > 0) {
-          lines[lines.length - 1] += `, ${relationOptions.join(', ')})`;
-        } else {
-          lines[lines.length - 1] += ')';
-        }
+    // Add implicit many-to-many list fields on both sides
+    for (const relation of relations.filter(r => r.kind === 'many-to-many' && (r.fromTable.id === table.id || r.toTable.id === table.id))) {
+      const sides = relation.fromTable.id === table.id ? [relation.toTable] : [relation.fromTable];
+      // A self many-to-many needs a list field for each direction
+      if (relation.fromTable.id === relation.toTable.id) sides.push(relation.toTable);
+
+      for (const other of sides) {
+        const otherModelName = modelNameOf(other);
+        const relationFieldName = uniqueFieldName(pluralize(lowerFirst(otherModelName)), usedFieldNames);
+        const relationAttr = relation.name ? ` @relation("${relation.name}")` : '';
+        lines.push(`  ${relationFieldName} ${otherModelName}[]${relationAttr}`);
       }
     }
 
-    // Add reverse relationships
-    const incomingRelationships = schema.relationships.filter(r => r.targetTableId === table.id);
-    for (const relationship of incomingRelationships) {
-      const sourceTable = schema.tables.find(t => t.id === relationship.sourceTableId);
-      if (sourceTable) {
-        const sourceModelName = formatPrismaModelName(sourceTable.name);
-        const sourceColumn = sourceTable.columns.find(c => c.id === relationship.sourceColumnId);
-        const targetColumn = table.columns.find(c => c.id === relationship.targetColumnId);
-
-        if (sourceColumn && targetColumn) {
-          const sourceFieldName = formatPrismaFieldName(sourceColumn.name);
-          const targetFieldName = formatPrismaFieldName(targetColumn.name);
-
-          // Determine the field name for the reverse relation
-          let reverseFieldName: string;
-          if (relationship.type === 'one-to-many') {
-            reverseFieldName = sourceModelName.toLowerCase() + 's';
-          } else {
-            reverseFieldName = sourceModelName.toLowerCase();
-          }
-
-          // Check if this relationship already exists as a foreign key
-          const existingForeignKey = sourceColumn.foreignKey?.tableId === table.id;
-
-          if (!existingForeignKey) {
-            lines.push(`  ${reverseFieldName} ${sourceModelName}[] @relation("${relationship.name || sourceModelName + modelName}", fields: [${targetFieldName}], references: [${sourceFieldName}]`);
-
-            // Add cascade options if specified
-            const relationOptions: string[] = [];
-            if (relationship.onDelete && relationship.onDelete !== 'NO ACTION') {
-              relationOptions.push(`onDelete: ${relationship.onDelete}`);
-            }
-            if (relationship.onUpdate && relationship.onUpdate !== 'NO ACTION') {
-              relationOptions.push(`onUpdate: ${relationship.onUpdate}`);
-            }
-
-            if (relationOptions.length > 0) {
-              lines[lines.length - 1] += `, ${relationOptions.join(', ')})`;
-            } else {
-              lines[lines.length - 1] += ')';
-            }
-          }
-        }
-      }
+    // Add composite primary key if needed
+    const primaryKeyColumns = table.columns.filter(c => c.primaryKey);
+    if (primaryKeyColumns.length > 1) {
+      const pkFields = primaryKeyColumns.map(fieldNameOf).join(', ');
+      lines.push(`  @@id([${pkFields}])`);
     }
 
-    // Add table comment if description exists
-    if (table.description) {
-      lines.push(`  /// ${table.description}`);
+    for (const index of table.indexes ?? []) {
+      const line = exportPrismaIndex(table, index);
+      if (line) lines.push(line);
     }
 
     // Add @@map for original table name
-    if (formatPrismaModelName(table.name) !== table.name) {
+    if (modelName !== table.name) {
       lines.push(`  @@map("${table.name}")`);
     }
 
@@ -220,4 +454,4 @@ export function exportToPrisma(schema: Schema): string {
   }
 
   return lines.join('\n');
-}
\ No newline at end of file
+}
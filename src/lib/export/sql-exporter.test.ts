@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { exportToSQL } from './sql-exporter';
+import { exportMigrationSQL } from './migration-exporter';
+import { parseDbml } from '@/lib/dbml/dbml-parser';
+import { FOREIGN_KEY_ACTIONS } from '@/constants/schema';
+import type { Schema } from '@/features/schema/types/schema.types';
+
+function schemaFromDbml(dbml: string): Schema {
+  const result = parseDbml(dbml, [], []);
+  expect(result.errors).toEqual([]);
+  return {
+    id: 'schema',
+    name: 'Test',
+    tables: result.tables,
+    relationships: result.relationships,
+    enums: result.enums,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    version: 1,
+  };
+}
+
+// The statements of an export, without its header comments
+const statements = (sql: string) => sql.split('\n').filter(line => line && !line.startsWith('--'));
+
+describe('exportToSQL', () => {
+  describe('enums', () => {
+    const NAMESPACED_ENUM = `
+Enum core.status {
+  active
+  archived
+}
+
+Table core.accounts {
+  id integer [pk]
+  status core.status
+}
+`;
+
+    it('qualifies a namespaced enum type with its schema', () => {
+      const sql = statements(exportToSQL(schemaFromDbml(NAMESPACED_ENUM)));
+
+      expect(sql).toEqual([
+        'CREATE SCHEMA IF NOT EXISTS "core";',
+        'CREATE TYPE "core"."status" AS ENUM (\'active\', \'archived\');',
+        'CREATE TABLE "core"."accounts" (',
+        '  "id" INTEGER NOT NULL PRIMARY KEY,',
+        '  "status" "core"."status"',
+        ');',
+      ]);
+    });
+
+    it('qualifies a namespaced enum type in migrations', () => {
+      const { tables, relationships, enums } = schemaFromDbml(NAMESPACED_ENUM);
+      const sql = statements(exportMigrationSQL({ tables: [], relationships: [], enums: [] }, { tables, relationships, enums }));
+
+      expect(sql).toContain('CREATE TYPE "core"."status" AS ENUM (\'active\', \'archived\');');
+      expect(sql).toContain('  "status" "core"."status"');
+      expect(statements(exportMigrationSQL({ tables, relationships, enums }, { tables: [], relationships: [], enums: [] })))
+        .toContain('DROP TYPE "core"."status";');
+    });
+  });
+
+  describe('array columns', () => {
+    it('keeps the type parameters of the element type', () => {
+      const sql = statements(exportToSQL(schemaFromDbml(`
+Table products {
+  id integer [pk]
+  tags varchar(20)[]
+  prices decimal(10,2)[]
+  seen_at timestamptz[]
+}
+`)));
+
+      expect(sql).toEqual([
+        'CREATE TABLE "products" (',
+        '  "id" INTEGER NOT NULL PRIMARY KEY,',
+        '  "tags" VARCHAR(20)[],',
+        '  "prices" DECIMAL(10,2)[],',
+        '  "seen_at" TIMESTAMPTZ[]',
+        ');',
+      ]);
+    });
+  });
+
+  describe('foreign keys', () => {
+    const SHIPMENTS = `
+Table orders {
+  id integer [pk]
+  region varchar [pk]
+}
+
+Table shipments {
+  id integer [pk]
+  order_id integer
+  order_region varchar
+  return_order_id integer
+  return_order_region varchar
+}
+
+Ref: shipments.(order_id, order_region) > orders.(id, region) [delete: cascade]
+Ref: orders.(id, region) < shipments.(return_order_id, return_order_region)
+`;
+
+    it('inlines composite foreign keys in SQLite tables', () => {
+      const sql = statements(exportToSQL(schemaFromDbml(SHIPMENTS), 'sqlite'));
+
+      expect(sql).toContain('  FOREIGN KEY ("order_id", "order_region") REFERENCES "orders"("id", "region") ON DELETE CASCADE,');
+      expect(sql).toContain('  FOREIGN KEY ("return_order_id", "return_order_region") REFERENCES "orders"("id", "region")');
+      expect(sql.some(line => line.startsWith('ALTER TABLE'))).toBe(false);
+    });
+
+    it('names each composite foreign key to the same table after its columns', () => {
+      const sql = statements(exportToSQL(schemaFromDbml(SHIPMENTS)));
+
+      expect(sql).toContain(
+        'ALTER TABLE "shipments" ADD CONSTRAINT "rel_shipments_order_id_order_region_orders" FOREIGN KEY ("order_id", "order_region") REFERENCES "orders"("id", "region") ON DELETE CASCADE;'
+      );
+      expect(sql).toContain(
+        'ALTER TABLE "shipments" ADD CONSTRAINT "rel_shipments_return_order_id_return_order_region_orders" FOREIGN KEY ("return_order_id", "return_order_region") REFERENCES "orders"("id", "region");'
+      );
+    });
+
+    it('adds the foreign key of a one-to-many relationship to the many side', () => {
+      const sql = statements(exportToSQL(schemaFromDbml(`
+Table users {
+  id integer [pk]
+}
+
+Table posts {
+  id integer [pk]
+  uid integer
+}
+
+Ref: users.id < posts.uid
+`)));
+
+      expect(sql).toContain('ALTER TABLE "posts" ADD CONSTRAINT "rel_posts_uid_users" FOREIGN KEY ("uid") REFERENCES "users"("id");');
+    });
+
+    describe('actions', () => {
+      const cases = FOREIGN_KEY_ACTIONS.flatMap(action =>
+        (['delete', 'update'] as const).map(setting => ({ action, setting, clause: ` ON ${setting.toUpperCase()} ${action}` }))
+      );
+      const posts = (setting: string, action: string) => schemaFromDbml(`
+Table users {
+  id integer [pk]
+}
+
+Table posts {
+  id integer [pk]
+  uid integer
+}
+
+Ref: posts.uid > users.id [${setting}: ${action.toLowerCase()}]
+`);
+      // NO ACTION is what every dialect does without a clause
+      const expected = (action: string, clause: string) => (action === 'NO ACTION' ? '' : clause);
+
+      it.each(cases)('adds ON $setting $action to the constraint', ({ action, setting, clause }) => {
+        expect(statements(exportToSQL(posts(setting, action)))).toContain(
+          `ALTER TABLE "posts" ADD CONSTRAINT "rel_posts_uid_users" FOREIGN KEY ("uid") REFERENCES "users"("id")${expected(action, clause)};`
+        );
+      });
+
+      it.each(cases)('adds ON $setting $action to the SQL Server constraint, except RESTRICT', ({ action, setting, clause }) => {
+        expect(statements(exportToSQL(posts(setting, action), 'sqlserver'))).toContain(
+          `ALTER TABLE "posts" ADD CONSTRAINT "rel_posts_uid_users" FOREIGN KEY ("uid") REFERENCES "users"("id")${action === 'RESTRICT' ? '' : expected(action, clause)};`
+        );
+      });
+
+      it.each(cases)('adds ON $setting $action to the SQLite table', ({ action, setting, clause }) => {
+        expect(statements(exportToSQL(posts(setting, action), 'sqlite'))).toContain(
+          `  FOREIGN KEY ("uid") REFERENCES "users"("id")${expected(action, clause)}`
+        );
+      });
+    });
+  });
+});
@@ -1,8 +1,10 @@
-import { Schema, Table, Column, Relationship } from '@/types/schema';
+import { Schema, Table, Column, Enum, TableIndex } from '@/types/schema';
+import { collectForeignKeys, type ForeignKeyRef } from '@/features/schema/utils/schema-diff.utils';
+import { applyColumnTypeParams } from '@/features/schema/utils/sql-generator.utils';
 
 export type SQLDialect = 'postgresql' | 'mysql' | 'sqlite' | 'sqlserver';
 
-function mapColumnType(type: string, dialect: SQLDialect): string {
+export function mapColumnType(type: string, dialect: SQLDialect): string {
   const typeMap: Record<SQLDialect, Record<string, string>> = {
     postgresql: {
       'string': 'VARCHAR(255)',
@@ -85,21 +87,46 @@ function mapColumnType(type: string, dialect: SQLDialect): string {
   return typeMap[dialect][type] || typeMap[dialect]['string'];
 }
 
-function formatTableName(name: string, dialect: SQLDialect): string {
+export function formatTableName(name: string, dialect: SQLDialect): string {
   if (dialect === 'mysql') {
     return `\`${name}\``;
   }
   return `"${name}"`;
 }
 
-function formatColumnName(name: string, dialect: SQLDialect): string {
+/**
+ * Table name qualified with its namespace, e.g. "core"."users". SQLite has no
+ * schemas, so the namespace is dropped there.
+ */
+export function formatQualifiedTableName(table: Pick<Table, 'name' | 'namespace'>, dialect: SQLDialect): string {
+  const name = formatTableName(table.name, dialect);
+  return table.namespace && dialect !== 'sqlite' ? `${formatTableName(table.namespace, dialect)}.${name}` : name;
+}
+
+/**
+ * CREATE SCHEMA statements for the namespaces used by the tables (and enum
+ * types); on MySQL a schema is a database
+ */
+export function formatCreateSchemas(tables: Pick<Table, 'namespace'>[], dialect: SQLDialect): string[] {
+  if (dialect === 'sqlite') return [];
+  const namespaces = [...new Set(tables.map(table => table.namespace).filter((ns): ns is string => !!ns))];
+  return namespaces.map(ns =>
+    dialect === 'mysql'
+      ? `CREATE DATABASE IF NOT EXISTS ${formatTableName(ns, dialect)};`
+      : dialect === 'sqlserver'
+        ? `CREATE SCHEMA ${formatTableName(ns, dialect)};`
+        : `CREATE SCHEMA IF NOT EXISTS ${formatTableName(ns, dialect)};`
+  );
+}
+
+export function formatColumnName(name: string, dialect: SQLDialect): string {
   if (dialect === 'mysql') {
     return `\`${name}\``;
   }
   return `"${name}"`;
 }
 
-function formatDefaultValue(value: string, dialect: SQLDialect): string {
+export function formatDefaultValue(value: string, dialect: SQLDialect): string {
   if (!value) return '';
 
   // Handle special cases
@@ -128,6 +155,273 @@ function formatDefaultValue(value: string, dialect: SQLDialect): string {
   return `DEFAULT '${value.replace(/'/g, "''")}'`;
 }
 
+export function formatConstraintName(name: string, dialect: SQLDialect): string {
+  // MySQL limits identifiers to 64 characters
+  return dialect === 'mysql' ? name.substring(0, 64) : name;
+}
+
+const findColumnName = (tables: Map<string, Table>, tableId: string, columnId: string): string =>
+  tables.get(tableId)!.columns.find(c => c.id === columnId)!.name;
+
+/**
+ * Name of a foreign key constraint: `fk_` for a column's own foreign key and
+ * `rel_` for one drawn as a relationship, followed by the table, its key
+ * columns and the referenced table
+ */
+export function formatForeignKeyName(fk: ForeignKeyRef, tables: Map<string, Table>, dialect: SQLDialect): string {
+  const columnNames = fk.columnIds.map(columnId => findColumnName(tables, fk.tableId, columnId)).join('_');
+  const tableName = tables.get(fk.tableId)!.name;
+  const referencedTableName = tables.get(fk.referencedTableId)!.name;
+  const name = `${fk.relationshipId ? 'rel' : 'fk'}_${tableName}_${columnNames}_${referencedTableName}`;
+  return formatColumnName(formatConstraintName(name, dialect), dialect);
+}
+
+/**
+ * `FOREIGN KEY (...) REFERENCES ...` with its referential actions, as written
+ * in ALTER TABLE or inline in CREATE TABLE
+ */
+export function formatForeignKeyClause(fk: ForeignKeyRef, tables: Map<string, Table>, dialect: SQLDialect): string {
+  const columns = fk.columnIds
+    .map(columnId => formatColumnName(findColumnName(tables, fk.tableId, columnId), dialect))
+    .join(', ');
+  const referencedTable = tables.get(fk.referencedTableId)!;
+  const referencedColumns = fk.referencedColumnIds
+    .map(columnId => formatColumnName(findColumnName(tables, fk.referencedTableId, columnId), dialect))
+    .join(', ');
+
+  let clause = `FOREIGN KEY (${columns})`;
+  clause += ` REFERENCES ${formatQualifiedTableName(referencedTable, dialect)}(${referencedColumns})`;
+
+  // NO ACTION is the default; SQL Server has no RESTRICT, and its NO ACTION rejects the change just the same
+  const hasClause = (action: ForeignKeyRef['onDelete']) =>
+    !!action && action !== 'NO ACTION' && !(action === 'RESTRICT' && dialect === 'sqlserver');
+  if (hasClause(fk.onDelete)) {
+    clause += ` ON DELETE ${fk.onDelete}`;
+  }
+  if (hasClause(fk.onUpdate)) {
+    clause += ` ON UPDATE ${fk.onUpdate}`;
+  }
+  return clause;
+}
+
+export function formatEnumValues(enumDef: Enum): string {
+  return enumDef.values.map(value => `'${value.name.replace(/'/g, "''")}'`).join(', ');
+}
+
+/**
+ * The enum an enum column takes its values from, if it is set and still exists
+ */
+export function findColumnEnum(column: Column, enums: Enum[]): Enum | undefined {
+  if (column.type !== 'enum' || !column.enumId) return undefined;
+  return enums.find(e => e.id === column.enumId);
+}
+
+/**
+ * SQL type of a column. Enum columns use the named type on PostgreSQL and an
+ * inline ENUM(...) on MySQL; other dialects store the value as text. Type
+ * parameters such as a VARCHAR length are applied where the dialect has them.
+ * A native type is written verbatim for its own dialect.
+ */
+export function formatColumnType(column: Column, dialect: SQLDialect, enums: Enum[] = []): string {
+  if (column.nativeType && column.nativeTypeDialect === dialect) return column.nativeType;
+  const enumDef = findColumnEnum(column, enums);
+  if (enumDef && dialect === 'postgresql') return formatQualifiedTableName(enumDef, dialect);
+  if (enumDef && dialect === 'mysql' && enumDef.values.length > 0) return `ENUM(${formatEnumValues(enumDef)})`;
+  return applyColumnTypeParams(
+    mapColumnType(column.type, dialect),
+    column.type,
+    column,
+    dialect,
+    elementType => mapColumnType(elementType, dialect)
+  );
+}
+
+/**
+ * Comment lines for columns whose native type belongs to another dialect and
+ * was exported as the closest portable type instead
+ */
+export function formatNativeTypeWarnings(tables: Table[], dialect: SQLDialect, enums: Enum[] = []): string[] {
+  return tables.flatMap(table =>
+    table.columns
+      .filter(column => column.nativeType && column.nativeTypeDialect !== dialect)
+      .map(column =>
+        `-- Warning: ${table.name}.${column.name} has ${column.nativeTypeDialect ?? 'native'} type ${column.nativeType}, exported as ${formatColumnType(column, dialect, enums)}`
+      )
+  );
+}
+
+/**
+ * Comment lines for many-to-many relationships, which have no foreign key of
+ * their own and need a join table the schema does not define
+ */
+export function formatManyToManyWarnings(schema: Pick<Schema, 'tables' | 'relationships'>): string[] {
+  const tablesById = new Map(schema.tables.map(table => [table.id, table]));
+  return schema.relationships
+    .filter(relationship => relationship.type === 'many-to-many')
+    .flatMap(relationship => {
+      const source = tablesById.get(relationship.sourceTableId);
+      const target = tablesById.get(relationship.targetTableId);
+      if (!source || !target) return [];
+      return [`-- Warning: many-to-many relationship ${source.name} <> ${target.name} not exported, it needs a join table`];
+    });
+}
+
+/**
+ * CHECK constraint restricting an enum column to its values, for dialects
+ * without a native enum type
+ */
+export function formatEnumCheck(column: Column, dialect: SQLDialect, enums: Enum[] = []): string {
+  const enumDef = findColumnEnum(column, enums);
+  if (!enumDef || enumDef.values.length === 0) return '';
+  if (dialect !== 'sqlite' && dialect !== 'sqlserver') return '';
+  return `CHECK (${formatColumnName(column.name, dialect)} IN (${formatEnumValues(enumDef)}))`;
+}
+
+export function formatCreateType(enumDef: Enum): string {
+  return `CREATE TYPE ${formatQualifiedTableName(enumDef, 'postgresql')} AS ENUM (${formatEnumValues(enumDef)});`;
+}
+
+export function formatColumnDefinition(
+  column: Column,
+  dialect: SQLDialect,
+  inlinePrimaryKey = false,
+  enums: Enum[] = []
+): string {
+  const columnName = formatColumnName(column.name, dialect);
+  const columnType = formatColumnType(column, dialect, enums);
+
+  let columnDef = `${columnName} ${columnType}`;
+
+  // Add NOT NULL constraint
+  if (!column.nullable) {
+    columnDef += ' NOT NULL';
+  }
+
+  // Add UNIQUE constraint
+  if (column.unique) {
+    columnDef += ' UNIQUE';
+  }
+
+  // Add DEFAULT value
+  if (column.defaultValue) {
+    columnDef += ` ${formatDefaultValue(column.defaultValue, dialect)}`;
+  }
+
+  if (inlinePrimaryKey) {
+    columnDef += ' PRIMARY KEY';
+  }
+
+  const enumCheck = formatEnumCheck(column, dialect, enums);
+  if (enumCheck) {
+    columnDef += ` ${enumCheck}`;
+  }
+
+  return columnDef;
+}
+
+/**
+ * Columns of an index that still exist on the table, in index order
+ */
+export function getIndexColumns(table: Table, index: TableIndex): Column[] {
+  return index.columnIds
+    .map(id => table.columns.find(c => c.id === id))
+    .filter((column): column is Column => !!column);
+}
+
+/**
+ * Name of an index: its own, or one generated from the table and column
+ * names with PostgreSQL's `_key` / `_idx` suffixes
+ */
+export function getIndexName(table: Table, index: TableIndex): string {
+  if (index.name) return index.name;
+  const columnNames = getIndexColumns(table, index).map(c => c.name);
+  return `${table.name}_${columnNames.join('_')}_${index.unique ? 'key' : 'idx'}`;
+}
+
+/**
+ * CREATE INDEX statement for an index. The index method is only written where
+ * the dialect supports choosing it (PostgreSQL, and btree/hash on MySQL);
+ * MySQL has no partial indexes, so its WHERE clause becomes a comment.
+ */
+export function formatCreateIndex(table: Table, index: TableIndex, dialect: SQLDialect): string {
+  const columns = getIndexColumns(table, index).map(c => formatColumnName(c.name, dialect));
+  const indexName = formatColumnName(formatConstraintName(getIndexName(table, index), dialect), dialect);
+  const tableName = formatQualifiedTableName(table, dialect);
+
+  let statement = `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${indexName} ON ${tableName}`;
+  if (index.type && dialect === 'postgresql') {
+    statement += ` USING ${index.type}`;
+  }
+  statement += ` (${columns.join(', ')})`;
+  if (index.type && dialect === 'mysql' && (index.type === 'btree' || index.type === 'hash')) {
+    statement += ` USING ${index.type.toUpperCase()}`;
+  }
+  if (index.where && dialect !== 'mysql') {
+    statement += ` WHERE ${index.where}`;
+  }
+  statement += ';';
+  if (index.where && dialect === 'mysql') {
+    statement += ` -- partial index not supported: WHERE ${index.where}`;
+  }
+  return statement;
+}
+
+export function formatDropIndex(table: Table, index: TableIndex, dialect: SQLDialect): string {
+  const indexName = formatColumnName(formatConstraintName(getIndexName(table, index), dialect), dialect);
+  // MySQL and SQL Server scope index names to their table
+  if (dialect === 'mysql' || dialect === 'sqlserver') {
+    return `DROP INDEX ${indexName} ON ${formatQualifiedTableName(table, dialect)};`;
+  }
+  // PostgreSQL creates the index in the table's schema
+  if (table.namespace && dialect === 'postgresql') {
+    return `DROP INDEX ${formatTableName(table.namespace, dialect)}.${indexName};`;
+  }
+  return `DROP INDEX ${indexName};`;
+}
+
+/**
+ * CREATE INDEX statements for the indexes of a table that still have columns
+ */
+export function formatTableIndexes(table: Table, dialect: SQLDialect): string[] {
+  return (table.indexes ?? [])
+    .filter(index => getIndexColumns(table, index).length > 0)
+    .map(index => formatCreateIndex(table, index, dialect));
+}
+
+/**
+ * Builds the CREATE TABLE statement for a table, one line per entry.
+ * Extra constraints (e.g. inline foreign keys for SQLite) are appended after the primary key.
+ */
+export function formatCreateTable(
+  table: Table,
+  dialect: SQLDialect,
+  extraConstraints: string[] = [],
+  enums: Enum[] = []
+): string[] {
+  const tableName = formatQualifiedTableName(table, dialect);
+  const primaryKeyColumns = table.columns.filter(c => c.primaryKey);
+
+  // Single-column primary keys are declared inline, except on SQL Server which handles PK separately
+  const inlinePrimaryKey = primaryKeyColumns.length === 1 && dialect !== 'sqlserver';
+  const columns = table.columns.map(column =>
+    formatColumnDefinition(column, dialect, inlinePrimaryKey && column.primaryKey, enums)
+  );
+
+  // Add table constraints
+  const constraints: string[] = [];
+  if (primaryKeyColumns.length > 1 || (primaryKeyColumns.length === 1 && dialect === 'sqlserver')) {
+    const pkColumns = primaryKeyColumns.map(c => formatColumnName(c.name, dialect)).join(', ');
+    constraints.push(`PRIMARY KEY (${pkColumns})`);
+  }
+  constraints.push(...extraConstraints);
+
+  return [
+    `CREATE TABLE ${tableName} (`,
+    `  ${columns.join(',\n  ')}${constraints.length > 0 ? ',\n  ' + constraints.join(',\n  ') : ''}`,
+    ');',
+  ];
+}
+
 export function exportToSQL(schema: Schema, dialect: SQLDialect = 'postgresql'): string {
   const statements: string[] = [];
 
@@ -137,6 +431,37 @@ export function exportToSQL(schema: Schema, dialect: SQLDialect = 'postgresql'):
   statements.push(`-- Dialect: ${dialect.toUpperCase()}`);
   statements.push('');
 
+  const enums = schema.enums ?? [];
+
+  const nativeTypeWarnings = formatNativeTypeWarnings(schema.tables, dialect, enums);
+  if (nativeTypeWarnings.length > 0) {
+    statements.push(...nativeTypeWarnings);
+    statements.push('');
+  }
+
+  const manyToManyWarnings = formatManyToManyWarnings(schema);
+  if (manyToManyWarnings.length > 0) {
+    statements.push(...manyToManyWarnings);
+    statements.push('');
+  }
+
+  // Enum types only have a schema of their own on PostgreSQL
+  const createSchemas = formatCreateSchemas(dialect === 'postgresql' ? [...schema.tables, ...enums] : schema.tables, dialect);
+  if (createSchemas.length > 0) {
+    statements.push(...createSchemas);
+    statements.push('');
+  }
+
+  // PostgreSQL enum types must exist before the tables that use them
+  if (dialect === 'postgresql' && enums.length > 0) {
+    statements.push(...enums.map(formatCreateType));
+    statements.push('');
+  }
+
+  // Every foreign key once, on the table holding it; see collectForeignKeys
+  const foreignKeys = [...collectForeignKeys(schema).values()];
+  const tablesById = new Map(schema.tables.map(table => [table.id, table]));
+
   // Sort tables by dependencies (tables with foreign keys come after their references)
   const sortedTables = [...schema.tables].sort((a, b) => {
     const aHasForeignKeys = a.columns.some(col => col.foreignKey);
@@ -147,138 +472,23 @@ export function exportToSQL(schema: Schema, dialect: SQLDialect = 'postgresql'):
     return 0;
   });
 
-  // Generate CREATE TABLE statements
+  // Generate CREATE TABLE statements. SQLite cannot add constraints to an
+  // existing table, so its foreign keys are declared inline.
   for (const table of sortedTables) {
-    const tableName = formatTableName(table.name, dialect);
-    const columns: string[] = [];
-    const constraints: string[] = [];
-
-    // Add columns
-    for (const column of table.columns) {
-      const columnName = formatColumnName(column.name, dialect);
-      const columnType = mapColumnType(column.type, dialect);
-
-      let columnDef = `${columnName} ${columnType}`;
-
-      // Add NOT NULL constraint
-      if (!column.nullable) {
-        columnDef += ' NOT NULL';
-      }
-
-      // Add UNIQUE constraint
-      if (column.unique) {
-        columnDef += ' UNIQUE';
-      }
-
-      // Add DEFAULT value
-      if (column.defaultValue) {
-        columnDef += ` ${formatDefaultValue(column.defaultValue, dialect)}`;
-      }
-
-      // Add PRIMARY KEY (will be added as table constraint for composite keys)
-      if (column.primaryKey && table.columns.filter(c => c.primaryKey).length === 1) {
-        if (dialect === 'postgresql') {
-          columnDef += ' PRIMARY KEY';
-        } else if (dialect === 'sqlserver') {
-          // SQL Server handles PK separately
-        } else {
-          columnDef += ' PRIMARY KEY';
-        }
-      }
-
-      columns.push(columnDef);
-    }
-
-    // Add table constraints
-    const primaryKeyColumns = table.columns.filter(c => c.primaryKey);
-    if (primaryKeyColumns.length > 1 || (primaryKeyColumns.length === 1 && dialect === 'sqlserver')) {
-      const pkColumns = primaryKeyColumns.map(c => formatColumnName(c.name, dialect)).join(', ');
-      constraints.push(`PRIMARY KEY (${pkColumns})`);
-    }
-
-    // Add CREATE TABLE statement
-    statements.push(`CREATE TABLE ${tableName} (`);
-    statements.push(`  ${columns.join(',\n  ')}${constraints.length > 0 ? ',\n  ' + constraints.join(',\n  ') : ''}`);
-    statements.push(');');
+    const inlineForeignKeys = dialect === 'sqlite'
+      ? foreignKeys.filter(fk => fk.tableId === table.id).map(fk => formatForeignKeyClause(fk, tablesById, dialect))
+      : [];
+    statements.push(...formatCreateTable(table, dialect, inlineForeignKeys, enums));
+    statements.push(...formatTableIndexes(table, dialect));
     statements.push('');
   }
 
   // Add foreign key constraints
-  for (const table of schema.tables) {
-    for (const column of table.columns) {
-      if (column.foreignKey) {
-        const sourceTable = formatTableName(table.name, dialect);
-        const sourceColumn = formatColumnName(column.name, dialect);
-        const targetTable = schema.tables.find(t => t.id === column.foreignKey!.tableId);
-
-        if (targetTable) {
-          const targetColumnName = targetTable.columns.find(c => c.id === column.foreignKey!.columnId)?.name;
-          if (targetColumnName) {
-            const targetTableFormatted = formatTableName(targetTable.name, dialect);
-            const targetColumnFormatted = formatColumnName(targetColumnName, dialect);
-
-            let constraintName = `fk_${table.name}_${column.name}_${targetTable.name}`;
-            if (dialect === 'mysql') {
-              constraintName = constraintName.substring(0, 64); // MySQL limit
-            }
-
-            let fkStatement = `ALTER TABLE ${sourceTable}`;
-            fkStatement += ` ADD CONSTRAINT ${formatColumnName(constraintName, dialect)}`;
-            fkStatement += ` FOREIGN KEY (${sourceColumn})`;
-            fkStatement += ` REFERENCES ${targetTableFormatted}(${targetColumnFormatted})`;
-
-            if (column.foreignKey.onDelete && column.foreignKey.onDelete !== 'NO ACTION') {
-              fkStatement += ` ON DELETE ${column.foreignKey.onDelete}`;
-            }
-
-            if (column.foreignKey.onUpdate && column.foreignKey.onUpdate !== 'NO ACTION') {
-              fkStatement += ` ON UPDATE ${column.foreignKey.onUpdate}`;
-            }
-
-            fkStatement += ';';
-            statements.push(fkStatement);
-          }
-        }
-      }
-    }
-  }
-
-  // Add relationships as foreign keys (if not already added via column foreign keys)
-  for (const relationship of schema.relationships) {
-    const sourceTable = schema.tables.find(t => t.id === relationship.sourceTableId);
-    const targetTable = schema.tables.find(t => t.id === relationship.targetTableId);
-
-    if (sourceTable && targetTable) {
-      const sourceColumn = sourceTable.columns.find(c => c.id === relationship.sourceColumnId);
-      const targetColumn = targetTable.columns.find(c => c.id === relationship.targetColumnId);
-
-      if (sourceColumn && targetColumn && !sourceColumn.foreignKey) {
-        const sourceTableFormatted = formatTableName(sourceTable.name, dialect);
-        const sourceColumnFormatted = formatColumnName(sourceColumn.name, dialect);
-        const targetTableFormatted = formatTableName(targetTable.name, dialect);
-        const targetColumnFormatted = formatColumnName(targetColumn.name, dialect);
-
-        let constraintName = `rel_${sourceTable.name}_${targetTable.name}`;
-        if (dialect === 'mysql') {
-          constraintName = constraintName.substring(0, 64);
-        }
-
-        let relStatement = `ALTER TABLE ${sourceTableFormatted}`;
-        relStatement += ` ADD CONSTRAINT ${formatColumnName(constraintName, dialect)}`;
-        relStatement += ` FOREIGN KEY (${sourceColumnFormatted})`;
-        relStatement += ` REFERENCES ${targetTableFormatted}(${targetColumnFormatted})`;
-
-        if (relationship.onDelete && relationship.onDelete !== 'NO ACTION') {
-          relStatement += ` ON DELETE ${relationship.onDelete}`;
-        }
-
-        if (relationship.onUpdate && relationship.onUpdate !== 'NO ACTION') {
-          relStatement += ` ON UPDATE ${relationship.onUpdate}`;
-        }
-
-        relStatement += ';';
-        statements.push(relStatement);
-      }
+  if (dialect !== 'sqlite') {
+    for (const fk of foreignKeys) {
+      const tableName = formatQualifiedTableName(tablesById.get(fk.tableId)!, dialect);
+      const constraintName = formatForeignKeyName(fk, tablesById, dialect);
+      statements.push(`ALTER TABLE ${tableName} ADD CONSTRAINT ${constraintName} ${formatForeignKeyClause(fk, tablesById, dialect)};`);
     }
   }
 
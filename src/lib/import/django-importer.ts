@@ -1,5 +1,6 @@
 import { Schema, Table, Column, Relationship, ColumnType, RelationshipType } from '@/types/schema';
 import { AutoLayout, LayoutOptions } from '@/lib/layout/auto-layout';
+import { pickTypeParams } from '@/features/schema/utils/schema.utils';
 
 interface DjangoField {
   name: string;
@@ -8,6 +9,10 @@ interface DjangoField {
   primaryKey: boolean;
   unique: boolean;
   defaultValue?: string;
+  length?: number;
+  precision?: number;
+  scale?: number;
+  arrayElementType?: ColumnType;
   foreignKey?: {
     model: string;
     field: string;
@@ -30,6 +35,8 @@ interface DjangoModel {
   tableName?: string;
   fields: DjangoField[];
   description?: string;
+  /** Field names from `pk = models.CompositePrimaryKey(...)` */
+  compositePrimaryKey?: string[];
 }
 
 export function parseDjangoModels(content: string, layoutOptions?: Partial<LayoutOptions>): Schema {
@@ -86,6 +93,14 @@ export function parseDjangoModels(content: string, layoutOptions?: Partial<Layou
     // Parse fields
     parseFields(classContent, model);
 
+    model.compositePrimaryKey?.forEach(name => {
+      const field = model.fields.find(f => f.name === name);
+      if (field) {
+        field.primaryKey = true;
+        field.nullable = false;
+      }
+    });
+
     // Add automatic id field if no primary key exists (Django default behavior)
     const hasPrimaryKey = model.fields.some(field => field.primaryKey);
     if (!hasPrimaryKey) {
@@ -199,7 +214,8 @@ function parseFields(classContent: string, model: DjangoModel): void {
 
 
     // Match field definition: field_name = models.FieldType(...)
-    const fieldMatch = line.match(/^(\w+)\s*=\s*models\.(\w+)(?:\((.*)\))?/);
+    // ArrayField is imported from django.contrib.postgres.fields rather than models
+    const fieldMatch = line.match(/^(\w+)\s*=\s*(?:models\.|(?=ArrayField\())(\w+)(?:\((.*)\))?/);
 
     if (fieldMatch) {
       const fieldName = fieldMatch[1];
@@ -212,6 +228,11 @@ function parseFields(classContent: string, model: DjangoModel): void {
         continue;
       }
 
+      if (fieldType === 'CompositePrimaryKey') {
+        model.compositePrimaryKey = [...fieldArgs.matchAll(/['"]([^'"]+)['"]/g)].map(match => match[1]);
+        continue;
+      }
+
       const field: DjangoField = {
         name: fieldName,
         type: mapDjangoType(fieldType),
@@ -258,7 +279,7 @@ function parseFields(classContent: string, model: DjangoModel): void {
         }
 
 
-        const multiFieldMatch = fullFieldDef.match(/^(\w+)\s*=\s*models\.(\w+)\s*\((.*)\)/);
+        const multiFieldMatch = fullFieldDef.match(/^(\w+)\s*=\s*(?:models\.|(?=ArrayField\())(\w+)\s*\((.*)\)/);
         if (multiFieldMatch) {
           const fieldName = multiFieldMatch[1];
           const fieldType = multiFieldMatch[2];
@@ -400,11 +421,16 @@ function parseFieldArguments(args: string, field: DjangoField, fieldType?: strin
     }
   }
 
-  // Parse CharField max_length
-  const maxLengthMatch = cleanArgs.match(/max_length\s*=\s*(\d+)/);
-  if (maxLengthMatch) {
-    // Use specific length if available
-    field.type = 'string';
+  if (fieldType === 'ArrayField') {
+    // The base field is the first argument; its own arguments describe the elements
+    const baseFieldMatch = cleanArgs.match(/^models\.(\w+)\s*\((.*?)\)/);
+    if (baseFieldMatch) {
+      const element: DjangoField = { ...field, type: mapDjangoType(baseFieldMatch[1]) };
+      parseTypeArguments(baseFieldMatch[2], element);
+      field.arrayElementType = element.type;
+    }
+  } else {
+    parseTypeArguments(cleanArgs, field);
   }
 
   // Handle special field types
@@ -422,6 +448,22 @@ function parseFieldArguments(args: string, field: DjangoField, fieldType?: strin
 
 }
 
+// max_length, max_digits and decimal_places
+function parseTypeArguments(args: string, field: DjangoField): void {
+  const maxLengthMatch = args.match(/max_length\s*=\s*(\d+)/);
+  if (maxLengthMatch) {
+    field.type = 'string';
+    field.length = Number(maxLengthMatch[1]);
+  }
+
+  const maxDigitsMatch = args.match(/max_digits\s*=\s*(\d+)/);
+  if (maxDigitsMatch) {
+    field.precision = Number(maxDigitsMatch[1]);
+    const decimalPlacesMatch = args.match(/decimal_places\s*=\s*(\d+)/);
+    field.scale = decimalPlacesMatch ? Number(decimalPlacesMatch[1]) : undefined;
+  }
+}
+
 function mapDjangoType(djangoType: string): ColumnType {
   const typeMap: Record<string, ColumnType> = {
     'CharField': 'string',
@@ -449,6 +491,7 @@ function mapDjangoType(djangoType: string): ColumnType {
     'ForeignKey': 'integer', // Will be updated based on the related field
     'OneToOneField': 'integer',
     'ManyToManyField': 'json', // Simplified representation
+    'ArrayField': 'array',
   };
 
   return typeMap[djangoType] || 'string';
@@ -486,6 +529,7 @@ function convertDjangoToSchema(models: DjangoModel[]): Schema {
       unique: field.unique,
       defaultValue: field.defaultValue,
       description: field.description,
+      ...pickTypeParams(field.type, field),
       foreignKey: field.foreignKey ? {
         tableId: '', // Will be filled in second pass
         columnId: '', // Will be filled in second pass
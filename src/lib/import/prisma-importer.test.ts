@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { parsePrismaSchema, validatePrismaSchema } from './prisma-importer';
+import { exportToPrisma } from '@/lib/export/prisma-exporter';
+import { exportToSQL } from '@/lib/export/sql-exporter';
+import type { Schema } from '@/features/schema/types/schema.types';
+
+const BLOG_SCHEMA = `
+enum Role {
+  USER
+  ADMIN
+}
+
+model User {
+  id        Int      @id @default(autoincrement())
+  email     String   @unique @map("email_address")
+  role      Role     @default(USER)
+  createdAt DateTime @default(now()) @map("created_at")
+  tags      Tag[]
+
+  @@map("users")
+}
+
+model BlogPost {
+  id       Int    @id @default(autoincrement())
+  title    String @db.VarChar(200)
+  authorId Int    @map("author_id")
+  author   User   @relation(fields: [authorId], references: [id], onDelete: Cascade)
+}
+
+model Tag {
+  id    Int    @id
+  users User[]
+}
+`;
+
+// Models, fields and the relations between them, without generated IDs
+function shape(schema: Schema) {
+  const tableName = (id: string) => schema.tables.find(t => t.id === id)?.name;
+  return {
+    tables: schema.tables.map(table => ({
+      name: table.name,
+      modelName: table.modelName,
+      columns: table.columns.map(column => ({
+        name: column.name,
+        fieldName: column.fieldName,
+        type: column.type,
+        nullable: column.nullable,
+        primaryKey: column.primaryKey,
+        unique: column.unique,
+        length: column.length,
+      })),
+    })),
+    relationships: schema.relationships.map(relationship => ({
+      source: tableName(relationship.sourceTableId),
+      target: tableName(relationship.targetTableId),
+      type: relationship.type,
+      onDelete: relationship.onDelete,
+    })),
+    enums: schema.enums?.map(e => ({ name: e.name, values: e.values.map(v => v.name) })),
+  };
+}
+
+const roundTrip = (content: string) => parsePrismaSchema(exportToPrisma(parsePrismaSchema(content).schema)).schema;
+
+describe('parsePrismaSchema', () => {
+  it('stores mapped names as table and column names', () => {
+    const { schema } = parsePrismaSchema(BLOG_SCHEMA);
+    const users = schema.tables.find(t => t.name === 'users');
+
+    expect(users?.modelName).toBe('User');
+    expect(users?.columns.map(c => c.name)).toEqual(['id', 'email_address', 'role', 'created_at']);
+    expect(users?.columns.find(c => c.name === 'email_address')?.fieldName).toBe('email');
+  });
+
+  it('only keeps model and field names the exporter would not derive', () => {
+    const { schema } = parsePrismaSchema(BLOG_SCHEMA);
+    const post = schema.tables.find(t => t.name === 'BlogPost');
+
+    expect(post?.modelName).toBe('BlogPost');
+    expect(post?.columns.find(c => c.name === 'author_id')?.fieldName).toBeUndefined();
+    expect(schema.tables.find(t => t.name === 'Tag')?.modelName).toBeUndefined();
+  });
+
+  it('reports a block with its values on the header line', () => {
+    const content = 'enum Role { USER ADMIN }\n\nmodel User {\n  id Int @id\n}\n';
+
+    expect(() => parsePrismaSchema(content)).toThrow('Line 1: enum "Role" must have its values on separate lines');
+    expect(validatePrismaSchema(content).valid).toBe(false);
+  });
+
+  it('reports a block left open', () => {
+    const content = 'model User {\n  id Int @id\n\nmodel Post {\n  id Int @id\n}\n';
+
+    expect(() => parsePrismaSchema(content)).toThrow('Line 4: model "Post" starts before model "User" (line 1) is closed');
+  });
+
+  it('reports a block missing its closing brace at the end of the file', () => {
+    expect(() => parsePrismaSchema('model User {\n  id Int @id\n')).toThrow('Line 1: model "User" is missing its closing "}"');
+  });
+
+  it('accepts an empty block on one line', () => {
+    const content = 'generator client {}\n\nmodel User {\n  id Int @id\n}\n';
+
+    expect(validatePrismaSchema(content)).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+});
+
+describe('Prisma import and export', () => {
+  it('keeps models, fields and relations through a round trip', () => {
+    expect(shape(roundTrip(BLOG_SCHEMA))).toEqual(shape(parsePrismaSchema(BLOG_SCHEMA).schema));
+  });
+
+  it('exports the imported model and field names with their @@map and @map', () => {
+    const prisma = exportToPrisma(parsePrismaSchema(BLOG_SCHEMA).schema);
+
+    expect(prisma).toContain('model User {');
+    expect(prisma).toContain('@@map("users")');
+    expect(prisma).toMatch(/ {2}email +String .*@map\("email_address"\)/);
+    expect(prisma).toContain('model BlogPost {');
+    expect(prisma).not.toContain('@@map("BlogPost")');
+  });
+
+  it('does not pluralize list fields twice', () => {
+    const prisma = exportToPrisma(parsePrismaSchema(BLOG_SCHEMA).schema);
+
+    expect(prisma).toContain('  users User[]');
+    expect(prisma).not.toContain('userss');
+    expect(prisma).toContain('  blogPosts BlogPost[]');
+  });
+
+  it('keeps an implicit many-to-many relation through a round trip', () => {
+    const manyToMany = (schema: Schema) => shape(schema).relationships.filter(r => r.type === 'many-to-many');
+
+    expect(manyToMany(roundTrip(BLOG_SCHEMA))).toEqual([{ source: 'users', target: 'Tag', type: 'many-to-many', onDelete: undefined }]);
+    expect(exportToPrisma(roundTrip(BLOG_SCHEMA))).toMatch(/ {2}tags +Tag\[\]/);
+  });
+
+  it('exports an implicit many-to-many relation to SQL without a foreign key between the primary keys', () => {
+    const sql = exportToSQL(parsePrismaSchema(BLOG_SCHEMA).schema);
+
+    expect(sql).toContain('-- Warning: many-to-many relationship users <> Tag not exported, it needs a join table');
+    expect(sql).not.toContain('FOREIGN KEY ("id")');
+    expect(sql).toContain('FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE CASCADE;');
+  });
+
+  it('keeps a round trip stable', () => {
+    const once = exportToPrisma(parsePrismaSchema(BLOG_SCHEMA).schema);
+
+    expect(exportToPrisma(parsePrismaSchema(once).schema)).toBe(once);
+  });
+});
@@ -0,0 +1,723 @@
+import type { Schema, Table, Column, ColumnTypeParams, Relationship, Enum } from '@/features/schema/types/schema.types';
+import { ID_GENERATORS, type ColumnType, type ForeignKeyAction, type IndexType, type RelationshipType } from '@/constants/schema';
+import { AutoLayout, LayoutOptions } from '@/lib/layout/auto-layout';
+import { pickTypeParams } from '@/features/schema/utils/schema.utils';
+import { formatPrismaFieldName, formatPrismaModelName } from '@/lib/export/prisma-exporter';
+
+export interface PrismaImportResult {
+  schema: Schema;
+  /** Blocks and attributes that were skipped or only partially understood */
+  warnings: string[];
+}
+
+interface PrismaAttribute {
+  name: string;
+  args: PrismaArguments;
+}
+
+interface PrismaArguments {
+  positional: string[];
+  named: Record<string, string>;
+}
+
+interface PrismaField {
+  name: string;
+  type: string;
+  isList: boolean;
+  isOptional: boolean;
+  attributes: PrismaAttribute[];
+  description?: string;
+  line: number;
+}
+
+interface PrismaModel {
+  name: string;
+  fields: PrismaField[];
+  blockAttributes: PrismaAttribute[];
+  description?: string;
+  line: number;
+}
+
+interface PrismaEnum {
+  enumDef: Enum;
+  /** Prisma value identifier -> database value, for values renamed with @map */
+  valueNames: Map<string, string>;
+}
+
+interface PrismaRelationField {
+  model: PrismaModel;
+  field: PrismaField;
+  relationName: string;
+}
+
+const SCALAR_TYPES: Record<string, ColumnType> = {
+  String: 'string',
+  Int: 'integer',
+  BigInt: 'bigint',
+  Float: 'float',
+  Decimal: 'decimal',
+  Boolean: 'boolean',
+  DateTime: 'datetime',
+  Json: 'json',
+  Bytes: 'binary',
+};
+
+// Native type attributes (@db.X) that narrow a Prisma scalar
+const NATIVE_TYPES: Record<string, ColumnType> = {
+  Text: 'text',
+  MediumText: 'text',
+  LongText: 'text',
+  TinyText: 'text',
+  Uuid: 'uuid',
+  Date: 'date',
+  Time: 'time',
+  Timetz: 'time',
+  Timestamp: 'timestamp',
+  Timestamptz: 'timestamp',
+  VarChar: 'string',
+  Char: 'string',
+  Decimal: 'decimal',
+  Json: 'json',
+  JsonB: 'jsonb',
+};
+
+// Native type attributes without a column type of their own, kept as PostgreSQL native types
+const POSTGRES_NATIVE_TYPES: Record<string, string> = {
+  Inet: 'inet',
+  Citext: 'citext',
+  Money: 'money',
+  Xml: 'xml',
+  Bit: 'bit',
+  VarBit: 'varbit',
+  DoublePrecision: 'double precision',
+};
+
+const PRISMA_INDEX_TYPES = new Set<IndexType>(['btree', 'hash', 'gin', 'gist', 'brin']);
+
+const REFERENTIAL_ACTIONS: Record<string, ForeignKeyAction> = {
+  Cascade: 'CASCADE',
+  SetNull: 'SET NULL',
+  Restrict: 'RESTRICT',
+  NoAction: 'NO ACTION',
+};
+
+/**
+ * Parses a schema.prisma file into a schema laid out on the canvas. Models
+ * become tables, scalar and enum fields become columns and relation fields
+ * become relationships, including implicit many-to-many relations.
+ */
+export function parsePrismaSchema(content: string, layoutOptions?: Partial<LayoutOptions>): PrismaImportResult {
+  const { tables, relationships, enums, warnings } = convertPrismaSchema(content);
+
+  const schema: Schema = {
+    id: ID_GENERATORS.SCHEMA(),
+    name: 'Imported Prisma Schema',
+    description: 'Schema imported from schema.prisma',
+    tables,
+    relationships,
+    enums,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: 1,
+  };
+
+  // Apply auto-layout to improve table positioning
+  const recommendedAlgorithm = AutoLayout.recommendLayout(schema.tables, schema.relationships);
+  const defaultOptions: Partial<LayoutOptions> = {
+    algorithm: recommendedAlgorithm,
+    spacing: { x: 350, y: 280 },
+    centerOffset: { x: 400, y: 300 },
+  };
+
+  const finalOptions = { ...defaultOptions, ...layoutOptions };
+  schema.tables = AutoLayout.layoutTables(schema.tables, schema.relationships, finalOptions);
+
+  return { schema, warnings };
+}
+
+// Helper function to validate a Prisma schema before importing
+export function validatePrismaSchema(content: string): { valid: boolean; errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  let warnings: string[] = [];
+
+  if (!/^\s*model\s+\w+\s*\{/m.test(content)) {
+    errors.push('No Prisma models found. Expected at least one "model Name { ... }" block');
+  } else {
+    try {
+      warnings = convertPrismaSchema(content).warnings;
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Failed to parse Prisma schema');
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+function convertPrismaSchema(content: string) {
+  const warnings: string[] = [];
+  const { models, enums } = parseBlocks(content, warnings);
+  const modelLookup = new Map(models.map(model => [model.name, model]));
+
+  const tables: Table[] = [];
+  const tableByModel = new Map<string, Table>();
+  // Prisma field name -> column, per model
+  const columnsByModel = new Map<string, Map<string, Column>>();
+  const relationFields: PrismaRelationField[] = [];
+
+  // First pass: models to tables, scalar and enum fields to columns
+  models.forEach((model) => {
+    const mappedName = getAttribute(model.blockAttributes, 'map')?.args.positional[0];
+    const tableName = mappedName ? unquote(mappedName) : model.name;
+    const table: Table = {
+      id: ID_GENERATORS.TABLE(),
+      name: tableName,
+      position: { x: 0, y: 0 }, // Will be set by auto-layout
+      columns: [],
+      description: model.description,
+      // Keep the model name the exporter would not derive from the table name
+      ...(formatPrismaModelName(tableName) !== model.name && { modelName: model.name }),
+    };
+
+    const columns = new Map<string, Column>();
+    model.fields.forEach((field) => {
+      if (modelLookup.has(field.type)) {
+        relationFields.push({ model, field, relationName: getRelationName(field) });
+        return;
+      }
+
+      const column = convertField(model, field, enums, warnings);
+      if (column) {
+        columns.set(field.name, column);
+        table.columns.push(column);
+      }
+    });
+
+    applyBlockAttributes(model, table, columns, warnings);
+
+    tables.push(table);
+    tableByModel.set(model.name, table);
+    columnsByModel.set(model.name, columns);
+  });
+
+  // Second pass: relation fields to relationships
+  const relationships: Relationship[] = [];
+  const handledManyToMany = new Set<string>();
+
+  relationFields.forEach((relationField) => {
+    const { model, field, relationName } = relationField;
+    const relationAttr = getAttribute(field.attributes, 'relation');
+    const fieldsArg = relationAttr?.args.named.fields;
+
+    // Counterpart field on the other model with the same relation name
+    const counterparts = relationFields.filter(other =>
+      other !== relationField &&
+      other.model.name === field.type &&
+      other.field.type === model.name &&
+      other.relationName === relationName
+    );
+
+    if (fieldsArg) {
+      const table = tableByModel.get(model.name)!;
+      const targetTable = tableByModel.get(field.type)!;
+      const fkNames = parseList(fieldsArg);
+      const refNames = parseList(relationAttr?.args.named.references ?? '');
+
+      const columns = fkNames.map(name => columnsByModel.get(model.name)?.get(name));
+      const targetColumns = refNames.map(name => columnsByModel.get(field.type)?.get(name));
+      if (columns.length === 0 || columns.some(c => !c) || targetColumns.some(c => !c)) {
+        warnings.push(`Line ${field.line}: Skipped relation "${model.name}.${field.name}": referenced field not found`);
+        return;
+      }
+      if (columns.length !== targetColumns.length) {
+        warnings.push(`Line ${field.line}: Skipped relation "${model.name}.${field.name}": fields and references differ in length`);
+        return;
+      }
+
+      const column = columns[0]!;
+      const targetColumn = targetColumns[0]!;
+      const isComposite = columns.length > 1;
+
+      const onDelete = REFERENTIAL_ACTIONS[relationAttr?.args.named.onDelete ?? ''];
+      const onUpdate = REFERENTIAL_ACTIONS[relationAttr?.args.named.onUpdate ?? ''];
+
+      // Column-level foreign keys hold a single column; composite keys live on the relationship only
+      if (!isComposite) {
+        column.foreignKey = {
+          tableId: targetTable.id,
+          columnId: targetColumn.id,
+          onDelete,
+          onUpdate,
+        };
+      }
+
+      // The back-relation is a list on one-to-many and optional on one-to-one
+      const isOneToOne = (!isComposite && column.unique) || counterparts.some(c => !c.field.isList);
+      const type: RelationshipType = isOneToOne ? 'one-to-one' : 'many-to-one';
+
+      relationships.push({
+        id: ID_GENERATORS.RELATIONSHIP(),
+        sourceTableId: table.id,
+        // Append handle suffixes to match how canvas-created relationships store column IDs
+        sourceColumnId: `${column.id}-right`,
+        targetTableId: targetTable.id,
+        targetColumnId: `${targetColumn.id}-left`,
+        sourceColumnIds: isComposite ? columns.map(c => c!.id) : undefined,
+        targetColumnIds: isComposite ? targetColumns.map(c => c!.id) : undefined,
+        type,
+        name: relationName || undefined,
+        onDelete,
+        onUpdate,
+      });
+      return;
+    }
+
+    // Implicit many-to-many: list fields on both sides and no foreign key
+    const listCounterpart = counterparts.find(c => c.field.isList && !getAttribute(c.field.attributes, 'relation')?.args.named.fields);
+    if (!field.isList || !listCounterpart) return;
+
+    const pairKey = [`${model.name}.${field.name}`, `${listCounterpart.model.name}.${listCounterpart.field.name}`].sort().join('|');
+    if (handledManyToMany.has(pairKey)) return;
+    handledManyToMany.add(pairKey);
+
+    const table = tableByModel.get(model.name)!;
+    const targetTable = tableByModel.get(field.type)!;
+    const column = table.columns.find(c => c.primaryKey);
+    const targetColumn = targetTable.columns.find(c => c.primaryKey);
+    if (!column || !targetColumn) {
+      warnings.push(`Line ${field.line}: Skipped many-to-many relation "${model.name}.${field.name}": both models need an @id`);
+      return;
+    }
+
+    relationships.push({
+      id: ID_GENERATORS.RELATIONSHIP(),
+      sourceTableId: table.id,
+      sourceColumnId: `${column.id}-right`,
+      targetTableId: targetTable.id,
+      targetColumnId: `${targetColumn.id}-left`,
+      type: 'many-to-many',
+      name: relationName || undefined,
+    });
+  });
+
+  return { tables, relationships, enums: [...enums.values()].map(prismaEnum => prismaEnum.enumDef), warnings };
+}
+
+function convertField(model: PrismaModel, field: PrismaField, enums: Map<string, PrismaEnum>, warnings: string[]): Column | null {
+  let type: ColumnType;
+  const prismaEnum = enums.get(field.type);
+  const unsupported = /^Unsupported\("(.*)"\)$/.exec(field.type);
+
+  if (unsupported) {
+    warnings.push(`Line ${field.line}: Unsupported type "${unsupported[1]}" on "${model.name}.${field.name}" kept as a native type, exported as string elsewhere`);
+    type = 'string';
+  } else if (prismaEnum) {
+    type = 'enum';
+  } else if (SCALAR_TYPES[field.type]) {
+    type = SCALAR_TYPES[field.type];
+  } else {
+    warnings.push(`Line ${field.line}: Unknown type "${field.type}" on "${model.name}.${field.name}" imported as string`);
+    type = 'string';
+  }
+
+  const nativeType = field.attributes.find(attr => attr.name.startsWith('db.'));
+  let params: ColumnTypeParams = {};
+  if (nativeType && NATIVE_TYPES[nativeType.name.slice(3)]) {
+    type = NATIVE_TYPES[nativeType.name.slice(3)];
+    // @db.VarChar(64), @db.Decimal(18, 4), @db.Timestamptz(6)
+    const [first, second] = nativeType.args.positional.map(Number);
+    params = pickTypeParams(type, {
+      length: Number.isInteger(first) ? first : undefined,
+      precision: Number.isInteger(first) ? first : undefined,
+      scale: Number.isInteger(second) ? second : undefined,
+      withTimezone: /^db\.(Timestamptz|Timetz)$/.test(nativeType.name) || undefined,
+    });
+  }
+
+  if (field.isList) {
+    params = pickTypeParams('array', { ...params, arrayElementType: type });
+    type = 'array';
+  }
+
+  const nativeTypeName = unsupported?.[1] ?? (nativeType && POSTGRES_NATIVE_TYPES[nativeType.name.slice(3)]);
+
+  const mappedName = getAttribute(field.attributes, 'map')?.args.positional[0];
+  const isPrimaryKey = !!getAttribute(field.attributes, 'id');
+
+  const columnName = mappedName ? unquote(mappedName) : field.name;
+  const column: Column = {
+    id: ID_GENERATORS.COLUMN(),
+    name: columnName,
+    type,
+    nullable: field.isOptional && !isPrimaryKey,
+    primaryKey: isPrimaryKey,
+    unique: isPrimaryKey || !!getAttribute(field.attributes, 'unique'),
+    description: field.description,
+    ...params,
+    ...(nativeTypeName && { nativeType: nativeTypeName, nativeTypeDialect: 'postgresql' as const }),
+    ...(formatPrismaFieldName(columnName) !== field.name && { fieldName: field.name }),
+  };
+
+  if (prismaEnum && !field.isList) column.enumId = prismaEnum.enumDef.id;
+
+  const defaultArg = getAttribute(field.attributes, 'default')?.args.positional[0];
+  if (defaultArg) {
+    if (defaultArg === 'autoincrement()') {
+      column.increment = true;
+    } else if (prismaEnum) {
+      // Enum defaults name the Prisma identifier, which may map to another database value
+      column.defaultValue = prismaEnum.valueNames.get(defaultArg) ?? defaultArg;
+    } else {
+      column.defaultValue = convertDefault(defaultArg);
+    }
+  }
+
+  return column;
+}
+
+function convertDefault(value: string): string {
+  if (value === 'uuid()') return 'uuid_generate_v4()';
+  const generated = /^dbgenerated\((.*)\)$/.exec(value);
+  if (generated) return unquote(generated[1]);
+  return unquote(value);
+}
+
+function applyBlockAttributes(model: PrismaModel, table: Table, columns: Map<string, Column>, warnings: string[]): void {
+  model.blockAttributes.forEach((attr) => {
+    const fieldNames = parseList(attr.args.positional[0] ?? attr.args.named.fields ?? '');
+
+    switch (attr.name) {
+      case 'id':
+        fieldNames.forEach((name) => {
+          const column = columns.get(name);
+          if (column) {
+            column.primaryKey = true;
+            column.nullable = false;
+          }
+        });
+        break;
+      case 'unique':
+      case 'index': {
+        // Fields may carry arguments, e.g. `title(sort: Desc)`
+        const indexColumns = fieldNames.map(name => columns.get(name.replace(/\(.*\)$/, '').trim()));
+        if (indexColumns.some(column => !column)) {
+          warnings.push(`Line ${model.line}: Skipped @@${attr.name} on "${table.name}" (${fieldNames.join(', ')}): unknown field`);
+          break;
+        }
+
+        const mappedName = attr.args.named.map;
+        const type = attr.args.named.type?.toLowerCase() as IndexType | undefined;
+        table.indexes = [...(table.indexes ?? []), {
+          id: ID_GENERATORS.INDEX(),
+          name: mappedName ? unquote(mappedName) : undefined,
+          columnIds: indexColumns.map(column => column!.id),
+          unique: attr.name === 'unique',
+          type: type && PRISMA_INDEX_TYPES.has(type) ? type : undefined,
+        }];
+        break;
+      }
+      case 'map':
+      case 'ignore':
+        break;
+      default:
+        warnings.push(`Line ${model.line}: Skipped block attribute @@${attr.name} on model "${model.name}"`);
+    }
+  });
+}
+
+// ─── Block and field parsing ──────────────────────────────────────────────────
+
+const BLOCK_HEADER = /^(model|enum|view|type|datasource|generator)\s+(\w+)\s*\{(.*)$/;
+
+function parseBlocks(content: string, warnings: string[]): { models: PrismaModel[]; enums: Map<string, PrismaEnum> } {
+  const models: PrismaModel[] = [];
+  const enums = new Map<string, PrismaEnum>();
+  const lines = content.split('\n');
+
+  let docComment: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const raw = lines[i];
+    const trimmed = raw.trim();
+
+    if (trimmed.startsWith('///')) {
+      docComment.push(trimmed.slice(3).trim());
+      i++;
+      continue;
+    }
+
+    const header = BLOCK_HEADER.exec(stripComment(trimmed).trim());
+    if (!header) {
+      if (trimmed && !trimmed.startsWith('//')) docComment = [];
+      i++;
+      continue;
+    }
+
+    const [, kind, name, rest] = header;
+    const startLine = i + 1;
+    const body: { text: string; line: number }[] = [];
+    i++;
+    // A block closes on a line of its own, so anything after the opening brace
+    // would leave it open until the closing brace of the next block
+    if (rest.trim() && rest.trim() !== '}') {
+      throw new Error(`Line ${startLine}: ${kind} "${name}" must have its ${kind === 'enum' ? 'values' : 'fields'} on separate lines`);
+    }
+    if (!rest.trim()) {
+      while (i < lines.length && stripComment(lines[i]).trim() !== '}') {
+        const nested = BLOCK_HEADER.exec(stripComment(lines[i]).trim());
+        if (nested) {
+          throw new Error(`Line ${i + 1}: ${nested[1]} "${nested[2]}" starts before ${kind} "${name}" (line ${startLine}) is closed`);
+        }
+        body.push({ text: lines[i], line: i + 1 });
+        i++;
+      }
+      if (i === lines.length) {
+        throw new Error(`Line ${startLine}: ${kind} "${name}" is missing its closing "}"`);
+      }
+      i++;
+    }
+
+    if (kind === 'model') {
+      models.push(parseModel(name, body, docComment, startLine));
+    } else if (kind === 'enum') {
+      enums.set(name, parseEnum(name, body, docComment));
+    } else if (kind === 'view' || kind === 'type') {
+      warnings.push(`Line ${startLine}: Skipped ${kind} "${name}"`);
+    }
+    docComment = [];
+  }
+
+  return { models, enums };
+}
+
+function parseModel(name: string, body: { text: string; line: number }[], docComment: string[], line: number): PrismaModel {
+  const model: PrismaModel = {
+    name,
+    fields: [],
+    blockAttributes: [],
+    description: docComment.length > 0 ? docComment.join('\n') : undefined,
+    line,
+  };
+
+  let fieldDoc: string[] = [];
+  body.forEach(({ text, line: fieldLine }) => {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('///')) {
+      fieldDoc.push(trimmed.slice(3).trim());
+      return;
+    }
+
+    const code = stripComment(trimmed).trim();
+    if (!code) return;
+
+    if (code.startsWith('@@')) {
+      model.blockAttributes.push(...parseAttributes(code.slice(1)));
+      fieldDoc = [];
+      return;
+    }
+
+    const match = /^(\w+)\s+(Unsupported\(".*?"\)|\w+)(\[\])?(\?)?\s*(.*)$/.exec(code);
+    if (match) {
+      model.fields.push({
+        name: match[1],
+        type: match[2],
+        isList: !!match[3],
+        isOptional: !!match[4],
+        attributes: parseAttributes(match[5]),
+        description: fieldDoc.length > 0 ? fieldDoc.join('\n') : undefined,
+        line: fieldLine,
+      });
+    }
+    fieldDoc = [];
+  });
+
+  return model;
+}
+
+function parseEnum(name: string, body: { text: string; line: number }[], docComment: string[]): PrismaEnum {
+  const enumDef: Enum = {
+    id: ID_GENERATORS.ENUM(),
+    name,
+    values: [],
+    note: docComment.length > 0 ? docComment.join('\n') : undefined,
+  };
+  const valueNames = new Map<string, string>();
+
+  let valueDoc: string[] = [];
+  body.forEach(({ text }) => {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('///')) {
+      valueDoc.push(trimmed.slice(3).trim());
+      return;
+    }
+
+    const code = stripComment(trimmed).trim();
+    if (!code) return;
+
+    if (code.startsWith('@@')) {
+      const mappedName = getAttribute(parseAttributes(code.slice(1)), 'map')?.args.positional[0];
+      if (mappedName) enumDef.name = unquote(mappedName);
+      valueDoc = [];
+      return;
+    }
+
+    const match = /^(\w+)\s*(.*)$/.exec(code);
+    if (match) {
+      const mappedValue = getAttribute(parseAttributes(match[2]), 'map')?.args.positional[0];
+      const value = mappedValue ? unquote(mappedValue) : match[1];
+      valueNames.set(match[1], value);
+      enumDef.values.push({
+        name: value,
+        note: valueDoc.length > 0 ? valueDoc.join('\n') : undefined,
+      });
+    }
+    valueDoc = [];
+  });
+
+  return { enumDef, valueNames };
+}
+
+/**
+ * Parses a run of attributes such as `@id @default(now()) @db.VarChar(255)`.
+ */
+function parseAttributes(text: string): PrismaAttribute[] {
+  const attributes: PrismaAttribute[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (text[i] !== '@') {
+      i++;
+      continue;
+    }
+
+    const nameMatch = /^@([\w.]+)/.exec(text.slice(i));
+    if (!nameMatch) {
+      i++;
+      continue;
+    }
+    i += nameMatch[0].length;
+
+    let args = '';
+    if (text[i] === '(') {
+      const end = findClosingParen(text, i);
+      args = text.slice(i + 1, end);
+      i = end + 1;
+    }
+
+    attributes.push({ name: nameMatch[1], args: parseArguments(args) });
+  }
+
+  return attributes;
+}
+
+function parseArguments(text: string): PrismaArguments {
+  const result: PrismaArguments = { positional: [], named: {} };
+
+  splitTopLevel(text).forEach((part) => {
+    const named = /^(\w+)\s*:\s*([\s\S]+)$/.exec(part);
+    if (named) {
+      result.named[named[1]] = named[2].trim();
+    } else {
+      result.positional.push(part);
+    }
+  });
+
+  return result;
+}
+
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') {
+        current += ch + (text[i + 1] ?? '');
+        i++;
+        continue;
+      }
+      if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === ')' || ch === ']') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function findClosingParen(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '(') depth++;
+    else if (ch === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return text.length;
+}
+
+// Removes a trailing `//` comment that is not inside a string
+function stripComment(line: string): string {
+  let inString = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '/' && line[i + 1] === '/') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function getAttribute(attributes: PrismaAttribute[], name: string): PrismaAttribute | undefined {
+  return attributes.find(attr => attr.name === name);
+}
+
+function getRelationName(field: PrismaField): string {
+  const relation = getAttribute(field.attributes, 'relation');
+  const name = relation?.args.positional[0] ?? relation?.args.named.name;
+  return name ? unquote(name) : '';
+}
+
+function parseList(value: string): string[] {
+  return splitTopLevel(value.trim().replace(/^\[/, '').replace(/\]$/, ''));
+}
+
+function unquote(value: string): string {
+  const match = /^"((?:[^"\\]|\\.)*)"$/.exec(value.trim());
+  return match ? match[1].replace(/\\"/g, '"') : value.trim();
+}
@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest';
+import { parseSqlDdl, validateSqlDdl } from './sql-importer';
+import { getQualifiedTableName } from '@/features/schema/utils/schema.utils';
+import type { Schema } from '@/features/schema/types/schema.types';
+
+const PG_DUMP = `--
+-- PostgreSQL database dump
+--
+
+SET statement_timeout = 0;
+SET client_encoding = 'UTF8';
+SELECT pg_catalog.set_config('search_path', '', false);
+
+CREATE SCHEMA core;
+
+CREATE TYPE core.status AS ENUM (
+    'active',
+    'archived'
+);
+
+CREATE TABLE public.users (
+    id integer NOT NULL,
+    email character varying(255) NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE SEQUENCE public.users_id_seq
+    AS integer
+    START WITH 1
+    INCREMENT BY 1
+    NO MINVALUE
+    NO MAXVALUE
+    CACHE 1;
+
+ALTER SEQUENCE public.users_id_seq OWNED BY public.users.id;
+
+CREATE TABLE core.users (
+    id bigint NOT NULL,
+    status core.status DEFAULT 'active'::core.status NOT NULL
+);
+
+CREATE TABLE core.posts (
+    id bigint NOT NULL,
+    author_id integer,
+    reviewer_id bigint
+);
+
+ALTER TABLE ONLY public.users ALTER COLUMN id SET DEFAULT nextval('public.users_id_seq'::regclass);
+
+COPY public.users (id, email, created_at) FROM stdin;
+1	a@example.com	2024-01-01 00:00:00+00
+\\.
+
+ALTER TABLE ONLY public.users
+    ADD CONSTRAINT users_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY core.users
+    ADD CONSTRAINT users_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY core.posts
+    ADD CONSTRAINT posts_pkey PRIMARY KEY (id);
+
+CREATE UNIQUE INDEX users_email_key ON public.users USING btree (email);
+
+CREATE INDEX posts_author_id_idx ON core.posts USING btree (author_id);
+
+ALTER TABLE ONLY core.posts
+    ADD CONSTRAINT posts_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.users(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY core.posts
+    ADD CONSTRAINT posts_reviewer_id_fkey FOREIGN KEY (reviewer_id) REFERENCES core.users(id);
+`;
+
+const MYSQL_DUMP = `/*!40101 SET NAMES utf8mb4 */;
+DROP TABLE IF EXISTS \`orders\`;
+CREATE TABLE \`customers\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`name\` varchar(100) NOT NULL,
+  \`tier\` enum('free','pro') NOT NULL DEFAULT 'free',
+  PRIMARY KEY (\`id\`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+CREATE TABLE \`orders\` (
+  \`id\` bigint unsigned NOT NULL AUTO_INCREMENT,
+  \`customer_id\` int NOT NULL,
+  \`state\` enum('open','shipped') DEFAULT NULL,
+  \`key\` varchar(32) NOT NULL,
+  PRIMARY KEY (\`id\`),
+  UNIQUE KEY \`orders_key_unique\` (\`key\`),
+  KEY \`orders_customer_id_index\` (\`customer_id\`),
+  CONSTRAINT \`orders_customer_id_foreign\` FOREIGN KEY (\`customer_id\`) REFERENCES \`customers\` (\`id\`) ON DELETE CASCADE
+) ENGINE=InnoDB AUTO_INCREMENT=42 DEFAULT CHARSET=utf8mb4;
+`;
+
+const SQLITE_DUMP = `PRAGMA foreign_keys=OFF;
+BEGIN TRANSACTION;
+CREATE TABLE regions (code TEXT NOT NULL, country TEXT NOT NULL, PRIMARY KEY (code, country));
+CREATE TABLE stores (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  region_code TEXT,
+  region_country TEXT,
+  FOREIGN KEY (region_code, region_country) REFERENCES regions (code, country) ON DELETE SET NULL
+);
+INSERT INTO stores VALUES(1,'N','NL');
+DELETE FROM sqlite_sequence;
+CREATE TABLE sqlite_sequence(name,seq);
+CREATE TABLE sqlite_stat1(tbl,idx,stat);
+COMMIT;
+`;
+
+// Tables, columns and the relations between them by name, without generated IDs
+function shape(schema: Schema) {
+  const tableName = (id: string) => {
+    const table = schema.tables.find(t => t.id === id);
+    return table && getQualifiedTableName(table);
+  };
+  const columnName = (id: string) =>
+    schema.tables.flatMap(t => t.columns).find(c => c.id === id.replace(/-(left|right)$/, ''))?.name;
+  return {
+    tables: Object.fromEntries(
+      schema.tables.map(table => [getQualifiedTableName(table), table.columns.map(column => column.name)])
+    ),
+    relationships: schema.relationships.map(relationship => ({
+      from: `${tableName(relationship.sourceTableId)}.${(relationship.sourceColumnIds ?? [relationship.sourceColumnId]).map(columnName).join(',')}`,
+      to: `${tableName(relationship.targetTableId)}.${(relationship.targetColumnIds ?? [relationship.targetColumnId]).map(columnName).join(',')}`,
+      type: relationship.type,
+      onDelete: relationship.onDelete,
+    })),
+  };
+}
+
+const findTable = (schema: Schema, name: string) => schema.tables.find(t => getQualifiedTableName(t) === name)!;
+const findColumn = (schema: Schema, tableName: string, name: string) =>
+  findTable(schema, tableName).columns.find(c => c.name === name)!;
+
+describe('parseSqlDdl', () => {
+  describe('PostgreSQL dumps', () => {
+    const { schema, warnings } = parseSqlDdl(PG_DUMP, 'postgresql');
+
+    it('reads every table without warnings, keeping tables of the same name in different schemas', () => {
+      expect(warnings).toEqual([]);
+      expect(shape(schema).tables).toEqual({
+        users: ['id', 'email', 'created_at'],
+        'core.users': ['id', 'status'],
+        'core.posts': ['id', 'author_id', 'reviewer_id'],
+      });
+    });
+
+    it('resolves foreign keys added by ALTER TABLE against the qualified table', () => {
+      expect(shape(schema).relationships).toEqual([
+        { from: 'core.posts.author_id', to: 'users.id', type: 'many-to-one', onDelete: 'CASCADE' },
+        { from: 'core.posts.reviewer_id', to: 'core.users.id', type: 'many-to-one', onDelete: undefined },
+      ]);
+    });
+
+    it('reads primary keys from ALTER TABLE and a nextval default as an increment', () => {
+      expect(findColumn(schema, 'users', 'id')).toMatchObject({ primaryKey: true, increment: true });
+      expect(findColumn(schema, 'users', 'id').defaultValue).toBeUndefined();
+      expect(findColumn(schema, 'core.users', 'id')).toMatchObject({ primaryKey: true });
+      expect(findColumn(schema, 'core.users', 'id').increment).toBeUndefined();
+      expect(findColumn(schema, 'users', 'created_at')).toMatchObject({ type: 'timestamp', withTimezone: true, defaultValue: 'now()' });
+    });
+
+    it('keeps the schema of an enum type and of the indexes on qualified tables', () => {
+      const [status] = schema.enums ?? [];
+
+      expect(status).toMatchObject({ name: 'status', namespace: 'core', values: [{ name: 'active' }, { name: 'archived' }] });
+      expect(findColumn(schema, 'core.users', 'status')).toMatchObject({ type: 'enum', enumId: status.id, defaultValue: 'active' });
+      expect(findTable(schema, 'core.posts').indexes).toMatchObject([{ name: 'posts_author_id_idx', type: 'btree' }]);
+      expect(findTable(schema, 'users').indexes).toMatchObject([{ name: 'users_email_key', unique: true }]);
+    });
+
+    it('reports a table defined twice in the same schema', () => {
+      const result = parseSqlDdl('CREATE TABLE core.users (id int);\nCREATE TABLE core.users (id int);', 'postgresql');
+
+      expect(result.warnings).toEqual(['Line 2: Skipped duplicate definition of table "core.users"']);
+    });
+  });
+
+  describe('MySQL dumps', () => {
+    const { schema, warnings } = parseSqlDdl(MYSQL_DUMP, 'mysql');
+
+    it('reads backticked tables with their keys and foreign keys', () => {
+      expect(warnings).toEqual([]);
+      expect(shape(schema)).toEqual({
+        tables: {
+          customers: ['id', 'name', 'tier'],
+          orders: ['id', 'customer_id', 'state', 'key'],
+        },
+        relationships: [{ from: 'orders.customer_id', to: 'customers.id', type: 'many-to-one', onDelete: 'CASCADE' }],
+      });
+    });
+
+    it('reads AUTO_INCREMENT, KEY and UNIQUE KEY', () => {
+      expect(findColumn(schema, 'orders', 'id')).toMatchObject({ type: 'bigint', primaryKey: true, increment: true });
+      expect(findColumn(schema, 'orders', 'key')).toMatchObject({ unique: true, length: 32 });
+      expect(findTable(schema, 'orders').indexes).toMatchObject([
+        { name: 'orders_customer_id_index', unique: false, columnIds: [findColumn(schema, 'orders', 'customer_id').id] },
+      ]);
+    });
+
+    it('turns inline ENUM(...) types into enums named after their column', () => {
+      expect(schema.enums?.map(e => ({ name: e.name, values: e.values.map(v => v.name) }))).toEqual([
+        { name: 'customers_tier', values: ['free', 'pro'] },
+        { name: 'orders_state', values: ['open', 'shipped'] },
+      ]);
+      expect(findColumn(schema, 'customers', 'tier')).toMatchObject({ type: 'enum', defaultValue: 'free', nullable: false });
+    });
+  });
+
+  describe('SQLite dumps', () => {
+    const { schema, warnings } = parseSqlDdl(SQLITE_DUMP, 'sqlite');
+
+    it('skips the sqlite_ bookkeeping tables and the statements that fill them', () => {
+      expect(warnings).toEqual([]);
+      expect(Object.keys(shape(schema).tables)).toEqual(['regions', 'stores']);
+    });
+
+    it('reads a composite foreign key declared inside the table', () => {
+      expect(shape(schema).relationships).toEqual([
+        { from: 'stores.region_code,region_country', to: 'regions.code,country', type: 'many-to-one', onDelete: 'SET NULL' },
+      ]);
+      expect(findColumn(schema, 'stores', 'region_code').foreignKey).toBeUndefined();
+      expect(findTable(schema, 'regions').columns.filter(c => c.primaryKey).map(c => c.name)).toEqual(['code', 'country']);
+    });
+  });
+
+  describe('warnings', () => {
+    it('reports each statement or clause it could not read, with its line', () => {
+      const { warnings } = parseSqlDdl(
+        [
+          'CREATE VIEW active_users AS SELECT 1;',
+          'CREATE TABLE slots (id int, CONSTRAINT no_overlap EXCLUDE USING gist (id WITH =));',
+          'ALTER TABLE missing ADD COLUMN note text;',
+          'CREATE INDEX missing_idx ON missing (note);',
+          'ALTER TABLE slots ADD CONSTRAINT slots_fk FOREIGN KEY (id) REFERENCES missing (id);',
+        ].join('\n'),
+        'postgresql'
+      );
+
+      expect(warnings).toEqual([
+        'Line 1: Skipped unsupported statement: CREATE VIEW active_users AS SELECT 1',
+        'Line 2: Skipped constraint on "slots": EXCLUDE USING gist (id WITH =)',
+        'Line 3: Skipped ALTER TABLE on unknown table "missing"',
+        'Line 4: Skipped index "missing_idx" on unknown table "missing"',
+        'Line 5: Skipped foreign key from "slots" to unknown table "missing"',
+      ]);
+    });
+
+    it('fails validation for input without any table', () => {
+      expect(validateSqlDdl('SELECT 1;', 'postgresql').valid).toBe(false);
+    });
+  });
+});
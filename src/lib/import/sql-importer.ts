@@ -0,0 +1,1341 @@
+import type { Schema, Table, Column, ColumnTypeParams, Relationship, Enum, EnumValue, TableIndex } from '@/features/schema/types/schema.types';
+import { ID_GENERATORS, INDEX_TYPES, type ColumnType, type ForeignKeyAction, type IndexType, type RelationshipType } from '@/constants/schema';
+import { AutoLayout, LayoutOptions } from '@/lib/layout/auto-layout';
+import { getQualifiedTableName, pickTypeParams } from '@/features/schema/utils/schema.utils';
+
+export type SqlImportDialect = 'postgresql' | 'mysql' | 'sqlite';
+
+export interface SqlImportResult {
+  schema: Schema;
+  /** Statements or clauses that were skipped or only partially understood */
+  warnings: string[];
+}
+
+interface SqlStatement {
+  text: string;
+  line: number;
+}
+
+type TokenKind = 'word' | 'ident' | 'string' | 'group' | 'symbol';
+
+interface Token {
+  kind: TokenKind;
+  /** Unquoted identifier/string, inner text of a group, or the raw word/symbol */
+  value: string;
+  /** Source text of the token */
+  text: string;
+}
+
+interface PendingForeignKey {
+  table: Table;
+  columns: string[];
+  /** Referenced table name, with its schema when qualified */
+  refTableName: string[];
+  refColumns: string[];
+  name?: string;
+  onDelete?: ForeignKeyAction;
+  onUpdate?: ForeignKeyAction;
+  line: number;
+}
+
+interface ParseContext {
+  dialect: SqlImportDialect;
+  /** Tables by lower-cased qualified name, see nameKey */
+  tables: Map<string, Table>;
+  foreignKeys: PendingForeignKey[];
+  /** Enum types by lower-cased qualified name, including inline MySQL enums */
+  enums: Map<string, Enum>;
+  warnings: string[];
+}
+
+// Session, data and ownership statements that carry no schema information
+const IGNORED_STATEMENTS = /^(SET|BEGIN|START|COMMIT|ROLLBACK|END|DROP|INSERT|REPLACE|UPDATE|DELETE|COPY|LOCK|UNLOCK|PRAGMA|SELECT|USE|GRANT|REVOKE|ANALYZE|VACUUM|CREATE\s+(EXTENSION|SCHEMA|DATABASE|SEQUENCE)|ALTER\s+(SEQUENCE|SCHEMA|DATABASE|EXTENSION)|ALTER\s+\w+(\s+\w+)?\s+[\w."`]+\s+OWNER\s+TO)\b/i;
+
+// Keywords that end the type part of a column definition
+const COLUMN_CONSTRAINT_KEYWORDS = new Set([
+  'CONSTRAINT', 'NOT', 'NULL', 'PRIMARY', 'UNIQUE', 'DEFAULT', 'AUTO_INCREMENT',
+  'AUTOINCREMENT', 'GENERATED', 'IDENTITY', 'REFERENCES', 'CHECK', 'COLLATE',
+  'COMMENT', 'ON', 'CHARSET',
+]);
+
+// Schemas that unqualified names live in; pg_dump writes public.users for users
+const DEFAULT_SCHEMAS: Record<SqlImportDialect, string | undefined> = {
+  postgresql: 'public',
+  mysql: undefined,
+  sqlite: 'main',
+};
+
+const DIALECT_LABELS: Record<SqlImportDialect, string> = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  sqlite: 'SQLite',
+};
+
+/**
+ * Parses CREATE TABLE, ALTER TABLE ... ADD CONSTRAINT, CREATE INDEX and
+ * COMMENT ON statements from a SQL dump into a schema laid out on the canvas.
+ */
+export function parseSqlDdl(
+  content: string,
+  dialect: SqlImportDialect,
+  layoutOptions?: Partial<LayoutOptions>
+): SqlImportResult {
+  const { tables, relationships, enums, warnings } = parseSqlStatements(content, dialect);
+
+  const schema: Schema = {
+    id: ID_GENERATORS.SCHEMA(),
+    name: `Imported ${DIALECT_LABELS[dialect]} Schema`,
+    description: `Schema imported from ${DIALECT_LABELS[dialect]} DDL`,
+    tables,
+    relationships,
+    enums,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: 1,
+  };
+
+  // Apply auto-layout to improve table positioning
+  const recommendedAlgorithm = AutoLayout.recommendLayout(schema.tables, schema.relationships);
+  const defaultOptions: Partial<LayoutOptions> = {
+    algorithm: recommendedAlgorithm,
+    spacing: { x: 350, y: 280 },
+    centerOffset: { x: 400, y: 300 },
+  };
+
+  const finalOptions = { ...defaultOptions, ...layoutOptions };
+  schema.tables = AutoLayout.layoutTables(schema.tables, schema.relationships, finalOptions);
+
+  return { schema, warnings };
+}
+
+// Helper function to validate SQL DDL before importing
+export function validateSqlDdl(
+  content: string,
+  dialect: SqlImportDialect
+): { valid: boolean; errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  let warnings: string[] = [];
+
+  try {
+    const result = parseSqlStatements(content, dialect);
+    warnings = result.warnings;
+    if (result.tables.length === 0) {
+      errors.push('No CREATE TABLE statements found');
+    }
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : 'Failed to parse SQL');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+function parseSqlStatements(content: string, dialect: SqlImportDialect) {
+  const ctx: ParseContext = {
+    dialect,
+    tables: new Map(),
+    foreignKeys: [],
+    enums: new Map(),
+    warnings: [],
+  };
+
+  splitStatements(content, dialect).forEach((statement) => {
+    const text = statement.text;
+    if (IGNORED_STATEMENTS.test(text)) return;
+
+    if (/^CREATE\s+(OR\s+REPLACE\s+)?((GLOBAL|LOCAL)\s+)?((TEMP|TEMPORARY|UNLOGGED)\s+)?TABLE\b/i.test(text)) {
+      parseCreateTable(statement, ctx);
+    } else if (/^ALTER\s+TABLE\b/i.test(text)) {
+      parseAlterTable(statement, ctx);
+    } else if (/^CREATE\s+(UNIQUE\s+)?INDEX\b/i.test(text)) {
+      parseCreateIndex(statement, ctx);
+    } else if (/^COMMENT\s+ON\s+(TABLE|COLUMN)\b/i.test(text)) {
+      parseComment(statement, ctx);
+    } else if (/^CREATE\s+TYPE\b/i.test(text)) {
+      parseCreateType(statement, ctx);
+    } else {
+      warn(ctx, statement.line, `Skipped unsupported statement: ${summarize(text)}`);
+    }
+  });
+
+  const tables = Array.from(ctx.tables.values());
+  const relationships = resolveForeignKeys(ctx);
+
+  const enums = Array.from(ctx.enums.values());
+
+  return { tables, relationships, enums, warnings: ctx.warnings };
+}
+
+// ─── Statement splitting ──────────────────────────────────────────────────────
+
+/**
+ * Splits a dump into statements on top-level semicolons, dropping comments,
+ * psql meta-commands and the inline data of `COPY ... FROM stdin`.
+ */
+function splitStatements(content: string, dialect: SqlImportDialect): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let current = '';
+  let hasContent = false;
+  let line = 1;
+  let startLine = 1;
+  let i = 0;
+
+  const flush = () => {
+    const text = current.trim();
+    if (text) statements.push({ text, line: startLine });
+    current = '';
+    hasContent = false;
+  };
+
+  while (i < content.length) {
+    const ch = content[i];
+    const next = content[i + 1];
+
+    if (!hasContent) {
+      startLine = line;
+      // psql meta-commands (\connect, \restrict, ...) run to the end of the line
+      if (ch === '\\') {
+        while (i < content.length && content[i] !== '\n') i++;
+        continue;
+      }
+    }
+
+    if (ch === '\n') line++;
+
+    if ((ch === '-' && next === '-') || (ch === '#' && dialect === 'mysql')) {
+      while (i < content.length && content[i] !== '\n') i++;
+      continue;
+    }
+
+    if (ch === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      line += countLines(content.slice(i, stop));
+      current += ' ';
+      i = stop;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"' || ch === '`') {
+      const end = scanQuoted(content, i, ch);
+      const chunk = content.slice(i, end);
+      line += countLines(chunk);
+      current += chunk;
+      hasContent = true;
+      i = end;
+      continue;
+    }
+
+    // PostgreSQL dollar-quoted bodies ($$ ... $$ or $tag$ ... $tag$)
+    if (ch === '$' && dialect === 'postgresql') {
+      DOLLAR_TAG.lastIndex = i;
+      const tag = DOLLAR_TAG.exec(content)?.[0];
+      if (tag) {
+        const end = content.indexOf(tag, i + tag.length);
+        const stop = end === -1 ? content.length : end + tag.length;
+        const chunk = content.slice(i, stop);
+        line += countLines(chunk);
+        current += chunk;
+        hasContent = true;
+        i = stop;
+        continue;
+      }
+    }
+
+    if (ch === ';') {
+      const isCopyFromStdin = /^COPY\b[\s\S]*\bFROM\s+stdin\b/i.test(current.trim());
+      flush();
+      i++;
+      if (isCopyFromStdin) {
+        const end = content.indexOf('\n\\.', i);
+        const stop = end === -1 ? content.length : end + 3;
+        line += countLines(content.slice(i, stop));
+        i = stop;
+      }
+      continue;
+    }
+
+    current += ch;
+    if (!/\s/.test(ch)) hasContent = true;
+    i++;
+  }
+
+  flush();
+  return statements;
+}
+
+const DOLLAR_TAG = /\$[A-Za-z_]*\$/y;
+const NUMBER_TOKEN = /\d+(\.\d+)?/y;
+const WORD_TOKEN = /[A-Za-z_$][\w$]*/y;
+
+function countLines(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+function scanQuoted(input: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < input.length) {
+    if (input[i] === '\\' && quote === "'") {
+      i += 2;
+      continue;
+    }
+    if (input[i] === quote) {
+      if (input[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return input.length;
+}
+
+function scanGroup(input: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < input.length) {
+    const ch = input[i];
+    if (ch === "'" || ch === '"' || ch === '`') {
+      i = scanQuoted(input, i, ch);
+      continue;
+    }
+    if (ch === '(') depth++;
+    if (ch === ')') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+    i++;
+  }
+  return input.length;
+}
+
+// ─── Tokenizing ───────────────────────────────────────────────────────────────
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "'") {
+      const end = scanQuoted(input, i, ch);
+      const raw = input.slice(i, end);
+      tokens.push({ kind: 'string', value: raw.slice(1, -1).replace(/''/g, "'"), text: raw });
+      i = end;
+      continue;
+    }
+
+    if (ch === '"' || ch === '`') {
+      const end = scanQuoted(input, i, ch);
+      const raw = input.slice(i, end);
+      tokens.push({ kind: 'ident', value: raw.slice(1, -1).split(ch + ch).join(ch), text: raw });
+      i = end;
+      continue;
+    }
+
+    // [name] is a quoted identifier; [] and [3] are array suffixes
+    if (ch === '[') {
+      const end = input.indexOf(']', i);
+      const stop = end === -1 ? input.length : end + 1;
+      const raw = input.slice(i, stop);
+      const isArraySuffix = /^\[\d*\]$/.test(raw);
+      tokens.push({ kind: isArraySuffix ? 'symbol' : 'ident', value: isArraySuffix ? raw : raw.slice(1, -1), text: raw });
+      i = stop;
+      continue;
+    }
+
+    if (ch === '(') {
+      const end = scanGroup(input, i);
+      const raw = input.slice(i, end);
+      tokens.push({ kind: 'group', value: raw.slice(1, -1), text: raw });
+      i = end;
+      continue;
+    }
+
+    NUMBER_TOKEN.lastIndex = i;
+    const number = NUMBER_TOKEN.exec(input);
+    if (number) {
+      tokens.push({ kind: 'word', value: number[0], text: number[0] });
+      i += number[0].length;
+      continue;
+    }
+
+    WORD_TOKEN.lastIndex = i;
+    const word = WORD_TOKEN.exec(input);
+    if (word) {
+      tokens.push({ kind: 'word', value: word[0], text: word[0] });
+      i += word[0].length;
+      continue;
+    }
+
+    if (ch === ':' && input[i + 1] === ':') {
+      tokens.push({ kind: 'symbol', value: '::', text: '::' });
+      i += 2;
+      continue;
+    }
+
+    tokens.push({ kind: 'symbol', value: ch, text: ch });
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Splits the inside of a parenthesized list on top-level commas.
+ */
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (ch === "'" || ch === '"' || ch === '`') {
+      const end = scanQuoted(input, i, ch);
+      current += input.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (ch === '(') {
+      const end = scanGroup(input, i);
+      current += input.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (ch === ',') {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+      i++;
+      continue;
+    }
+    current += ch;
+    i++;
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+class TokenCursor {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  get done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  isWord(...words: string[]): boolean {
+    const token = this.peek();
+    return token?.kind === 'word' && words.includes(token.value.toUpperCase());
+  }
+
+  /** Consumes the given keyword sequence if it comes next */
+  accept(...words: string[]): boolean {
+    for (let offset = 0; offset < words.length; offset++) {
+      const token = this.peek(offset);
+      if (token?.kind !== 'word' || token.value.toUpperCase() !== words[offset]) return false;
+    }
+    this.index += words.length;
+    return true;
+  }
+
+  /** Reads a possibly schema-qualified name and returns its parts */
+  qualifiedName(): string[] {
+    const parts: string[] = [];
+    const first = this.next();
+    if (!first || (first.kind !== 'word' && first.kind !== 'ident')) return parts;
+    parts.push(first.value);
+
+    while (this.peek()?.value === '.' && this.peek(1) && ['word', 'ident'].includes(this.peek(1)!.kind)) {
+      this.index++;
+      parts.push(this.next()!.value);
+    }
+    return parts;
+  }
+
+  rest(): Token[] {
+    const rest = this.tokens.slice(this.index);
+    this.index = this.tokens.length;
+    return rest;
+  }
+}
+
+// ─── Names ────────────────────────────────────────────────────────────────────
+
+/**
+ * Name and schema of a possibly qualified name. Names in the dialect's default
+ * schema, e.g. public.users, get no namespace.
+ */
+function splitQualifiedName(nameParts: string[], ctx: ParseContext): Pick<Table, 'name' | 'namespace'> | undefined {
+  const name = nameParts[nameParts.length - 1];
+  if (!name) return undefined;
+  const schema = nameParts.length > 1 ? nameParts[nameParts.length - 2] : undefined;
+  return { name, namespace: schema && schema.toLowerCase() !== DEFAULT_SCHEMAS[ctx.dialect] ? schema : undefined };
+}
+
+// Key of a table or enum in the parse context
+const nameKey = (name: Pick<Table, 'name' | 'namespace'>) => getQualifiedTableName(name).toLowerCase();
+
+/**
+ * Finds a table or enum by a possibly qualified name. An unqualified name
+ * missing from the default schema matches the only one of that name in
+ * another schema.
+ */
+function findNamed<T extends Pick<Table, 'name' | 'namespace'>>(
+  items: Map<string, T>,
+  nameParts: string[],
+  ctx: ParseContext
+): T | undefined {
+  const name = splitQualifiedName(nameParts, ctx);
+  if (!name) return undefined;
+  const found = items.get(nameKey(name));
+  if (found || nameParts.length > 1) return found;
+  const candidates = Array.from(items.values()).filter((item) => item.name.toLowerCase() === name.name.toLowerCase());
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+// Parts of a type name as written in a column definition, e.g. "core"."status"
+function typeNameParts(rawType: string): string[] {
+  return rawType
+    .replace(/\(.*\)/, '')
+    .trim()
+    .split('.')
+    .map((part) => part.trim().replace(/^["`\[](.*)["`\]]$/, '$1'));
+}
+
+// ─── Statements ───────────────────────────────────────────────────────────────
+
+function parseCreateTable(statement: SqlStatement, ctx: ParseContext): void {
+  const cursor = new TokenCursor(tokenize(statement.text));
+  while (!cursor.done && !cursor.accept('TABLE')) cursor.next();
+  cursor.accept('IF', 'NOT', 'EXISTS');
+
+  const name = splitQualifiedName(cursor.qualifiedName(), ctx);
+  const tableName = name?.name;
+  const body = cursor.next();
+
+  if (!name || !tableName || body?.kind !== 'group') {
+    warn(ctx, statement.line, `Skipped CREATE TABLE without a column list: ${summarize(statement.text)}`);
+    return;
+  }
+
+  // SQLite bookkeeping tables show up in .dump output
+  if (ctx.dialect === 'sqlite' && /^sqlite_/i.test(tableName)) return;
+
+  if (ctx.tables.has(nameKey(name))) {
+    warn(ctx, statement.line, `Skipped duplicate definition of table "${getQualifiedTableName(name)}"`);
+    return;
+  }
+
+  const table: Table = {
+    id: ID_GENERATORS.TABLE(),
+    name: tableName,
+    namespace: name.namespace,
+    position: { x: 0, y: 0 }, // Will be set by auto-layout
+    columns: [],
+  };
+  ctx.tables.set(nameKey(table), table);
+
+  splitTopLevel(body.value).forEach((item) => {
+    const itemCursor = new TokenCursor(tokenize(item));
+    if (isTableConstraint(itemCursor)) {
+      parseTableConstraint(itemCursor, table, statement.line, ctx);
+    } else {
+      const column = parseColumnDefinition(itemCursor, table, statement.line, ctx);
+      if (column) table.columns.push(column);
+    }
+  });
+
+  // Trailing table options: MySQL COMMENT='...'
+  const options = new TokenCursor(cursor.rest());
+  while (!options.done) {
+    if (options.accept('COMMENT')) {
+      if (options.peek()?.value === '=') options.next();
+      const note = options.next();
+      if (note?.kind === 'string') table.note = note.value;
+    } else {
+      options.next();
+    }
+  }
+}
+
+function parseAlterTable(statement: SqlStatement, ctx: ParseContext): void {
+  const cursor = new TokenCursor(tokenize(statement.text));
+  cursor.accept('ALTER', 'TABLE');
+  cursor.accept('IF', 'EXISTS');
+  cursor.accept('ONLY');
+
+  const nameParts = cursor.qualifiedName();
+  const table = findNamed(ctx.tables, nameParts, ctx);
+  if (!table) {
+    warn(ctx, statement.line, `Skipped ALTER TABLE on unknown table "${nameParts.join('.')}"`);
+    return;
+  }
+
+  // Split the remaining actions on top-level commas
+  const actions = splitTopLevel(cursor.rest().map((token) => token.text).join(' '));
+  actions.forEach((action) => {
+    const actionCursor = new TokenCursor(tokenize(action));
+
+    if (actionCursor.accept('ADD')) {
+      if (isTableConstraint(actionCursor)) {
+        parseTableConstraint(actionCursor, table, statement.line, ctx);
+        return;
+      }
+      actionCursor.accept('COLUMN');
+      actionCursor.accept('IF', 'NOT', 'EXISTS');
+      const column = parseColumnDefinition(actionCursor, table, statement.line, ctx);
+      if (column) table.columns.push(column);
+      return;
+    }
+
+    if (actionCursor.accept('ALTER') || actionCursor.accept('MODIFY')) {
+      actionCursor.accept('COLUMN');
+      const columnName = actionCursor.next()?.value;
+      const column = columnName ? findColumn(table, columnName) : undefined;
+      if (column) {
+        if (actionCursor.accept('SET', 'NOT', 'NULL')) {
+          column.nullable = false;
+          return;
+        }
+        if (actionCursor.accept('DROP', 'NOT', 'NULL')) {
+          column.nullable = true;
+          return;
+        }
+        if (actionCursor.accept('DROP', 'DEFAULT')) {
+          column.defaultValue = undefined;
+          return;
+        }
+        if (actionCursor.accept('SET', 'DEFAULT')) {
+          applyDefault(column, readExpression(actionCursor));
+          return;
+        }
+        if (actionCursor.accept('ADD', 'GENERATED')) {
+          column.increment = true;
+          return;
+        }
+      }
+    }
+
+    if (actionCursor.accept('OWNER', 'TO')) return;
+
+    warn(ctx, statement.line, `Skipped ALTER TABLE "${table.name}" action: ${summarize(action)}`);
+  });
+}
+
+function parseCreateIndex(statement: SqlStatement, ctx: ParseContext): void {
+  const cursor = new TokenCursor(tokenize(statement.text));
+  cursor.accept('CREATE');
+  const isUnique = cursor.accept('UNIQUE');
+  cursor.accept('INDEX');
+  cursor.accept('CONCURRENTLY');
+  cursor.accept('IF', 'NOT', 'EXISTS');
+
+  let indexName: string | undefined;
+  if (!cursor.isWord('ON')) {
+    const nameParts = cursor.qualifiedName();
+    indexName = nameParts[nameParts.length - 1];
+  }
+  cursor.accept('ON');
+  cursor.accept('ONLY');
+
+  const nameParts = cursor.qualifiedName();
+  const table = findNamed(ctx.tables, nameParts, ctx);
+  // PostgreSQL names the method before the columns, MySQL after them
+  let method = cursor.accept('USING') ? cursor.next()?.value : undefined;
+  const columnsGroup = cursor.next();
+
+  if (!table || columnsGroup?.kind !== 'group') {
+    warn(ctx, statement.line, `Skipped index ${indexName ? `"${indexName}" ` : ''}on unknown table "${nameParts.join('.')}"`);
+    return;
+  }
+
+  if (cursor.accept('USING')) method = cursor.next()?.value;
+  const where = cursor.accept('WHERE') ? cursor.rest().map((t) => t.text).join(' ') : undefined;
+
+  const columnNames = parseColumnList(columnsGroup.value);
+  if (isUnique && columnNames.length === 1 && !method && !where && markUnique(table, columnNames[0])) return;
+
+  if (!addIndex(table, columnNames, { name: indexName, unique: isUnique, type: method, where })) {
+    warn(ctx, statement.line, describeSkippedIndex(table, columnNames, indexName, isUnique));
+  }
+}
+
+function parseComment(statement: SqlStatement, ctx: ParseContext): void {
+  const cursor = new TokenCursor(tokenize(statement.text));
+  cursor.accept('COMMENT', 'ON');
+  const isColumn = cursor.accept('COLUMN');
+  if (!isColumn) cursor.accept('TABLE');
+
+  const nameParts = cursor.qualifiedName();
+  cursor.accept('IS');
+  const note = cursor.next();
+  const text = note?.kind === 'string' ? note.value : undefined;
+
+  const tableNameParts = isColumn ? nameParts.slice(0, -1) : nameParts;
+  const table = findNamed(ctx.tables, tableNameParts, ctx);
+  if (!table) {
+    warn(ctx, statement.line, `Skipped comment on unknown table "${tableNameParts.join('.')}"`);
+    return;
+  }
+
+  if (!isColumn) {
+    table.note = text;
+    return;
+  }
+
+  const column = findColumn(table, nameParts[nameParts.length - 1]);
+  if (column) column.note = text;
+}
+
+function parseCreateType(statement: SqlStatement, ctx: ParseContext): void {
+  const cursor = new TokenCursor(tokenize(statement.text));
+  cursor.accept('CREATE', 'TYPE');
+  const name = splitQualifiedName(cursor.qualifiedName(), ctx);
+
+  if (name && cursor.accept('AS', 'ENUM')) {
+    const list = cursor.peek()?.kind === 'group' ? cursor.next()!.value : '';
+    ctx.enums.set(nameKey(name), {
+      id: ID_GENERATORS.ENUM(),
+      name: name.name,
+      namespace: name.namespace,
+      values: parseEnumValues(list),
+    });
+    return;
+  }
+
+  warn(ctx, statement.line, `Skipped unsupported statement: ${summarize(statement.text)}`);
+}
+
+function parseEnumValues(list: string): EnumValue[] {
+  return tokenize(list)
+    .filter((token) => token.kind === 'string')
+    .map((token) => ({ name: token.value }));
+}
+
+/**
+ * Finds the enum of an enum column: a named type, or for MySQL an inline
+ * ENUM(...) that becomes an enum named after the column. Inline enums with the
+ * same values share one enum.
+ */
+function resolveColumnEnum(rawType: string, tableName: string, columnName: string, ctx: ParseContext): Enum | undefined {
+  const named = findNamed(ctx.enums, typeNameParts(rawType), ctx);
+  if (named) return named;
+
+  const group = tokenize(rawType).find((token) => token.kind === 'group');
+  if (!group) return undefined;
+
+  const values = parseEnumValues(group.value);
+  const key = JSON.stringify(values);
+  const existing = Array.from(ctx.enums.values()).find((e) => JSON.stringify(e.values) === key);
+  if (existing) return existing;
+
+  const enumDef: Enum = { id: ID_GENERATORS.ENUM(), name: `${tableName}_${columnName}`, values };
+  ctx.enums.set(nameKey(enumDef), enumDef);
+  return enumDef;
+}
+
+// ─── Column and constraint clauses ────────────────────────────────────────────
+
+function isTableConstraint(cursor: TokenCursor): boolean {
+  if (cursor.isWord('CONSTRAINT', 'PRIMARY', 'FOREIGN', 'CHECK', 'EXCLUDE', 'FULLTEXT', 'SPATIAL')) return true;
+  if (!cursor.isWord('UNIQUE', 'KEY', 'INDEX')) return false;
+
+  // Columns may be named key/index; an index is followed by a column list,
+  // optionally after its name, while a column is followed by its type
+  const next = cursor.peek(1);
+  const afterName = cursor.peek(2);
+  const isColumnList = (token?: Token) => token?.kind === 'group' && !/^\s*\d/.test(token.value);
+  return isColumnList(next)
+    || (next?.kind !== 'group' && isColumnList(afterName))
+    || (cursor.isWord('UNIQUE') && (next?.value.toUpperCase() === 'KEY' || next?.value.toUpperCase() === 'INDEX'));
+}
+
+function parseTableConstraint(cursor: TokenCursor, table: Table, line: number, ctx: ParseContext): void {
+  let constraintName: string | undefined;
+  if (cursor.accept('CONSTRAINT')) {
+    constraintName = cursor.next()?.value;
+  }
+
+  if (cursor.accept('PRIMARY', 'KEY')) {
+    const columnNames = readColumnGroup(cursor);
+    columnNames.forEach((name) => {
+      const column = findColumn(table, name);
+      if (column) {
+        column.primaryKey = true;
+        // Columns of a composite key are not unique on their own
+        if (columnNames.length === 1) column.unique = true;
+        column.nullable = false;
+      }
+    });
+    return;
+  }
+
+  if (cursor.accept('UNIQUE')) {
+    cursor.accept('KEY');
+    cursor.accept('INDEX');
+    constraintName = readIndexName(cursor) ?? constraintName;
+    const columnNames = readColumnGroup(cursor);
+    if (columnNames.length === 1 && markUnique(table, columnNames[0])) return;
+    if (!addIndex(table, columnNames, { name: constraintName, unique: true })) {
+      warn(ctx, line, describeSkippedIndex(table, columnNames, constraintName, true));
+    }
+    return;
+  }
+
+  if (cursor.accept('FOREIGN', 'KEY')) {
+    const columns = readColumnGroup(cursor);
+    if (cursor.accept('REFERENCES')) {
+      ctx.foreignKeys.push({
+        ...parseReferences(cursor, ctx, line),
+        table,
+        columns,
+        name: constraintName,
+        line,
+      });
+    }
+    return;
+  }
+
+  if (cursor.accept('CHECK')) return;
+
+  if (cursor.isWord('KEY', 'INDEX', 'FULLTEXT', 'SPATIAL')) {
+    // FULLTEXT and SPATIAL indexes have no counterpart among the index types
+    const isPlain = cursor.isWord('KEY', 'INDEX');
+    cursor.next();
+    cursor.accept('KEY');
+    cursor.accept('INDEX');
+    constraintName = readIndexName(cursor) ?? constraintName;
+    const columnNames = readColumnGroup(cursor);
+    const method = cursor.accept('USING') ? cursor.next()?.value : undefined;
+    if (!isPlain || !addIndex(table, columnNames, { name: constraintName, unique: false, type: method })) {
+      warn(ctx, line, describeSkippedIndex(table, columnNames, constraintName, false));
+    }
+    return;
+  }
+
+  warn(ctx, line, `Skipped constraint on "${table.name}": ${summarize(cursor.rest().map((t) => t.text).join(' '))}`);
+}
+
+function parseColumnDefinition(
+  cursor: TokenCursor,
+  table: Table,
+  line: number,
+  ctx: ParseContext
+): Column | null {
+  const nameToken = cursor.next();
+  if (!nameToken || (nameToken.kind !== 'word' && nameToken.kind !== 'ident')) return null;
+
+  // Type runs until the first constraint keyword
+  let rawType = '';
+  while (!cursor.done) {
+    const token = cursor.peek()!;
+    const upper = token.kind === 'word' ? token.value.toUpperCase() : '';
+    if (COLUMN_CONSTRAINT_KEYWORDS.has(upper)) break;
+    if (upper === 'CHARACTER' && cursor.peek(1)?.value.toUpperCase() === 'SET') break;
+    rawType += attachesTo(rawType, token) ? token.text : ` ${token.text}`;
+    cursor.next();
+  }
+
+  const { type, increment, params } = mapSqlType(rawType, ctx);
+  if (type === null) {
+    warn(ctx, line, `Unknown type "${rawType}" on "${table.name}.${nameToken.value}" kept as a native ${ctx.dialect} type, exported as string elsewhere`);
+  }
+
+  const column: Column = {
+    id: ID_GENERATORS.COLUMN(),
+    name: nameToken.value,
+    type: type ?? 'string',
+    nullable: true,
+    primaryKey: false,
+    unique: false,
+    increment: increment || undefined,
+    ...(type === null ? nativeTypeParams(rawType, ctx) : params),
+  };
+  if (type === 'enum') {
+    column.enumId = resolveColumnEnum(rawType, table.name, nameToken.value, ctx)?.id;
+  }
+
+  while (!cursor.done) {
+    if (cursor.accept('CONSTRAINT')) {
+      cursor.next();
+    } else if (cursor.accept('NOT', 'NULL')) {
+      column.nullable = false;
+    } else if (cursor.accept('NULL')) {
+      column.nullable = true;
+    } else if (cursor.accept('PRIMARY', 'KEY')) {
+      column.primaryKey = true;
+      column.nullable = false;
+      cursor.accept('ASC');
+      cursor.accept('DESC');
+      // SQLite: INTEGER PRIMARY KEY is an alias for the auto-incrementing rowid
+      if (ctx.dialect === 'sqlite' && /^integer$/i.test(rawType)) column.increment = true;
+    } else if (cursor.accept('UNIQUE')) {
+      cursor.accept('KEY');
+      column.unique = true;
+    } else if (cursor.accept('DEFAULT')) {
+      applyDefault(column, readExpression(cursor));
+    } else if (cursor.accept('AUTO_INCREMENT') || cursor.accept('AUTOINCREMENT')) {
+      column.increment = true;
+    } else if (cursor.accept('GENERATED')) {
+      if (cursor.accept('ALWAYS', 'AS', 'IDENTITY') || cursor.accept('BY', 'DEFAULT', 'AS', 'IDENTITY')) {
+        column.increment = true;
+        if (cursor.peek()?.kind === 'group') cursor.next();
+      } else {
+        // Computed column: GENERATED ALWAYS AS (expr) [STORED|VIRTUAL]
+        cursor.accept('ALWAYS');
+        cursor.accept('AS');
+        if (cursor.peek()?.kind === 'group') cursor.next();
+        cursor.accept('STORED');
+        cursor.accept('VIRTUAL');
+      }
+    } else if (cursor.accept('IDENTITY')) {
+      column.increment = true;
+      if (cursor.peek()?.kind === 'group') cursor.next();
+    } else if (cursor.accept('REFERENCES')) {
+      ctx.foreignKeys.push({
+        ...parseReferences(cursor, ctx, line),
+        table,
+        columns: [column.name],
+        line,
+      });
+    } else if (cursor.accept('CHECK')) {
+      cursor.next();
+    } else if (cursor.accept('COLLATE') || cursor.accept('CHARSET') || cursor.accept('CHARACTER', 'SET')) {
+      cursor.next();
+    } else if (cursor.accept('COMMENT')) {
+      const note = cursor.next();
+      if (note?.kind === 'string') column.note = note.value;
+    } else if (cursor.accept('ON', 'UPDATE')) {
+      readExpression(cursor);
+    } else {
+      cursor.next();
+    }
+  }
+
+  if (column.primaryKey) column.unique = true;
+  return column;
+}
+
+function parseReferences(
+  cursor: TokenCursor,
+  ctx: ParseContext,
+  line: number
+): Pick<PendingForeignKey, 'refTableName' | 'refColumns' | 'onDelete' | 'onUpdate'> {
+  const nameParts = cursor.qualifiedName();
+  const refColumns = cursor.peek()?.kind === 'group' ? readColumnGroup(cursor) : [];
+  const result: Pick<PendingForeignKey, 'refTableName' | 'refColumns' | 'onDelete' | 'onUpdate'> = {
+    refTableName: nameParts,
+    refColumns,
+  };
+
+  while (!cursor.done) {
+    if (cursor.accept('ON', 'DELETE')) {
+      result.onDelete = readReferentialAction(cursor, ctx, line);
+    } else if (cursor.accept('ON', 'UPDATE')) {
+      result.onUpdate = readReferentialAction(cursor, ctx, line);
+    } else if (cursor.accept('MATCH')) {
+      cursor.next();
+    } else if (cursor.accept('DEFERRABLE') || cursor.accept('NOT', 'DEFERRABLE')) {
+      cursor.accept('INITIALLY', 'DEFERRED');
+      cursor.accept('INITIALLY', 'IMMEDIATE');
+    } else {
+      break;
+    }
+  }
+
+  return result;
+}
+
+function readReferentialAction(cursor: TokenCursor, ctx: ParseContext, line: number): ForeignKeyAction | undefined {
+  if (cursor.accept('CASCADE')) return 'CASCADE';
+  if (cursor.accept('RESTRICT')) return 'RESTRICT';
+  if (cursor.accept('SET', 'NULL')) return 'SET NULL';
+  if (cursor.accept('NO', 'ACTION')) return 'NO ACTION';
+  if (cursor.accept('SET', 'DEFAULT')) {
+    warn(ctx, line, 'Referential action SET DEFAULT is not supported and was dropped');
+    return undefined;
+  }
+  cursor.next();
+  return undefined;
+}
+
+/**
+ * Reads a DEFAULT / ON UPDATE expression up to the next constraint keyword.
+ */
+function readExpression(cursor: TokenCursor): string {
+  let expression = '';
+  let first = true;
+
+  while (!cursor.done) {
+    const token = cursor.peek()!;
+    const upper = token.kind === 'word' ? token.value.toUpperCase() : '';
+    // The first token is always part of the expression (DEFAULT NULL)
+    if (!first && COLUMN_CONSTRAINT_KEYWORDS.has(upper)) break;
+
+    expression += attachesTo(expression, token) || expression === '-' ? token.text : ` ${token.text}`;
+    cursor.next();
+    first = false;
+  }
+
+  return expression;
+}
+
+function applyDefault(column: Column, expression: string): void {
+  // Sequences back serial columns in PostgreSQL dumps
+  if (/^nextval\s*\(/i.test(expression)) {
+    column.increment = true;
+    return;
+  }
+
+  // Drop casts such as 'draft'::character varying
+  const value = expression.replace(/::[\w\s.]+(\[\])?$/i, '').trim();
+  if (!value || value.toUpperCase() === 'NULL') {
+    column.defaultValue = undefined;
+    return;
+  }
+
+  const literal = /^'([\s\S]*)'$/.exec(value);
+  column.defaultValue = literal ? literal[1].replace(/''/g, "'") : value.replace(/^\((.*)\)$/, '$1');
+}
+
+// Whether a token is written without a space after the text before it
+function attachesTo(text: string, token: Token): boolean {
+  return !text || token.kind === 'group' || token.kind === 'symbol' || /(\.|::)$/.test(text);
+}
+
+// MySQL names indexes between the KEY keyword and the column list
+function readIndexName(cursor: TokenCursor): string | undefined {
+  const token = cursor.peek();
+  if (token && (token.kind === 'word' || token.kind === 'ident') && cursor.peek(1)?.kind === 'group') {
+    cursor.next();
+    return token.value;
+  }
+  return undefined;
+}
+
+function readColumnGroup(cursor: TokenCursor): string[] {
+  // MySQL allows an index name before the column list
+  if (cursor.peek()?.kind !== 'group' && cursor.peek(1)?.kind === 'group') cursor.next();
+  const group = cursor.peek();
+  if (group?.kind !== 'group') return [];
+  cursor.next();
+  return parseColumnList(group.value);
+}
+
+function parseColumnList(list: string): string[] {
+  return splitTopLevel(list).map((part) => {
+    const [first, second] = tokenize(part);
+    // Expression entries such as lower(email) are kept verbatim
+    if (!first || second?.kind === 'group' || (first.kind !== 'word' && first.kind !== 'ident')) return part;
+    return first.value;
+  });
+}
+
+// ─── Type mapping ─────────────────────────────────────────────────────────────
+
+/**
+ * Maps a native column type onto a ColumnType. Returns `type: null` when the
+ * type is not recognised for the dialect.
+ */
+function mapSqlType(
+  rawType: string,
+  ctx: ParseContext
+): { type: ColumnType | null; increment: boolean; params?: ColumnTypeParams & Pick<Column, 'nativeType' | 'nativeTypeDialect'> } {
+  const normalized = rawType.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!normalized) {
+    // SQLite allows columns without a declared type
+    return { type: ctx.dialect === 'sqlite' ? 'string' : null, increment: false };
+  }
+
+  if (/\[\d*\]$/.test(normalized) || /\barray$/.test(normalized)) {
+    const element = mapSqlType(normalized.replace(/(\[\d*\])+$|\s*\barray$/, ''), ctx);
+    const native = element.type === null || !!element.params?.nativeType;
+    return {
+      type: 'array',
+      increment: false,
+      params: native
+        ? { arrayElementType: element.type ?? undefined, ...nativeTypeParams(rawType, ctx) }
+        : pickTypeParams('array', { ...element.params, arrayElementType: element.type ?? undefined }),
+    };
+  }
+
+  const base = normalized
+    .replace(/\(.*?\)/g, '')
+    .replace(/\b(unsigned|signed|zerofill)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const unqualified = base.split('.').pop() ?? base;
+
+  switch (unqualified) {
+    case 'serial':
+    case 'serial4':
+    case 'smallserial':
+    case 'serial2':
+      return { type: 'integer', increment: true };
+    case 'bigserial':
+    case 'serial8':
+      return { type: 'bigint', increment: true };
+  }
+
+  // MySQL stores booleans as TINYINT(1)
+  if (ctx.dialect === 'mysql' && /^tinyint\(1\)/.test(normalized)) {
+    return { type: 'boolean', increment: false };
+  }
+
+  const mapped = SQL_TYPE_MAP[unqualified];
+  if (mapped) {
+    const params = parseSqlTypeParams(normalized, unqualified, mapped);
+    return {
+      type: mapped,
+      increment: false,
+      params: NATIVE_SQL_TYPES.has(unqualified) ? { ...params, ...nativeTypeParams(rawType, ctx) } : params,
+    };
+  }
+
+  if (/^enum\b/.test(unqualified) || findNamed(ctx.enums, typeNameParts(rawType), ctx)) {
+    return { type: 'enum', increment: false };
+  }
+
+  // SQLite accepts any type name and resolves it by affinity rules
+  if (ctx.dialect === 'sqlite') {
+    if (unqualified.includes('int')) return { type: 'integer', increment: false };
+    if (/char|clob|text/.test(unqualified)) return { type: 'text', increment: false };
+    if (unqualified.includes('blob')) return { type: 'binary', increment: false };
+    if (/real|floa|doub/.test(unqualified)) return { type: 'float', increment: false };
+    return { type: 'decimal', increment: false };
+  }
+
+  return { type: null, increment: false };
+}
+
+// Types mapped to a column type that loses their meaning; the original is kept alongside
+const NATIVE_SQL_TYPES = new Set(['citext', 'set', 'interval', 'inet', 'cidr', 'macaddr', 'year', 'xml', 'money']);
+
+function nativeTypeParams(rawType: string, ctx: ParseContext): Pick<Column, 'nativeType' | 'nativeTypeDialect'> {
+  return { nativeType: rawType.replace(/\s+/g, ' ').trim(), nativeTypeDialect: ctx.dialect };
+}
+
+// Length, precision and scale from the type arguments, and the time zone from the type name
+function parseSqlTypeParams(normalized: string, baseType: string, type: ColumnType): ColumnTypeParams {
+  const args = normalized.match(/\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)/);
+  return pickTypeParams(type, {
+    length: args ? Number(args[1]) : undefined,
+    precision: args ? Number(args[1]) : undefined,
+    scale: args?.[2] !== undefined ? Number(args[2]) : undefined,
+    withTimezone: /^(timestamptz|timetz)$| with time zone$/.test(baseType) || undefined,
+  });
+}
+
+const SQL_TYPE_MAP: Record<string, ColumnType> = {
+  // Strings
+  'varchar': 'string',
+  'character varying': 'string',
+  'char': 'string',
+  'character': 'string',
+  'nchar': 'string',
+  'nvarchar': 'string',
+  'national character varying': 'string',
+  'varchar2': 'string',
+  'citext': 'string',
+  'set': 'string',
+  'interval': 'string',
+  'inet': 'string',
+  'cidr': 'string',
+  'macaddr': 'string',
+  'year': 'integer',
+  'text': 'text',
+  'tinytext': 'text',
+  'mediumtext': 'text',
+  'longtext': 'text',
+  'clob': 'text',
+  'xml': 'text',
+  // Numbers
+  'int': 'integer',
+  'integer': 'integer',
+  'int2': 'integer',
+  'int4': 'integer',
+  'smallint': 'integer',
+  'mediumint': 'integer',
+  'tinyint': 'integer',
+  'bigint': 'bigint',
+  'int8': 'bigint',
+  'real': 'float',
+  'float': 'float',
+  'float4': 'float',
+  'float8': 'float',
+  'double': 'float',
+  'double precision': 'float',
+  'decimal': 'decimal',
+  'numeric': 'decimal',
+  'money': 'decimal',
+  // Booleans
+  'bool': 'boolean',
+  'boolean': 'boolean',
+  'bit': 'boolean',
+  // Date and time
+  'date': 'date',
+  'datetime': 'datetime',
+  'timestamp': 'timestamp',
+  'timestamptz': 'timestamp',
+  'timestamp with time zone': 'timestamp',
+  'timestamp without time zone': 'timestamp',
+  'time': 'time',
+  'timetz': 'time',
+  'time with time zone': 'time',
+  'time without time zone': 'time',
+  // Documents and identifiers
+  'json': 'json',
+  'jsonb': 'jsonb',
+  'uuid': 'uuid',
+  // Binary
+  'bytea': 'binary',
+  'blob': 'binary',
+  'tinyblob': 'binary',
+  'mediumblob': 'binary',
+  'longblob': 'binary',
+  'binary': 'binary',
+  'varbinary': 'binary',
+};
+
+// ─── Foreign key resolution ───────────────────────────────────────────────────
+
+function resolveForeignKeys(ctx: ParseContext): Relationship[] {
+  const relationships: Relationship[] = [];
+
+  ctx.foreignKeys.forEach((fk) => {
+    const { table } = fk;
+    const refTable = findNamed(ctx.tables, fk.refTableName, ctx);
+    if (!refTable) {
+      warn(ctx, fk.line, `Skipped foreign key from "${getQualifiedTableName(table)}" to unknown table "${fk.refTableName.join('.')}"`);
+      return;
+    }
+
+    // Without an explicit column list the reference targets the primary key
+    const refColumnNames = fk.refColumns.length > 0
+      ? fk.refColumns
+      : refTable.columns.filter((c) => c.primaryKey).map((c) => c.name);
+
+    const columns = fk.columns.map((name) => findColumn(table, name));
+    const refColumns = refColumnNames.map((name) => findColumn(refTable, name));
+    if (columns.length === 0 || columns.some((c) => !c) || refColumns.some((c) => !c)) {
+      warn(ctx, fk.line, `Skipped foreign key from "${table.name}" to "${refTable.name}": column not found`);
+      return;
+    }
+    if (columns.length !== refColumns.length) {
+      warn(ctx, fk.line, `Skipped foreign key from "${table.name}" to "${refTable.name}": column counts differ`);
+      return;
+    }
+
+    const column = columns[0]!;
+    const refColumn = refColumns[0]!;
+    const isComposite = columns.length > 1;
+
+    // Column-level foreign keys hold a single column; composite keys live on the relationship only
+    if (!isComposite) {
+      column.foreignKey = {
+        tableId: refTable.id,
+        columnId: refColumn.id,
+        onDelete: fk.onDelete,
+        onUpdate: fk.onUpdate,
+      };
+    }
+
+    const primaryKeyIds = table.columns.filter((c) => c.primaryKey).map((c) => c.id);
+    const coversPrimaryKey =
+      primaryKeyIds.length === columns.length && columns.every((c) => primaryKeyIds.includes(c!.id));
+    const isOneToOne = (!isComposite && column.unique) || coversPrimaryKey;
+    const type: RelationshipType = isOneToOne ? 'one-to-one' : 'many-to-one';
+
+    relationships.push({
+      id: ID_GENERATORS.RELATIONSHIP(),
+      sourceTableId: table.id,
+      // Append handle suffixes to match how canvas-created relationships store column IDs
+      sourceColumnId: `${column.id}-right`,
+      targetTableId: refTable.id,
+      targetColumnId: `${refColumn.id}-left`,
+      sourceColumnIds: isComposite ? columns.map((c) => c!.id) : undefined,
+      targetColumnIds: isComposite ? refColumns.map((c) => c!.id) : undefined,
+      type,
+      name: fk.name,
+      onDelete: fk.onDelete,
+      onUpdate: fk.onUpdate,
+    });
+  });
+
+  return relationships;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function findColumn(table: Table, name: string): Column | undefined {
+  const lower = name.toLowerCase();
+  return table.columns.find((c) => c.name.toLowerCase() === lower);
+}
+
+function markUnique(table: Table, columnName: string): boolean {
+  const column = findColumn(table, columnName);
+  if (!column) return false;
+  column.unique = true;
+  return true;
+}
+
+/**
+ * Adds an index over plain columns to the table. Returns false, adding
+ * nothing, when an entry is an expression or an unknown column.
+ */
+function addIndex(
+  table: Table,
+  columnNames: string[],
+  options: { name?: string; unique: boolean; type?: string; where?: string }
+): boolean {
+  const columns = columnNames.map((name) => findColumn(table, name));
+  if (columns.length === 0 || columns.some((column) => !column)) return false;
+
+  const type = options.type?.toLowerCase() as IndexType | undefined;
+  const index: TableIndex = {
+    id: ID_GENERATORS.INDEX(),
+    name: options.name,
+    columnIds: columns.map((column) => column!.id),
+    unique: options.unique,
+    type: type && INDEX_TYPES.includes(type) ? type : undefined,
+    where: options.where,
+  };
+  table.indexes = [...(table.indexes ?? []), index];
+  return true;
+}
+
+function describeSkippedIndex(table: Table, columnNames: string[], name: string | undefined, isUnique: boolean): string {
+  const kind = isUnique ? 'Unique constraint' : 'Index';
+  const label = name ? ` "${name}"` : '';
+  return `${kind}${label} on "${table.name}" (${columnNames.join(', ')}) is not represented on the canvas and was skipped`;
+}
+
+function warn(ctx: ParseContext, line: number, message: string): void {
+  ctx.warnings.push(`Line ${line}: ${message}`);
+}
+
+function summarize(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  return singleLine.length > 60 ? `${singleLine.slice(0, 57)}...` : singleLine;
+}
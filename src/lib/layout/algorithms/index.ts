@@ -3,3 +3,4 @@ export { hierarchicalLayout }  from './hierarchical';
 export { forceDirectedLayout } from './force-directed';
 export { circularLayout }      from './circular';
 export { warehouseLayout }     from './warehouse';
+export { namespaceLayout }     from './namespace';
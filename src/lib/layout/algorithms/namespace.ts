@@ -0,0 +1,34 @@
+import type { Table } from '@/types/schema';
+import type { LayoutOptions } from '../types';
+import { GAP_X, getDim } from '../constants';
+import { gridLayout } from './grid';
+
+/** Extra space between two namespace blocks, on top of the normal gap */
+const NAMESPACE_GAP = 160;
+
+/**
+ * Namespace Layout — one grid per database schema, placed side by side from
+ * left to right. Tables without a namespace form the first block; the other
+ * blocks follow in alphabetical order.
+ */
+export function namespaceLayout(tables: Table[], opts: LayoutOptions): Table[] {
+  if (!tables.length) return [];
+
+  const groups = new Map<string, Table[]>();
+  for (const table of tables) {
+    const key = table.namespace ?? '';
+    groups.set(key, [...(groups.get(key) ?? []), table]);
+  }
+
+  const result: Table[] = [];
+  let curX = opts.centerOffset.x;
+
+  for (const key of [...groups.keys()].sort((a, b) => a.localeCompare(b))) {
+    const placed = gridLayout(groups.get(key)!, { ...opts, centerOffset: { x: curX, y: opts.centerOffset.y } });
+    const right = Math.max(...placed.map(t => t.position.x + getDim(t, opts.nodeSizes).width));
+    result.push(...placed);
+    curX = right + GAP_X + NAMESPACE_GAP;
+  }
+
+  return result;
+}
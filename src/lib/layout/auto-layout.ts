@@ -7,6 +7,7 @@ import {
   forceDirectedLayout,
   circularLayout,
   warehouseLayout,
+  namespaceLayout,
 } from './algorithms';
 
 /**
@@ -40,6 +41,7 @@ export class AutoLayout {
       case 'force-directed': return forceDirectedLayout(tables, relationships, opts);
       case 'circular':       return circularLayout(tables, relationships, opts);
       case 'warehouse':      return warehouseLayout(tables, relationships, opts);
+      case 'namespace':      return namespaceLayout(tables, opts);
       default:               return forceDirectedLayout(tables, relationships, opts);
     }
   }
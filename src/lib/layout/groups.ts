@@ -0,0 +1,75 @@
+import type { Table, TableGroup } from '@/types/schema';
+import type { LayoutOptions } from './types';
+import { getDim } from './constants';
+import { gridLayout } from './algorithms/grid';
+
+/** Space between a group's border and its tables */
+export const GROUP_PADDING = 32;
+
+/** Room for the group label above its tables */
+export const GROUP_HEADER_HEIGHT = 40;
+
+/** Size of a group without tables */
+export const EMPTY_GROUP_SIZE = { width: 320, height: 160 };
+
+export type GroupBounds = Pick<TableGroup, 'position' | 'width' | 'height'>;
+
+/**
+ * The smallest region that holds all the given tables, with padding and room
+ * for the label. Undefined when there are no tables.
+ */
+export function fitGroupBounds(
+  tables: Table[],
+  nodeSizes?: LayoutOptions['nodeSizes']
+): GroupBounds | undefined {
+  if (!tables.length) return undefined;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const table of tables) {
+    const { width, height } = getDim(table, nodeSizes);
+    minX = Math.min(minX, table.position.x);
+    minY = Math.min(minY, table.position.y);
+    maxX = Math.max(maxX, table.position.x + width);
+    maxY = Math.max(maxY, table.position.y + height);
+  }
+
+  return {
+    position: { x: minX - GROUP_PADDING, y: minY - GROUP_PADDING - GROUP_HEADER_HEIGHT },
+    width: maxX - minX + GROUP_PADDING * 2,
+    height: maxY - minY + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT,
+  };
+}
+
+/**
+ * Arranges the tables of each group in a grid at the group's top-left corner
+ * and shrinks or grows the group to fit. Tables outside groups keep their place.
+ */
+export function layoutWithinGroups(
+  tables: Table[],
+  groups: TableGroup[],
+  nodeSizes?: LayoutOptions['nodeSizes']
+): { tables: Table[]; groups: TableGroup[] } {
+  const placed = new Map<string, Table>();
+
+  const arranged = groups.map((group) => {
+    const members = tables.filter((t) => group.tableIds.includes(t.id));
+    if (!members.length) return group;
+
+    const laidOut = gridLayout(members, {
+      algorithm: 'grid',
+      spacing: { x: 0, y: 0 },
+      centerOffset: {
+        x: group.position.x + GROUP_PADDING,
+        y: group.position.y + GROUP_PADDING + GROUP_HEADER_HEIGHT,
+      },
+      nodeSizes,
+    });
+    laidOut.forEach((t) => placed.set(t.id, t));
+    return { ...group, ...fitGroupBounds(laidOut, nodeSizes) };
+  });
+
+  return {
+    tables: tables.map((t) => placed.get(t.id) ?? t),
+    groups: arranged,
+  };
+}
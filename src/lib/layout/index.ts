@@ -5,10 +5,19 @@ export { AutoLayout }                                from './auto-layout';
 export type { LayoutOptions, GraphNode, GraphEdge }  from './types';
 export { getDim, GAP_X, GAP_Y, MIN_TABLE_WIDTH }     from './constants';
 export { computeRingRadius, removeOverlaps }          from './utils';
+export {
+  fitGroupBounds,
+  layoutWithinGroups,
+  GROUP_PADDING,
+  GROUP_HEADER_HEIGHT,
+  EMPTY_GROUP_SIZE,
+} from './groups';
+export type { GroupBounds }                          from './groups';
 export {
   gridLayout,
   hierarchicalLayout,
   forceDirectedLayout,
   circularLayout,
   warehouseLayout,
+  namespaceLayout,
 } from './algorithms';
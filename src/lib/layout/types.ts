@@ -2,7 +2,7 @@ import type { Table, Relationship } from '@/types/schema';
 
 // ─── Layout Options ────────────────────────────────────────────────────────────
 export interface LayoutOptions {
-  algorithm: 'grid' | 'hierarchical' | 'force-directed' | 'circular' | 'warehouse';
+  algorithm: 'grid' | 'hierarchical' | 'force-directed' | 'circular' | 'warehouse' | 'namespace';
   spacing: { x: number; y: number };
   centerOffset: { x: number; y: number };
   iterations?: number;
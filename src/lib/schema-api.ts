@@ -1,4 +1,6 @@
-import type { Table, Relationship, Schema } from '@/features/schema/types/schema.types';
+import type { Table, Relationship, Enum, TableGroup, StickyNote, Schema } from '@/features/schema/types/schema.types';
+import type { SQLDialect } from '@/constants/schema';
+import type { SchemaPatch, TableLayout, GroupLayout, NoteLayout } from '@/features/schema/utils/schema-patch.utils';
 
 export interface SchemaSummary {
   id: string;
@@ -16,6 +18,14 @@ export interface SchemaVersionSummary {
   createdAt: string;
 }
 
+/**
+ * Outcome of a save: the new server version, or the server copy when the save
+ * was based on a stale version
+ */
+export type SaveResult =
+  | { status: 'saved'; version: number }
+  | { status: 'conflict'; server: Schema };
+
 // Strip React Flow handle suffixes from column IDs
 function stripHandleSuffix(id: string): string {
   if (!id) return id;
@@ -32,20 +42,24 @@ export async function apiGetAllSchemas(): Promise<SchemaSummary[]> {
   return res.json();
 }
 
-export async function apiGetSchemaById(id: string): Promise<Schema> {
-  const res = await fetch(`/api/schemas/${id}`);
-  if (!res.ok) throw new Error('Failed to fetch schema');
-  const data = await res.json();
+// Ensure table positions are properly structured; older payloads used flat positionX/positionY
+function normalizeTable(table: Table & { positionX?: number; positionY?: number }): Table {
+  const position = table.position ?? { x: table.positionX, y: table.positionY };
+  return {
+    ...table,
+    position: { x: position.x || 0, y: position.y || 0 },
+  };
+}
 
+function normalizeSchema(data: Schema): Schema {
   // Convert date strings to Date objects
   data.createdAt = new Date(data.createdAt);
   data.updatedAt = new Date(data.updatedAt);
 
-  // Ensure table positions are properly structured
-  data.tables = data.tables.map((table: any) => ({
-    ...table,
-    position: { x: table.positionX || 0, y: table.positionY || 0 },
-  }));
+  data.tables = data.tables.map(normalizeTable);
+  data.enums = data.enums ?? [];
+  data.groups = data.groups ?? [];
+  data.notes = data.notes ?? [];
 
   // Normalize relationship column IDs - strip React Flow handle suffixes
   data.relationships = data.relationships.map((rel: any) => ({
@@ -57,6 +71,22 @@ export async function apiGetSchemaById(id: string): Promise<Schema> {
   return data;
 }
 
+async function toSaveResult(res: Response, errorMessage: string): Promise<SaveResult> {
+  if (res.status === 409) {
+    const data = await res.json();
+    return { status: 'conflict', server: normalizeSchema(data.schema) };
+  }
+  if (!res.ok) throw new Error(errorMessage);
+  const data = await res.json();
+  return { status: 'saved', version: data.version };
+}
+
+export async function apiGetSchemaById(id: string): Promise<Schema> {
+  const res = await fetch(`/api/schemas/${id}`);
+  if (!res.ok) throw new Error('Failed to fetch schema');
+  return normalizeSchema(await res.json());
+}
+
 export async function apiCreateSchema(name: string, description?: string): Promise<string> {
   const res = await fetch('/api/schemas', {
     method: 'POST',
@@ -72,9 +102,14 @@ export async function apiSaveSchema(schema: {
   id: string;
   name: string;
   description?: string;
+  databaseType?: SQLDialect;
   tables: Table[];
   relationships: Relationship[];
-}): Promise<void> {
+  enums?: Enum[];
+  groups?: TableGroup[];
+  notes?: StickyNote[];
+  baseVersion?: number;
+}): Promise<SaveResult> {
   const res = await fetch(`/api/schemas/${schema.id}`, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json' },
@@ -92,12 +127,47 @@ export async function apiSaveSchema(schema: {
       })),
     }),
   });
-  if (!res.ok) throw new Error('Failed to save schema');
+  return toSaveResult(res, 'Failed to save schema');
+}
+
+export async function apiPatchSchema(
+  id: string,
+  patch: SchemaPatch,
+  baseVersion?: number
+): Promise<SaveResult> {
+  const res = await fetch(`/api/schemas/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ...patch,
+      baseVersion,
+      upsertRelationships: patch.upsertRelationships.map((r) => ({
+        ...r,
+        sourceColumnId: stripHandleSuffix(r.sourceColumnId),
+        targetColumnId: stripHandleSuffix(r.targetColumnId),
+      })),
+    }),
+  });
+  return toSaveResult(res, 'Failed to save schema changes');
+}
+
+export async function apiSaveLayout(
+  id: string,
+  tables: TableLayout[],
+  groups: GroupLayout[] = [],
+  notes: NoteLayout[] = [],
+): Promise<void> {
+  const res = await fetch(`/api/schemas/${id}/layout`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ tables, groups, notes }),
+  });
+  if (!res.ok) throw new Error('Failed to save layout');
 }
 
 export async function apiUpdateSchemaMetadata(
   id: string,
-  updates: { name?: string; description?: string }
+  updates: { name?: string; description?: string | null; databaseType?: SQLDialect | null }
 ): Promise<void> {
   const res = await fetch(`/api/schemas/${id}`, {
     method: 'PUT',
@@ -131,6 +201,26 @@ export async function apiGetVersions(schemaId: string): Promise<SchemaVersionSum
   return res.json();
 }
 
+export async function apiGetVersion(schemaId: string, versionId: string): Promise<Omit<SchemaVersionSummary, 'createdAt'> & {
+  tables: Table[];
+  relationships: Relationship[];
+  enums: Enum[];
+  groups: TableGroup[];
+  notes: StickyNote[];
+}> {
+  const res = await fetch(`/api/schemas/${schemaId}/versions/${versionId}`);
+  if (!res.ok) throw new Error('Failed to fetch schema version');
+  const data = await res.json();
+
+  data.relationships = (data.relationships || []).map((rel: Relationship) => ({
+    ...rel,
+    sourceColumnId: stripHandleSuffix(rel.sourceColumnId),
+    targetColumnId: stripHandleSuffix(rel.targetColumnId),
+  }));
+
+  return data;
+}
+
 export async function apiCreateVersion(schemaId: string, label?: string): Promise<string> {
   const res = await fetch(`/api/schemas/${schemaId}/versions`, {
     method: 'POST',
@@ -145,8 +235,13 @@ export async function apiCreateVersion(schemaId: string, label?: string): Promis
 export async function apiRestoreVersion(schemaId: string, versionId: string): Promise<{
   success: boolean;
   newVersionId: string;
+  version: number;
+  databaseType?: SQLDialect;
   tables: Table[];
   relationships: Relationship[];
+  enums: Enum[];
+  groups: TableGroup[];
+  notes: StickyNote[];
 }> {
   const res = await fetch(`/api/schemas/${schemaId}/versions/${versionId}`, {
     method: 'POST',
@@ -159,11 +254,12 @@ export async function apiRestoreVersion(schemaId: string, versionId: string): Pr
   
   // Normalize data like we do in apiGetSchemaById
   if (data.tables) {
-    data.tables = data.tables.map((table: any) => ({
-      ...table,
-      position: { x: table.positionX || 0, y: table.positionY || 0 },
-    }));
+    data.tables = data.tables.map(normalizeTable);
   }
+  data.databaseType = data.databaseType ?? undefined;
+  data.enums = data.enums ?? [];
+  data.groups = data.groups ?? [];
+  data.notes = data.notes ?? [];
   
   if (data.relationships) {
     data.relationships = data.relationships.map((rel: any) => ({
@@ -175,3 +271,17 @@ export async function apiRestoreVersion(schemaId: string, versionId: string): Pr
   
   return data;
 }
+
+export async function apiGetMigrationSql(
+  schemaId: string,
+  versionId: string,
+  options: { to?: string; dialect?: SQLDialect } = {}
+): Promise<{ sql: string; hasChanges: boolean }> {
+  const query = new URLSearchParams({
+    to: options.to || 'current',
+    dialect: options.dialect || 'postgresql',
+  });
+  const res = await fetch(`/api/schemas/${schemaId}/versions/${versionId}/migration?${query}`);
+  if (!res.ok) throw new Error('Failed to generate migration SQL');
+  return res.json();
+}
@@ -8,10 +8,17 @@ import { SQLDialect } from '@/constants/schema';
 // Re-export from the new modular types for backward compatibility
 export type {
   Column,
+  ColumnTypeParams,
   ForeignKey,
   Table,
   Relationship,
+  Enum,
+  EnumValue,
+  TableIndex,
+  TableGroup,
+  StickyNote,
   Schema,
+  SchemaProject,
   SchemaNode,
   SchemaEdge,
 } from '@/features/schema/types/schema.types';
@@ -20,6 +27,7 @@ export type {
 export type {
   ColumnType,
   RelationshipType,
+  IndexType,
   SQLDialect,
   ExportFormat
 } from '@/constants/schema';